@@ -8,6 +8,8 @@ import {
   MILLISECONDS_PER_YEAR,
   TimeUnit
 } from './constants.js';
+import type { BusinessConfig, HolidayCalendarRef } from './types.js';
+import { isPublicHoliday } from './holidays.js';
 
 /**
  * Calculate difference between two dates in specified unit
@@ -232,14 +234,27 @@ export function isBetween(date: Date, start: Date, end: Date, inclusive: boolean
  * Get the number of business days between two dates (excludes weekends)
  * @param startDate - start date
  * @param endDate - end date
+ * @param config - trading days, custom holidays and holiday calendars to exclude (optional)
+ * @example
+ * businessDaysBetween(new Date(2024, 11, 23), new Date(2025, 0, 3), { country: 'DE' }) // 7
  */
-export function businessDaysBetween(startDate: Date, endDate: Date): number {
+export function businessDaysBetween(startDate: Date, endDate: Date, config: BusinessConfig = {}): number {
+  const tradingDays = config.tradingDays ?? [1, 2, 3, 4, 5];
+  const calendars: HolidayCalendarRef[] = [
+    ...(config.country ? [{ country: config.country, subdivision: config.subdivision }] : []),
+    ...(config.holidayCalendars ?? [])
+  ];
+  const customHolidays = new Set((config.holidays ?? []).map(holiday => holiday.toDateString()));
+
   let count = 0;
   const current = new Date(startDate);
   
   while (current <= endDate) {
-    const dayOfWeek = current.getDay();
-    if (dayOfWeek !== 0 && dayOfWeek !== 6) { // Not Sunday (0) or Saturday (6)
+    if (
+      tradingDays.includes(current.getDay()) &&
+      !customHolidays.has(current.toDateString()) &&
+      !(calendars.length > 0 && isPublicHoliday(current, calendars))
+    ) {
       count++;
     }
     current.setDate(current.getDate() + 1);
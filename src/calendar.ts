@@ -2,6 +2,8 @@
  * Calendar and holiday utilities
  */
 
+import { getHolidays } from './holidays.js';
+
 /**
  * Get the week number of the year (ISO 8601)
  * @param date - date to get week number for
@@ -250,6 +252,14 @@ export function getMemorialDay(year: number): Date | null {
   return getNthDayOfMonth(year, 4, 1, -1);
 }
 
+/**
+ * Get Juneteenth (June 19th)
+ * @param year - year
+ */
+export function getJuneteenth(year: number): Date {
+  return new Date(year, 5, 19);
+}
+
 /**
  * Get Independence Day (July 4th)
  * @param year - year
@@ -310,39 +320,13 @@ export function getGoodFriday(year: number): Date {
 }
 
 /**
- * Get all US federal holidays for a year
+ * Get all US federal holidays for a year, as observed in that year (see getHolidays() with 'US'):
+ * holidays start in the year they were created, dates before the Uniform Monday Holiday Act
+ * of 1971 fall on their original days, and presidential days of mourning are included
  * @param year - year
  */
 export function getUSHolidays(year: number): USHoliday[] {
-  const holidays: USHoliday[] = [];
-  
-  holidays.push({ name: "New Year's Day", date: getNewYearsDay(year), type: 'federal' });
-  
-  const mlk = getMLKDay(year);
-  if (mlk) holidays.push({ name: "Martin Luther King Jr. Day", date: mlk, type: 'federal' });
-  
-  const presidents = getPresidentsDay(year);
-  if (presidents) holidays.push({ name: "Presidents' Day", date: presidents, type: 'federal' });
-  
-  const memorial = getMemorialDay(year);
-  if (memorial) holidays.push({ name: "Memorial Day", date: memorial, type: 'federal' });
-  
-  holidays.push({ name: "Independence Day", date: getIndependenceDay(year), type: 'federal' });
-  
-  const labor = getLaborDay(year);
-  if (labor) holidays.push({ name: "Labor Day", date: labor, type: 'federal' });
-  
-  const columbus = getColumbusDay(year);
-  if (columbus) holidays.push({ name: "Columbus Day", date: columbus, type: 'federal' });
-  
-  holidays.push({ name: "Veterans Day", date: getVeteransDay(year), type: 'federal' });
-  
-  const thanksgiving = getThanksgivingDay(year);
-  if (thanksgiving) holidays.push({ name: "Thanksgiving Day", date: thanksgiving, type: 'federal' });
-  
-  holidays.push({ name: "Christmas Day", date: getChristmasDay(year), type: 'federal' });
-  
-  return holidays.sort((a, b) => a.date.getTime() - b.date.getTime());
+  return getHolidays(year, 'US').map(holiday => ({ name: holiday.name, date: holiday.date, type: 'federal' }));
 }
 
 /**
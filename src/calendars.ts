@@ -1,8 +1,12 @@
 /**
  * @fileoverview Non-Gregorian calendar conversions using Intl.DateTimeFormat
- * Supports Hebrew, Islamic, Buddhist, Japanese, Persian, and Chinese calendars
+ * Supports Hebrew, Islamic, Buddhist, Japanese, Persian, and Chinese calendars.
+ * The Chinese calendar uses bundled almanac tables for 1900-2100, the Umm al-Qura calendar a
+ * bundled 1300-1600 AH table, and the Persian calendar the astronomical March equinox.
  */
 
+import { MILLISECONDS_PER_DAY } from './constants.js';
+
 export interface CalendarDate {
   year: number;
   month: number;
@@ -15,8 +19,17 @@ export interface HebrewDate extends CalendarDate {
   calendar: 'hebrew';
 }
 
+/**
+ * Islamic calendar variants:
+ * - 'islamic-umalqura': Saudi Arabia's official Umm al-Qura calendar (tabulated for 1300-1600 AH, civil outside)
+ * - 'islamic-civil': tabular calendar counted from Friday, July 16, 622 (Julian)
+ * - 'islamic-tbla': tabular calendar counted from Thursday, July 15, 622 (Julian)
+ * - 'islamic': the runtime's astronomical approximation via Intl
+ */
+export type IslamicCalendarVariant = 'islamic' | 'islamic-umalqura' | 'islamic-civil' | 'islamic-tbla';
+
 export interface IslamicDate extends CalendarDate {
-  calendar: 'islamic' | 'islamic-umalqura' | 'islamic-civil';
+  calendar: IslamicCalendarVariant;
 }
 
 export interface BuddhistDate extends CalendarDate {
@@ -35,6 +48,17 @@ export interface PersianDate extends CalendarDate {
 export interface ChineseDate extends CalendarDate {
   calendar: 'chinese';
   cycleYear?: number; // Year in 60-year cycle
+  /** Whether the month is a leap (intercalary) month repeating the previous month number */
+  isLeapMonth?: boolean;
+}
+
+/** Options for Chinese lunisolar calendar conversions */
+export interface ChineseCalendarOptions {
+  /**
+   * Whose almanac to follow (default: 'CN'). Korea computes new moons in Korea Standard Time,
+   * so its months occasionally start a day later and its leap months can differ.
+   */
+  country?: 'CN' | 'KR';
 }
 
 export type CalendarType =
@@ -42,28 +66,41 @@ export type CalendarType =
   | 'islamic'
   | 'islamic-umalqura'
   | 'islamic-civil'
+  | 'islamic-tbla'
   | 'buddhist'
   | 'japanese'
   | 'persian'
   | 'chinese';
 
+const calendarFormatters = new Map<CalendarType, { numeric: Intl.DateTimeFormat; era: Intl.DateTimeFormat }>();
+
+function getCalendarFormatters(calendar: CalendarType): { numeric: Intl.DateTimeFormat; era: Intl.DateTimeFormat } {
+  let formatters = calendarFormatters.get(calendar);
+  if (!formatters) {
+    formatters = {
+      numeric: new Intl.DateTimeFormat('en-u-ca-' + calendar + '-nu-latn', {
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+      }),
+      era: new Intl.DateTimeFormat('en-u-ca-' + calendar, {
+        era: 'short',
+      }),
+    };
+    calendarFormatters.set(calendar, formatters);
+  }
+  return formatters;
+}
+
 /**
  * Extracts calendar date parts using Intl.DateTimeFormat
  */
 function extractCalendarParts(date: Date, calendar: CalendarType): CalendarDate {
-  // First get numeric values where possible
-  const numericFormatter = new Intl.DateTimeFormat('en-u-ca-' + calendar + '-nu-latn', {
-    year: 'numeric',
-    month: 'numeric',
-    day: 'numeric',
-  });
+  const { numeric, era } = getCalendarFormatters(calendar);
 
-  const eraFormatter = new Intl.DateTimeFormat('en-u-ca-' + calendar, {
-    era: 'short',
-  });
-
-  const numericParts = numericFormatter.formatToParts(date);
-  const eraParts = eraFormatter.formatToParts(date);
+  // First get numeric values where possible
+  const numericParts = numeric.formatToParts(date);
+  const eraParts = era.formatToParts(date);
 
   const result: CalendarDate = {
     year: 0,
@@ -147,6 +184,65 @@ function getMonthIndexFromName(monthName: string, calendar: CalendarType): numbe
   return 0;
 }
 
+/** Year, month and day of a date in any calendar */
+type CalendarDateFields = Pick<CalendarDate, 'year' | 'month' | 'day'>;
+
+function compareFields(a: CalendarDateFields, b: CalendarDateFields): number {
+  return a.year - b.year || a.month - b.month || a.day - b.day;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Finds the local midnight on which an Intl calendar shows the target date.
+ * Jumps by estimated distance first, then walks day by day, so dates that do not
+ * exist (such as Adar II in a common year) are detected when the walk steps over them.
+ */
+function findCalendarDate(
+  target: CalendarDateFields,
+  calendar: CalendarType,
+  estimate: Date,
+  yearDays: number,
+  monthDays: number
+): Date | null {
+  const { year, month, day } = target;
+  if (![year, month, day].every(Number.isInteger) || month < 1 || month > 13 || day < 1 || day > 31) return null;
+
+  let date = new Date(estimate.getFullYear(), estimate.getMonth(), estimate.getDate());
+  for (let i = 0; i < 8; i++) {
+    const current = extractCalendarParts(date, calendar);
+    const distance = Math.round(
+      (year - current.year) * yearDays + (month - current.month) * monthDays + (day - current.day)
+    );
+    if (Math.abs(distance) <= 1) break;
+    date = addDays(date, distance);
+  }
+
+  const direction = compareFields(extractCalendarParts(date, calendar), target) < 0 ? 1 : -1;
+  for (let i = 0; i < 90; i++) {
+    const order = compareFields(extractCalendarParts(date, calendar), target);
+    if (order === 0) return date;
+    if (Math.sign(order) === direction) return null;
+    date = addDays(date, direction);
+  }
+
+  return null;
+}
+
+/** A Gregorian date at local midnight, or null when the fields overflow */
+function fromGregorianFields(year: number, month: number, day: number): Date | null {
+  if (![year, month, day].every(Number.isInteger)) return null;
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+/** 'Shōwa', 'showa' and 'Showa' all match */
+function normalizeEraName(name: string): string {
+  return name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
 /**
  * Convert Gregorian date to Hebrew calendar
  * @example toHebrewDate(new Date('2024-03-25')) // { year: 5784, month: 6, day: 15, calendar: 'hebrew' }
@@ -155,17 +251,133 @@ export function toHebrewDate(date: Date): HebrewDate {
   return extractCalendarParts(date, 'hebrew') as HebrewDate;
 }
 
+/**
+ * Convert a Hebrew calendar date to a Gregorian date at local midnight
+ * @param hebrewDate - Hebrew year, month (1 = Tishrei, 6 = Adar or Adar I, 7 = Adar II, 13 = Elul) and day
+ * @returns the date, or null when the date does not exist (such as Adar II in a common year)
+ * @example fromHebrewDate({ year: 5784, month: 8, day: 15 }) // 2024-04-23 (Passover)
+ */
+export function fromHebrewDate(hebrewDate: Pick<HebrewDate, 'year' | 'month' | 'day'>): Date | null {
+  const estimate = new Date(hebrewDate.year - 3761, 8, 15 + (hebrewDate.month - 1) * 29.5 + hebrewDate.day - 1);
+  return findCalendarDate(hebrewDate, 'hebrew', estimate, 365.25, 29.5);
+}
+
+/**
+ * Umm al-Qura years 1300-1600 AH (1882-2174). Bits 11-0 flag 30-day months 1-12 (bit 11 is Muharram).
+ */
+const UMALQURA_YEAR_DATA = [
+  0xaaa, 0xd54, 0xec9, 0x6d4, 0x6ea, 0x36c, 0xaad, 0x555, 0x6a9, 0x792,
+  0xba9, 0x5d4, 0xada, 0x55c, 0xd2d, 0x695, 0x74a, 0xb54, 0xb6a, 0x5ad,
+  0x4ae, 0xa4f, 0x517, 0x68b, 0x6a5, 0xad5, 0x2d6, 0x95b, 0x49d, 0xa4d,
+  0xd26, 0xd95, 0x5ac, 0x9b6, 0x2ba, 0xa5b, 0x52b, 0xa95, 0x6ca, 0xae9,
+  0x2f4, 0x976, 0x2b6, 0x956, 0xaca, 0xba4, 0xbd2, 0x5d9, 0x2dc, 0x96d,
+  0x54d, 0xaa5, 0xb52, 0xba5, 0x5b4, 0x9b6, 0x557, 0x297, 0x54b, 0x6a3,
+  0x752, 0xb65, 0x56a, 0xaab, 0x52b, 0xc95, 0xd4a, 0xda5, 0x5ca, 0xad6,
+  0x957, 0x4ab, 0x94b, 0xaa5, 0xb52, 0xb6a, 0x575, 0x276, 0x8b7, 0x45b,
+  0x555, 0x5a9, 0x5b4, 0x9da, 0x4dd, 0x26e, 0x936, 0xaaa, 0xd54, 0xdb2,
+  0x5d5, 0x2da, 0x95b, 0x4ab, 0xa55, 0xb49, 0xb64, 0xb71, 0x5b4, 0xab5,
+  0xa55, 0xd25, 0xe92, 0xec9, 0x6d4, 0xae9, 0x96b, 0x4ab, 0xa93, 0xd49,
+  0xda4, 0xdb2, 0xab9, 0x4ba, 0xa5b, 0x52b, 0xa95, 0xb2a, 0xb55, 0x55c,
+  0x4bd, 0x23d, 0x91d, 0xa95, 0xb4a, 0xb5a, 0x56d, 0x2b6, 0x93b, 0x49b,
+  0x655, 0x6a9, 0x754, 0xb6a, 0x56c, 0xaad, 0x555, 0xb29, 0xb92, 0xba9,
+  0x5d4, 0xada, 0x55a, 0xaab, 0x595, 0x749, 0x764, 0xbaa, 0x5b5, 0x2b6,
+  0xa56, 0xe4d, 0xb25, 0xb52, 0xb6a, 0x5ad, 0x2ae, 0x92f, 0x497, 0x64b,
+  0x6a5, 0x6ac, 0xad6, 0x55d, 0x49d, 0xa4d, 0xd16, 0xd95, 0x5aa, 0x5b5,
+  0x2da, 0x95b, 0x4ad, 0x595, 0x6ca, 0x6e4, 0xaea, 0x4f5, 0x2b6, 0x956,
+  0xaaa, 0xb54, 0xbd2, 0x5d9, 0x2ea, 0x96d, 0x4ad, 0xa95, 0xb4a, 0xba5,
+  0x5b2, 0x9b5, 0x4d6, 0xa97, 0x547, 0x693, 0x749, 0xb55, 0x56a, 0xa6b,
+  0x52b, 0xa8b, 0xd46, 0xda3, 0x5ca, 0xad6, 0x4db, 0x26b, 0x94b, 0xaa5,
+  0xb52, 0xb69, 0x575, 0x176, 0x8b7, 0x25b, 0x52b, 0x565, 0x5b4, 0x9da,
+  0x4ed, 0x16d, 0x8b6, 0xaa6, 0xd52, 0xda9, 0x5d4, 0xada, 0x95b, 0x4ab,
+  0x653, 0x729, 0x762, 0xba9, 0x5b2, 0xab5, 0x555, 0xb25, 0xd92, 0xec9,
+  0x6d2, 0xae9, 0x56b, 0x4ab, 0xa55, 0xd29, 0xd54, 0xdaa, 0x9b5, 0x4ba,
+  0xa3b, 0x49b, 0xa4d, 0xaaa, 0xad5, 0x2da, 0x95d, 0x45e, 0xa2e, 0xc9a,
+  0xd55, 0x6b2, 0x6b9, 0x4ba, 0xa5d, 0x52d, 0xa95, 0xb52, 0xba8, 0xbb4,
+  0x5b9, 0x2da, 0x95a, 0xb4a, 0xda4, 0xed1, 0x6e8, 0xb6a, 0x56d, 0x535,
+  0x695, 0xd4a, 0xda8, 0xdd4, 0x6da, 0x55b, 0x29d, 0x62b, 0xb15, 0xb4a,
+  0xb95, 0x5aa, 0xaae, 0x92e, 0xc8f, 0x527, 0x695, 0x6aa, 0xad6, 0x55d,
+  0x29d,
+];
+
+const UMALQURA_FIRST_YEAR = 1300;
+const UMALQURA_LAST_YEAR = 1600;
+/** 1 Muharram 1300 (November 12, 1882) */
+const UMALQURA_EPOCH_DAY = Date.UTC(1882, 10, 12) / MILLISECONDS_PER_DAY;
+/** 1 Muharram 1 AH of the civil calendar (July 16, 622 Julian); the 'islamic-tbla' epoch is a day earlier */
+const ISLAMIC_CIVIL_EPOCH_DAY = Date.UTC(622, 6, 19) / MILLISECONDS_PER_DAY;
+
+let umalquraNewYearDays: number[] | undefined;
+
+/** First day and month lengths of an Islamic year in a tabulated or tabular variant */
+function getIslamicYear(year: number, variant: Exclude<IslamicCalendarVariant, 'islamic'>): { start: number; months: number[] } {
+  if (variant === 'islamic-umalqura' && year >= UMALQURA_FIRST_YEAR && year <= UMALQURA_LAST_YEAR) {
+    if (!umalquraNewYearDays) {
+      umalquraNewYearDays = [UMALQURA_EPOCH_DAY];
+      for (const info of UMALQURA_YEAR_DATA) {
+        umalquraNewYearDays.push(umalquraNewYearDays[umalquraNewYearDays.length - 1] + getUmalquraMonths(info).reduce((a, b) => a + b));
+      }
+    }
+    const index = year - UMALQURA_FIRST_YEAR;
+    return { start: umalquraNewYearDays[index], months: getUmalquraMonths(UMALQURA_YEAR_DATA[index]) };
+  }
+
+  // 11 leap years in each 30-year cycle add a day to Dhu al-Hijjah
+  const epoch = variant === 'islamic-tbla' ? ISLAMIC_CIVIL_EPOCH_DAY - 1 : ISLAMIC_CIVIL_EPOCH_DAY;
+  const start = epoch + (year - 1) * 354 + Math.floor((3 + 11 * year) / 30);
+  const isLeapYear = (((14 + 11 * year) % 30) + 30) % 30 < 11;
+  const months = Array.from({ length: 12 }, (_, i) => (i % 2 === 0 || (i === 11 && isLeapYear) ? 30 : 29));
+  return { start, months };
+}
+
+function getUmalquraMonths(info: number): number[] {
+  return Array.from({ length: 12 }, (_, i) => (info & (0x800 >> i) ? 30 : 29));
+}
+
 /**
  * Convert Gregorian date to Islamic calendar (default: islamic-umalqura)
  * @param date - Date to convert
- * @param variant - Islamic calendar variant: 'islamic', 'islamic-umalqura', 'islamic-civil'
+ * @param variant - Islamic calendar variant: 'islamic-umalqura', 'islamic-civil', 'islamic-tbla' or 'islamic'
  * @example toIslamicDate(new Date('2024-03-25')) // { year: 1445, month: 9, day: 15, calendar: 'islamic-umalqura' }
  */
-export function toIslamicDate(
-  date: Date,
-  variant: 'islamic' | 'islamic-umalqura' | 'islamic-civil' = 'islamic-umalqura'
-): IslamicDate {
-  return extractCalendarParts(date, variant) as IslamicDate;
+export function toIslamicDate(date: Date, variant: IslamicCalendarVariant = 'islamic-umalqura'): IslamicDate {
+  if (variant === 'islamic') {
+    return extractCalendarParts(date, variant) as IslamicDate;
+  }
+
+  const dayNumber = toDayNumber(date);
+  let year = Math.floor(((dayNumber - ISLAMIC_CIVIL_EPOCH_DAY) * 30) / 10631) + 1;
+  while (getIslamicYear(year, variant).start > dayNumber) year--;
+  while (getIslamicYear(year + 1, variant).start <= dayNumber) year++;
+
+  const { start, months } = getIslamicYear(year, variant);
+  let day = dayNumber - start;
+  let month = 1;
+  while (day >= months[month - 1]) day -= months[month++ - 1];
+  return { year, month, day: day + 1, era: 'AH', calendar: variant };
+}
+
+/**
+ * Convert an Islamic calendar date to a Gregorian date at local midnight
+ * @param islamicDate - Islamic year, month and day; its `calendar` selects the variant when set
+ * @param variant - Islamic calendar variant (default: the date's `calendar`, or 'islamic-umalqura')
+ * @returns the date, or null when the date does not exist
+ * @example fromIslamicDate({ year: 1445, month: 10, day: 1 }) // 2024-04-10 (Eid al-Fitr)
+ */
+export function fromIslamicDate(
+  islamicDate: Pick<IslamicDate, 'year' | 'month' | 'day'> & { calendar?: IslamicDate['calendar'] },
+  variant: IslamicCalendarVariant = islamicDate.calendar ?? 'islamic-umalqura'
+): Date | null {
+  const { year, month, day } = islamicDate;
+  if (variant === 'islamic') {
+    // 1 Muharram 1 AH was July 19, 622 (proleptic Gregorian)
+    const estimate = new Date(622, 6, 19 + Math.round((year - 1) * 354.367 + (month - 1) * 29.53 + day - 1));
+    return findCalendarDate(islamicDate, variant, estimate, 354.367, 29.53);
+  }
+
+  if (![year, month, day].every(Number.isInteger) || month < 1 || month > 12 || day < 1) return null;
+  const { start, months } = getIslamicYear(year, variant);
+  if (day > months[month - 1]) return null;
+  return fromDayNumber(start + months.slice(0, month - 1).reduce((a, b) => a + b, 0) + day - 1);
 }
 
 /**
@@ -177,6 +389,16 @@ export function toBuddhistDate(date: Date): BuddhistDate {
   return extractCalendarParts(date, 'buddhist') as BuddhistDate;
 }
 
+/**
+ * Convert a Buddhist (Thai solar) calendar date to a Gregorian date at local midnight
+ * @param buddhistDate - Buddhist Era year, month and day
+ * @returns the date, or null when the date does not exist
+ * @example fromBuddhistDate({ year: 2567, month: 3, day: 25 }) // 2024-03-25
+ */
+export function fromBuddhistDate(buddhistDate: Pick<BuddhistDate, 'year' | 'month' | 'day'>): Date | null {
+  return fromGregorianFields(buddhistDate.year - 543, buddhistDate.month, buddhistDate.day);
+}
+
 /**
  * Convert Gregorian date to Japanese calendar with era
  * @example toJapaneseDate(new Date('2024-03-25')) // { year: 6, month: 3, day: 25, era: 'Reiwa', calendar: 'japanese' }
@@ -195,22 +417,367 @@ export function toJapaneseDate(date: Date): JapaneseDate {
   return result;
 }
 
+/**
+ * Convert a Japanese era date to a Gregorian date at local midnight
+ * @param japaneseDate - era name (such as 'Reiwa' or 'Shōwa'), year of the era, month and day
+ * @returns the date, or null for unknown eras and dates outside the era
+ * @example fromJapaneseDate({ era: 'Reiwa', year: 6, month: 3, day: 25 }) // 2024-03-25
+ */
+export function fromJapaneseDate(japaneseDate: Pick<JapaneseDate, 'era' | 'year' | 'month' | 'day'>): Date | null {
+  const eras = getJapaneseEras();
+  const index = eras.findIndex(era => normalizeEraName(era.name) === normalizeEraName(japaneseDate.era));
+  if (index === -1) return null;
+
+  const { start } = eras[index];
+  const date = fromGregorianFields(start.getFullYear() + japaneseDate.year - 1, japaneseDate.month, japaneseDate.day);
+  const end = eras[index + 1]?.start;
+  if (!date || date < start || (end && date >= end)) return null;
+  return date;
+}
+
+/** Periodic terms (amplitude, phase, speed) correcting the mean March equinox, from Meeus ch. 27 */
+const EQUINOX_TERMS = [
+  [485, 324.96, 1934.136], [203, 337.23, 32964.467], [199, 342.08, 20.186], [182, 27.85, 445267.112],
+  [156, 73.14, 45036.886], [136, 171.52, 22518.443], [77, 222.54, 65928.934], [74, 296.72, 3034.906],
+  [70, 243.58, 9037.513], [58, 119.81, 33718.147], [52, 297.17, 150.678], [50, 21.02, 2281.226],
+  [45, 247.54, 29929.562], [44, 325.15, 31555.956], [29, 60.93, 4443.417], [18, 155.12, 67555.328],
+  [17, 288.79, 4562.452], [16, 198.04, 62894.029], [14, 199.76, 31436.921], [12, 95.39, 14577.848],
+  [12, 287.11, 31931.756], [12, 320.81, 34777.259], [9, 227.73, 1222.114], [8, 15.45, 16859.074],
+];
+
+/** Julian Day of the Unix epoch */
+const UNIX_EPOCH_JULIAN_DAY = 2440587.5;
+/** Tehran's 52.5°E meridian, which the Iranian calendar uses, as a fraction of a day */
+const TEHRAN_MERIDIAN_OFFSET = 52.5 / 360;
+
+const persianNewYearDays = new Map<number, number>();
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/** Julian Day (UT) of the March equinox for years -1000 to 3000, accurate to about a minute near the present */
+function getMarchEquinox(gregorianYear: number): number {
+  const y = gregorianYear < 1000 ? gregorianYear / 1000 : (gregorianYear - 2000) / 1000;
+  const mean = gregorianYear < 1000
+    ? 1721139.29189 + 365242.1374 * y + 0.06134 * y ** 2 + 0.00111 * y ** 3 - 0.00071 * y ** 4
+    : 2451623.80984 + 365242.37404 * y + 0.05169 * y ** 2 - 0.00411 * y ** 3 - 0.00057 * y ** 4;
+  const t = (mean - 2451545) / 36525;
+  const w = toRadians(35999.373 * t - 2.47);
+  const lambda = 1 + 0.0334 * Math.cos(w) + 0.0007 * Math.cos(2 * w);
+  const sum = EQUINOX_TERMS.reduce((total, [a, b, c]) => total + a * Math.cos(toRadians(b + c * t)), 0);
+  return mean + (0.00001 * sum) / lambda - getDeltaT(gregorianYear) / 86400;
+}
+
+/** Difference between terrestrial and universal time in seconds (Espenak and Meeus polynomials) */
+function getDeltaT(year: number): number {
+  const u = (year - 1820) / 100;
+  if (year < 1900 || year >= 2150) return -20 + 32 * u * u;
+  if (year < 1920) {
+    const t = year - 1900;
+    return -2.79 + 1.494119 * t - 0.0598939 * t ** 2 + 0.0061966 * t ** 3 - 0.000197 * t ** 4;
+  }
+  if (year < 1941) {
+    const t = year - 1920;
+    return 21.2 + 0.84493 * t - 0.0761 * t ** 2 + 0.0020936 * t ** 3;
+  }
+  if (year < 1961) {
+    const t = year - 1950;
+    return 29.07 + 0.407 * t - t ** 2 / 233 + t ** 3 / 2547;
+  }
+  if (year < 1986) {
+    const t = year - 1975;
+    return 45.45 + 1.067 * t - t ** 2 / 260 - t ** 3 / 718;
+  }
+  if (year < 2005) {
+    const t = year - 2000;
+    return 63.86 + 0.3345 * t - 0.060374 * t ** 2 + 0.0017275 * t ** 3 + 0.000651814 * t ** 4 + 0.00002373599 * t ** 5;
+  }
+  if (year < 2050) {
+    const t = year - 2000;
+    return 62.92 + 0.32217 * t + 0.005589 * t ** 2;
+  }
+  return -20 + 32 * u * u - 0.5628 * (2150 - year);
+}
+
+/** Apparent minus mean solar time, in days */
+function getEquationOfTime(julianDay: number): number {
+  const t = (julianDay - 2451545) / 36525;
+  const meanLongitude = toRadians(280.46646 + 36000.76983 * t);
+  const meanAnomaly = toRadians(357.52911 + 35999.05029 * t);
+  const eccentricity = 0.016708634 - 0.000042037 * t;
+  const y = Math.tan(toRadians(23.439291 - 0.0130042 * t) / 2) ** 2;
+  const radians =
+    y * Math.sin(2 * meanLongitude) -
+    2 * eccentricity * Math.sin(meanAnomaly) +
+    4 * eccentricity * y * Math.sin(meanAnomaly) * Math.cos(2 * meanLongitude) -
+    0.5 * y * y * Math.sin(4 * meanLongitude) -
+    1.25 * eccentricity * eccentricity * Math.sin(2 * meanAnomaly);
+  return radians / (2 * Math.PI);
+}
+
+/**
+ * Day number of Nowruz (1 Farvardin): the day of the March equinox when it comes before
+ * apparent noon on Tehran's meridian, otherwise the day after
+ */
+function getPersianNewYearDay(persianYear: number): number {
+  let day = persianNewYearDays.get(persianYear);
+  if (day === undefined) {
+    const equinox = getMarchEquinox(persianYear + 621) - UNIX_EPOCH_JULIAN_DAY + TEHRAN_MERIDIAN_OFFSET;
+    const equinoxDay = Math.floor(equinox);
+    const apparentNoon = 0.5 - getEquationOfTime(equinox + UNIX_EPOCH_JULIAN_DAY);
+    day = equinox - equinoxDay < apparentNoon ? equinoxDay : equinoxDay + 1;
+    persianNewYearDays.set(persianYear, day);
+  }
+  return day;
+}
+
 /**
  * Convert Gregorian date to Persian (Jalali/Solar Hijri) calendar
+ *
+ * Years start on Nowruz as determined astronomically by the official Iranian rule,
+ * rather than by an arithmetic leap-year cycle.
  * @example toPersianDate(new Date('2024-03-20')) // { year: 1403, month: 1, day: 1, calendar: 'persian' }
  */
 export function toPersianDate(date: Date): PersianDate {
-  return extractCalendarParts(date, 'persian') as PersianDate;
+  const dayNumber = toDayNumber(date);
+  let year = date.getFullYear() - 621;
+  if (dayNumber < getPersianNewYearDay(year)) year--;
+
+  const dayOfYear = dayNumber - getPersianNewYearDay(year);
+  const month = dayOfYear < 186 ? Math.floor(dayOfYear / 31) + 1 : Math.floor((dayOfYear - 186) / 30) + 7;
+  const day = dayOfYear < 186 ? (dayOfYear % 31) + 1 : ((dayOfYear - 186) % 30) + 1;
+  return { year, month, day, era: 'AP', calendar: 'persian' };
+}
+
+/**
+ * Convert a Persian (Jalali/Solar Hijri) calendar date to a Gregorian date at local midnight
+ * @param persianDate - Persian year, month and day
+ * @returns the date, or null when the date does not exist
+ * @example fromPersianDate({ year: 1403, month: 1, day: 1 }) // 2024-03-20 (Nowruz)
+ */
+export function fromPersianDate(persianDate: Pick<PersianDate, 'year' | 'month' | 'day'>): Date | null {
+  const { year, month, day } = persianDate;
+  if (![year, month, day].every(Number.isInteger) || month < 1 || month > 12 || day < 1) return null;
+
+  const monthLength = month <= 6 ? 31 : month <= 11 ? 30 : isPersianLeapYear(year) ? 30 : 29;
+  if (day > monthLength) return null;
+  const dayOfYear = (month <= 6 ? (month - 1) * 31 : 186 + (month - 7) * 30) + day - 1;
+  return fromDayNumber(getPersianNewYearDay(year) + dayOfYear);
+}
+
+/**
+ * Lunar years 1900-2100 of the Chinese calendar, as published by the Purple Mountain
+ * and Hong Kong observatories. Bits 15-4 flag 30-day months 1-12 (bit 15 is month 1),
+ * bits 3-0 hold the leap month (0 = none), and bit 16 flags a 30-day leap month.
+ */
+const CHINESE_YEAR_DATA = [
+  0x04bd8, 0x04ae0, 0x0a570, 0x054d5, 0x0d260, 0x0d950, 0x16554, 0x056a0, 0x09ad0, 0x055d2,
+  0x04ae0, 0x0a5b6, 0x0a4d0, 0x0d250, 0x1d255, 0x0b540, 0x0d6a0, 0x0ada2, 0x095b0, 0x14977,
+  0x04970, 0x0a4b0, 0x0b4b5, 0x06a50, 0x06d40, 0x1ab54, 0x02b60, 0x09570, 0x052f2, 0x04970,
+  0x06566, 0x0d4a0, 0x0ea50, 0x16a95, 0x05ad0, 0x02b60, 0x186e3, 0x092e0, 0x1c8d7, 0x0c950,
+  0x0d4a0, 0x1d8a6, 0x0b550, 0x056a0, 0x1a5b4, 0x025d0, 0x092d0, 0x0d2b2, 0x0a950, 0x0b557,
+  0x06ca0, 0x0b550, 0x15355, 0x04da0, 0x0a5b0, 0x14573, 0x052b0, 0x0a9a8, 0x0e950, 0x06aa0,
+  0x0aea6, 0x0ab50, 0x04b60, 0x0aae4, 0x0a570, 0x05260, 0x0f263, 0x0d950, 0x05b57, 0x056a0,
+  0x096d0, 0x04dd5, 0x04ad0, 0x0a4d0, 0x0d4d4, 0x0d250, 0x0d558, 0x0b540, 0x0b6a0, 0x195a6,
+  0x095b0, 0x049b0, 0x0a974, 0x0a4b0, 0x0b27a, 0x06a50, 0x06d40, 0x0af46, 0x0ab60, 0x09570,
+  0x04af5, 0x04970, 0x064b0, 0x074a3, 0x0ea50, 0x06b58, 0x05ac0, 0x0ab60, 0x096d5, 0x092e0,
+  0x0c960, 0x0d954, 0x0d4a0, 0x0da50, 0x07552, 0x056a0, 0x0abb7, 0x025d0, 0x092d0, 0x0cab5,
+  0x0a950, 0x0b4a0, 0x0baa4, 0x0ad50, 0x055d9, 0x04ba0, 0x0a5b0, 0x15176, 0x052b0, 0x0a930,
+  0x07954, 0x06aa0, 0x0ad50, 0x05b52, 0x04b60, 0x0a6e6, 0x0a4e0, 0x0d260, 0x0ea65, 0x0d530,
+  0x05aa0, 0x076a3, 0x096d0, 0x04afb, 0x04ad0, 0x0a4d0, 0x1d0b6, 0x0d250, 0x0d520, 0x0dd45,
+  0x0b5a0, 0x056d0, 0x055b2, 0x049b0, 0x0a577, 0x0a4b0, 0x0aa50, 0x1b255, 0x06d20, 0x0ada0,
+  0x14b63, 0x09370, 0x049f8, 0x04970, 0x064b0, 0x168a6, 0x0ea50, 0x06b20, 0x1a6c4, 0x0aae0,
+  0x092e0, 0x0d2e3, 0x0c960, 0x0d557, 0x0d4a0, 0x0da50, 0x05d55, 0x056a0, 0x0a6d0, 0x055d4,
+  0x052d0, 0x0a9b8, 0x0a950, 0x0b4a0, 0x0b6a6, 0x0ad50, 0x055a0, 0x0aba4, 0x0a5b0, 0x052b0,
+  0x0b273, 0x06930, 0x07337, 0x06aa0, 0x0ad50, 0x14b55, 0x04b60, 0x0a570, 0x054e4, 0x0d160,
+  0x0e968, 0x0d520, 0x0daa0, 0x16aa6, 0x056d0, 0x04ae0, 0x0a9d4, 0x0a2d0, 0x0d150, 0x0f252,
+  0x0d520
+];
+
+/**
+ * The same table for the Korean calendar, computed from new moons and principal solar
+ * terms in Korean time (UTC+9, UTC+8:30 in 1908-1911 and 1954-1961)
+ */
+const KOREAN_YEAR_DATA = [
+  0x04bd8, 0x04ae0, 0x0a570, 0x054e5, 0x0d2a0, 0x0e950, 0x16554, 0x056a0, 0x0aad0, 0x055d2,
+  0x04ae0, 0x0a5d6, 0x0a4d0, 0x0d250, 0x0da95, 0x0b550, 0x056a0, 0x0ada2, 0x095d0, 0x04bb7,
+  0x049b0, 0x0a4b0, 0x0b4b5, 0x06a90, 0x0ad40, 0x0bb54, 0x02b60, 0x095b0, 0x05372, 0x04970,
+  0x06566, 0x0e4a0, 0x0ea50, 0x16a95, 0x05b50, 0x02b60, 0x18ae3, 0x092e0, 0x1c8d7, 0x0c950,
+  0x0d4a0, 0x1d8a6, 0x0b690, 0x056d0, 0x125b4, 0x025d0, 0x092d0, 0x0d2b2, 0x0a950, 0x0d557,
+  0x0b4a0, 0x0b550, 0x15555, 0x04db0, 0x025b0, 0x18573, 0x052b0, 0x0a9b8, 0x06950, 0x06aa0,
+  0x0aea6, 0x0ab50, 0x04b60, 0x0aae4, 0x0a570, 0x05270, 0x07263, 0x0d950, 0x06b57, 0x056a0,
+  0x09ad0, 0x04dd5, 0x04ae0, 0x0a4e0, 0x0d4d4, 0x0d250, 0x0d598, 0x0b540, 0x0d6a0, 0x195a6,
+  0x095b0, 0x049b0, 0x0a9b4, 0x0a4b0, 0x0b27a, 0x06a50, 0x06d40, 0x0b756, 0x02b60, 0x095b0,
+  0x04b75, 0x04970, 0x064b0, 0x074a3, 0x0ea50, 0x06d98, 0x05ad0, 0x02b60, 0x096e5, 0x092e0,
+  0x0c960, 0x0e954, 0x0d4a0, 0x0da50, 0x07552, 0x056c0, 0x0abb7, 0x025d0, 0x092d0, 0x0cab5,
+  0x0a950, 0x0b4a0, 0x1b4a3, 0x0b550, 0x055d9, 0x04ba0, 0x0a5b0, 0x05575, 0x052b0, 0x0a950,
+  0x0b954, 0x06aa0, 0x0ad50, 0x06b52, 0x04b60, 0x0a6e6, 0x0a570, 0x05270, 0x06a65, 0x0d930,
+  0x05aa0, 0x0b6a3, 0x096d0, 0x04afb, 0x04ae0, 0x0a4d0, 0x1d0d6, 0x0d250, 0x0d520, 0x0dd45,
+  0x0b6a0, 0x096d0, 0x055b2, 0x049b0, 0x0a577, 0x0a4b0, 0x0b250, 0x1b255, 0x06d40, 0x0ada0,
+  0x18b63, 0x09570, 0x14978, 0x04970, 0x064b0, 0x168a6, 0x0ea50, 0x06b20, 0x1aac4, 0x0ab60,
+  0x09370, 0x052e3, 0x0c960, 0x0d557, 0x0d4a0, 0x0da50, 0x05d55, 0x056a0, 0x0aad0, 0x095d4,
+  0x092d0, 0x0c9b8, 0x0a950, 0x0b4a0, 0x0b6a6, 0x0ad50, 0x055a0, 0x0aba4, 0x0a5b0, 0x052b0,
+  0x0b2b3, 0x0a930, 0x07557, 0x06aa0, 0x0ad50, 0x14b55, 0x04b60, 0x0a570, 0x054f4, 0x05260,
+  0x0e968, 0x0d530, 0x05aa0, 0x1aaa6, 0x096d0, 0x04ae0, 0x0aad4, 0x0a4d0, 0x0d260, 0x0f253,
+  0x0d520
+];
+
+const LUNISOLAR_FIRST_YEAR = 1900;
+const LUNISOLAR_LAST_YEAR = 2100;
+/** Days from 1970-01-01 to the first day of lunar year 1900 (January 31, 1900) */
+const LUNISOLAR_EPOCH_DAY = Date.UTC(1900, 0, 31) / MILLISECONDS_PER_DAY;
+
+interface LunarMonth {
+  month: number;
+  isLeapMonth: boolean;
+  days: number;
+}
+
+const lunarNewYearDays = new Map<number[], number[]>();
+
+function getLunisolarTable(options: ChineseCalendarOptions): number[] {
+  return options.country === 'KR' ? KOREAN_YEAR_DATA : CHINESE_YEAR_DATA;
+}
+
+/** Months of a lunar year in order, with the leap month after the month it repeats */
+function getLunarMonths(table: number[], year: number): LunarMonth[] {
+  const info = table[year - LUNISOLAR_FIRST_YEAR];
+  const leapMonth = info & 0xf;
+  const months: LunarMonth[] = [];
+  for (let month = 1; month <= 12; month++) {
+    months.push({ month, isLeapMonth: false, days: info & (0x10000 >> month) ? 30 : 29 });
+    if (month === leapMonth) {
+      months.push({ month, isLeapMonth: true, days: info & 0x10000 ? 30 : 29 });
+    }
+  }
+  return months;
+}
+
+/** Day numbers of each lunar new year, plus the day after the last lunar year */
+function getLunarNewYearDays(table: number[]): number[] {
+  let days = lunarNewYearDays.get(table);
+  if (!days) {
+    days = [LUNISOLAR_EPOCH_DAY];
+    for (let year = LUNISOLAR_FIRST_YEAR; year <= LUNISOLAR_LAST_YEAR; year++) {
+      const length = getLunarMonths(table, year).reduce((sum, month) => sum + month.days, 0);
+      days.push(days[days.length - 1] + length);
+    }
+    lunarNewYearDays.set(table, days);
+  }
+  return days;
+}
+
+/** Local calendar day of a date, counted from 1970-01-01 */
+function toDayNumber(date: Date): number {
+  return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / MILLISECONDS_PER_DAY;
+}
+
+function fromDayNumber(dayNumber: number): Date {
+  const utc = new Date(dayNumber * MILLISECONDS_PER_DAY);
+  return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate());
 }
 
 /**
  * Convert Gregorian date to Chinese lunar calendar
- * @example toChineseDate(new Date('2024-02-10')) // { year: 4721, month: 1, day: 1, calendar: 'chinese' }
+ *
+ * Dates from 1900 to early 2101 use the bundled almanac tables and report leap months;
+ * other dates fall back to Intl.DateTimeFormat. `year` is the Gregorian year in which
+ * the lunar year starts.
+ *
+ * @param date - Date to convert (its local calendar day)
+ * @param options - which country's almanac to follow
+ * @example toChineseDate(new Date(2024, 1, 10)) // { year: 2024, month: 1, day: 1, cycleYear: 41, isLeapMonth: false, calendar: 'chinese' }
+ * @example toChineseDate(new Date(2023, 2, 22)) // { year: 2023, month: 2, day: 1, isLeapMonth: true, ... }
  */
-export function toChineseDate(date: Date): ChineseDate {
+export function toChineseDate(date: Date, options: ChineseCalendarOptions = {}): ChineseDate {
+  const table = getLunisolarTable(options);
+  const newYears = getLunarNewYearDays(table);
+  const dayNumber = toDayNumber(date);
+
+  if (dayNumber < newYears[0] || dayNumber >= newYears[newYears.length - 1]) {
+    const result = extractCalendarParts(date, 'chinese') as ChineseDate;
+    result.cycleYear = getCycleYear(result.year);
+    return result;
+  }
+
+  let index = 0;
+  while (newYears[index + 1] <= dayNumber) index++;
+  const year = LUNISOLAR_FIRST_YEAR + index;
+
+  let day = dayNumber - newYears[index];
+  for (const month of getLunarMonths(table, year)) {
+    if (day < month.days) {
+      return {
+        year,
+        month: month.month,
+        day: day + 1,
+        calendar: 'chinese',
+        cycleYear: getCycleYear(year),
+        isLeapMonth: month.isLeapMonth,
+      };
+    }
+    day -= month.days;
+  }
+
+  // Unreachable: the table's months add up to the year length
   return extractCalendarParts(date, 'chinese') as ChineseDate;
 }
 
+/**
+ * Convert a Chinese lunar date (1900-2100) to a Gregorian date at local midnight
+ * @param chineseDate - lunar year (the Gregorian year it starts in), month, day and leap month flag
+ * @param options - which country's almanac to follow
+ * @returns the date, or null when the year is out of range or the month or day does not exist
+ * @example fromChineseDate({ year: 2024, month: 8, day: 15 }) // 2024-09-17 (Mid-Autumn Festival)
+ */
+export function fromChineseDate(
+  chineseDate: Pick<ChineseDate, 'year' | 'month' | 'day' | 'isLeapMonth'>,
+  options: ChineseCalendarOptions = {}
+): Date | null {
+  const { year, month, day, isLeapMonth = false } = chineseDate;
+  if (!Number.isInteger(year) || year < LUNISOLAR_FIRST_YEAR || year > LUNISOLAR_LAST_YEAR) return null;
+
+  const table = getLunisolarTable(options);
+  let dayNumber = getLunarNewYearDays(table)[year - LUNISOLAR_FIRST_YEAR];
+  for (const lunarMonth of getLunarMonths(table, year)) {
+    if (lunarMonth.month === month && lunarMonth.isLeapMonth === isLeapMonth) {
+      if (!Number.isInteger(day) || day < 1 || day > lunarMonth.days) return null;
+      return fromDayNumber(dayNumber + day - 1);
+    }
+    dayNumber += lunarMonth.days;
+  }
+
+  return null;
+}
+
+/**
+ * Get the first day of the Chinese lunar year starting in a Gregorian year (1900-2100)
+ * @param gregorianYear - Gregorian year
+ * @param options - which country's almanac to follow
+ * @example getChineseNewYear(2025) // 2025-01-29
+ */
+export function getChineseNewYear(gregorianYear: number, options: ChineseCalendarOptions = {}): Date | null {
+  return fromChineseDate({ year: gregorianYear, month: 1, day: 1 }, options);
+}
+
+/**
+ * Get the leap month of a Chinese lunar year (1900-2100)
+ * @param year - lunar year, as the Gregorian year it starts in
+ * @param options - which country's almanac to follow
+ * @returns the month number the leap month repeats, 0 when there is none, or null when out of range
+ * @example getChineseLeapMonth(2023) // 2
+ */
+export function getChineseLeapMonth(year: number, options: ChineseCalendarOptions = {}): number | null {
+  if (!Number.isInteger(year) || year < LUNISOLAR_FIRST_YEAR || year > LUNISOLAR_LAST_YEAR) return null;
+  return getLunisolarTable(options)[year - LUNISOLAR_FIRST_YEAR] & 0xf;
+}
+
+/** Position in the 60-year cycle; 1984 started a cycle */
+function getCycleYear(year: number): number {
+  return (((year - 4) % 60) + 60) % 60 + 1;
+}
+
 /**
  * Format date in specified calendar system
  * @param date - Date to format
@@ -321,15 +888,18 @@ export function getHebrewMonthName(month: number, isLeapYear: boolean = false):
 
 /**
  * Get Islamic month name
- * @param month - Month number (1-12)
+ * @param month - Month number (1-12), or a date to find the month of
+ * @param variant - Islamic calendar variant used to find a date's month (default: 'islamic-umalqura')
+ * @example getIslamicMonthName(new Date(2024, 2, 11)) // 'Ramadan'
  */
-export function getIslamicMonthName(month: number): string {
+export function getIslamicMonthName(month: number | Date, variant: IslamicCalendarVariant = 'islamic-umalqura'): string {
   const months = [
     'Muharram', 'Safar', 'Rabi\' al-Awwal', 'Rabi\' al-Thani',
     'Jumada al-Awwal', 'Jumada al-Thani', 'Rajab', 'Sha\'ban',
     'Ramadan', 'Shawwal', 'Dhu al-Qi\'dah', 'Dhu al-Hijjah'
   ];
-  return months[month - 1] || '';
+  const index = month instanceof Date ? toIslamicDate(month, variant).month : month;
+  return months[index - 1] || '';
 }
 
 /**
@@ -345,13 +915,11 @@ export function getPersianMonthName(month: number): string {
 }
 
 /**
- * Check if a Persian year is a leap year
- * Uses the 2820-year cycle algorithm
+ * Check if a Persian year is a leap year (Esfand has 30 days)
+ * @param persianYear - Year in Persian calendar
  */
 export function isPersianLeapYear(persianYear: number): boolean {
-  // Simplified 33-year cycle approximation
-  const remainder = persianYear % 33;
-  return [1, 5, 9, 13, 17, 22, 26, 30].includes(remainder);
+  return getPersianNewYearDay(persianYear + 1) - getPersianNewYearDay(persianYear) === 366;
 }
 
 /**
@@ -410,11 +978,189 @@ export function compareCalendarDates(a: CalendarDate, b: CalendarDate): number {
   return a.day - b.day;
 }
 
+/**
+ * Convert a date in any supported calendar to a Gregorian date at local midnight
+ * @param calendarDate - calendar date, such as one returned by `toHebrewDate()` or `today()`
+ * @param options - which country's almanac to follow for Chinese dates
+ * @returns the date, or null when the date does not exist in its calendar
+ * @example fromCalendarDate({ calendar: 'persian', year: 1403, month: 1, day: 1 }) // 2024-03-20
+ */
+export function fromCalendarDate(
+  calendarDate: CalendarDate & { isLeapMonth?: boolean },
+  options: ChineseCalendarOptions = {}
+): Date | null {
+  switch (calendarDate.calendar) {
+    case 'hebrew':
+      return fromHebrewDate(calendarDate);
+    case 'islamic':
+    case 'islamic-umalqura':
+    case 'islamic-civil':
+    case 'islamic-tbla':
+      return fromIslamicDate({ year: calendarDate.year, month: calendarDate.month, day: calendarDate.day }, calendarDate.calendar);
+    case 'buddhist':
+      return fromBuddhistDate(calendarDate);
+    case 'japanese':
+      return calendarDate.era ? fromJapaneseDate({ ...calendarDate, era: calendarDate.era }) : null;
+    case 'persian':
+      return fromPersianDate(calendarDate);
+    case 'chinese':
+      return fromChineseDate(calendarDate, options);
+    default:
+      return null;
+  }
+}
+
+/** Converts with the calendar's own algorithm where it has one, otherwise through Intl */
+function toCalendarDate(date: Date, calendar: CalendarType, options: ChineseCalendarOptions = {}): CalendarDate {
+  switch (calendar) {
+    case 'islamic-umalqura':
+    case 'islamic-civil':
+    case 'islamic-tbla':
+      return toIslamicDate(date, calendar);
+    case 'persian':
+      return toPersianDate(date);
+    case 'chinese':
+      return toChineseDate(date, options);
+    default:
+      return extractCalendarParts(date, calendar);
+  }
+}
+
+/** Calendar fields used for arithmetic; Buddhist and Japanese dates count Gregorian years and months */
+interface ArithmeticFields extends CalendarDateFields {
+  isLeapMonth: boolean;
+}
+
+function usesGregorianMonths(calendar: CalendarType): boolean {
+  return calendar === 'buddhist' || calendar === 'japanese';
+}
+
+function toArithmeticFields(date: Date, calendar: CalendarType, options: ChineseCalendarOptions): ArithmeticFields {
+  if (usesGregorianMonths(calendar)) {
+    return { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate(), isLeapMonth: false };
+  }
+  const parts: CalendarDate & { isLeapMonth?: boolean } = toCalendarDate(date, calendar, options);
+  return { year: parts.year, month: parts.month, day: parts.day, isLeapMonth: parts.isLeapMonth ?? false };
+}
+
+/** The months of a calendar year in order, or null when the year is outside the supported range */
+function getCalendarYearMonths(
+  year: number,
+  calendar: CalendarType,
+  options: ChineseCalendarOptions
+): Array<{ month: number; isLeapMonth: boolean }> | null {
+  if (calendar === 'chinese') {
+    if (year < LUNISOLAR_FIRST_YEAR || year > LUNISOLAR_LAST_YEAR) return null;
+    return getLunarMonths(getLunisolarTable(options), year);
+  }
+
+  const months = Array.from({ length: 13 }, (_, i) => ({ month: i + 1, isLeapMonth: false }));
+  // Intl numbers Adar II as month 7, which only exists in Hebrew leap years
+  if (calendar === 'hebrew') return isHebrewLeapYear(year) ? months : months.filter(m => m.month !== 7);
+  return months.slice(0, 12);
+}
+
+/** Resolves calendar fields to a date with the original time of day, clamping the day to the month length */
+function resolveArithmeticFields(
+  fields: ArithmeticFields,
+  calendar: CalendarType,
+  options: ChineseCalendarOptions,
+  time: Date
+): Date | null {
+  let result: Date | null = null;
+  // Every month in these calendars has at least 28 days
+  for (let day = fields.day; !result && day >= Math.min(fields.day, 28); day--) {
+    result = usesGregorianMonths(calendar)
+      ? fromGregorianFields(fields.year, fields.month, day)
+      : fromCalendarDate({ ...fields, day, calendar }, options);
+  }
+  result?.setHours(time.getHours(), time.getMinutes(), time.getSeconds(), time.getMilliseconds());
+  return result;
+}
+
+/**
+ * Add months following a calendar's own month sequence, keeping the time of day
+ *
+ * Leap months count as months: in a Hebrew leap year, one month after Shevat is Adar I and
+ * two months is Adar II, while in a common year one month after Shevat is Adar and two is Nisan.
+ * Chinese leap months follow the month they repeat. Days past the end of the target month are
+ * clamped to its last day.
+ * @param date - Gregorian date
+ * @param months - number of months to add (negative to subtract)
+ * @param calendar - calendar whose months to count
+ * @param options - which country's almanac to follow for the Chinese calendar
+ * @returns the new date, or null when it falls outside the calendar's supported range
+ * @example addCalendarMonths(new Date(2024, 1, 10), 1, 'hebrew') // 2024-03-11 (1 Adar II 5784)
+ */
+export function addCalendarMonths(
+  date: Date,
+  months: number,
+  calendar: CalendarType,
+  options: ChineseCalendarOptions = {}
+): Date | null {
+  const fields = toArithmeticFields(date, calendar, options);
+  let year = fields.year;
+  let yearMonths = getCalendarYearMonths(year, calendar, options);
+  if (!yearMonths) return null;
+
+  let index = yearMonths.findIndex(m => m.month === fields.month && m.isLeapMonth === fields.isLeapMonth);
+  if (index === -1) return null;
+  index += Math.trunc(months);
+
+  while (index < 0) {
+    yearMonths = getCalendarYearMonths(--year, calendar, options);
+    if (!yearMonths) return null;
+    index += yearMonths.length;
+  }
+  while (index >= yearMonths.length) {
+    index -= yearMonths.length;
+    yearMonths = getCalendarYearMonths(++year, calendar, options);
+    if (!yearMonths) return null;
+  }
+
+  return resolveArithmeticFields({ ...yearMonths[index], year, day: fields.day }, calendar, options, date);
+}
+
+/**
+ * Add years in a calendar, keeping the month, day and time of day
+ *
+ * Hebrew Adar moves to Adar II when the target is a leap year, and Adar II moves to Adar when
+ * it is not. A Chinese leap month becomes the regular month when the target year does not
+ * repeat it. Days past the end of the target month are clamped to its last day.
+ * @param date - Gregorian date
+ * @param years - number of years to add (negative to subtract)
+ * @param calendar - calendar whose years to count
+ * @param options - which country's almanac to follow for the Chinese calendar
+ * @returns the new date, or null when it falls outside the calendar's supported range
+ * @example addCalendarYears(new Date(2023, 1, 22), 1, 'hebrew') // 2024-03-11 (1 Adar II 5784)
+ */
+export function addCalendarYears(
+  date: Date,
+  years: number,
+  calendar: CalendarType,
+  options: ChineseCalendarOptions = {}
+): Date | null {
+  const fields = toArithmeticFields(date, calendar, options);
+  const year = fields.year + Math.trunc(years);
+  let { month, isLeapMonth } = fields;
+
+  if (calendar === 'hebrew') {
+    const fromLeapYear = isHebrewLeapYear(fields.year);
+    const toLeapYear = isHebrewLeapYear(year);
+    if (month === 6 && !fromLeapYear && toLeapYear) month = 7;
+    else if (month === 7 && !toLeapYear) month = 6;
+  } else if (calendar === 'chinese' && isLeapMonth && getChineseLeapMonth(year, options) !== month) {
+    isLeapMonth = false;
+  }
+
+  return resolveArithmeticFields({ year, month, day: fields.day, isLeapMonth }, calendar, options, date);
+}
+
 /**
  * Get current date in specified calendar
  */
 export function today(calendar: CalendarType): CalendarDate {
-  return extractCalendarParts(new Date(), calendar);
+  return toCalendarDate(new Date(), calendar);
 }
 
 /**
@@ -436,6 +1182,7 @@ export function getSupportedCalendars(): CalendarType[] {
     'islamic',
     'islamic-umalqura',
     'islamic-civil',
+    'islamic-tbla',
     'buddhist',
     'japanese',
     'persian',
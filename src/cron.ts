@@ -1,13 +1,29 @@
 /**
  * Cron expression utilities for scheduling
+ *
+ * Supports classic 5-field expressions, Quartz-style 6/7-field expressions
+ * (leading seconds, optional trailing year), AWS EventBridge `cron(...)`
+ * expressions (trailing year), `@hourly`-style macros, month and weekday
+ * names, `?`, and the `L`, `W` and `#` day modifiers.
  */
 
+import { MILLISECONDS_PER_SECOND, MILLISECONDS_PER_MINUTE, MILLISECONDS_PER_HOUR } from './constants.js';
+import { fromFloatingTime, isValidTimeZone, toFloatingTime } from './timezone.js';
+import { getDayNames, getLocaleConfig, getMonthNames } from './locale.js';
+import type { CronPhrases, SupportedLocale } from './types.js';
+
 export interface CronParts {
+  /** Seconds field (6/7-field expressions only) */
+  second?: string;
   minute: string;
   hour: string;
   dayOfMonth: string;
   month: string;
   dayOfWeek: string;
+  /** Year field (7-field and `cron(...)` expressions only) */
+  year?: string;
+  /** True for `@reboot`, which runs at startup rather than on a schedule */
+  reboot?: boolean;
 }
 
 export interface ParsedCronField {
@@ -15,168 +31,256 @@ export interface ParsedCronField {
   values: number[];
 }
 
+/**
+ * Options for evaluating cron expressions
+ *
+ * Schedules follow wall-clock time in the zone. When a DST change skips a
+ * scheduled time (e.g. `0 2 * * *` on a spring-forward night), the firing is
+ * shifted forward by the length of the gap (02:00 runs at 03:00) or, with
+ * `dstGap: 'skip'`, dropped. When a DST change repeats a time, the schedule
+ * fires only at its first occurrence.
+ */
+export interface CronOptions {
+  /** IANA timezone the expression is written in (default: host local time) */
+  timeZone?: string;
+  /** Shift times skipped by a DST gap forward (default) or skip them */
+  dstGap?: 'shift' | 'skip';
+}
+
+/** Options for searching cron firings */
+export interface CronSearchOptions extends CronOptions {
+  /** How many minutes of wall-clock time to search (default: 400 years) */
+  maxIterations?: number;
+}
+
+/** Options for describing cron expressions */
+export interface CronDescriptionOptions {
+  /** Locale whose month names, day names and cron phrases to use (default: 'en') */
+  locale?: SupportedLocale;
+}
+
+/** A day-of-month entry: a day, `L`/`L-n`, `nW` or `LW` */
+type DayOfMonthItem =
+  | { type: 'day'; day: number }
+  | { type: 'last'; offset: number }
+  | { type: 'nearestWeekday'; day: number }
+  | { type: 'lastWeekday' };
+
+/** A day-of-week entry (0=Sunday): a weekday, `n#k` or `nL` */
+type DayOfWeekItem =
+  | { type: 'weekday'; weekday: number }
+  | { type: 'nth'; weekday: number; nth: number }
+  | { type: 'last'; weekday: number };
+
+/** A cron expression resolved to the values each field allows; null means any */
+interface CronSchedule {
+  seconds: number[] | null;
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: DayOfMonthItem[] | null;
+  months: number[];
+  daysOfWeek: DayOfWeekItem[] | null;
+  years: number[] | null;
+}
+
+const MONTH_CODES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const WEEKDAY_CODES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+/** English phrases, also used for any phrase a locale does not define */
+const ENGLISH_PHRASES: CronPhrases = {
+  pattern: '{second} {time} {dayOfMonth} {month} {dayOfWeek} {year}',
+  everySecond: 'every second',
+  everyNSeconds: 'every {0} seconds',
+  atSecond: 'at second {0}',
+  everyMinute: 'every minute',
+  everyNMinutes: 'every {0} minutes',
+  atMinuteOfHour: 'at minute {0} of every hour',
+  everyHour: 'every hour',
+  everyNHours: 'every {0} hours',
+  everyHourBetween: 'every hour from {0} at minute 0',
+  atTime: 'at {0}',
+  dailyAtMidnight: 'every day at midnight',
+  weeklyAtMidnight: 'every Sunday at midnight',
+  monthlyAtMidnight: 'first day of every month at midnight',
+  yearlyAtMidnight: 'every year on {0} 1 at midnight',
+  onDaysOfMonth: 'on day {0} of the month',
+  onSpecialDaysOfMonth: 'on {0} of the month',
+  dayOfMonth: 'day {0}',
+  lastDay: 'the last day',
+  lastWeekday: 'the last weekday',
+  daysBeforeLastDay: '{0} days before the last day',
+  nearestWeekday: 'the weekday nearest day {0}',
+  onWeekdays: 'on {0}',
+  onSpecialWeekdays: 'on {0} of the month',
+  nthWeekday: 'the {0} {1}',
+  lastWeekdayOfMonth: 'the last {0}',
+  ordinals: ['', 'first', 'second', 'third', 'fourth', 'fifth'],
+  inMonths: 'in {0}',
+  inYears: 'in {0}',
+  range: '{0} through {1}',
+  listSeparator: ', ',
+  listEnd: ' and ',
+  atStartup: 'at system startup'
+};
+
+/** One full Gregorian cycle: a day pattern with no match in this span never matches */
+const MAX_SEARCH_YEARS = 400;
+
+/** Longer than any DST shift, so wall-clock time never jumps further than this */
+const DST_MARGIN_MS = 3 * MILLISECONDS_PER_HOUR;
+
+const MIN_YEAR = 1970;
+const MAX_YEAR = 2099;
+
+/** Macros and the 5-field expressions they stand for */
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
 /**
  * Parse a cron expression into its parts
- * @param expression - cron expression (5 fields: minute hour dayOfMonth month dayOfWeek)
+ *
+ * Accepts 5 fields (minute hour dayOfMonth month dayOfWeek), 6 fields with
+ * leading seconds, 7 fields with leading seconds and trailing year, AWS
+ * `cron(minute hour dayOfMonth month dayOfWeek year)` with `?` in exactly one
+ * of the day fields, and macros such as
+ * `@daily` or `@reboot`. In 6/7-field and `cron(...)` expressions numeric
+ * weekdays follow Quartz (1=Sunday to 7=Saturday); in 5-field expressions
+ * 0 and 7 are Sunday.
+ *
+ * @param expression - cron expression
  */
 export function parseCronExpression(expression: string): CronParts | null {
-  const parts = expression.trim().split(/\s+/);
-  
-  if (parts.length !== 5) {
-    return null;
+  const trimmed = expression.trim();
+  const lower = trimmed.toLowerCase();
+
+  if (lower === '@reboot') {
+    return { minute: '', hour: '', dayOfMonth: '', month: '', dayOfWeek: '', reboot: true };
   }
-  
-  return {
-    minute: parts[0],
-    hour: parts[1],
-    dayOfMonth: parts[2],
-    month: parts[3],
-    dayOfWeek: parts[4],
-  };
+  if (CRON_MACROS[lower]) {
+    return parseCronExpression(CRON_MACROS[lower]);
+  }
+
+  const aws = trimmed.match(/^cron\((.*)\)$/i);
+  if (aws) {
+    const parts = aws[1].trim().split(/\s+/);
+    if (parts.length !== 6) return null;
+    const [minute, hour, dayOfMonth, month, dayOfWeek, year] = parts;
+    // AWS requires `?` in exactly one of the day fields
+    if ((dayOfMonth === '?') === (dayOfWeek === '?')) return null;
+    return { minute, hour, dayOfMonth, month, dayOfWeek, year };
+  }
+
+  const parts = trimmed.split(/\s+/);
+
+  if (parts.length === 5) {
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = parts;
+    return { minute, hour, dayOfMonth, month, dayOfWeek };
+  }
+
+  if (parts.length === 6 || parts.length === 7) {
+    const [second, minute, hour, dayOfMonth, month, dayOfWeek, year] = parts;
+    return year === undefined
+      ? { second, minute, hour, dayOfMonth, month, dayOfWeek }
+      : { second, minute, hour, dayOfMonth, month, dayOfWeek, year };
+  }
+
+  return null;
 }
 
 /**
  * Parse a cron field into its numeric values
- * @param field - cron field string (e.g., "star/5", "1-5", "1,2,3", "*")
+ * @param field - cron field string (e.g., "star/5", "1-5", "1,2,3", "*", "MON-FRI")
  * @param min - minimum valid value
  * @param max - maximum valid value
+ * @param names - optional names for consecutive values starting at `min` (e.g. month or weekday codes)
  */
-export function parseCronField(field: string, min: number, max: number): ParsedCronField | null {
-  const values: number[] = [];
-  
-  // Handle wildcard
-  if (field === '*') {
-    for (let i = min; i <= max; i++) {
-      values.push(i);
-    }
-    return { type: 'all', values };
-  }
-  
-  // Handle step values (*/n or range/n)
-  if (field.includes('/')) {
-    const [range, stepStr] = field.split('/');
-    const step = parseInt(stepStr, 10);
-    
-    if (isNaN(step) || step <= 0) return null;
-    
-    let start = min;
-    let end = max;
-    
-    if (range !== '*') {
-      if (range.includes('-')) {
-        const [s, e] = range.split('-').map(Number);
-        start = s;
-        end = e;
-      } else {
-        start = parseInt(range, 10);
-      }
-    }
-    
-    for (let i = start; i <= end; i += step) {
-      values.push(i);
-    }
-    return { type: 'step', values };
-  }
-  
-  // Handle range (n-m)
-  if (field.includes('-')) {
-    const [start, end] = field.split('-').map(Number);
-    
-    if (isNaN(start) || isNaN(end) || start > end) return null;
-    
-    for (let i = start; i <= end; i++) {
-      values.push(i);
-    }
-    return { type: 'range', values };
+export function parseCronField(field: string, min: number, max: number, names?: readonly string[]): ParsedCronField | null {
+  if (field === '') return null;
+
+  const values = new Set<number>();
+  for (const item of field.split(',')) {
+    const expanded = expandCronItem(item, min, max, names);
+    if (!expanded) return null;
+    expanded.forEach(value => values.add(value));
   }
-  
-  // Handle list (n,m,o)
-  if (field.includes(',')) {
-    const items = field.split(',').map(Number);
-    
-    if (items.some(isNaN)) return null;
-    
-    return { type: 'list', values: items.sort((a, b) => a - b) };
+
+  let type: ParsedCronField['type'];
+  if (field === '*') {
+    type = 'all';
+  } else if (field.includes(',')) {
+    type = 'list';
+  } else if (field.includes('/')) {
+    type = 'step';
+  } else if (field.includes('-')) {
+    type = 'range';
+  } else {
+    type = 'specific';
   }
-  
-  // Handle specific value
-  const value = parseInt(field, 10);
-  if (isNaN(value) || value < min || value > max) return null;
-  
-  return { type: 'specific', values: [value] };
+
+  return { type, values: [...values].sort((a, b) => a - b) };
 }
 
 /**
  * Check if a date matches a cron expression
+ *
+ * With a `timeZone`, a date matches when the schedule fires at that moment:
+ * the fields are compared with the wall-clock time in the zone, following
+ * the DST rules described on {@link CronOptions}. The seconds of `date` are
+ * only checked when the expression has a seconds field.
+ *
  * @param date - date to check
  * @param expression - cron expression
+ * @param options - timezone and DST gap handling
  */
-export function matchesCron(date: Date, expression: string): boolean {
-  const parts = parseCronExpression(expression);
-  if (!parts) return false;
-  
-  const minute = parseCronField(parts.minute, 0, 59);
-  const hour = parseCronField(parts.hour, 0, 23);
-  const dayOfMonth = parseCronField(parts.dayOfMonth, 1, 31);
-  const month = parseCronField(parts.month, 1, 12);
-  const dayOfWeek = parseCronField(parts.dayOfWeek, 0, 6);
-  
-  if (!minute || !hour || !dayOfMonth || !month || !dayOfWeek) {
-    return false;
-  }
-  
-  return (
-    minute.values.includes(date.getMinutes()) &&
-    hour.values.includes(date.getHours()) &&
-    dayOfMonth.values.includes(date.getDate()) &&
-    month.values.includes(date.getMonth() + 1) &&
-    dayOfWeek.values.includes(date.getDay())
-  );
+export function matchesCron(date: Date, expression: string, options: CronOptions = {}): boolean {
+  const schedule = compileCron(expression);
+  if (!schedule || !isValidCronOptions(options)) return false;
+
+  // Compare at the schedule's precision: whole seconds, or whole minutes without a seconds field
+  const unit = schedule.seconds ? MILLISECONDS_PER_SECOND : MILLISECONDS_PER_MINUTE;
+  const moment = Math.floor(date.getTime() / unit) * unit;
+  const wall = toFloatingTime(new Date(moment), options.timeZone);
+  // A firing shifted out of a DST gap shows a later wall-clock time than it was scheduled for
+  const shifted = toFloatingTime(new Date(moment - DST_MARGIN_MS), options.timeZone) + DST_MARGIN_MS;
+
+  return [wall, shifted].some(candidate => {
+    const truncated = Math.floor(candidate / unit) * unit;
+    return (
+      matchesCronMinute(schedule, truncated) &&
+      (!schedule.seconds || schedule.seconds.includes(new Date(truncated).getUTCSeconds())) &&
+      getFiringTime(truncated, options)?.getTime() === moment
+    );
+  });
 }
 
 /**
  * Get the next date that matches a cron expression
+ *
+ * The search jumps over years, months, days, hours and minutes that cannot
+ * match, and looks at most 400 years ahead (a full Gregorian cycle), so
+ * expressions that never match, such as `0 0 30 2 *`, return null quickly.
+ *
  * @param expression - cron expression
  * @param after - start searching after this date (default: now)
- * @param maxIterations - maximum iterations to prevent infinite loops
+ * @param options - how far ahead to search in minutes, or options with timezone and DST gap handling
  */
 export function getNextCronDate(
   expression: string,
   after: Date = new Date(),
-  maxIterations: number = 525600 // Max 1 year in minutes
+  options: number | CronSearchOptions = {}
 ): Date | null {
-  const parts = parseCronExpression(expression);
-  if (!parts) return null;
-  
-  const minute = parseCronField(parts.minute, 0, 59);
-  const hour = parseCronField(parts.hour, 0, 23);
-  const dayOfMonth = parseCronField(parts.dayOfMonth, 1, 31);
-  const month = parseCronField(parts.month, 1, 12);
-  const dayOfWeek = parseCronField(parts.dayOfWeek, 0, 6);
-  
-  if (!minute || !hour || !dayOfMonth || !month || !dayOfWeek) {
-    return null;
-  }
-  
-  const candidate = new Date(after);
-  candidate.setSeconds(0, 0);
-  candidate.setMinutes(candidate.getMinutes() + 1);
-  
-  for (let i = 0; i < maxIterations; i++) {
-    if (
-      minute.values.includes(candidate.getMinutes()) &&
-      hour.values.includes(candidate.getHours()) &&
-      dayOfMonth.values.includes(candidate.getDate()) &&
-      month.values.includes(candidate.getMonth() + 1) &&
-      dayOfWeek.values.includes(candidate.getDay())
-    ) {
-      return candidate;
-    }
-    
-    candidate.setMinutes(candidate.getMinutes() + 1);
-  }
-  
-  return null;
+  const { maxIterations, ...cronOptions } = typeof options === 'number' ? { maxIterations: options } : options;
+  const schedule = compileCron(expression);
+  if (!schedule || !isValidCronOptions(cronOptions)) return null;
+
+  return findNextFiring(schedule, after, cronOptions, maxIterations);
 }
 
 /**
@@ -184,22 +288,27 @@ export function getNextCronDate(
  * @param expression - cron expression
  * @param count - number of dates to get
  * @param after - start searching after this date
+ * @param options - timezone and DST gap handling
  */
 export function getNextCronDates(
   expression: string,
   count: number,
-  after: Date = new Date()
+  after: Date = new Date(),
+  options: CronOptions = {}
 ): Date[] {
+  const schedule = compileCron(expression);
+  if (!schedule || !isValidCronOptions(options)) return [];
+
   const dates: Date[] = [];
   let currentAfter = after;
-  
+
   for (let i = 0; i < count; i++) {
-    const next = getNextCronDate(expression, currentAfter);
+    const next = findNextFiring(schedule, currentAfter, options);
     if (!next) break;
     dates.push(next);
     currentAfter = next;
   }
-  
+
   return dates;
 }
 
@@ -207,45 +316,35 @@ export function getNextCronDates(
  * Get the previous date that matched a cron expression
  * @param expression - cron expression
  * @param before - start searching before this date
- * @param maxIterations - maximum iterations to prevent infinite loops
+ * @param options - how far back to search in minutes, or options with timezone and DST gap handling
  */
 export function getPreviousCronDate(
   expression: string,
   before: Date = new Date(),
-  maxIterations: number = 525600
+  options: number | CronSearchOptions = {}
 ): Date | null {
-  const parts = parseCronExpression(expression);
-  if (!parts) return null;
-  
-  const minute = parseCronField(parts.minute, 0, 59);
-  const hour = parseCronField(parts.hour, 0, 23);
-  const dayOfMonth = parseCronField(parts.dayOfMonth, 1, 31);
-  const month = parseCronField(parts.month, 1, 12);
-  const dayOfWeek = parseCronField(parts.dayOfWeek, 0, 6);
-  
-  if (!minute || !hour || !dayOfMonth || !month || !dayOfWeek) {
-    return null;
-  }
-  
-  const candidate = new Date(before);
-  candidate.setSeconds(0, 0);
-  candidate.setMinutes(candidate.getMinutes() - 1);
-  
-  for (let i = 0; i < maxIterations; i++) {
-    if (
-      minute.values.includes(candidate.getMinutes()) &&
-      hour.values.includes(candidate.getHours()) &&
-      dayOfMonth.values.includes(candidate.getDate()) &&
-      month.values.includes(candidate.getMonth() + 1) &&
-      dayOfWeek.values.includes(candidate.getDay())
-    ) {
-      return candidate;
-    }
-    
-    candidate.setMinutes(candidate.getMinutes() - 1);
+  const { maxIterations, ...cronOptions } = typeof options === 'number' ? { maxIterations: options } : options;
+  const schedule = compileCron(expression);
+  if (!schedule || !isValidCronOptions(cronOptions)) return null;
+
+  const { timeZone } = cronOptions;
+  // Start late enough to catch the first pass through times a DST overlap repeats
+  let wall = Math.max(
+    toFloatingTime(before, timeZone),
+    toFloatingTime(new Date(before.getTime() - DST_MARGIN_MS), timeZone) + DST_MARGIN_MS
+  );
+  const limit = maxIterations === undefined
+    ? shiftYears(wall, -MAX_SEARCH_YEARS)
+    : wall - maxIterations * MILLISECONDS_PER_MINUTE;
+
+  while (true) {
+    const match = findPreviousWallTime(schedule, wall, limit);
+    if (match === null) return null;
+
+    const firing = getFiringTime(match, cronOptions);
+    if (firing && firing < before) return firing;
+    wall = match - MILLISECONDS_PER_SECOND;
   }
-  
-  return null;
 }
 
 /**
@@ -253,94 +352,102 @@ export function getPreviousCronDate(
  * @param expression - cron expression to validate
  */
 export function isValidCron(expression: string): boolean {
-  const parts = parseCronExpression(expression);
-  if (!parts) return false;
-  
-  const minute = parseCronField(parts.minute, 0, 59);
-  const hour = parseCronField(parts.hour, 0, 23);
-  const dayOfMonth = parseCronField(parts.dayOfMonth, 1, 31);
-  const month = parseCronField(parts.month, 1, 12);
-  const dayOfWeek = parseCronField(parts.dayOfWeek, 0, 6);
-  
-  return !!(minute && hour && dayOfMonth && month && dayOfWeek);
+  return parseCronExpression(expression)?.reboot === true || compileCron(expression) !== null;
 }
 
 /**
  * Convert a cron expression to a human-readable description
+ *
+ * Month and day names come from `getMonthNames()`/`getDayNames()`, and phrases from
+ * the locale's `cron` templates (see `registerLocale()`), falling back to English.
+ *
  * @param expression - cron expression
+ * @param options - locale to describe the expression in
+ * @returns the description, or null for invalid expressions
+ * @example
+ * describeCron('0 9 * * 1');                     // 'At 09:00 on Monday'
+ * describeCron('0 9 * * 1', { locale: 'de' });   // 'Jeden Montag um 09:00'
  */
-export function describeCron(expression: string): string | null {
+export function describeCron(expression: string, options: CronDescriptionOptions = {}): string | null {
   const parts = parseCronExpression(expression);
   if (!parts) return null;
-  
-  const descriptions: string[] = [];
-  
+
+  const { locale = 'en' } = options;
+  const phrases: CronPhrases = { ...ENGLISH_PHRASES, ...getLocaleConfig(locale).cron };
+  const monthNames = getMonthNames(locale);
+  const dayNames = getDayNames(locale);
+
+  if (parts.reboot) return capitalize(phrases.atStartup);
+
+  const schedule = compileParts(parts);
+  if (!schedule) return null;
+
+  const quartz = parts.second !== undefined || parts.year !== undefined;
+  const second = parts.second ?? '0';
+  const dayOfMonth = parts.dayOfMonth === '?' ? '*' : parts.dayOfMonth;
+  const dayOfWeek = parts.dayOfWeek === '?' ? '*' : parts.dayOfWeek;
+  const year = parts.year ?? '*';
+
   // Handle common patterns
-  if (expression === '* * * * *') {
-    return 'Every minute';
+  if (second === '0' && year === '*' && (!quartz || dayOfWeek === '*')) {
+    const common = COMMON_DESCRIPTIONS[[parts.minute, parts.hour, dayOfMonth, parts.month, dayOfWeek].join(' ')];
+    if (common) return capitalize(fillPhrase(phrases[common], monthNames[0]));
   }
-  
-  if (expression === '0 * * * *') {
-    return 'Every hour';
-  }
-  
-  if (expression === '0 0 * * *') {
-    return 'Every day at midnight';
-  }
-  
-  if (expression === '0 0 * * 0') {
-    return 'Every Sunday at midnight';
-  }
-  
-  if (expression === '0 0 1 * *') {
-    return 'First day of every month at midnight';
+
+  const descriptions: Record<string, string> = {};
+
+  if (second.includes('/')) {
+    descriptions.second = fillPhrase(phrases.everyNSeconds, second.split('/')[1]);
+  } else if (second === '*') {
+    descriptions.second = phrases.everySecond;
+  } else if (second !== '0') {
+    descriptions.second = fillPhrase(phrases.atSecond, second);
   }
-  
+
   // Build description
   const minute = parts.minute;
   const hour = parts.hour;
-  
+
   if (minute === '0' && hour !== '*') {
     if (hour.includes('/')) {
-      const step = hour.split('/')[1];
-      descriptions.push(`Every ${step} hours`);
+      descriptions.time = fillPhrase(phrases.everyNHours, hour.split('/')[1]);
     } else if (hour.includes('-')) {
-      descriptions.push(`Every hour from ${hour} at minute 0`);
+      descriptions.time = fillPhrase(phrases.everyHourBetween, hour);
     } else {
-      descriptions.push(`At ${hour}:00`);
+      descriptions.time = fillPhrase(phrases.atTime, formatCronTime(hour, minute));
     }
+  } else if (/^\d+$/.test(minute) && /^\d+$/.test(hour)) {
+    descriptions.time = fillPhrase(phrases.atTime, formatCronTime(hour, minute));
   } else if (minute !== '*' && hour === '*') {
-    descriptions.push(`At minute ${minute} of every hour`);
+    descriptions.time = minute.includes('/')
+      ? fillPhrase(phrases.everyNMinutes, minute.split('/')[1])
+      : fillPhrase(phrases.atMinuteOfHour, minute);
   } else if (minute.includes('/')) {
-    const step = minute.split('/')[1];
-    descriptions.push(`Every ${step} minutes`);
+    descriptions.time = fillPhrase(phrases.everyNMinutes, minute.split('/')[1]);
   }
-  
-  if (parts.dayOfMonth !== '*') {
-    descriptions.push(`on day ${parts.dayOfMonth} of the month`);
+
+  if (dayOfMonth !== '*') {
+    descriptions.dayOfMonth = describeDayOfMonth(dayOfMonth, phrases);
   }
-  
+
   if (parts.month !== '*') {
-    const monthNames = ['', 'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-    const monthNum = parseInt(parts.month, 10);
-    if (!isNaN(monthNum) && monthNum >= 1 && monthNum <= 12) {
-      descriptions.push(`in ${monthNames[monthNum]}`);
-    } else {
-      descriptions.push(`in month ${parts.month}`);
-    }
+    const months = describeList(parts.month, token => describeName(token, MONTH_CODES, monthNames, 1), phrases);
+    descriptions.month = fillPhrase(phrases.inMonths, months);
   }
-  
-  if (parts.dayOfWeek !== '*') {
-    const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-    const dayNum = parseInt(parts.dayOfWeek, 10);
-    if (!isNaN(dayNum) && dayNum >= 0 && dayNum <= 6) {
-      descriptions.push(`on ${dayNames[dayNum]}`);
-    } else {
-      descriptions.push(`on day of week ${parts.dayOfWeek}`);
-    }
+
+  if (dayOfWeek !== '*') {
+    descriptions.dayOfWeek = describeDayOfWeek(dayOfWeek, quartz, dayNames, phrases);
   }
-  
-  return descriptions.join(' ') || expression;
+
+  if (year !== '*') {
+    descriptions.year = fillPhrase(phrases.inYears, describeList(year, token => token, phrases));
+  }
+
+  const description = phrases.pattern
+    .replace(/\{(\w+)\}/g, (_, part: string) => descriptions[part] ?? '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return description ? capitalize(description) : expression;
 }
 
 /**
@@ -361,3 +468,431 @@ export const CRON_PRESETS = {
   every15Minutes: '*/15 * * * *',
   every30Minutes: '*/30 * * * *',
 } as const;
+
+const COMMON_DESCRIPTIONS: Record<string, Exclude<keyof CronPhrases, 'ordinals'>> = {
+  '* * * * *': 'everyMinute',
+  '0 * * * *': 'everyHour',
+  '0 0 * * *': 'dailyAtMidnight',
+  '0 0 * * 0': 'weeklyAtMidnight',
+  '0 0 1 * *': 'monthlyAtMidnight',
+  '0 0 1 1 *': 'yearlyAtMidnight'
+};
+
+/** Resolves a cron expression to a schedule; null for invalid expressions and `@reboot` */
+function compileCron(expression: string): CronSchedule | null {
+  const parts = parseCronExpression(expression);
+  return parts && !parts.reboot ? compileParts(parts) : null;
+}
+
+function compileParts(parts: CronParts): CronSchedule | null {
+  const quartz = parts.second !== undefined || parts.year !== undefined;
+
+  const seconds = parts.second === undefined ? null : parseCronField(parts.second, 0, 59);
+  const minutes = parseCronField(parts.minute, 0, 59);
+  const hours = parseCronField(parts.hour, 0, 23);
+  const months = parseCronField(parts.month, 1, 12, MONTH_CODES);
+  const years = parts.year === undefined ? null : parseCronField(parts.year, MIN_YEAR, MAX_YEAR);
+  const daysOfMonth = parseDayOfMonthField(parts.dayOfMonth);
+  const daysOfWeek = parseDayOfWeekField(parts.dayOfWeek, quartz);
+
+  if (
+    (parts.second !== undefined && !seconds) || !minutes || !hours || !months ||
+    (parts.year !== undefined && !years) || daysOfMonth === undefined || daysOfWeek === undefined
+  ) {
+    return null;
+  }
+
+  return {
+    seconds: seconds?.values ?? null,
+    minutes: minutes.values,
+    hours: hours.values,
+    daysOfMonth,
+    months: months.values,
+    daysOfWeek,
+    years: years && years.type !== 'all' ? years.values : null
+  };
+}
+
+/** Expands one list item (`*`, `n`, `a-b`, with an optional `/step`) */
+function expandCronItem(item: string, min: number, max: number, names?: readonly string[]): number[] | null {
+  const [range, stepText, ...rest] = item.split('/');
+  if (rest.length > 0) return null;
+
+  const step = stepText === undefined ? 1 : Number(stepText);
+  if (!Number.isInteger(step) || step <= 0 || stepText === '') return null;
+
+  let start: number | null;
+  let end: number | null;
+  if (range === '*') {
+    start = min;
+    end = max;
+  } else if (range.includes('-')) {
+    const [from, to, ...more] = range.split('-');
+    if (more.length > 0) return null;
+    start = parseCronValue(from, min, max, names);
+    end = parseCronValue(to, min, max, names);
+  } else {
+    start = parseCronValue(range, min, max, names);
+    end = stepText === undefined ? start : max;
+  }
+
+  if (start === null || end === null || start > end) return null;
+
+  const values: number[] = [];
+  for (let i = start; i <= end; i += step) {
+    values.push(i);
+  }
+  return values;
+}
+
+function parseCronValue(token: string, min: number, max: number, names?: readonly string[]): number | null {
+  const index = names ? names.indexOf(token.toUpperCase()) : -1;
+  if (index !== -1) return min + index;
+  if (!/^\d+$/.test(token)) return null;
+
+  const value = Number(token);
+  return value >= min && value <= max ? value : null;
+}
+
+/** Parses the day-of-month field; null means any day, undefined means invalid */
+function parseDayOfMonthField(field: string): DayOfMonthItem[] | null | undefined {
+  if (field === '*' || field === '?') return null;
+
+  const items: DayOfMonthItem[] = [];
+  for (const item of field.toUpperCase().split(',')) {
+    if (item === 'L') {
+      items.push({ type: 'last', offset: 0 });
+    } else if (item === 'LW') {
+      items.push({ type: 'lastWeekday' });
+    } else if (/^L-\d+$/.test(item)) {
+      const offset = Number(item.slice(2));
+      if (offset > 30) return undefined;
+      items.push({ type: 'last', offset });
+    } else if (/^\d+W$/.test(item)) {
+      const day = Number(item.slice(0, -1));
+      if (day < 1 || day > 31) return undefined;
+      items.push({ type: 'nearestWeekday', day });
+    } else {
+      const days = expandCronItem(item, 1, 31);
+      if (!days) return undefined;
+      days.forEach(day => items.push({ type: 'day', day }));
+    }
+  }
+  return items;
+}
+
+/**
+ * Parses the day-of-week field into 0=Sunday weekdays; null means any day, undefined means invalid.
+ * Quartz numbering is 1=Sunday to 7=Saturday; classic numbering is 0-7 with 0 and 7 both Sunday.
+ */
+function parseDayOfWeekField(field: string, quartz: boolean): DayOfWeekItem[] | null | undefined {
+  if (field === '*' || field === '?') return null;
+
+  const min = quartz ? 1 : 0;
+  const max = 7;
+  const toWeekday = (value: number) => (quartz ? value - 1 : value % 7);
+  const parseWeekday = (token: string) => {
+    const value = parseCronValue(token, min, max, WEEKDAY_CODES);
+    return value === null ? null : toWeekday(value);
+  };
+
+  const items: DayOfWeekItem[] = [];
+  for (const item of field.toUpperCase().split(',')) {
+    const nth = item.match(/^(\w+)#(\d)$/);
+    const last = item.match(/^(\w+)L$/);
+
+    if (item === 'L') {
+      items.push({ type: 'weekday', weekday: 6 });
+    } else if (nth) {
+      const weekday = parseWeekday(nth[1]);
+      const n = Number(nth[2]);
+      if (weekday === null || n < 1 || n > 5) return undefined;
+      items.push({ type: 'nth', weekday, nth: n });
+    } else if (last) {
+      const weekday = parseWeekday(last[1]);
+      if (weekday === null) return undefined;
+      items.push({ type: 'last', weekday });
+    } else {
+      const values = expandCronItem(item, min, max, WEEKDAY_CODES);
+      if (!values) return undefined;
+      values.forEach(value => items.push({ type: 'weekday', weekday: toWeekday(value) }));
+    }
+  }
+  return items;
+}
+
+/** The first firing after `after`, searching at most `maxMinutes` (default: 400 years) of wall-clock time */
+function findNextFiring(schedule: CronSchedule, after: Date, options: CronOptions, maxMinutes?: number): Date | null {
+  const { timeZone } = options;
+  // Start early enough to catch times a DST gap shifted past `after`
+  let wall = Math.min(
+    toFloatingTime(after, timeZone),
+    toFloatingTime(new Date(after.getTime() - DST_MARGIN_MS), timeZone) + DST_MARGIN_MS
+  );
+  const limit = maxMinutes === undefined
+    ? shiftYears(wall, MAX_SEARCH_YEARS)
+    : wall + maxMinutes * MILLISECONDS_PER_MINUTE;
+
+  while (true) {
+    const match = findNextWallTime(schedule, wall, limit);
+    if (match === null) return null;
+
+    const firing = getFiringTime(match, options);
+    if (firing && firing > after) return firing;
+    wall = match + MILLISECONDS_PER_SECOND;
+  }
+}
+
+/**
+ * The earliest matching wall-clock time at or after `from` and no later than `limit`.
+ * Each step either returns or moves to the next value of the first field that fails,
+ * resetting the smaller fields.
+ */
+function findNextWallTime(schedule: CronSchedule, from: number, limit: number): number | null {
+  const seconds = schedule.seconds ?? [0];
+  let time = Math.ceil(from / MILLISECONDS_PER_SECOND) * MILLISECONDS_PER_SECOND;
+
+  while (time <= limit) {
+    const date = new Date(time);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+    const hour = date.getUTCHours();
+    const minute = date.getUTCMinutes();
+
+    if (schedule.years && !schedule.years.includes(year)) {
+      const nextYear = schedule.years.find(y => y > year);
+      if (nextYear === undefined) return null;
+      time = Date.UTC(nextYear, 0, 1);
+    } else if (!schedule.months.includes(month + 1)) {
+      time = Date.UTC(year, month + 1, 1);
+    } else {
+      const nextDay = getCronDays(schedule, year, month + 1).find(d => d >= day);
+      const nextHour = schedule.hours.find(h => h >= hour);
+      const nextMinute = schedule.minutes.find(m => m >= minute);
+      const nextSecond = seconds.find(s => s >= date.getUTCSeconds());
+
+      if (nextDay === undefined) {
+        time = Date.UTC(year, month + 1, 1);
+      } else if (nextDay !== day) {
+        time = Date.UTC(year, month, nextDay);
+      } else if (nextHour === undefined) {
+        time = Date.UTC(year, month, day + 1);
+      } else if (nextHour !== hour) {
+        time = Date.UTC(year, month, day, nextHour);
+      } else if (nextMinute === undefined) {
+        time = Date.UTC(year, month, day, hour + 1);
+      } else if (nextMinute !== minute) {
+        time = Date.UTC(year, month, day, hour, nextMinute);
+      } else if (nextSecond === undefined) {
+        time = Date.UTC(year, month, day, hour, minute + 1);
+      } else {
+        time = Date.UTC(year, month, day, hour, minute, nextSecond);
+        return time <= limit ? time : null;
+      }
+    }
+  }
+
+  return null;
+}
+
+/** The latest matching wall-clock time at or before `from` and no earlier than `limit` */
+function findPreviousWallTime(schedule: CronSchedule, from: number, limit: number): number | null {
+  const seconds = [...(schedule.seconds ?? [0])].reverse();
+  const hours = [...schedule.hours].reverse();
+  const minutes = [...schedule.minutes].reverse();
+  let time = Math.floor(from / MILLISECONDS_PER_SECOND) * MILLISECONDS_PER_SECOND;
+
+  while (time >= limit) {
+    const date = new Date(time);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+    const hour = date.getUTCHours();
+    const minute = date.getUTCMinutes();
+
+    if (schedule.years && !schedule.years.includes(year)) {
+      const previousYear = [...schedule.years].reverse().find(y => y < year);
+      if (previousYear === undefined) return null;
+      time = Date.UTC(previousYear + 1, 0, 1) - MILLISECONDS_PER_SECOND;
+    } else if (!schedule.months.includes(month + 1)) {
+      time = Date.UTC(year, month, 1) - MILLISECONDS_PER_SECOND;
+    } else {
+      const previousDay = getCronDays(schedule, year, month + 1).reverse().find(d => d <= day);
+      const previousHour = hours.find(h => h <= hour);
+      const previousMinute = minutes.find(m => m <= minute);
+      const previousSecond = seconds.find(s => s <= date.getUTCSeconds());
+
+      if (previousDay === undefined) {
+        time = Date.UTC(year, month, 1) - MILLISECONDS_PER_SECOND;
+      } else if (previousDay !== day) {
+        time = Date.UTC(year, month, previousDay + 1) - MILLISECONDS_PER_SECOND;
+      } else if (previousHour === undefined) {
+        time = Date.UTC(year, month, day) - MILLISECONDS_PER_SECOND;
+      } else if (previousHour !== hour) {
+        time = Date.UTC(year, month, day, previousHour + 1) - MILLISECONDS_PER_SECOND;
+      } else if (previousMinute === undefined) {
+        time = Date.UTC(year, month, day, hour) - MILLISECONDS_PER_SECOND;
+      } else if (previousMinute !== minute) {
+        time = Date.UTC(year, month, day, hour, previousMinute + 1) - MILLISECONDS_PER_SECOND;
+      } else if (previousSecond === undefined) {
+        time = Date.UTC(year, month, day, hour, minute) - MILLISECONDS_PER_SECOND;
+      } else {
+        time = Date.UTC(year, month, day, hour, minute, previousSecond);
+        return time >= limit ? time : null;
+      }
+    }
+  }
+
+  return null;
+}
+
+/** Days of a month matching both day fields, in ascending order */
+function getCronDays(schedule: CronSchedule, year: number, month: number): number[] {
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const days: number[] = [];
+  for (let day = 1; day <= daysInMonth; day++) {
+    if (matchesCronDay(schedule, year, month, day)) days.push(day);
+  }
+  return days;
+}
+
+function shiftYears(time: number, years: number): number {
+  const date = new Date(time);
+  date.setUTCFullYear(date.getUTCFullYear() + years);
+  return date.getTime();
+}
+
+/** Checks every field except seconds against a wall-clock time */
+function matchesCronMinute(schedule: CronSchedule, wall: number): boolean {
+  const date = new Date(wall);
+  return (
+    schedule.minutes.includes(date.getUTCMinutes()) &&
+    schedule.hours.includes(date.getUTCHours()) &&
+    schedule.months.includes(date.getUTCMonth() + 1) &&
+    (!schedule.years || schedule.years.includes(date.getUTCFullYear())) &&
+    matchesCronDay(schedule, date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate())
+  );
+}
+
+function isValidCronOptions(options: CronOptions): boolean {
+  return options.timeZone === undefined || isValidTimeZone(options.timeZone);
+}
+
+/** The moment a scheduled wall-clock time fires, or null when a DST gap skips it */
+function getFiringTime(wall: number, options: CronOptions): Date | null {
+  const date = fromFloatingTime(wall, options.timeZone);
+
+  if (options.dstGap === 'skip' && toFloatingTime(date, options.timeZone) !== wall) return null;
+  return date;
+}
+
+function matchesCronDay(schedule: CronSchedule, year: number, month: number, day: number): boolean {
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const weekdayOf = (d: number) => new Date(Date.UTC(year, month - 1, d)).getUTCDay();
+  const weekday = weekdayOf(day);
+
+  const dayOfMonthMatches = !schedule.daysOfMonth || schedule.daysOfMonth.some(item => {
+    switch (item.type) {
+      case 'day':
+        return item.day === day;
+      case 'last':
+        return day === daysInMonth - item.offset;
+      case 'lastWeekday':
+        return day === nearestWeekday(daysInMonth, daysInMonth, weekdayOf);
+      case 'nearestWeekday':
+        return item.day <= daysInMonth && day === nearestWeekday(item.day, daysInMonth, weekdayOf);
+    }
+  });
+
+  const dayOfWeekMatches = !schedule.daysOfWeek || schedule.daysOfWeek.some(item => {
+    if (item.weekday !== weekday) return false;
+    if (item.type === 'nth') return Math.ceil(day / 7) === item.nth;
+    if (item.type === 'last') return day + 7 > daysInMonth;
+    return true;
+  });
+
+  return dayOfMonthMatches && dayOfWeekMatches;
+}
+
+/** The weekday closest to `day` without leaving the month (`W`) */
+function nearestWeekday(day: number, daysInMonth: number, weekdayOf: (day: number) => number): number {
+  const weekday = weekdayOf(day);
+  if (weekday === 6) return day === 1 ? 3 : day - 1;
+  if (weekday === 0) return day === daysInMonth ? day - 2 : day + 1;
+  return day;
+}
+
+function formatCronTime(hour: string, minute: string): string {
+  return `${hour.padStart(2, '0')}:${minute.padStart(2, '0')}`;
+}
+
+/** Replaces `{0}`, `{1}`, ... in a phrase template */
+function fillPhrase(template: string, ...values: string[]): string {
+  return template.replace(/\{(\d+)\}/g, (match, index: string) => values[Number(index)] ?? match);
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/** Joins items with the locale's list separators */
+function joinPhrases(items: string[], phrases: CronPhrases): string {
+  return items.length > 1
+    ? `${items.slice(0, -1).join(phrases.listSeparator)}${phrases.listEnd}${items[items.length - 1]}`
+    : items[0];
+}
+
+/** Describes each comma-separated item, spelling out ranges and dropping repeats (e.g. 0 and 7 for Sunday) */
+function describeList(field: string, describe: (token: string) => string, phrases: CronPhrases): string {
+  const items = field.split(',').map(item => {
+    if (item.includes('/')) return item;
+    const [from, to] = item.split('-');
+    return to === undefined ? describe(from) : fillPhrase(phrases.range, describe(from), describe(to));
+  });
+  return joinPhrases([...new Set(items)], phrases);
+}
+
+function describeName(token: string, codes: string[], names: string[], first: number): string {
+  const index = codes.indexOf(token.toUpperCase());
+  if (index !== -1) return names[index];
+  const value = Number(token);
+  return Number.isInteger(value) && names[value - first] ? names[value - first] : token;
+}
+
+function describeDayOfMonth(field: string, phrases: CronPhrases): string {
+  const plain = field.split(',').every(item => !/[LW]/i.test(item));
+  if (plain) return fillPhrase(phrases.onDaysOfMonth, field);
+
+  const items = field.toUpperCase().split(',').map(item => {
+    if (item === 'L') return phrases.lastDay;
+    if (item === 'LW') return phrases.lastWeekday;
+    if (item.startsWith('L-')) return fillPhrase(phrases.daysBeforeLastDay, item.slice(2));
+    if (item.endsWith('W')) return fillPhrase(phrases.nearestWeekday, item.slice(0, -1));
+    return fillPhrase(phrases.dayOfMonth, item);
+  });
+  return fillPhrase(phrases.onSpecialDaysOfMonth, items.join(phrases.listEnd));
+}
+
+function describeDayOfWeek(field: string, quartz: boolean, dayNames: string[], phrases: CronPhrases): string {
+  const describeDay = (token: string) => {
+    const index = WEEKDAY_CODES.indexOf(token.toUpperCase());
+    if (index !== -1) return dayNames[index];
+    const value = Number(token);
+    if (!Number.isInteger(value)) return token;
+    return dayNames[quartz ? value - 1 : value % 7] ?? token;
+  };
+
+  const special = field.toUpperCase().split(',').map(item => {
+    const nth = item.match(/^(\w+)#(\d)$/);
+    if (nth) return fillPhrase(phrases.nthWeekday, phrases.ordinals[Number(nth[2])], describeDay(nth[1]));
+    const last = item.match(/^(\w+)L$/);
+    if (last) return fillPhrase(phrases.lastWeekdayOfMonth, describeDay(last[1]));
+    return null;
+  });
+
+  if (special.every(item => item !== null)) {
+    return fillPhrase(phrases.onSpecialWeekdays, special.join(phrases.listEnd));
+  }
+  return fillPhrase(phrases.onWeekdays, describeList(field, describeDay, phrases));
+}
@@ -1,13 +1,25 @@
 /**
  * @fileoverview Finance utilities for market-aware date calculations
- * Provides US market hours, trading days, settlement dates, and options expiration
+ * Provides exchange hours, trading days, settlement dates, options expiration,
+ * day count fractions and coupon schedules.
+ * Trading days are calendar days, read from a Date's local fields. Exchange hours are wall-clock
+ * times in the exchange's timezone, so session times are compared and returned as moments.
  */
 
 import type { DateInput } from './types.js';
+import { MILLISECONDS_PER_DAY } from './constants.js';
+import { fromFloatingTime, toFloatingTime } from './timezone.js';
+import { getHolidayCalendarRules, getHolidays, getHolidaysFromRules } from './holidays.js';
+import type { Holiday, HolidayDateRule, HolidayRule } from './holidays.js';
 
 /** Supported US stock markets */
 export type USMarket = 'NYSE' | 'NASDAQ';
 
+/** Built-in exchange codes, or the code of an exchange added with registerMarket() */
+export type Market =
+  | USMarket | 'LSE' | 'EURONEXT' | 'XETRA' | 'TSE' | 'HKEX' | 'ASX' | 'TSX' | 'CME'
+  | (string & {});
+
 /** Market trading hours configuration */
 export interface MarketHours {
   /** Regular market open time */
@@ -20,26 +32,225 @@ export interface MarketHours {
   preMarket?: { hour: number; minute: number };
   /** After-hours close time (optional) */
   afterHours?: { hour: number; minute: number };
+  /** Midday break in the regular session, such as Tokyo's and Hong Kong's lunch break (optional) */
+  lunchBreak?: {
+    start: { hour: number; minute: number };
+    end: { hour: number; minute: number };
+  };
+  /** Days the regular session closes early (optional) */
+  earlyCloses?: EarlyCloseRule[];
+}
+
+/** A day the regular session closes early, such as NYSE's 13:00 close on the day after Thanksgiving */
+export interface EarlyCloseRule {
+  name: string;
+  date: HolidayDateRule;
+  /** Regular market close time on that day */
+  close: { hour: number; minute: number };
+  /** After-hours close time on that day (optional) */
+  afterHours?: { hour: number; minute: number };
+  /** First year the early close applies */
+  from?: number;
+  /** Last year the early close applies */
+  to?: number;
+}
+
+/** The sessions of one trading day, as the moments the exchange's wall-clock times occur */
+export interface TradingSession {
+  /** Pre-market session, for markets that have one */
+  preMarket?: { start: Date; end: Date };
+  /** Regular session */
+  regular: { start: Date; end: Date };
+  /** Midday break in the regular session */
+  lunchBreak?: { start: Date; end: Date };
+  /** After-hours session, for markets that have one */
+  afterHours?: { start: Date; end: Date };
+  /** Whether the regular session closes early */
+  isEarlyClose: boolean;
+}
+
+/** An exchange's trading hours and holiday rules, for registerMarket() */
+export interface MarketDefinition {
+  hours: MarketHours;
+  /** Days the exchange is closed, matched by their observed dates */
+  holidays: HolidayRule[];
+  /** Settlement days per asset class traded on the exchange (optional, defaults to T+2 and T+1 for options) */
+  settlementCycles?: Partial<Record<AssetClass, number>>;
+  /** Cycles that applied before a change of settlement cycle, such as the move to T+1 (optional) */
+  previousSettlementCycles?: SettlementCyclePeriod[];
+}
+
+/** Settlement cycles of trades made before a date */
+export interface SettlementCyclePeriod {
+  /** First trade date that no longer settles on these cycles */
+  before: DateInput;
+  /** Settlement days per asset class; asset classes left out did not change */
+  cycles: Partial<Record<AssetClass, number>>;
+}
+
+/** Asset classes with their own settlement cycles */
+export type AssetClass = 'equity' | 'etf' | 'corporate-bond' | 'government-bond' | 'option' | 'fx-spot';
+
+export interface SettlementOptions {
+  /** Asset class whose settlement cycle applies (default: 'equity') */
+  assetClass?: AssetClass;
+  /** Trading venue, whose calendar and settlement cycles apply (default: the market argument) */
+  market?: Market;
+  /** Currency pair for FX spot, such as 'EUR/USD' or 'USDJPY' */
+  currencyPair?: string;
+  /** Other markets whose holidays also block settlement, for cross-border trades */
+  additionalMarkets?: Market[];
+  /** Settlement days, overriding the asset class cycle */
+  days?: number;
 }
 
 /** Options expiration type */
 export type OptionsExpirationType = 'monthly' | 'weekly' | 'quarterly';
 
-/** Market hours for US exchanges */
-export const MARKET_HOURS: Record<USMarket, MarketHours> = {
+/** Day count conventions for accrual fractions */
+export type DayCountConvention = '30/360' | '30E/360' | 'ACT/360' | 'ACT/365F' | 'ACT/ACT ISDA' | 'ACT/ACT ICMA' | 'BUS/252';
+
+/** How a date that is not a trading day is moved */
+export type BusinessDayConvention = 'following' | 'modified-following' | 'preceding' | 'modified-preceding' | 'none';
+
+/** Coupon payments per year */
+export type CouponFrequency = 1 | 2 | 3 | 4 | 6 | 12;
+
+/** Where the irregular period of a schedule goes when the term is not a whole number of periods */
+export type StubType = 'short-first' | 'long-first' | 'short-last' | 'long-last';
+
+export interface DayCountOptions {
+  /** Coupons per year, for ACT/ACT ICMA (default: 2) */
+  frequency?: CouponFrequency;
+  /** Start of the regular coupon period the accrual belongs to, for ACT/ACT ICMA (default: start) */
+  referenceStart?: DateInput;
+  /** End of the regular coupon period the accrual belongs to, for ACT/ACT ICMA (default: end) */
+  referenceEnd?: DateInput;
+  /** Market whose trading days BUS/252 counts (default: NYSE) */
+  market?: Market;
+}
+
+export interface CouponScheduleOptions {
+  /** Coupons per year (default: 2) */
+  frequency?: CouponFrequency;
+  /** Day count convention for accrual fractions (default: '30/360') */
+  dayCount?: DayCountConvention;
+  /** Adjustment of payment dates that are not trading days (default: 'following') */
+  businessDayConvention?: BusinessDayConvention;
+  /** Also apply the business day convention to accrual dates, as swaps do (default: false) */
+  adjustAccrualDates?: boolean;
+  /** Roll to the last day of each month when the roll date is a month end (default: false) */
+  endOfMonth?: boolean;
+  /** Placement of the irregular period (default: 'short-first') */
+  stub?: StubType;
+  /** First regular coupon date; dates roll forward from it and any front stub ends on it */
+  firstCouponDate?: DateInput;
+  /** Last regular coupon date before maturity; dates roll back from it and any back stub starts on it */
+  penultimateCouponDate?: DateInput;
+  /** Market whose trading days are used for adjustments (default: NYSE) */
+  market?: Market;
+}
+
+/** One period of a coupon schedule */
+export interface CouponPeriod {
+  /** Accrual start date */
+  accrualStart: Date;
+  /** Accrual end date */
+  accrualEnd: Date;
+  /** Payment date, the accrual end adjusted by the business day convention */
+  paymentDate: Date;
+  /** Day count fraction of the accrual period */
+  accrualFraction: number;
+  /** Whether the period is shorter or longer than a regular period */
+  isStub: boolean;
+}
+
+// NYSE and NASDAQ close at 13:00 before Independence Day and Christmas and after Thanksgiving;
+// when the eve is itself a holiday the market is simply closed
+const US_EARLY_CLOSES: EarlyCloseRule[] = [
+  { name: 'Independence Day Eve', date: { type: 'fixed', month: 7, day: 3 }, close: { hour: 13, minute: 0 }, afterHours: { hour: 17, minute: 0 } },
+  { name: 'Day after Thanksgiving', date: { type: 'nth-weekday', month: 11, weekday: 4, n: 4, offset: 1 }, close: { hour: 13, minute: 0 }, afterHours: { hour: 17, minute: 0 } },
+  { name: 'Christmas Eve', date: { type: 'fixed', month: 12, day: 24 }, close: { hour: 13, minute: 0 }, afterHours: { hour: 17, minute: 0 } }
+];
+
+/**
+ * Early closes on Christmas Eve and, optionally, New Year's Eve
+ */
+function getYearEndEarlyCloses(hour: number, minute: number, newYearsEve = true): EarlyCloseRule[] {
+  const closes: EarlyCloseRule[] = [{ name: 'Christmas Eve', date: { type: 'fixed', month: 12, day: 24 }, close: { hour, minute } }];
+  if (newYearsEve) closes.push({ name: "New Year's Eve", date: { type: 'fixed', month: 12, day: 31 }, close: { hour, minute } });
+  return closes;
+}
+
+/** Market hours for the built-in exchanges */
+export const MARKET_HOURS: Record<USMarket | 'LSE' | 'EURONEXT' | 'XETRA' | 'TSE' | 'HKEX' | 'ASX' | 'TSX' | 'CME', MarketHours> = {
   NYSE: {
     open: { hour: 9, minute: 30 },
     close: { hour: 16, minute: 0 },
     timezone: 'America/New_York',
     preMarket: { hour: 4, minute: 0 },
-    afterHours: { hour: 20, minute: 0 }
+    afterHours: { hour: 20, minute: 0 },
+    earlyCloses: US_EARLY_CLOSES
   },
   NASDAQ: {
     open: { hour: 9, minute: 30 },
     close: { hour: 16, minute: 0 },
     timezone: 'America/New_York',
     preMarket: { hour: 4, minute: 0 },
-    afterHours: { hour: 20, minute: 0 }
+    afterHours: { hour: 20, minute: 0 },
+    earlyCloses: US_EARLY_CLOSES
+  },
+  LSE: {
+    open: { hour: 8, minute: 0 },
+    close: { hour: 16, minute: 30 },
+    timezone: 'Europe/London',
+    earlyCloses: getYearEndEarlyCloses(12, 30)
+  },
+  EURONEXT: {
+    open: { hour: 9, minute: 0 },
+    close: { hour: 17, minute: 30 },
+    timezone: 'Europe/Paris',
+    earlyCloses: getYearEndEarlyCloses(14, 5)
+  },
+  XETRA: {
+    open: { hour: 9, minute: 0 },
+    close: { hour: 17, minute: 30 },
+    timezone: 'Europe/Berlin'
+  },
+  TSE: {
+    open: { hour: 9, minute: 0 },
+    close: { hour: 15, minute: 30 },
+    timezone: 'Asia/Tokyo',
+    lunchBreak: { start: { hour: 11, minute: 30 }, end: { hour: 12, minute: 30 } }
+  },
+  HKEX: {
+    open: { hour: 9, minute: 30 },
+    close: { hour: 16, minute: 0 },
+    timezone: 'Asia/Hong_Kong',
+    lunchBreak: { start: { hour: 12, minute: 0 }, end: { hour: 13, minute: 0 } },
+    // Morning session only on the eves of Christmas, New Year and Lunar New Year
+    earlyCloses: [
+      ...getYearEndEarlyCloses(12, 0),
+      { name: "Lunar New Year's Eve", date: { type: 'lunar', month: 1, day: 1, offset: -1 }, close: { hour: 12, minute: 0 } }
+    ]
+  },
+  ASX: {
+    open: { hour: 10, minute: 0 },
+    close: { hour: 16, minute: 0 },
+    timezone: 'Australia/Sydney',
+    earlyCloses: getYearEndEarlyCloses(14, 10)
+  },
+  TSX: {
+    open: { hour: 9, minute: 30 },
+    close: { hour: 16, minute: 0 },
+    timezone: 'America/Toronto',
+    earlyCloses: getYearEndEarlyCloses(13, 0, false)
+  },
+  // Regular trading hours of CME equity and interest rate futures; Globex trades nearly around the clock
+  CME: {
+    open: { hour: 8, minute: 30 },
+    close: { hour: 15, minute: 0 },
+    timezone: 'America/Chicago'
   }
 };
 
@@ -65,27 +276,6 @@ function toDate(input: DateInput): Date {
   return new Date(input);
 }
 
-/**
- * Calculate Easter Sunday using the Anonymous Gregorian algorithm
- */
-function getEasterSunday(year: number): Date {
-  const a = year % 19;
-  const b = Math.floor(year / 100);
-  const c = year % 100;
-  const d = Math.floor(b / 4);
-  const e = b % 4;
-  const f = Math.floor((b + 8) / 25);
-  const g = Math.floor((b - f + 1) / 3);
-  const h = (19 * a + b - d - g + 15) % 30;
-  const i = Math.floor(c / 4);
-  const k = c % 4;
-  const l = (32 + 2 * e + 2 * i - h - k) % 7;
-  const m = Math.floor((a + 11 * h + 22 * l) / 451);
-  const month = Math.floor((h + l - 7 * m + 114) / 31);
-  const day = ((h + l - 7 * m + 114) % 31) + 1;
-  return new Date(year, month - 1, day);
-}
-
 /**
  * Get nth occurrence of a weekday in a month
  */
@@ -98,86 +288,277 @@ function getNthWeekdayOfMonth(year: number, month: number, dayOfWeek: number, n:
   return new Date(year, month, date);
 }
 
+// ============================================================================
+// MARKET HOLIDAYS
+// ============================================================================
+
 /**
- * Get last occurrence of a weekday in a month
+ * US exchange holidays; Saturday holidays close the Friday before, except New Year's Day.
+ * Dates before the Uniform Monday Holiday Act of 1971 fall on their original days
  */
-function getLastWeekdayOfMonth(year: number, month: number, dayOfWeek: number): Date {
-  const lastDay = new Date(year, month + 1, 0);
-  const lastDate = lastDay.getDate();
-  const lastWeekday = lastDay.getDay();
-
-  let diff = lastWeekday - dayOfWeek;
-  if (diff < 0) diff += 7;
-
-  return new Date(year, month, lastDate - diff);
-}
+const US_EXCHANGE_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 }, observed: 'sunday-substitute' },
+  { name: 'Martin Luther King Jr. Day', date: { type: 'nth-weekday', month: 1, weekday: 1, n: 3 }, from: 1998 },
+  { name: "Washington's Birthday", date: { type: 'fixed', month: 2, day: 22 }, observed: 'nearest-weekday', to: 1970 },
+  { name: "Presidents' Day", date: { type: 'nth-weekday', month: 2, weekday: 1, n: 3 }, from: 1971 },
+  { name: 'Good Friday', date: { type: 'easter', offset: -2 } },
+  { name: 'Memorial Day', date: { type: 'fixed', month: 5, day: 30 }, observed: 'nearest-weekday', to: 1970 },
+  { name: 'Memorial Day', date: { type: 'nth-weekday', month: 5, weekday: 1, n: -1 }, from: 1971 },
+  { name: 'Juneteenth', date: { type: 'fixed', month: 6, day: 19 }, observed: 'nearest-weekday', from: 2022 },
+  { name: 'Independence Day', date: { type: 'fixed', month: 7, day: 4 }, observed: 'nearest-weekday' },
+  { name: 'Labor Day', date: { type: 'nth-weekday', month: 9, weekday: 1, n: 1 } },
+  // Every Election Day until 1968, then in presidential election years until 1980
+  { name: 'Election Day', date: { type: 'weekday-on-or-after', month: 11, day: 2, weekday: 2 }, to: 1968 },
+  { name: 'Election Day', date: { type: 'once', year: 1972, month: 11, day: 7 } },
+  { name: 'Election Day', date: { type: 'once', year: 1976, month: 11, day: 2 } },
+  { name: 'Election Day', date: { type: 'once', year: 1980, month: 11, day: 4 } },
+  // The last Thursday of November until 1939, and the second to last until 1942
+  { name: 'Thanksgiving Day', date: { type: 'nth-weekday', month: 11, weekday: 4, n: -1 }, to: 1938 },
+  { name: 'Thanksgiving Day', date: { type: 'nth-weekday', month: 11, weekday: 4, n: -2 }, from: 1939, to: 1941 },
+  { name: 'Thanksgiving Day', date: { type: 'nth-weekday', month: 11, weekday: 4, n: 4 }, from: 1942 },
+  { name: 'Christmas Day', date: { type: 'fixed', month: 12, day: 25 }, observed: 'nearest-weekday' },
+  // Unscheduled closures
+  { name: 'Funeral of John F. Kennedy', date: { type: 'once', year: 1963, month: 11, day: 25 } },
+  { name: 'National Day of Mourning for Martin Luther King Jr.', date: { type: 'once', year: 1968, month: 4, day: 9 } },
+  { name: 'Funeral of Dwight D. Eisenhower', date: { type: 'once', year: 1969, month: 3, day: 31 } },
+  { name: 'Apollo 11 Moon Landing', date: { type: 'once', year: 1969, month: 7, day: 21 } },
+  { name: 'Funeral of Harry S. Truman', date: { type: 'once', year: 1972, month: 12, day: 28 } },
+  { name: 'Funeral of Lyndon B. Johnson', date: { type: 'once', year: 1973, month: 1, day: 25 } },
+  { name: 'New York City Blackout', date: { type: 'once', year: 1977, month: 7, day: 14 } },
+  { name: 'Hurricane Gloria', date: { type: 'once', year: 1985, month: 9, day: 27 } },
+  { name: 'National Day of Mourning for Richard Nixon', date: { type: 'once', year: 1994, month: 4, day: 27 } },
+  { name: 'September 11 Attacks', date: { type: 'custom', dates: year => (year === 2001 ? [11, 12, 13, 14].map(day => new Date(2001, 8, day)) : []) } },
+  { name: 'National Day of Mourning for Ronald Reagan', date: { type: 'once', year: 2004, month: 6, day: 11 } },
+  { name: 'National Day of Mourning for Gerald Ford', date: { type: 'once', year: 2007, month: 1, day: 2 } },
+  { name: 'Hurricane Sandy', date: { type: 'custom', dates: year => (year === 2012 ? [new Date(2012, 9, 29), new Date(2012, 9, 30)] : []) } },
+  { name: 'National Day of Mourning for George H. W. Bush', date: { type: 'once', year: 2018, month: 12, day: 5 } },
+  { name: 'National Day of Mourning for Jimmy Carter', date: { type: 'once', year: 2025, month: 1, day: 9 } }
+];
 
 /**
- * Adjust date if it falls on a weekend (observed holiday rules)
- * - If Saturday, observe on Friday
- * - If Sunday, observe on Monday
+ * The country-wide rules of a built-in holiday calendar, or all those observed in one subdivision
  */
-function adjustForWeekend(date: Date): Date {
-  const day = date.getDay();
-  if (day === 0) { // Sunday -> Monday
-    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
-  } else if (day === 6) { // Saturday -> Friday
-    return new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1);
-  }
-  return date;
+function getCountryRules(countryCode: string, subdivision?: string): HolidayRule[] {
+  return getHolidayCalendarRules(countryCode)!
+    .filter(rule =>
+      subdivision
+        ? (rule.subdivisions ? rule.subdivisions.includes(subdivision) : !rule.excludedSubdivisions?.includes(subdivision))
+        : !rule.subdivisions
+    )
+    .map(({ subdivisions, excludedSubdivisions, ...rule }) => rule);
 }
 
-/**
- * Get all US market holidays for a year
- */
-function getUSMarketHolidays(year: number): Date[] {
-  const holidays: Date[] = [];
+const EURONEXT_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 } },
+  { name: 'Good Friday', date: { type: 'easter', offset: -2 } },
+  { name: 'Easter Monday', date: { type: 'easter', offset: 1 } },
+  { name: 'Labour Day', date: { type: 'fixed', month: 5, day: 1 } },
+  { name: 'Christmas Day', date: { type: 'fixed', month: 12, day: 25 } },
+  { name: 'Boxing Day', date: { type: 'fixed', month: 12, day: 26 } }
+];
+
+const XETRA_HOLIDAYS: HolidayRule[] = [
+  ...EURONEXT_HOLIDAYS,
+  { name: 'Christmas Eve', date: { type: 'fixed', month: 12, day: 24 } },
+  { name: "New Year's Eve", date: { type: 'fixed', month: 12, day: 31 } }
+];
+
+const JAPAN_HOLIDAY_RULES = getCountryRules('JP');
+
+// Substitute holidays come from the national holidays alone, so they do not skip past the market closures
+const TSE_HOLIDAYS: HolidayRule[] = [
+  ...JAPAN_HOLIDAY_RULES.map(({ observed, ...rule }) => rule),
+  {
+    name: 'Substitute Holiday',
+    date: {
+      type: 'custom',
+      dates: year => getHolidaysFromRules(year, JAPAN_HOLIDAY_RULES, 'JP')
+        .filter(h => h.observedDate.getTime() !== h.date.getTime())
+        .map(h => h.observedDate)
+    }
+  },
+  { name: 'Market Holiday', date: { type: 'fixed', month: 1, day: 2 } },
+  { name: 'Market Holiday', date: { type: 'fixed', month: 1, day: 3 } },
+  { name: 'Market Holiday', date: { type: 'fixed', month: 12, day: 31 } }
+];
+
+// General holidays on a Sunday move to the next weekday that is not a holiday
+const HONG_KONG_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 }, observed: 'sunday-substitute' },
+  { name: 'Lunar New Year', date: { type: 'lunar', month: 1, day: 1 }, observed: 'sunday-substitute' },
+  { name: 'Lunar New Year', date: { type: 'lunar', month: 1, day: 2 }, observed: 'sunday-substitute' },
+  { name: 'Lunar New Year', date: { type: 'lunar', month: 1, day: 3 }, observed: 'sunday-substitute' },
+  {
+    name: 'Ching Ming Festival',
+    date: { type: 'custom', dates: year => getHolidays(year, 'CN').filter(h => h.name === 'Tomb Sweeping Day').map(h => h.date) },
+    observed: 'sunday-substitute'
+  },
+  { name: 'Good Friday', date: { type: 'easter', offset: -2 }, observed: 'sunday-substitute' },
+  { name: 'Easter Monday', date: { type: 'easter', offset: 1 }, observed: 'sunday-substitute' },
+  { name: 'Labour Day', date: { type: 'fixed', month: 5, day: 1 }, observed: 'sunday-substitute' },
+  { name: "Buddha's Birthday", date: { type: 'lunar', month: 4, day: 8 }, observed: 'sunday-substitute' },
+  { name: 'Tuen Ng Festival', date: { type: 'lunar', month: 5, day: 5 }, observed: 'sunday-substitute' },
+  { name: 'HKSAR Establishment Day', date: { type: 'fixed', month: 7, day: 1 }, from: 1997, observed: 'sunday-substitute' },
+  { name: 'Day after Mid-Autumn Festival', date: { type: 'lunar', month: 8, day: 16 }, observed: 'sunday-substitute' },
+  { name: 'National Day', date: { type: 'fixed', month: 10, day: 1 }, from: 1997, observed: 'sunday-substitute' },
+  { name: 'Chung Yeung Festival', date: { type: 'lunar', month: 9, day: 9 }, observed: 'sunday-substitute' },
+  { name: 'Christmas Day', date: { type: 'fixed', month: 12, day: 25 }, observed: 'sunday-substitute' },
+  { name: 'First weekday after Christmas Day', date: { type: 'fixed', month: 12, day: 26 }, observed: 'sunday-substitute' }
+];
+
+const BUILT_IN_MARKETS: Record<keyof typeof MARKET_HOURS, HolidayRule[]> = {
+  NYSE: US_EXCHANGE_HOLIDAYS,
+  NASDAQ: US_EXCHANGE_HOLIDAYS,
+  // English bank holidays
+  LSE: getCountryRules('UK'),
+  EURONEXT: EURONEXT_HOLIDAYS,
+  XETRA: XETRA_HOLIDAYS,
+  TSE: TSE_HOLIDAYS,
+  HKEX: HONG_KONG_HOLIDAYS,
+  // National holidays, without New South Wales' Labour Day
+  ASX: getCountryRules('AU'),
+  // Ontario's statutory holidays and the Civic Holiday
+  TSX: [
+    ...getCountryRules('CA', 'CA-ON'),
+    { name: 'Civic Holiday', date: { type: 'nth-weekday', month: 8, weekday: 1, n: 1 } }
+  ],
+  CME: US_EXCHANGE_HOLIDAYS
+};
 
-  // New Year's Day (January 1, or observed)
-  holidays.push(adjustForWeekend(new Date(year, 0, 1)));
+const DEFAULT_SETTLEMENT_CYCLES: Record<AssetClass, number> = {
+  equity: 2,
+  etf: 2,
+  'corporate-bond': 2,
+  'government-bond': 2,
+  option: 1,
+  'fx-spot': 2
+};
 
-  // Martin Luther King Jr. Day (3rd Monday of January)
-  holidays.push(getNthWeekdayOfMonth(year, 0, 1, 3));
+// North American securities moved to T+1 in May 2024; gilts, JGBs and Treasuries already settled T+1
+const NORTH_AMERICAN_SETTLEMENT: Partial<Record<AssetClass, number>> = {
+  equity: 1,
+  etf: 1,
+  'corporate-bond': 1,
+  'government-bond': 1
+};
 
-  // Presidents' Day (3rd Monday of February)
-  holidays.push(getNthWeekdayOfMonth(year, 1, 1, 3));
+const BUILT_IN_SETTLEMENT_CYCLES: Partial<Record<keyof typeof MARKET_HOURS, Partial<Record<AssetClass, number>>>> = {
+  NYSE: NORTH_AMERICAN_SETTLEMENT,
+  NASDAQ: NORTH_AMERICAN_SETTLEMENT,
+  TSX: NORTH_AMERICAN_SETTLEMENT,
+  CME: NORTH_AMERICAN_SETTLEMENT,
+  LSE: { 'government-bond': 1 },
+  TSE: { 'government-bond': 1 }
+};
 
-  // Good Friday (2 days before Easter)
-  const easter = getEasterSunday(year);
-  holidays.push(new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() - 2));
+// T+1 applies to US trades from May 28, 2024 and Canadian trades from May 27, 2024; earlier trades settled T+2
+const US_PRE_T1_SETTLEMENT: SettlementCyclePeriod[] = [
+  { before: new Date(2024, 4, 28), cycles: { equity: 2, etf: 2, 'corporate-bond': 2 } }
+];
 
-  // Memorial Day (last Monday of May)
-  holidays.push(getLastWeekdayOfMonth(year, 4, 1));
+const BUILT_IN_PREVIOUS_SETTLEMENT_CYCLES: Partial<Record<keyof typeof MARKET_HOURS, SettlementCyclePeriod[]>> = {
+  NYSE: US_PRE_T1_SETTLEMENT,
+  NASDAQ: US_PRE_T1_SETTLEMENT,
+  TSX: [{ before: new Date(2024, 4, 27), cycles: { equity: 2, etf: 2, 'corporate-bond': 2, 'government-bond': 2 } }],
+  CME: US_PRE_T1_SETTLEMENT
+};
 
-  // Juneteenth (June 19, or observed)
-  holidays.push(adjustForWeekend(new Date(year, 5, 19)));
+// TARGET2 closing days, which govern euro settlement
+const TARGET_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 } },
+  { name: 'Good Friday', date: { type: 'easter', offset: -2 } },
+  { name: 'Easter Monday', date: { type: 'easter', offset: 1 } },
+  { name: 'Labour Day', date: { type: 'fixed', month: 5, day: 1 } },
+  { name: 'Christmas Day', date: { type: 'fixed', month: 12, day: 25 } },
+  { name: "St. Stephen's Day", date: { type: 'fixed', month: 12, day: 26 } }
+];
+
+// Federal Reserve Banks open on the Friday before a Saturday holiday
+const USD_HOLIDAYS: HolidayRule[] = getCountryRules('US').map(rule =>
+  rule.observed === 'nearest-weekday' ? { ...rule, observed: 'sunday-substitute' } : rule
+);
+
+// Other currencies settle around the issuing country's public holidays
+const CURRENCY_COUNTRIES: Record<string, string> = {
+  GBP: 'UK', CAD: 'CA', AUD: 'AU', CHF: 'CH', CNY: 'CN', INR: 'IN',
+  BRL: 'BR', MXN: 'MX', KRW: 'KR', SGD: 'SG', PLN: 'PL', SEK: 'SE'
+};
 
-  // Independence Day (July 4, or observed)
-  holidays.push(adjustForWeekend(new Date(year, 6, 4)));
+// Global market registry
+const marketRegistry = new Map<string, MarketDefinition>(
+  Object.entries(BUILT_IN_MARKETS).map(([code, holidays]) => [
+    code,
+    {
+      hours: MARKET_HOURS[code as keyof typeof MARKET_HOURS],
+      holidays,
+      settlementCycles: BUILT_IN_SETTLEMENT_CYCLES[code as keyof typeof MARKET_HOURS],
+      previousSettlementCycles: BUILT_IN_PREVIOUS_SETTLEMENT_CYCLES[code as keyof typeof MARKET_HOURS]
+    }
+  ])
+);
 
-  // Labor Day (1st Monday of September)
-  holidays.push(getNthWeekdayOfMonth(year, 8, 1, 1));
+// Holiday and early close day keys per market and year, cleared when a market is registered
+const holidayCache = new Map<string, Set<string>>();
+const earlyCloseCache = new Map<string, Map<string, EarlyCloseRule>>();
 
-  // Thanksgiving Day (4th Thursday of November)
-  holidays.push(getNthWeekdayOfMonth(year, 10, 4, 4));
+function getDayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
 
-  // Christmas Day (December 25, or observed)
-  holidays.push(adjustForWeekend(new Date(year, 11, 25)));
+function getMarket(market: Market): MarketDefinition {
+  const definition = marketRegistry.get(market);
+  if (!definition) {
+    throw new Error(`Market "${market}" is not registered`);
+  }
+  return definition;
+}
 
-  return holidays;
+/**
+ * Register an exchange, or replace a built-in one, for use with every market function
+ * @param code - Exchange code
+ * @param definition - Trading hours and holiday rules
+ *
+ * @example
+ * ```ts
+ * registerMarket('SIX', {
+ *   hours: { open: { hour: 9, minute: 0 }, close: { hour: 17, minute: 30 }, timezone: 'Europe/Zurich' },
+ *   holidays: [{ name: 'Swiss National Day', date: { type: 'fixed', month: 8, day: 1 } }]
+ * });
+ * isTradingDay(new Date(2025, 7, 1), 'SIX'); // false
+ * ```
+ */
+export function registerMarket(code: string, definition: MarketDefinition): void {
+  marketRegistry.set(code, definition);
+  holidayCache.clear();
+  earlyCloseCache.clear();
+}
+
+/**
+ * Get all registered exchange codes
+ * @returns Array of exchange codes
+ */
+export function getSupportedMarkets(): Market[] {
+  return Array.from(marketRegistry.keys());
 }
 
 /**
- * Compare two dates by year, month, day only (ignoring time)
+ * Get the days an exchange is closed in a year, besides weekends
+ * @param year - Year
+ * @param market - Market (default: NYSE)
+ * @returns Holidays in order of `observedDate`, the day the exchange is closed
+ *
+ * @example
+ * ```ts
+ * getMarketHolidays(2024, 'LSE').map(h => h.name); // ["New Year's Day", 'Good Friday', ...]
+ * ```
  */
-function isSameDay(date1: Date, date2: Date): boolean {
-  return date1.getFullYear() === date2.getFullYear() &&
-         date1.getMonth() === date2.getMonth() &&
-         date1.getDate() === date2.getDate();
+export function getMarketHolidays(year: number, market: Market = 'NYSE'): Holiday[] {
+  return getHolidaysFromRules(year, getMarket(market).holidays, market)
+    .sort((a, b) => a.observedDate.getTime() - b.observedDate.getTime());
 }
 
 /**
- * Check if a date is a US market holiday
+ * Check if a date is a market holiday
  * @param date - Date to check
  * @param market - Market (default: NYSE)
  * @returns True if the date is a market holiday
@@ -186,14 +567,35 @@ function isSameDay(date1: Date, date2: Date): boolean {
  * ```ts
  * isMarketHoliday(new Date('2024-12-25')); // true (Christmas)
  * isMarketHoliday(new Date('2024-01-02')); // false
+ * isMarketHoliday(new Date(2024, 1, 12), 'HKEX'); // true (Lunar New Year)
  * ```
  */
-export function isMarketHoliday(date: DateInput, market: USMarket = 'NYSE'): boolean {
+export function isMarketHoliday(date: DateInput, market: Market = 'NYSE'): boolean {
   const d = toDate(date);
-  const year = d.getFullYear();
-  const holidays = getUSMarketHolidays(year);
+  return isCalendarHoliday(d, market, getMarket(market).holidays);
+}
+
+/**
+ * Observed holiday day keys of a calendar for a year, cached per calendar and year
+ */
+function getCalendarDaysOff(year: number, calendar: string, rules: HolidayRule[]): Set<string> {
+  const cacheKey = `${calendar}:${year}`;
+  let holidays = holidayCache.get(cacheKey);
+  if (!holidays) {
+    holidays = new Set(getHolidaysFromRules(year, rules, calendar).map(h => getDayKey(h.observedDate)));
+    holidayCache.set(cacheKey, holidays);
+  }
+  return holidays;
+}
 
-  return holidays.some(h => isSameDay(d, h));
+/**
+ * Check a date against a holiday calendar's observed dates, including holidays of the
+ * neighbouring years observed across New Year
+ */
+function isCalendarHoliday(date: Date, calendar: string, rules: HolidayRule[]): boolean {
+  const year = date.getFullYear();
+  const key = getDayKey(date);
+  return [year - 1, year, year + 1].some(y => getCalendarDaysOff(y, calendar, rules).has(key));
 }
 
 /**
@@ -208,7 +610,7 @@ export function isMarketHoliday(date: DateInput, market: USMarket = 'NYSE'): boo
  * isTradingDay(new Date('2024-01-13')); // false (Saturday)
  * ```
  */
-export function isTradingDay(date: DateInput, market: USMarket = 'NYSE'): boolean {
+export function isTradingDay(date: DateInput, market: Market = 'NYSE'): boolean {
   const d = toDate(date);
   const day = d.getDay();
 
@@ -219,9 +621,71 @@ export function isTradingDay(date: DateInput, market: USMarket = 'NYSE'): boolea
   return !isMarketHoliday(d, market);
 }
 
+/**
+ * Get the early close rule for a date, if the regular session ends early that day
+ */
+function getEarlyClose(date: Date, market: Market): EarlyCloseRule | undefined {
+  const { hours } = getMarket(market);
+  if (!hours.earlyCloses?.length) return undefined;
+
+  const year = date.getFullYear();
+  const cacheKey = `${market}:${year}`;
+  let closes = earlyCloseCache.get(cacheKey);
+  if (!closes) {
+    closes = new Map();
+    for (const rule of hours.earlyCloses) {
+      for (const day of getHolidaysFromRules(year, [{ name: rule.name, date: rule.date, from: rule.from, to: rule.to }], market)) {
+        closes.set(getDayKey(day.date), rule);
+      }
+    }
+    earlyCloseCache.set(cacheKey, closes);
+  }
+
+  return closes.get(getDayKey(date));
+}
+
+/**
+ * Get a day's regular close time, which is earlier on early close days
+ */
+function getCloseTime(date: Date, market: Market): { hour: number; minute: number } {
+  return getEarlyClose(date, market)?.close ?? getMarket(market).hours.close;
+}
+
+function toMinutes(time: { hour: number; minute: number }): number {
+  return time.hour * 60 + time.minute;
+}
+
+/**
+ * Get the calendar day and minutes since midnight of a moment on the exchange's clock
+ */
+function getMarketWallClock(date: Date, hours: MarketHours): { day: Date; minutes: number } {
+  const wall = new Date(toFloatingTime(date, hours.timezone));
+  return {
+    day: new Date(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate()),
+    minutes: wall.getUTCHours() * 60 + wall.getUTCMinutes()
+  };
+}
+
+/**
+ * Get the moment a wall-clock time occurs at the exchange on a calendar day
+ */
+function atMarketTime(day: Date, time: { hour: number; minute: number }, hours: MarketHours): Date {
+  return fromFloatingTime(Date.UTC(day.getFullYear(), day.getMonth(), day.getDate(), time.hour, time.minute), hours.timezone);
+}
+
+/**
+ * Get the times in a day when regular trading starts, after the open and any lunch break
+ * that ends before the close
+ */
+function getSessionStarts(hours: MarketHours, close: { hour: number; minute: number }): Array<{ hour: number; minute: number }> {
+  return hours.lunchBreak && toMinutes(hours.lunchBreak.end) < toMinutes(close)
+    ? [hours.open, hours.lunchBreak.end]
+    : [hours.open];
+}
+
 /**
  * Check if the market is currently open
- * @param date - Date/time to check
+ * @param date - Moment to check, read on the exchange's clock
  * @param market - Market (default: NYSE)
  * @returns True if market is open at the specified time
  *
@@ -231,26 +695,30 @@ export function isTradingDay(date: DateInput, market: USMarket = 'NYSE'): boolea
  * isMarketOpen(new Date(), 'NYSE');
  *
  * // Check specific time
- * isMarketOpen(new Date('2024-01-15T10:30:00-05:00')); // true
+ * isMarketOpen(new Date('2024-01-16T10:30:00-05:00')); // true
+ *
+ * // Tokyo's lunch break
+ * isMarketOpen(new Date('2024-01-16T12:00:00+09:00'), 'TSE'); // false
+ *
+ * // NYSE closes at 13:00 on the day after Thanksgiving
+ * isMarketOpen(new Date('2024-11-29T14:00:00-05:00')); // false
  * ```
  */
-export function isMarketOpen(date: DateInput, market: USMarket = 'NYSE'): boolean {
-  const d = toDate(date);
-
-  // First check if it's a trading day
-  if (!isTradingDay(d, market)) return false;
+export function isMarketOpen(date: DateInput, market: Market = 'NYSE'): boolean {
+  const { hours } = getMarket(market);
+  const { day, minutes: timeInMinutes } = getMarketWallClock(toDate(date), hours);
 
-  const hours = MARKET_HOURS[market];
+  // First check if it's a trading day at the exchange
+  if (!isTradingDay(day, market)) return false;
 
-  // Convert to market timezone for comparison
-  // For simplicity, we assume the input is already in market timezone
-  // or we compare hours directly
-  const hour = d.getHours();
-  const minute = d.getMinutes();
-  const timeInMinutes = hour * 60 + minute;
+  const openInMinutes = toMinutes(hours.open);
+  const closeInMinutes = toMinutes(getCloseTime(day, market));
 
-  const openInMinutes = hours.open.hour * 60 + hours.open.minute;
-  const closeInMinutes = hours.close.hour * 60 + hours.close.minute;
+  if (hours.lunchBreak) {
+    const breakStart = toMinutes(hours.lunchBreak.start);
+    const breakEnd = toMinutes(hours.lunchBreak.end);
+    if (timeInMinutes >= breakStart && timeInMinutes < breakEnd) return false;
+  }
 
   return timeInMinutes >= openInMinutes && timeInMinutes < closeInMinutes;
 }
@@ -266,183 +734,337 @@ export function isMarketOpen(date: DateInput, market: USMarket = 'NYSE'): boolea
  * console.log(hours.open); // { hour: 9, minute: 30 }
  * ```
  */
-export function getMarketHours(market: USMarket = 'NYSE'): MarketHours {
-  const source = MARKET_HOURS[market];
-  return {
+export function getMarketHours(market: Market = 'NYSE'): MarketHours {
+  const source = getMarket(market).hours;
+  const hours: MarketHours = {
     open: { ...source.open },
     close: { ...source.close },
     timezone: source.timezone,
     preMarket: source.preMarket ? { ...source.preMarket } : undefined,
     afterHours: source.afterHours ? { ...source.afterHours } : undefined
   };
+  if (source.lunchBreak) {
+    hours.lunchBreak = { start: { ...source.lunchBreak.start }, end: { ...source.lunchBreak.end } };
+  }
+  if (source.earlyCloses) {
+    hours.earlyCloses = source.earlyCloses.map(rule => ({
+      ...rule,
+      close: { ...rule.close },
+      afterHours: rule.afterHours ? { ...rule.afterHours } : undefined
+    }));
+  }
+  return hours;
 }
 
 /**
  * Get market open time for a specific date
  * @param date - Date to get market open for
  * @param market - Market (default: NYSE)
- * @returns Date set to market open time
+ * @returns The moment the market opens that day
  *
  * @example
  * ```ts
- * const open = getMarketOpen(new Date('2024-01-15'));
- * console.log(open); // 2024-01-15T09:30:00
+ * getMarketOpen(new Date(2024, 0, 16));        // 2024-01-16T14:30:00Z (09:30 in New York)
+ * getMarketOpen(new Date(2024, 0, 16), 'TSE'); // 2024-01-16T00:00:00Z (09:00 in Tokyo)
  * ```
  */
-export function getMarketOpen(date: DateInput, market: USMarket = 'NYSE'): Date {
-  const d = toDate(date);
-  const hours = MARKET_HOURS[market];
-
-  const result = new Date(d);
-  result.setHours(hours.open.hour, hours.open.minute, 0, 0);
-
-  return result;
+export function getMarketOpen(date: DateInput, market: Market = 'NYSE'): Date {
+  const { hours } = getMarket(market);
+  return atMarketTime(toDate(date), hours.open, hours);
 }
 
 /**
  * Get market close time for a specific date
  * @param date - Date to get market close for
  * @param market - Market (default: NYSE)
- * @returns Date set to market close time
+ * @returns The moment the market closes that day, which is earlier on early close days
  *
  * @example
  * ```ts
- * const close = getMarketClose(new Date('2024-01-15'));
- * console.log(close); // 2024-01-15T16:00:00
+ * getMarketClose(new Date(2024, 0, 16));  // 2024-01-16T21:00:00Z (16:00 in New York)
+ * getMarketClose(new Date(2024, 11, 24)); // 2024-12-24T18:00:00Z (13:00 on Christmas Eve)
  * ```
  */
-export function getMarketClose(date: DateInput, market: USMarket = 'NYSE'): Date {
+export function getMarketClose(date: DateInput, market: Market = 'NYSE'): Date {
   const d = toDate(date);
-  const hours = MARKET_HOURS[market];
-
-  const result = new Date(d);
-  result.setHours(hours.close.hour, hours.close.minute, 0, 0);
-
-  return result;
+  return atMarketTime(d, getCloseTime(d, market), getMarket(market).hours);
 }
 
 /**
  * Get next market open time after a given date
- * @param after - Start searching after this date
+ * @param after - Start searching after this moment
  * @param market - Market (default: NYSE)
  * @returns Next market open date/time
  *
  * @example
  * ```ts
- * // If it's Friday evening, returns Monday 9:30 AM
- * const nextOpen = getNextMarketOpen(new Date('2024-01-12T17:00:00'));
+ * // If it's Friday evening in New York, returns Monday 9:30 AM there
+ * const nextOpen = getNextMarketOpen(new Date('2024-01-05T17:00:00-05:00'));
+ *
+ * // During Hong Kong's lunch break, returns 13:00 the same day
+ * getNextMarketOpen(new Date('2024-01-16T12:15:00+08:00'), 'HKEX');
  * ```
  */
-export function getNextMarketOpen(after: DateInput, market: USMarket = 'NYSE'): Date {
+export function getNextMarketOpen(after: DateInput, market: Market = 'NYSE'): Date {
   const d = toDate(after);
-  const hours = MARKET_HOURS[market];
+  const { hours } = getMarket(market);
 
-  // Start with current day's open
-  let candidate = getMarketOpen(d, market);
+  // Start from the exchange's current day
+  const candidate = getMarketWallClock(d, hours).day;
 
-  // If we're past today's open, start from tomorrow
-  if (d >= candidate) {
-    candidate.setDate(candidate.getDate() + 1);
-  }
-
-  // Find next trading day
-  while (!isTradingDay(candidate, market)) {
+  // Find the first open, or reopening after a lunch break, after the given time
+  for (;;) {
+    if (isTradingDay(candidate, market)) {
+      for (const start of getSessionStarts(hours, getCloseTime(candidate, market))) {
+        const open = atMarketTime(candidate, start, hours);
+        if (open > d) return open;
+      }
+    }
     candidate.setDate(candidate.getDate() + 1);
   }
-
-  // Set to market open time
-  candidate.setHours(hours.open.hour, hours.open.minute, 0, 0);
-
-  return candidate;
 }
 
 /**
  * Get next market close time after a given date
- * @param after - Start searching after this date
+ * @param after - Start searching after this moment
  * @param market - Market (default: NYSE)
  * @returns Next market close date/time
  *
  * @example
  * ```ts
- * const nextClose = getNextMarketClose(new Date('2024-01-15T10:00:00'));
- * // Returns 2024-01-15T16:00:00 (same day close)
+ * const nextClose = getNextMarketClose(new Date('2024-01-16T10:00:00-05:00'));
+ * // Returns 2024-01-16T21:00:00Z (16:00 in New York, the same day)
  * ```
  */
-export function getNextMarketClose(after: DateInput, market: USMarket = 'NYSE'): Date {
+export function getNextMarketClose(after: DateInput, market: Market = 'NYSE'): Date {
   const d = toDate(after);
-  const hours = MARKET_HOURS[market];
-
-  // Start with current day's close
-  let candidate = getMarketClose(d, market);
 
-  // If we're past today's close or not a trading day, go to next trading day
-  if (d >= candidate || !isTradingDay(d, market)) {
-    candidate.setDate(candidate.getDate() + 1);
-    while (!isTradingDay(candidate, market)) {
-      candidate.setDate(candidate.getDate() + 1);
+  // Start from the exchange's current day, moving on once its close has passed
+  const candidate = getMarketWallClock(d, getMarket(market).hours).day;
+  for (;;) {
+    if (isTradingDay(candidate, market)) {
+      const close = getMarketClose(candidate, market);
+      if (close > d) return close;
     }
+    candidate.setDate(candidate.getDate() + 1);
   }
+}
+
+/**
+ * Get the pre-market, regular and after-hours sessions of a trading day
+ * @param date - Date to get the sessions for
+ * @param market - Market (default: NYSE)
+ * @returns Session boundaries, or null if the date is not a trading day
+ *
+ * @example
+ * ```ts
+ * const session = getTradingSession(new Date(2024, 10, 29)); // Day after Thanksgiving
+ * // In New York time, session.regular: 09:30 to 13:00, session.afterHours: 13:00 to 17:00, session.isEarlyClose: true
+ * ```
+ */
+export function getTradingSession(date: DateInput, market: Market = 'NYSE'): TradingSession | null {
+  const d = toDate(date);
+  if (!isTradingDay(d, market)) return null;
 
-  // Set to market close time
-  candidate.setHours(hours.close.hour, hours.close.minute, 0, 0);
+  const { hours } = getMarket(market);
+  const earlyClose = getEarlyClose(d, market);
+  const close = earlyClose?.close ?? hours.close;
+  const at = (time: { hour: number; minute: number }) => atMarketTime(d, time, hours);
 
-  return candidate;
+  const session: TradingSession = {
+    regular: { start: at(hours.open), end: at(close) },
+    isEarlyClose: earlyClose !== undefined
+  };
+  if (hours.preMarket) {
+    session.preMarket = { start: at(hours.preMarket), end: at(hours.open) };
+  }
+  if (hours.lunchBreak && toMinutes(hours.lunchBreak.start) < toMinutes(close)) {
+    session.lunchBreak = { start: at(hours.lunchBreak.start), end: at(hours.lunchBreak.end) };
+  }
+  const afterHours = earlyClose ? earlyClose.afterHours : hours.afterHours;
+  if (afterHours) {
+    session.afterHours = { start: at(close), end: at(afterHours) };
+  }
+  return session;
 }
 
 /**
- * Calculate settlement date (T+N) from trade date
- * @param tradeDate - Trade date
- * @param days - Number of business days for settlement (e.g., 1 for T+1, 2 for T+2)
+ * Get the settlement cycle of an asset class on an exchange
+ * @param assetClass - Asset class
  * @param market - Market (default: NYSE)
- * @returns Settlement date
+ * @param tradeDate - Trade date, for cycles that changed over time (default: the current cycle)
+ * @returns Settlement days after the trade date
  *
  * @example
  * ```ts
- * // T+2 settlement
- * const settlement = getSettlementDate(new Date('2024-01-15'), 2);
- * // Returns 2024-01-17 (skipping weekends/holidays)
+ * getSettlementCycle('equity');                                 // 1 (T+1 in the US)
+ * getSettlementCycle('equity', 'NYSE', new Date(2024, 4, 24)); // 2 (before the move to T+1)
+ * getSettlementCycle('equity', 'XETRA');                        // 2
+ * getSettlementCycle('option', 'LSE');                          // 1
  * ```
  */
-export function getSettlementDate(tradeDate: DateInput, days: number, market: USMarket = 'NYSE'): Date {
-  const d = toDate(tradeDate);
-  const result = new Date(d);
+export function getSettlementCycle(assetClass: AssetClass, market: Market = 'NYSE', tradeDate?: DateInput): number {
+  const definition = getMarket(market);
+  if (tradeDate !== undefined) {
+    const day = toDate(tradeDate);
+    day.setHours(0, 0, 0, 0);
+    // The earliest period that had not ended by the trade date applies
+    let cycle: number | undefined;
+    let end = Infinity;
+    for (const period of definition.previousSettlementCycles ?? []) {
+      const before = toDate(period.before);
+      before.setHours(0, 0, 0, 0);
+      const days = period.cycles[assetClass];
+      if (days !== undefined && day < before && before.getTime() < end) {
+        cycle = days;
+        end = before.getTime();
+      }
+    }
+    if (cycle !== undefined) return cycle;
+  }
+  return definition.settlementCycles?.[assetClass] ?? DEFAULT_SETTLEMENT_CYCLES[assetClass];
+}
+
+interface SettlementRule {
+  /** Settlement cycle of a trade date */
+  days(tradeDate: Date): number;
+  /** Days counted towards the settlement cycle */
+  isCountedDay(date: Date): boolean;
+  /** Days settlement can fall on */
+  isValueDay(date: Date): boolean;
+  /** Days trades can be made on */
+  isTradeDate(date: Date): boolean;
+}
+
+function isCurrencyBusinessDay(date: Date, currency: string): boolean {
+  const day = date.getDay();
+  if (day === 0 || day === 6) return false;
+  if (currency === 'USD') return !isCalendarHoliday(date, 'USD', USD_HOLIDAYS);
+  if (currency === 'EUR') return !isCalendarHoliday(date, 'EUR', TARGET_HOLIDAYS);
+  if (currency === 'HKD') return !isCalendarHoliday(date, 'HKD', HONG_KONG_HOLIDAYS);
+  // Japanese banks close with the exchange over the New Year
+  if (currency === 'JPY') return !isCalendarHoliday(date, 'JPY', TSE_HOLIDAYS);
+
+  const country = CURRENCY_COUNTRIES[currency];
+  if (!country) {
+    throw new Error(`Currency "${currency}" has no settlement calendar`);
+  }
+  return !isCalendarHoliday(date, currency, getCountryRules(country));
+}
+
+/**
+ * Resolve a settlement cycle and the calendars it is counted on
+ */
+function getSettlementRule(daysOrOptions: number | SettlementOptions, market: Market): SettlementRule {
+  const options = typeof daysOrOptions === 'number' ? { days: daysOrOptions } : daysOrOptions;
+  const venue = options.market ?? market;
+  const assetClass = options.assetClass ?? 'equity';
+  // Cross-border trades settle only on days every market is open
+  const markets = [venue, ...(options.additionalMarkets ?? [])];
+  const isOpenEverywhere = (date: Date) => markets.every(code => isTradingDay(date, code));
+
+  if (assetClass !== 'fx-spot') {
+    return {
+      days: tradeDate => options.days ?? getSettlementCycle(assetClass, venue, tradeDate),
+      isCountedDay: isOpenEverywhere,
+      isValueDay: isOpenEverywhere,
+      isTradeDate: date => isTradingDay(date, venue)
+    };
+  }
+
+  const match = /^([A-Z]{3})\/?([A-Z]{3})$/.exec((options.currencyPair ?? '').toUpperCase());
+  if (!match) {
+    throw new Error(`Invalid currency pair "${options.currencyPair ?? ''}"`);
+  }
+  const currencies = [match[1], match[2]];
+  // Spot days are counted on the non-USD currencies' calendars; the value date must also be a USD business day
+  const countedCurrencies = currencies.filter(currency => currency !== 'USD');
+  const isCountedDay = (date: Date) => {
+    const day = date.getDay();
+    return day !== 0 && day !== 6
+      && countedCurrencies.every(currency => isCurrencyBusinessDay(date, currency))
+      && markets.slice(1).every(code => isTradingDay(date, code));
+  };
+
+  return {
+    // USD/CAD settles T+1
+    days: tradeDate => options.days
+      ?? (currencies.includes('USD') && currencies.includes('CAD') ? 1 : getSettlementCycle('fx-spot', venue, tradeDate)),
+    isCountedDay,
+    isValueDay: date => isCountedDay(date) && isCurrencyBusinessDay(date, 'USD'),
+    isTradeDate: date => date.getDay() !== 0 && date.getDay() !== 6
+  };
+}
+
+function settle(tradeDate: Date, rule: SettlementRule): Date {
+  const result = new Date(tradeDate);
   result.setHours(0, 0, 0, 0);
 
-  let remaining = days;
+  let remaining = rule.days(result);
   while (remaining > 0) {
     result.setDate(result.getDate() + 1);
-    if (isTradingDay(result, market)) {
+    if (rule.isCountedDay(result)) {
       remaining--;
     }
   }
+  while (!rule.isValueDay(result)) {
+    result.setDate(result.getDate() + 1);
+  }
 
   return result;
 }
 
+/**
+ * Calculate settlement date (T+N) from trade date
+ * @param tradeDate - Trade date
+ * @param days - Number of business days for settlement (e.g., 1 for T+1, 2 for T+2), or settlement options
+ *   selecting the asset class cycle, FX currency pair and cross-border calendars
+ * @param market - Market (default: NYSE)
+ * @returns Settlement date
+ *
+ * @example
+ * ```ts
+ * // T+2 settlement
+ * const settlement = getSettlementDate(new Date('2024-01-15'), 2);
+ * // Returns 2024-01-17 (skipping weekends/holidays)
+ *
+ * getSettlementDate(tradeDate, { assetClass: 'equity', market: 'XETRA' });          // T+2 on XETRA days
+ * getSettlementDate(tradeDate, { assetClass: 'fx-spot', currencyPair: 'EUR/JPY' }); // T+2 on TARGET and Tokyo days
+ * getSettlementDate(tradeDate, { market: 'NYSE', additionalMarkets: ['LSE'] });     // T+1 on days both are open
+ * ```
+ */
+export function getSettlementDate(tradeDate: DateInput, days: number | SettlementOptions, market: Market = 'NYSE'): Date {
+  return settle(toDate(tradeDate), getSettlementRule(days, market));
+}
+
 /**
  * Calculate trade date from settlement date (reverse T+N)
  * @param settlementDate - Settlement date
- * @param days - Number of business days for settlement
+ * @param days - Number of business days for settlement, or the same settlement options as getSettlementDate()
  * @param market - Market (default: NYSE)
- * @returns Trade date
+ * @returns The latest trade date that settles on or before the settlement date
  *
  * @example
  * ```ts
- * const tradeDate = getTradeDateFromSettlement(new Date('2024-01-17'), 2);
- * // Returns 2024-01-15
+ * const tradeDate = getTradeDateFromSettlement(new Date('2024-01-18'), 2);
+ * // Returns 2024-01-16
+ *
+ * getTradeDateFromSettlement(valueDate, { assetClass: 'fx-spot', currencyPair: 'EUR/USD' });
  * ```
  */
-export function getTradeDateFromSettlement(settlementDate: DateInput, days: number, market: USMarket = 'NYSE'): Date {
-  const d = toDate(settlementDate);
-  const result = new Date(d);
-  result.setHours(0, 0, 0, 0);
-
-  let remaining = days;
-  while (remaining > 0) {
+export function getTradeDateFromSettlement(
+  settlementDate: DateInput,
+  days: number | SettlementOptions,
+  market: Market = 'NYSE'
+): Date {
+  const rule = getSettlementRule(days, market);
+  const target = toDate(settlementDate);
+  target.setHours(0, 0, 0, 0);
+
+  // Settlement dates never decrease as trade dates advance, so walk back to the first match
+  const result = new Date(target);
+  while (!rule.isTradeDate(result) || settle(result, rule) > target) {
     result.setDate(result.getDate() - 1);
-    if (isTradingDay(result, market)) {
-      remaining--;
-    }
   }
 
   return result;
@@ -461,7 +1083,7 @@ export function getTradeDateFromSettlement(settlementDate: DateInput, days: numb
  * // Returns Mon, Tue, Wed, Thu, Fri (if no holidays)
  * ```
  */
-export function eachTradingDay(start: DateInput, end: DateInput, market: USMarket = 'NYSE'): Date[] {
+export function eachTradingDay(start: DateInput, end: DateInput, market: Market = 'NYSE'): Date[] {
   const startDate = toDate(start);
   const endDate = toDate(end);
 
@@ -494,7 +1116,7 @@ export function eachTradingDay(start: DateInput, end: DateInput, market: USMarke
  * // Returns 5 (Mon-Fri if no holidays)
  * ```
  */
-export function countTradingDays(start: DateInput, end: DateInput, market: USMarket = 'NYSE'): number {
+export function countTradingDays(start: DateInput, end: DateInput, market: Market = 'NYSE'): number {
   return eachTradingDay(start, end, market).length;
 }
 
@@ -511,7 +1133,7 @@ export function countTradingDays(start: DateInput, end: DateInput, market: USMar
  * // Returns 5 trading days later
  * ```
  */
-export function addTradingDays(date: DateInput, days: number, market: USMarket = 'NYSE'): Date {
+export function addTradingDays(date: DateInput, days: number, market: Market = 'NYSE'): Date {
   const d = toDate(date);
   const result = new Date(d);
   result.setHours(0, 0, 0, 0);
@@ -584,3 +1206,270 @@ export function getOptionsExpiration(year: number, month: number, type: OptionsE
       return getNthWeekdayOfMonth(year, monthIndex, 5, 3);
   }
 }
+
+/**
+ * Move a date that is not a trading day according to a business day convention
+ * @param date - Date to adjust
+ * @param convention - Business day convention (default: 'following')
+ * @param market - Market whose trading days are used (default: NYSE)
+ * @returns Adjusted date at midnight
+ *
+ * @example
+ * ```ts
+ * adjustBusinessDay(new Date(2024, 7, 31));                       // 2024-09-03 (following)
+ * adjustBusinessDay(new Date(2024, 7, 31), 'modified-following'); // 2024-08-30 (stays in August)
+ * ```
+ */
+export function adjustBusinessDay(
+  date: DateInput,
+  convention: BusinessDayConvention = 'following',
+  market: Market = 'NYSE'
+): Date {
+  const result = toDate(date);
+  result.setHours(0, 0, 0, 0);
+  if (convention === 'none' || isTradingDay(result, market)) return result;
+
+  const forward = convention === 'following' || convention === 'modified-following';
+  const adjusted = addTradingDays(result, forward ? 1 : -1, market);
+
+  // Modified conventions go the other way rather than leave the month
+  if (convention.startsWith('modified') && adjusted.getMonth() !== result.getMonth()) {
+    return addTradingDays(result, forward ? -1 : 1, market);
+  }
+  return adjusted;
+}
+
+function getDayNumber(date: Date): number {
+  return Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / MILLISECONDS_PER_DAY);
+}
+
+function getDaysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+function isLastDayOfMonth(date: Date): boolean {
+  return date.getDate() === getDaysInMonth(date.getFullYear(), date.getMonth());
+}
+
+/**
+ * Move a date by whole months, clamping to the month end and, with endOfMonth, keeping month ends at month ends
+ */
+function rollMonths(date: Date, months: number, endOfMonth = false): Date {
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = getDaysInMonth(target.getFullYear(), target.getMonth());
+  target.setDate(endOfMonth && isLastDayOfMonth(date) ? lastDay : Math.min(date.getDate(), lastDay));
+  return target;
+}
+
+function getThirtyDayFraction(start: Date, end: Date, european: boolean): number {
+  let d1 = start.getDate();
+  let d2 = end.getDate();
+
+  if (european) {
+    if (d1 === 31) d1 = 30;
+    if (d2 === 31) d2 = 30;
+  } else {
+    // US (NASD) rules, including the February month-end adjustments
+    const startFebEnd = start.getMonth() === 1 && isLastDayOfMonth(start);
+    if (startFebEnd && end.getMonth() === 1 && isLastDayOfMonth(end)) d2 = 30;
+    if (startFebEnd) d1 = 30;
+    if (d2 === 31 && d1 >= 30) d2 = 30;
+    if (d1 === 31) d1 = 30;
+  }
+
+  const days = 360 * (end.getFullYear() - start.getFullYear()) + 30 * (end.getMonth() - start.getMonth()) + (d2 - d1);
+  return days / 360;
+}
+
+function getActActIsdaFraction(start: Date, end: Date): number {
+  let fraction = 0;
+  for (let year = start.getFullYear(); year <= end.getFullYear(); year++) {
+    const from = Math.max(getDayNumber(start), getDayNumber(new Date(year, 0, 1)));
+    const to = Math.min(getDayNumber(end), getDayNumber(new Date(year + 1, 0, 1)));
+    const daysInYear = getDaysInMonth(year, 1) === 29 ? 366 : 365;
+    fraction += (to - from) / daysInYear;
+  }
+  return fraction;
+}
+
+/**
+ * ACT/ACT ICMA: days over days in the regular period, split across notional periods for long stubs
+ */
+function getActActIcmaFraction(start: Date, end: Date, refStart: Date, refEnd: Date, frequency: number): number {
+  const months = 12 / frequency;
+  if (start < refStart) {
+    return getActActIcmaFraction(start, refStart, rollMonths(refStart, -months), refStart, frequency)
+      + getActActIcmaFraction(refStart, end, refStart, refEnd, frequency);
+  }
+  if (end > refEnd) {
+    return getActActIcmaFraction(start, refEnd, refStart, refEnd, frequency)
+      + getActActIcmaFraction(refEnd, end, refEnd, rollMonths(refEnd, months), frequency);
+  }
+  return (getDayNumber(end) - getDayNumber(start)) / (frequency * (getDayNumber(refEnd) - getDayNumber(refStart)));
+}
+
+/**
+ * Calculate the fraction of a year between two dates under a day count convention
+ * @param start - Accrual start date
+ * @param end - Accrual end date
+ * @param convention - Day count convention (default: 'ACT/360')
+ * @param options - Coupon frequency and reference period for ACT/ACT ICMA, market for BUS/252
+ * @returns Year fraction, negative when end is before start
+ *
+ * @example
+ * ```ts
+ * getDayCountFraction(new Date(2024, 0, 15), new Date(2024, 6, 15), '30/360');   // 0.5
+ * getDayCountFraction(new Date(2024, 0, 15), new Date(2024, 6, 15), 'ACT/360');  // 182 / 360
+ * getDayCountFraction(new Date(2023, 11, 1), new Date(2024, 1, 1), 'ACT/ACT ISDA'); // 31/365 + 31/366
+ * ```
+ */
+export function getDayCountFraction(
+  start: DateInput,
+  end: DateInput,
+  convention: DayCountConvention = 'ACT/360',
+  options: DayCountOptions = {}
+): number {
+  const startDate = toDate(start);
+  const endDate = toDate(end);
+  if (endDate < startDate) return -getDayCountFraction(endDate, startDate, convention, options);
+
+  const days = getDayNumber(endDate) - getDayNumber(startDate);
+
+  switch (convention) {
+    case '30/360':
+      return getThirtyDayFraction(startDate, endDate, false);
+    case '30E/360':
+      return getThirtyDayFraction(startDate, endDate, true);
+    case 'ACT/360':
+      return days / 360;
+    case 'ACT/365F':
+      return days / 365;
+    case 'ACT/ACT ISDA':
+      return getActActIsdaFraction(startDate, endDate);
+    case 'ACT/ACT ICMA': {
+      const refStart = options.referenceStart !== undefined ? toDate(options.referenceStart) : startDate;
+      const refEnd = options.referenceEnd !== undefined ? toDate(options.referenceEnd) : endDate;
+      if (getDayNumber(refEnd) <= getDayNumber(refStart)) return 0;
+      return getActActIcmaFraction(startDate, endDate, refStart, refEnd, options.frequency ?? 2);
+    }
+    case 'BUS/252': {
+      // Trading days from the start up to, but not including, the end
+      const market = options.market ?? 'NYSE';
+      const tradingDays = countTradingDays(startDate, endDate, market) - (isTradingDay(endDate, market) ? 1 : 0);
+      return tradingDays / 252;
+    }
+    default:
+      throw new Error(`Unknown day count convention "${convention as string}"`);
+  }
+}
+
+function isSameDay(a: Date, b: Date): boolean {
+  return getDayNumber(a) === getDayNumber(b);
+}
+
+/**
+ * Generate the coupon periods of a bond or swap leg
+ * @param effectiveDate - Start of the first accrual period (issue or effective date)
+ * @param maturityDate - End of the last accrual period
+ * @param options - Frequency, day count, business day convention, end-of-month rolling and stubs
+ * @returns Coupon periods in date order
+ *
+ * @example
+ * ```ts
+ * // Semi-annual 30/360 bond with a short first coupon
+ * getCouponSchedule(new Date(2024, 2, 1), new Date(2026, 5, 15));
+ * // [{ accrualStart: 2024-03-01, accrualEnd: 2024-06-15, isStub: true, ... }, ...]
+ *
+ * // Month-end roll with Modified Following payment dates
+ * getCouponSchedule(new Date(2024, 1, 29), new Date(2025, 1, 28), {
+ *   frequency: 4, endOfMonth: true, businessDayConvention: 'modified-following'
+ * });
+ * ```
+ */
+export function getCouponSchedule(
+  effectiveDate: DateInput,
+  maturityDate: DateInput,
+  options: CouponScheduleOptions = {}
+): CouponPeriod[] {
+  const {
+    frequency = 2,
+    dayCount = '30/360',
+    businessDayConvention = 'following',
+    adjustAccrualDates = false,
+    endOfMonth = false,
+    stub = 'short-first',
+    market = 'NYSE'
+  } = options;
+  const start = toDate(effectiveDate);
+  const maturity = toDate(maturityDate);
+  start.setHours(0, 0, 0, 0);
+  maturity.setHours(0, 0, 0, 0);
+  if (maturity <= start) return [];
+
+  const months = 12 / frequency;
+  const firstCoupon = options.firstCouponDate !== undefined ? toDate(options.firstCouponDate) : undefined;
+  const penultimateCoupon = options.penultimateCouponDate !== undefined ? toDate(options.penultimateCouponDate) : undefined;
+  const forward = firstCoupon !== undefined || (penultimateCoupon === undefined && stub.endsWith('last'));
+  const anchor = forward ? (firstCoupon ?? start) : (penultimateCoupon ?? maturity);
+  anchor.setHours(0, 0, 0, 0);
+  penultimateCoupon?.setHours(0, 0, 0, 0);
+  const last = penultimateCoupon ?? maturity;
+
+  // Roll regular dates from the anchor, rolling each from the anchor itself so day-of-month never drifts
+  const dates: Date[] = [];
+  for (let k = 0; ; k++) {
+    const date = rollMonths(anchor, forward ? k * months : -k * months, endOfMonth);
+    if (forward ? date > last || date >= maturity : date <= start) break;
+    if (date > start && date < maturity) dates.push(date);
+  }
+  if (!forward) dates.reverse();
+  if (forward && penultimateCoupon && penultimateCoupon < maturity && !dates.some(date => isSameDay(date, penultimateCoupon))) {
+    dates.push(penultimateCoupon);
+  }
+
+  // Long stubs merge the short irregular period into its neighbour
+  if (stub === 'long-first' && !forward && dates.length > 1
+    && !isSameDay(rollMonths(dates[0], -months, endOfMonth), start)) {
+    dates.shift();
+  }
+  if (stub === 'long-last' && forward && !penultimateCoupon && dates.length > 1
+    && !isSameDay(rollMonths(dates[dates.length - 1], months, endOfMonth), maturity)) {
+    dates.pop();
+  }
+  const boundaries = [start, ...dates, maturity];
+
+  const periods: CouponPeriod[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const periodStart = boundaries[i];
+    const periodEnd = boundaries[i + 1];
+    const isStub = !isSameDay(rollMonths(periodEnd, -months, endOfMonth), periodStart)
+      && !isSameDay(rollMonths(periodStart, months, endOfMonth), periodEnd);
+
+    const accrualStart = adjustAccrualDates ? adjustBusinessDay(periodStart, businessDayConvention, market) : new Date(periodStart);
+    const accrualEnd = adjustAccrualDates ? adjustBusinessDay(periodEnd, businessDayConvention, market) : new Date(periodEnd);
+
+    // ICMA stubs are measured against the regular period next to the rest of the schedule
+    let referenceStart = periodStart;
+    let referenceEnd = periodEnd;
+    if (isStub && i === 0 && (!forward || firstCoupon !== undefined)) {
+      referenceStart = rollMonths(periodEnd, -months, endOfMonth);
+    } else if (isStub) {
+      referenceEnd = rollMonths(periodStart, months, endOfMonth);
+    }
+
+    periods.push({
+      accrualStart,
+      accrualEnd,
+      paymentDate: adjustBusinessDay(periodEnd, businessDayConvention, market),
+      accrualFraction: getDayCountFraction(accrualStart, accrualEnd, dayCount, {
+        frequency,
+        referenceStart,
+        referenceEnd,
+        market
+      }),
+      isStub
+    });
+  }
+
+  return periods;
+}
@@ -1,15 +1,120 @@
 /**
  * @fileoverview International holiday utilities
- * Calculate holidays for multiple countries including fixed, movable, and lunar-based holidays
+ * Calculate holidays for multiple countries including fixed, movable, and lunar-based holidays.
+ * Each country is a list of declarative holiday rules, and more can be added with registerHolidayCalendar().
  */
 
-export type CountryCode = 'UK' | 'NL' | 'DE' | 'CA' | 'AU' | 'IT' | 'ES' | 'CN' | 'IN' | 'US' | 'JP' | 'FR' | 'BR' | 'MX' | 'KR' | 'SG' | 'PL' | 'SE' | 'BE' | 'CH';
+import { fromChineseDate, fromHebrewDate, fromIslamicDate, toIslamicDate } from './calendars.js';
+import type { HolidayCalendarRef } from './types.js';
+
+/** Built-in country codes, or the code of a calendar added with registerHolidayCalendar() */
+export type CountryCode =
+  | 'UK' | 'NL' | 'DE' | 'CA' | 'AU' | 'IT' | 'ES' | 'CN' | 'IN' | 'US'
+  | 'JP' | 'FR' | 'BR' | 'MX' | 'KR' | 'SG' | 'PL' | 'SE' | 'BE' | 'CH'
+  | (string & {});
+
+/** Religious holiday sets that can be added to any country's holidays */
+export type ReligiousHolidaySet = 'islamic' | 'jewish' | 'hindu' | 'buddhist';
+
+/**
+ * How a holiday falling on a weekend is observed:
+ * - `'none'`: not moved
+ * - `'nearest-weekday'`: Saturday to Friday, Sunday to Monday
+ * - `'next-monday'`: Saturday or Sunday to Monday
+ * - `'substitute'`: the next weekday that is not already a holiday
+ * - `'sunday-substitute'`: Sunday to the next weekday that is not already a holiday, as in Japan, Hong Kong and Singapore
+ *
+ * Under both substitute rules, a holiday that shares a weekday with another holiday also moves to the next free weekday.
+ */
+export type ObservanceRule = 'none' | 'nearest-weekday' | 'next-monday' | 'substitute' | 'sunday-substitute';
 
 export interface Holiday {
   name: string;
+  /** The day the holiday falls on */
   date: Date;
+  /** The day the holiday is observed (as a day off), which differs from `date` when it falls on a weekend or another holiday */
+  observedDate: Date;
   countryCode: CountryCode;
   type: 'public' | 'bank' | 'observance';
+  /** The religious holiday set the holiday belongs to, if any */
+  religion?: ReligiousHolidaySet;
+  /** ISO 3166-2 codes of the subdivisions observing a region-only holiday */
+  subdivisions?: string[];
+}
+
+/** A holiday whose observed date has not been resolved yet */
+type HolidayEntry = Omit<Holiday, 'observedDate'>;
+
+/** Options for the unified holiday lookups */
+export interface HolidayOptions {
+  /** Religious holiday sets to add to the country's holidays, skipping ones the country already lists */
+  religious?: ReligiousHolidaySet[];
+  /** ISO 3166-2 subdivision code (e.g. 'DE-BY', 'CA-QC', 'GB-SCT') whose regional holidays to include */
+  subdivision?: string;
+  /** Match holidays by `observedDate` instead of `date`, as business-day calculations need */
+  observed?: boolean;
+}
+
+/**
+ * When a holiday falls in a year. Months are 1-12 and weekdays 0 (Sunday) to 6 (Saturday).
+ * `offset` adds days to the computed date; dates it moves outside the year are dropped.
+ * - `fixed`: the same month and day every year
+ * - `once`: a one-off date, such as a jubilee or state funeral, or a holiday moved for one year
+ * - `nth-weekday`: the nth weekday of a month, counting from the end when `n` is negative (-1 for the last)
+ * - `weekday-on-or-after` / `weekday-on-or-before`: the first weekday on or after (or before) a month and day
+ * - `easter`: Western Easter Sunday
+ * - `lunar`: a Chinese (or Korean) lunisolar month and day, 1900-2100
+ * - `islamic`: an Umm al-Qura month and day, which can occur twice in a year
+ * - `hebrew`: a Hebrew month and day, numbering months as toHebrewDate() does
+ * - `hindu`: Holi or Diwali, 1900-2100
+ * - `custom`: dates computed by a function
+ * - `between-holidays`: any day other than Sunday that falls between two of the other holidays and is not
+ *   observed as a holiday itself, as Japan's citizens' holidays
+ */
+export type HolidayDateRule = (
+  | { type: 'fixed'; month: number; day: number }
+  | { type: 'once'; year: number; month: number; day: number }
+  | { type: 'nth-weekday'; month: number; weekday: number; n: number }
+  | { type: 'weekday-on-or-after' | 'weekday-on-or-before'; month: number; day: number; weekday: number }
+  | { type: 'easter' }
+  | { type: 'lunar'; month: number; day: number; calendar?: 'CN' | 'KR' }
+  | { type: 'islamic' | 'hebrew'; month: number; day: number }
+  | { type: 'hindu'; festival: 'holi' | 'diwali' }
+  | { type: 'custom'; dates: (year: number) => Date[] }
+  | { type: 'between-holidays' }
+) & { offset?: number };
+
+/** A declarative holiday definition for registerHolidayCalendar() */
+export interface HolidayRule {
+  name: string;
+  date: HolidayDateRule;
+  /** Holiday type (default 'public') */
+  type?: Holiday['type'];
+  /** How the holiday is observed when it falls on a weekend (default 'none') */
+  observed?: ObservanceRule;
+  /** First year the holiday applies */
+  from?: number;
+  /** Last year the holiday applies */
+  to?: number;
+  /** Years the holiday does not apply, such as years it was moved to another date */
+  excludedYears?: number[];
+  /** ISO 3166-2 subdivisions observing a region-only holiday */
+  subdivisions?: string[];
+  /** ISO 3166-2 subdivisions that do not observe a country-wide holiday */
+  excludedSubdivisions?: string[];
+  /** The religious holiday set the holiday belongs to */
+  religion?: ReligiousHolidaySet;
+}
+
+/** Options for registerHolidayCalendar() */
+export interface HolidayCalendarOptions {
+  /** ISO 3166-2 subdivision codes to accept besides those named in the rules */
+  subdivisions?: string[];
+}
+
+interface HolidayCalendar {
+  rules: HolidayRule[];
+  subdivisions: string[];
 }
 
 /**
@@ -54,987 +159,1070 @@ function getLastWeekdayOfMonth(year: number, month: number, dayOfWeek: number):
   const lastDay = new Date(year, month + 1, 0);
   const lastDate = lastDay.getDate();
   const lastWeekday = lastDay.getDay();
-  
+
   let diff = lastWeekday - dayOfWeek;
   if (diff < 0) diff += 7;
-  
+
   return new Date(year, month, lastDate - diff);
 }
 
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
 /**
- * Adjust date if it falls on a weekend (move to Monday)
+ * Day of April on which Qingming (the sun at 15° longitude, Beijing time) falls, 1900-2100
  */
-function adjustForWeekend(date: Date): Date {
-  const day = date.getDay();
-  if (day === 0) { // Sunday
-    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
-  } else if (day === 6) { // Saturday
-    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 2);
-  }
-  return date;
+const QINGMING_DAYS = '556655665566555655565556555655565556555655565555555555555555555555555555555545554555455545554555455545554555445544554455445544554455445544554445444544454445444544454445444544444444444444444444444444445';
+
+/**
+ * Get the Gregorian dates of a Chinese lunisolar day, or none outside 1900-2100
+ */
+function getLunarDates(year: number, month: number, day: number, country: 'CN' | 'KR' = 'CN'): Date[] {
+  const date = fromChineseDate({ year, month, day }, { country });
+  return date ? [date] : [];
 }
 
-// ============================================================================
-// UK HOLIDAYS
-// ============================================================================
+/**
+ * Holi (the day after Holika Dahan on the Phalguna full moon) as a day of February, two digits per year
+ * 1900-2100. calendars.ts has no Hindu calendar, so these were precomputed from the Moon's elongation
+ * and Lahiri sidereal months as observed in New Delhi.
+ */
+const HOLI_DAYS = '443352423149395847355443335140304937564534524231503957463653433352403048375544345342315039274635544333524129483756443453423149382846355444325140294737564534534231493857473554443350402948375645345241304938574736544332513929483856453453413049395746365442325140294837564433524230493958463554433151403048375544335242314938574634534333514029483655443452423150385746355343325140294737554434534130493856453554';
 
-export function getUKHolidays(year: number): Holiday[] {
-  const holidays: Holiday[] = [];
+/**
+ * Diwali (Lakshmi Puja, the first evening of the Kartika new moon) as a day of October, two digits
+ * per year 1900-2100, precomputed like HOLI_DAYS
+ */
+const DIWALI_DAYS = '224130203827173624433221392918372645342341302039271736254231214029183726443322413020392816352443312140301837264433224131193827463424433221402918362544342241312038274635234332224029183625443423413019382645352543322140281736264434234230193827453524433120392917362645332241301838274635244332203928183626453422403019382746352342312139281837254433224030193827463524423121402818362543332241301938274534234232';
 
-  // New Year's Day (or substitute)
-  holidays.push({
-    name: "New Year's Day",
-    date: adjustForWeekend(new Date(year, 0, 1)),
-    countryCode: 'UK',
-    type: 'bank'
-  });
+/**
+ * Get the date from a two-digits-per-year table of days counted from the start of a month
+ */
+function getTableDates(table: string, year: number, month: number): Date[] {
+  if (year < 1900 || year > 2100) return [];
+  const index = (year - 1900) * 2;
+  return [new Date(year, month, Number(table.slice(index, index + 2)))];
+}
 
-  // Good Friday (Easter - 2 days)
-  const easter = getEasterSunday(year);
-  holidays.push({
-    name: 'Good Friday',
-    date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() - 2),
-    countryCode: 'UK',
-    type: 'bank'
-  });
+/**
+ * Get the Gregorian dates of an Islamic (Umm al-Qura) month and day; a Gregorian year can hold two
+ */
+function getIslamicDates(year: number, month: number, day: number): Date[] {
+  const firstIslamicYear = toIslamicDate(new Date(year, 0, 1)).year;
+  const dates: Date[] = [];
+  for (const islamicYear of [firstIslamicYear, firstIslamicYear + 1]) {
+    const date = fromIslamicDate({ year: islamicYear, month, day });
+    if (date) dates.push(date);
+  }
+  return dates;
+}
 
-  // Easter Monday (Easter + 1 day)
-  holidays.push({
-    name: 'Easter Monday',
-    date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 1),
-    countryCode: 'UK',
-    type: 'bank'
-  });
+/**
+ * Get the Gregorian dates of a Hebrew month and day from the two Hebrew years overlapping a year
+ */
+function getHebrewDates(year: number, month: number, day: number): Date[] {
+  // The Hebrew year begins at Rosh Hashanah in September or October
+  const dates: Date[] = [];
+  for (const hebrewYear of [year + 3760, year + 3761]) {
+    const date = fromHebrewDate({ year: hebrewYear, month, day });
+    if (date) dates.push(date);
+  }
+  return dates;
+}
 
-  // Early May Bank Holiday (first Monday in May)
-  holidays.push({
-    name: 'Early May Bank Holiday',
-    date: getNthWeekdayOfMonth(year, 4, 1, 1),
-    countryCode: 'UK',
-    type: 'bank'
-  });
+/**
+ * Get the dates a holiday date rule gives in a year
+ */
+function getRuleDates(rule: HolidayDateRule, year: number): Date[] {
+  let dates: Date[];
+  switch (rule.type) {
+    case 'fixed':
+      dates = [new Date(year, rule.month - 1, rule.day)];
+      break;
+    case 'once':
+      dates = rule.year === year ? [new Date(year, rule.month - 1, rule.day)] : [];
+      break;
+    case 'nth-weekday':
+      dates = [rule.n > 0
+        ? getNthWeekdayOfMonth(year, rule.month - 1, rule.weekday, rule.n)
+        : addDays(getLastWeekdayOfMonth(year, rule.month - 1, rule.weekday), (rule.n + 1) * 7)];
+      break;
+    case 'weekday-on-or-after': {
+      const start = new Date(year, rule.month - 1, rule.day);
+      dates = [addDays(start, (rule.weekday - start.getDay() + 7) % 7)];
+      break;
+    }
+    case 'weekday-on-or-before': {
+      const start = new Date(year, rule.month - 1, rule.day);
+      dates = [addDays(start, -((start.getDay() - rule.weekday + 7) % 7))];
+      break;
+    }
+    case 'easter':
+      dates = [getEasterSunday(year)];
+      break;
+    case 'lunar':
+      // Late lunar months of the previous lunar year fall in January or February
+      dates = [...getLunarDates(year - 1, rule.month, rule.day, rule.calendar), ...getLunarDates(year, rule.month, rule.day, rule.calendar)];
+      break;
+    case 'islamic':
+      dates = getIslamicDates(year, rule.month, rule.day);
+      break;
+    case 'hebrew':
+      dates = getHebrewDates(year, rule.month, rule.day);
+      break;
+    case 'hindu':
+      dates = rule.festival === 'holi' ? getTableDates(HOLI_DAYS, year, 1) : getTableDates(DIWALI_DAYS, year, 9);
+      break;
+    case 'custom':
+      dates = rule.dates(year);
+      break;
+    default:
+      dates = [];
+  }
+  return dates
+    .map(date => addDays(date, rule.offset ?? 0))
+    .filter(date => date.getFullYear() === year);
+}
 
-  // Spring Bank Holiday (last Monday in May)
-  holidays.push({
-    name: 'Spring Bank Holiday',
-    date: getLastWeekdayOfMonth(year, 4, 1),
-    countryCode: 'UK',
-    type: 'bank'
-  });
+function isWeekend(date: Date): boolean {
+  return date.getDay() === 0 || date.getDay() === 6;
+}
 
-  // Summer Bank Holiday (last Monday in August)
-  holidays.push({
-    name: 'Summer Bank Holiday',
-    date: getLastWeekdayOfMonth(year, 7, 1),
-    countryCode: 'UK',
-    type: 'bank'
-  });
+function getDayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
 
-  // Christmas Day
-  holidays.push({
-    name: 'Christmas Day',
-    date: adjustForWeekend(new Date(year, 11, 25)),
-    countryCode: 'UK',
-    type: 'bank'
-  });
+function hasSubstitute(rule: ObservanceRule): boolean {
+  return rule === 'substitute' || rule === 'sunday-substitute';
+}
 
-  // Boxing Day
-  const christmas = new Date(year, 11, 25);
-  let boxingDay = new Date(year, 11, 26);
-  if (christmas.getDay() === 6) { // Christmas on Saturday
-    boxingDay = new Date(year, 11, 28); // Monday
-  } else if (christmas.getDay() === 0) { // Christmas on Sunday
-    boxingDay = new Date(year, 11, 27); // Tuesday (Monday is Christmas substitute)
-  } else {
-    boxingDay = adjustForWeekend(boxingDay);
+/**
+ * Get the day a holiday is observed under a rule, skipping days already taken by other holidays
+ * for substitute days. `observed` holds the days other holidays are already observed on
+ */
+function getObservedDate(date: Date, rule: ObservanceRule, taken: Set<string>, observed: Set<string>): Date {
+  const day = date.getDay();
+  const clashes = hasSubstitute(rule) && !isWeekend(date) && observed.has(getDayKey(date));
+  if (!clashes) {
+    if (rule === 'none' || !isWeekend(date)) return new Date(date.getTime());
+    if (rule === 'nearest-weekday') return addDays(date, day === 6 ? -1 : 1);
+    if (rule === 'next-monday') return addDays(date, day === 6 ? 2 : 1);
+    if (rule === 'sunday-substitute' && day === 6) return new Date(date.getTime());
   }
-  
-  holidays.push({
-    name: 'Boxing Day',
-    date: boxingDay,
-    countryCode: 'UK',
-    type: 'bank'
-  });
 
-  return holidays;
+  let days = 1;
+  while (isWeekend(addDays(date, days)) || taken.has(getDayKey(addDays(date, days)))) days++;
+  return addDays(date, days);
 }
 
-// ============================================================================
-// NETHERLANDS HOLIDAYS
-// ============================================================================
-
-export function getNetherlandsHolidays(year: number): Holiday[] {
-  const holidays: Holiday[] = [];
-  const easter = getEasterSunday(year);
-
-  // New Year's Day
-  holidays.push({
-    name: "New Year's Day",
-    date: new Date(year, 0, 1),
-    countryCode: 'NL',
-    type: 'public'
-  });
-
-  // Good Friday
-  holidays.push({
-    name: 'Good Friday',
-    date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() - 2),
-    countryCode: 'NL',
-    type: 'observance'
+/**
+ * Resolve observed dates in date order, so that consecutive weekend holidays
+ * (Christmas and Boxing Day) take successive substitute days. On a day shared
+ * by two holidays, one without a substitute rule keeps the day
+ */
+function observe(entries: Array<{ holiday: HolidayEntry; rule: ObservanceRule }>): Holiday[] {
+  const taken = new Set(entries.filter(e => !isWeekend(e.holiday.date)).map(e => getDayKey(e.holiday.date)));
+  const observed = new Set<string>();
+  return entries.map(({ holiday, rule }) => {
+    const observedDate = getObservedDate(holiday.date, rule, taken, observed);
+    taken.add(getDayKey(observedDate));
+    observed.add(getDayKey(observedDate));
+    return { ...holiday, observedDate };
   });
+}
 
-  // Easter Sunday
-  holidays.push({
-    name: 'Easter Sunday',
-    date: easter,
-    countryCode: 'NL',
-    type: 'public'
-  });
+function isRuleInEffect(rule: HolidayRule, year: number): boolean {
+  return (rule.from === undefined || year >= rule.from)
+    && (rule.to === undefined || year <= rule.to)
+    && !rule.excludedYears?.includes(year);
+}
 
-  // Easter Monday
-  holidays.push({
-    name: 'Easter Monday',
-    date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 1),
-    countryCode: 'NL',
-    type: 'public'
-  });
+/**
+ * Evaluate the rules a filter selects for a year, in date order
+ */
+function evaluateRules(
+  rules: HolidayRule[],
+  year: number,
+  countryCode: CountryCode,
+  include: (rule: HolidayRule) => boolean
+): Holiday[] {
+  const toEntry = (rule: HolidayRule, date: Date): HolidayEntry => {
+    const holiday: HolidayEntry = { name: rule.name, date, countryCode, type: rule.type ?? 'public' };
+    if (rule.religion) holiday.religion = rule.religion;
+    if (rule.subdivisions) holiday.subdivisions = [...rule.subdivisions];
+    return holiday;
+  };
+
+  const entries: Array<{ holiday: HolidayEntry; rule: ObservanceRule }> = [];
+  const bridgeRules: HolidayRule[] = [];
+  for (const rule of rules) {
+    if (!isRuleInEffect(rule, year) || !include(rule)) continue;
+    if (rule.date.type === 'between-holidays') {
+      bridgeRules.push(rule);
+      continue;
+    }
+    for (const date of getRuleDates(rule.date, year)) {
+      entries.push({ holiday: toEntry(rule, date), rule: rule.observed ?? 'none' });
+    }
+  }
+  const holidays = observe(entries.sort((a, b) =>
+    a.holiday.date.getTime() - b.holiday.date.getTime() || Number(hasSubstitute(a.rule)) - Number(hasSubstitute(b.rule))
+  ));
+  if (bridgeRules.length === 0) return holidays;
+
+  const bridgeDays = getDaysBetweenHolidays(holidays);
+  return [
+    ...holidays,
+    ...bridgeRules.flatMap(rule => bridgeDays.map(date => ({ ...toEntry(rule, date), observedDate: new Date(date.getTime()) })))
+  ].sort((a, b) => a.date.getTime() - b.date.getTime());
+}
 
-  // King's Day (April 27, or 26 if 27th is Sunday)
-  const kingsDay = new Date(year, 3, 27);
-  if (kingsDay.getDay() === 0) {
-    holidays.push({
-      name: "King's Day",
-      date: new Date(year, 3, 26),
-      countryCode: 'NL',
-      type: 'public'
-    });
-  } else {
-    holidays.push({
-      name: "King's Day",
-      date: kingsDay,
-      countryCode: 'NL',
-      type: 'public'
-    });
+/**
+ * Days other than Sunday whose neighbours both are holidays, leaving out days already observed as holidays
+ */
+function getDaysBetweenHolidays(holidays: Holiday[]): Date[] {
+  const dates = new Set(holidays.map(holiday => getDayKey(holiday.date)));
+  const daysOff = new Set(holidays.flatMap(holiday => [getDayKey(holiday.date), getDayKey(holiday.observedDate)]));
+  const days = new Map<string, Date>();
+  for (const holiday of holidays) {
+    const day = addDays(holiday.date, 1);
+    const key = getDayKey(day);
+    if (day.getDay() !== 0 && !daysOff.has(key) && dates.has(getDayKey(addDays(day, 1)))) days.set(key, day);
   }
+  return [...days.values()];
+}
 
-  // Liberation Day (May 5)
-  holidays.push({
-    name: 'Liberation Day',
-    date: new Date(year, 4, 5),
-    countryCode: 'NL',
-    type: 'public'
-  });
+/**
+ * Evaluate holiday rules for a year without registering a calendar, as market calendars do.
+ * Rules limited to subdivisions are skipped
+ * @param year - The year
+ * @param rules - Holiday rules
+ * @param countryCode - Code to attach to the holidays
+ * @returns Array of holidays in date order
+ * @example getHolidaysFromRules(2024, [{ name: 'Founders Day', date: { type: 'fixed', month: 3, day: 1 } }], 'ACME')
+ */
+export function getHolidaysFromRules(year: number, rules: HolidayRule[], countryCode: CountryCode): Holiday[] {
+  return evaluateRules(rules, year, countryCode, rule => !rule.subdivisions);
+}
 
-  // Ascension Day (Easter + 39 days)
-  holidays.push({
-    name: 'Ascension Day',
-    date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 39),
-    countryCode: 'NL',
-    type: 'public'
+/**
+ * Apply an observance rule to holidays from the year it was introduced, splitting rules that start earlier
+ */
+function observedFrom(rules: HolidayRule[], observed: ObservanceRule, from: number): HolidayRule[] {
+  return rules.flatMap((rule): HolidayRule[] => {
+    if (rule.date.type === 'once') return [rule.date.year >= from ? { ...rule, observed } : rule];
+    if (rule.to !== undefined && rule.to < from) return [rule];
+    if (rule.from !== undefined && rule.from >= from) return [{ ...rule, observed }];
+    return [{ ...rule, to: from - 1 }, { ...rule, observed, from }];
   });
+}
 
-  // Whit Sunday (Easter + 49 days)
-  holidays.push({
-    name: 'Whit Sunday',
-    date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 49),
-    countryCode: 'NL',
-    type: 'public'
-  });
+// ============================================================================
+// RELIGIOUS HOLIDAY SETS
+// ============================================================================
 
-  // Whit Monday (Easter + 50 days)
-  holidays.push({
-    name: 'Whit Monday',
-    date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 50),
-    countryCode: 'NL',
-    type: 'public'
-  });
+const RELIGIOUS_HOLIDAYS: Record<ReligiousHolidaySet, HolidayRule[]> = {
+  islamic: [
+    { name: 'Islamic New Year', date: { type: 'islamic', month: 1, day: 1 } },
+    { name: 'Eid al-Fitr', date: { type: 'islamic', month: 10, day: 1 } },
+    { name: 'Eid al-Adha', date: { type: 'islamic', month: 12, day: 10 } }
+  ],
+  jewish: [
+    { name: 'Passover', date: { type: 'hebrew', month: 8, day: 15 } },
+    { name: 'Rosh Hashanah', date: { type: 'hebrew', month: 1, day: 1 } },
+    { name: 'Yom Kippur', date: { type: 'hebrew', month: 1, day: 10 } },
+    { name: 'Hanukkah', date: { type: 'hebrew', month: 3, day: 25 } }
+  ],
+  hindu: [
+    { name: 'Holi', date: { type: 'hindu', festival: 'holi' } },
+    { name: 'Diwali', date: { type: 'hindu', festival: 'diwali' } }
+  ],
+  // Vesak on the 15th day of the 4th lunar month, as in Singapore and Malaysia
+  buddhist: [
+    { name: 'Vesak', date: { type: 'lunar', month: 4, day: 15 } }
+  ]
+};
 
-  // Christmas Day
-  holidays.push({
-    name: 'Christmas Day',
-    date: new Date(year, 11, 25),
-    countryCode: 'NL',
-    type: 'public'
-  });
+// ============================================================================
+// UK HOLIDAYS
+// ============================================================================
 
-  // Boxing Day
-  holidays.push({
-    name: 'Boxing Day',
-    date: new Date(year, 11, 26),
-    countryCode: 'NL',
-    type: 'public'
-  });
+// Dates follow the Banking and Financial Dealings Act 1971, with bank holidays moved or added by proclamation
+const UK_HOLIDAYS: HolidayRule[] = [
+  // Scotland already had New Year's Day before it became a bank holiday elsewhere in 1974
+  { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 }, type: 'bank', observed: 'substitute', from: 1974 },
+  { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 }, type: 'bank', observed: 'substitute', to: 1973, subdivisions: ['GB-SCT'] },
+  { name: '2 January', date: { type: 'fixed', month: 1, day: 2 }, type: 'bank', observed: 'substitute', subdivisions: ['GB-SCT'] },
+  { name: "St Patrick's Day", date: { type: 'fixed', month: 3, day: 17 }, type: 'bank', observed: 'substitute', subdivisions: ['GB-NIR'] },
+  { name: 'Good Friday', date: { type: 'easter', offset: -2 }, type: 'bank' },
+  { name: 'Easter Monday', date: { type: 'easter', offset: 1 }, type: 'bank', excludedSubdivisions: ['GB-SCT'] },
+  // Moved to VE Day for its 50th and 75th anniversaries
+  { name: 'Early May Bank Holiday', date: { type: 'nth-weekday', month: 5, weekday: 1, n: 1 }, type: 'bank', from: 1978, excludedYears: [1995, 2020] },
+  { name: 'Early May Bank Holiday', date: { type: 'once', year: 1995, month: 5, day: 8 }, type: 'bank' },
+  { name: 'Early May Bank Holiday', date: { type: 'once', year: 2020, month: 5, day: 8 }, type: 'bank' },
+  { name: 'Coronation of King Charles III', date: { type: 'once', year: 2023, month: 5, day: 8 }, type: 'bank' },
+  { name: 'Whit Monday', date: { type: 'easter', offset: 50 }, type: 'bank', to: 1970, excludedSubdivisions: ['GB-SCT'] },
+  // Moved into June for the Queen's jubilees
+  { name: 'Spring Bank Holiday', date: { type: 'nth-weekday', month: 5, weekday: 1, n: -1 }, type: 'bank', from: 1971, excludedYears: [1977, 2002, 2012, 2022] },
+  { name: 'Spring Bank Holiday', date: { type: 'once', year: 1977, month: 6, day: 6 }, type: 'bank' },
+  { name: "Queen's Silver Jubilee", date: { type: 'once', year: 1977, month: 6, day: 7 }, type: 'bank' },
+  { name: "Queen's Golden Jubilee", date: { type: 'once', year: 2002, month: 6, day: 3 }, type: 'bank' },
+  { name: 'Spring Bank Holiday', date: { type: 'once', year: 2002, month: 6, day: 4 }, type: 'bank' },
+  { name: 'Spring Bank Holiday', date: { type: 'once', year: 2012, month: 6, day: 4 }, type: 'bank' },
+  { name: "Queen's Diamond Jubilee", date: { type: 'once', year: 2012, month: 6, day: 5 }, type: 'bank' },
+  { name: 'Spring Bank Holiday', date: { type: 'once', year: 2022, month: 6, day: 2 }, type: 'bank' },
+  { name: "Queen's Platinum Jubilee", date: { type: 'once', year: 2022, month: 6, day: 3 }, type: 'bank' },
+  { name: 'Royal Wedding', date: { type: 'once', year: 1981, month: 7, day: 29 }, type: 'bank' },
+  { name: 'Royal Wedding', date: { type: 'once', year: 2011, month: 4, day: 29 }, type: 'bank' },
+  { name: 'Battle of the Boyne', date: { type: 'fixed', month: 7, day: 12 }, type: 'bank', observed: 'substitute', subdivisions: ['GB-NIR'] },
+  // Scotland holds the Summer Bank Holiday at the start of August, as everywhere did until 1971
+  { name: 'Summer Bank Holiday', date: { type: 'nth-weekday', month: 8, weekday: 1, n: 1 }, type: 'bank', to: 1970, excludedSubdivisions: ['GB-SCT'] },
+  { name: 'Summer Bank Holiday', date: { type: 'nth-weekday', month: 8, weekday: 1, n: -1 }, type: 'bank', from: 1971, excludedSubdivisions: ['GB-SCT'] },
+  { name: 'Summer Bank Holiday', date: { type: 'nth-weekday', month: 8, weekday: 1, n: 1 }, type: 'bank', subdivisions: ['GB-SCT'] },
+  { name: 'State Funeral of Queen Elizabeth II', date: { type: 'once', year: 2022, month: 9, day: 19 }, type: 'bank' },
+  { name: "St Andrew's Day", date: { type: 'fixed', month: 11, day: 30 }, type: 'bank', observed: 'substitute', from: 2007, subdivisions: ['GB-SCT'] },
+  { name: 'Christmas Day', date: { type: 'fixed', month: 12, day: 25 }, type: 'bank', observed: 'substitute' },
+  // Boxing Day became a bank holiday in Scotland in 1974
+  { name: 'Boxing Day', date: { type: 'fixed', month: 12, day: 26 }, type: 'bank', observed: 'substitute', to: 1973, excludedSubdivisions: ['GB-SCT'] },
+  { name: 'Boxing Day', date: { type: 'fixed', month: 12, day: 26 }, type: 'bank', observed: 'substitute', from: 1974 },
+  { name: 'Millennium Celebrations', date: { type: 'once', year: 1999, month: 12, day: 31 }, type: 'bank' }
+];
 
-  return holidays;
+export function getUKHolidays(year: number): Holiday[] {
+  return getHolidays(year, 'UK');
 }
 
 // ============================================================================
-// GERMANY HOLIDAYS
+// NETHERLANDS HOLIDAYS
 // ============================================================================
 
-export function getGermanyHolidays(year: number): Holiday[] {
-  const holidays: Holiday[] = [];
-  const easter = getEasterSunday(year);
-
-  // New Year's Day
-  holidays.push({
-    name: "New Year's Day",
-    date: new Date(year, 0, 1),
-    countryCode: 'DE',
-    type: 'public'
-  });
-
-  // Good Friday
-  holidays.push({
-    name: 'Good Friday',
-    date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() - 2),
-    countryCode: 'DE',
-    type: 'public'
-  });
-
-  // Easter Monday
-  holidays.push({
-    name: 'Easter Monday',
-    date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 1),
-    countryCode: 'DE',
-    type: 'public'
-  });
-
-  // Labour Day
-  holidays.push({
-    name: 'Labour Day',
-    date: new Date(year, 4, 1),
-    countryCode: 'DE',
-    type: 'public'
-  });
-
-  // Ascension Day
-  holidays.push({
-    name: 'Ascension Day',
-    date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 39),
-    countryCode: 'DE',
-    type: 'public'
-  });
+/**
+ * A fixed date moved by some days when it falls on a Sunday
+ */
+function sundayMoved(month: number, day: number, days: number): HolidayDateRule {
+  return {
+    type: 'custom',
+    dates: year => {
+      const date = new Date(year, month - 1, day);
+      return [date.getDay() === 0 ? addDays(date, days) : date];
+    }
+  };
+}
 
-  // Whit Monday
-  holidays.push({
-    name: 'Whit Monday',
-    date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 50),
-    countryCode: 'DE',
-    type: 'public'
-  });
+const NETHERLANDS_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 } },
+  { name: 'Good Friday', date: { type: 'easter', offset: -2 }, type: 'observance' },
+  { name: 'Easter Sunday', date: { type: 'easter' } },
+  { name: 'Easter Monday', date: { type: 'easter', offset: 1 } },
+  // The monarch's birthday, moved off Sundays
+  { name: "Queen's Day", date: sundayMoved(8, 31, 1), from: 1891, to: 1948 },
+  { name: "Queen's Day", date: sundayMoved(4, 30, 1), from: 1949, to: 1979 },
+  { name: "Queen's Day", date: sundayMoved(4, 30, -1), from: 1980, to: 2013 },
+  { name: "King's Day", date: sundayMoved(4, 27, -1), from: 2014 },
+  // A holiday every fifth year until 1990
+  { name: 'Liberation Day', date: { type: 'custom', dates: year => (year % 5 === 0 ? [new Date(year, 4, 5)] : []) }, from: 1945, to: 1989 },
+  { name: 'Liberation Day', date: { type: 'fixed', month: 5, day: 5 }, from: 1990 },
+  { name: 'Ascension Day', date: { type: 'easter', offset: 39 } },
+  { name: 'Whit Sunday', date: { type: 'easter', offset: 49 } },
+  { name: 'Whit Monday', date: { type: 'easter', offset: 50 } },
+  { name: 'Christmas Day', date: { type: 'fixed', month: 12, day: 25 } },
+  { name: 'Boxing Day', date: { type: 'fixed', month: 12, day: 26 } }
+];
 
-  // German Unity Day
-  holidays.push({
-    name: 'German Unity Day',
-    date: new Date(year, 9, 3),
-    countryCode: 'DE',
-    type: 'public'
-  });
+export function getNetherlandsHolidays(year: number): Holiday[] {
+  return getHolidays(year, 'NL');
+}
 
-  // Christmas Day
-  holidays.push({
-    name: 'Christmas Day',
-    date: new Date(year, 11, 25),
-    countryCode: 'DE',
-    type: 'public'
-  });
+// ============================================================================
+// GERMANY HOLIDAYS
+// ============================================================================
 
-  // Boxing Day
-  holidays.push({
-    name: 'Boxing Day',
-    date: new Date(year, 11, 26),
-    countryCode: 'DE',
-    type: 'public'
-  });
+const GERMANY_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 } },
+  { name: 'Epiphany', date: { type: 'fixed', month: 1, day: 6 }, subdivisions: ['DE-BW', 'DE-BY', 'DE-ST'] },
+  { name: "International Women's Day", date: { type: 'fixed', month: 3, day: 8 }, from: 2019, subdivisions: ['DE-BE'] },
+  { name: "International Women's Day", date: { type: 'fixed', month: 3, day: 8 }, from: 2023, subdivisions: ['DE-MV'] },
+  { name: 'Good Friday', date: { type: 'easter', offset: -2 } },
+  { name: 'Easter Sunday', date: { type: 'easter' }, subdivisions: ['DE-BB'] },
+  { name: 'Easter Monday', date: { type: 'easter', offset: 1 } },
+  { name: 'Labour Day', date: { type: 'fixed', month: 5, day: 1 } },
+  { name: 'Ascension Day', date: { type: 'easter', offset: 39 } },
+  { name: 'Whit Sunday', date: { type: 'easter', offset: 49 }, subdivisions: ['DE-BB'] },
+  { name: 'Whit Monday', date: { type: 'easter', offset: 50 } },
+  { name: 'Corpus Christi', date: { type: 'easter', offset: 60 }, subdivisions: ['DE-BW', 'DE-BY', 'DE-HE', 'DE-NW', 'DE-RP', 'DE-SL'] },
+  { name: 'Assumption of Mary', date: { type: 'fixed', month: 8, day: 15 }, subdivisions: ['DE-SL'] },
+  { name: 'Liberation Day', date: { type: 'once', year: 2020, month: 5, day: 8 }, subdivisions: ['DE-BE'] },
+  { name: 'Liberation Day', date: { type: 'once', year: 2025, month: 5, day: 8 }, subdivisions: ['DE-BE'] },
+  // West Germany's Day of German Unity commemorated the 1953 uprising in East Germany
+  { name: 'Day of German Unity', date: { type: 'fixed', month: 6, day: 17 }, from: 1954, to: 1990 },
+  { name: "World Children's Day", date: { type: 'fixed', month: 9, day: 20 }, from: 2019, subdivisions: ['DE-TH'] },
+  { name: 'German Unity Day', date: { type: 'fixed', month: 10, day: 3 }, from: 1990 },
+  // The 500th anniversary of the Reformation was a holiday nationwide
+  { name: 'Reformation Day', date: { type: 'once', year: 2017, month: 10, day: 31 }, excludedSubdivisions: ['DE-BB', 'DE-MV', 'DE-SN', 'DE-ST', 'DE-TH'] },
+  { name: 'Reformation Day', date: { type: 'fixed', month: 10, day: 31 }, subdivisions: ['DE-BB', 'DE-MV', 'DE-SN', 'DE-ST', 'DE-TH'] },
+  { name: 'Reformation Day', date: { type: 'fixed', month: 10, day: 31 }, from: 2018, subdivisions: ['DE-HB', 'DE-HH', 'DE-NI', 'DE-SH'] },
+  { name: "All Saints' Day", date: { type: 'fixed', month: 11, day: 1 }, subdivisions: ['DE-BW', 'DE-BY', 'DE-NW', 'DE-RP', 'DE-SL'] },
+  // Repentance and Prayer Day is the last Wednesday before 23 November; only Saxony kept it after 1994
+  { name: 'Repentance and Prayer Day', date: { type: 'weekday-on-or-before', month: 11, day: 22, weekday: 3 }, to: 1994 },
+  { name: 'Repentance and Prayer Day', date: { type: 'weekday-on-or-before', month: 11, day: 22, weekday: 3 }, from: 1995, subdivisions: ['DE-SN'] },
+  { name: 'Christmas Day', date: { type: 'fixed', month: 12, day: 25 } },
+  { name: 'Boxing Day', date: { type: 'fixed', month: 12, day: 26 } }
+];
 
-  return holidays;
+export function getGermanyHolidays(year: number): Holiday[] {
+  return getHolidays(year, 'DE');
 }
 
 // ============================================================================
 // CANADA HOLIDAYS
 // ============================================================================
 
-export function getCanadaHolidays(year: number): Holiday[] {
-  const holidays: Holiday[] = [];
-  const easter = getEasterSunday(year);
-
-  // New Year's Day
-  holidays.push({
-    name: "New Year's Day",
-    date: adjustForWeekend(new Date(year, 0, 1)),
-    countryCode: 'CA',
-    type: 'public'
-  });
-
-  // Good Friday
-  holidays.push({
-    name: 'Good Friday',
-    date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() - 2),
-    countryCode: 'CA',
-    type: 'public'
-  });
-
+const CANADA_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 }, observed: 'next-monday' },
+  { name: 'Family Day', date: { type: 'nth-weekday', month: 2, weekday: 1, n: 3 }, from: 1990, subdivisions: ['CA-AB'] },
+  { name: 'Family Day', date: { type: 'nth-weekday', month: 2, weekday: 1, n: 3 }, from: 2007, subdivisions: ['CA-SK'] },
+  { name: 'Family Day', date: { type: 'nth-weekday', month: 2, weekday: 1, n: 3 }, from: 2008, subdivisions: ['CA-ON'] },
+  { name: 'Family Day', date: { type: 'nth-weekday', month: 2, weekday: 1, n: 3 }, from: 2018, subdivisions: ['CA-NB'] },
+  // British Columbia held Family Day on the second Monday of February until 2018
+  { name: 'Family Day', date: { type: 'nth-weekday', month: 2, weekday: 1, n: 2 }, from: 2013, to: 2018, subdivisions: ['CA-BC'] },
+  { name: 'Family Day', date: { type: 'nth-weekday', month: 2, weekday: 1, n: 3 }, from: 2019, subdivisions: ['CA-BC'] },
+  { name: 'Louis Riel Day', date: { type: 'nth-weekday', month: 2, weekday: 1, n: 3 }, from: 2008, subdivisions: ['CA-MB'] },
+  { name: 'Islander Day', date: { type: 'nth-weekday', month: 2, weekday: 1, n: 3 }, from: 2009, subdivisions: ['CA-PE'] },
+  { name: 'Heritage Day', date: { type: 'nth-weekday', month: 2, weekday: 1, n: 3 }, from: 2015, subdivisions: ['CA-NS'] },
+  { name: 'Good Friday', date: { type: 'easter', offset: -2 } },
   // Victoria Day (Monday before May 25)
-  const may24 = new Date(year, 4, 24);
-  const victoriaDay = new Date(year, 4, 24 - ((may24.getDay() + 6) % 7));
-  holidays.push({
-    name: 'Victoria Day',
-    date: victoriaDay,
-    countryCode: 'CA',
-    type: 'public'
-  });
-
-  // Canada Day (July 1, or substitute)
-  holidays.push({
-    name: 'Canada Day',
-    date: adjustForWeekend(new Date(year, 6, 1)),
-    countryCode: 'CA',
-    type: 'public'
-  });
-
-  // Labour Day (first Monday in September)
-  holidays.push({
-    name: 'Labour Day',
-    date: getNthWeekdayOfMonth(year, 8, 1, 1),
-    countryCode: 'CA',
-    type: 'public'
-  });
+  { name: 'Victoria Day', date: { type: 'weekday-on-or-before', month: 5, day: 24, weekday: 1 } },
+  { name: 'National Indigenous Peoples Day', date: { type: 'fixed', month: 6, day: 21 }, from: 1996, subdivisions: ['CA-NT'] },
+  { name: 'National Indigenous Peoples Day', date: { type: 'fixed', month: 6, day: 21 }, from: 2017, subdivisions: ['CA-YT'] },
+  { name: 'Saint-Jean-Baptiste Day', date: { type: 'fixed', month: 6, day: 24 }, subdivisions: ['CA-QC'] },
+  { name: 'Dominion Day', date: { type: 'fixed', month: 7, day: 1 }, observed: 'next-monday', to: 1982 },
+  { name: 'Canada Day', date: { type: 'fixed', month: 7, day: 1 }, observed: 'next-monday', from: 1983 },
+  { name: 'British Columbia Day', date: { type: 'nth-weekday', month: 8, weekday: 1, n: 1 }, subdivisions: ['CA-BC'] },
+  { name: 'New Brunswick Day', date: { type: 'nth-weekday', month: 8, weekday: 1, n: 1 }, subdivisions: ['CA-NB'] },
+  { name: 'Saskatchewan Day', date: { type: 'nth-weekday', month: 8, weekday: 1, n: 1 }, subdivisions: ['CA-SK'] },
+  { name: 'Civic Holiday', date: { type: 'nth-weekday', month: 8, weekday: 1, n: 1 }, subdivisions: ['CA-NT', 'CA-NU'] },
+  { name: 'Discovery Day', date: { type: 'nth-weekday', month: 8, weekday: 1, n: 3 }, subdivisions: ['CA-YT'] },
+  { name: 'Labour Day', date: { type: 'nth-weekday', month: 9, weekday: 1, n: 1 } },
+  { name: 'Thanksgiving', date: { type: 'nth-weekday', month: 10, weekday: 1, n: 2 } },
+  { name: 'Remembrance Day', date: { type: 'fixed', month: 11, day: 11 }, excludedSubdivisions: ['CA-ON', 'CA-QC'] },
+  { name: 'Christmas Day', date: { type: 'fixed', month: 12, day: 25 }, observed: 'substitute' },
+  { name: 'Boxing Day', date: { type: 'fixed', month: 12, day: 26 }, observed: 'substitute' }
+];
 
-  // Thanksgiving (second Monday in October)
-  holidays.push({
-    name: 'Thanksgiving',
-    date: getNthWeekdayOfMonth(year, 9, 1, 2),
-    countryCode: 'CA',
-    type: 'public'
-  });
-
-  // Remembrance Day
-  holidays.push({
-    name: 'Remembrance Day',
-    date: new Date(year, 10, 11),
-    countryCode: 'CA',
-    type: 'public'
-  });
-
-  // Christmas Day
-  holidays.push({
-    name: 'Christmas Day',
-    date: adjustForWeekend(new Date(year, 11, 25)),
-    countryCode: 'CA',
-    type: 'public'
-  });
-
-  // Boxing Day
-  holidays.push({
-    name: 'Boxing Day',
-    date: adjustForWeekend(new Date(year, 11, 26)),
-    countryCode: 'CA',
-    type: 'public'
-  });
-
-  return holidays;
+export function getCanadaHolidays(year: number): Holiday[] {
+  return getHolidays(year, 'CA');
 }
 
 // ============================================================================
 // AUSTRALIA HOLIDAYS
 // ============================================================================
 
-export function getAustraliaHolidays(year: number): Holiday[] {
-  const holidays: Holiday[] = [];
-  const easter = getEasterSunday(year);
-
-  // New Year's Day
-  holidays.push({
-    name: "New Year's Day",
-    date: adjustForWeekend(new Date(year, 0, 1)),
-    countryCode: 'AU',
-    type: 'public'
-  });
-
-  // Australia Day (January 26)
-  holidays.push({
-    name: 'Australia Day',
-    date: adjustForWeekend(new Date(year, 0, 26)),
-    countryCode: 'AU',
-    type: 'public'
-  });
-
-  // Good Friday
-  holidays.push({
-    name: 'Good Friday',
-    date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() - 2),
-    countryCode: 'AU',
-    type: 'public'
-  });
-
-  // Easter Saturday
-  holidays.push({
-    name: 'Easter Saturday',
-    date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() - 1),
-    countryCode: 'AU',
-    type: 'public'
-  });
-
-  // Easter Monday
-  holidays.push({
-    name: 'Easter Monday',
-    date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 1),
-    countryCode: 'AU',
-    type: 'public'
-  });
+const AUSTRALIA_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 }, observed: 'next-monday' },
+  { name: 'Australia Day', date: { type: 'fixed', month: 1, day: 26 }, observed: 'next-monday' },
+  { name: 'Labour Day', date: { type: 'nth-weekday', month: 3, weekday: 1, n: 1 }, subdivisions: ['AU-WA'] },
+  { name: 'Labour Day', date: { type: 'nth-weekday', month: 3, weekday: 1, n: 2 }, subdivisions: ['AU-VIC'] },
+  { name: 'Eight Hours Day', date: { type: 'nth-weekday', month: 3, weekday: 1, n: 2 }, subdivisions: ['AU-TAS'] },
+  { name: 'Canberra Day', date: { type: 'nth-weekday', month: 3, weekday: 1, n: 2 }, subdivisions: ['AU-ACT'] },
+  { name: 'Adelaide Cup Day', date: { type: 'nth-weekday', month: 3, weekday: 1, n: 2 }, subdivisions: ['AU-SA'] },
+  { name: 'Good Friday', date: { type: 'easter', offset: -2 } },
+  { name: 'Easter Saturday', date: { type: 'easter', offset: -1 }, excludedSubdivisions: ['AU-TAS', 'AU-WA'] },
+  { name: 'Easter Sunday', date: { type: 'easter' }, subdivisions: ['AU-ACT', 'AU-NSW', 'AU-QLD', 'AU-VIC'] },
+  { name: 'Easter Monday', date: { type: 'easter', offset: 1 } },
+  { name: 'Anzac Day', date: { type: 'fixed', month: 4, day: 25 } },
+  { name: 'Labour Day', date: { type: 'nth-weekday', month: 5, weekday: 1, n: 1 }, subdivisions: ['AU-QLD'] },
+  { name: 'May Day', date: { type: 'nth-weekday', month: 5, weekday: 1, n: 1 }, subdivisions: ['AU-NT'] },
+  // Reconciliation Day is the first Monday on or after 27 May
+  { name: 'Reconciliation Day', date: { type: 'weekday-on-or-after', month: 5, day: 27, weekday: 1 }, from: 2018, subdivisions: ['AU-ACT'] },
+  { name: 'Western Australia Day', date: { type: 'nth-weekday', month: 6, weekday: 1, n: 1 }, subdivisions: ['AU-WA'] },
+  // Western Australia and Queensland hold the monarch's birthday later in the year
+  { name: "Queen's Birthday", date: { type: 'nth-weekday', month: 6, weekday: 1, n: 2 }, to: 2022, excludedSubdivisions: ['AU-QLD', 'AU-WA'] },
+  { name: "King's Birthday", date: { type: 'nth-weekday', month: 6, weekday: 1, n: 2 }, from: 2023, excludedSubdivisions: ['AU-QLD', 'AU-WA'] },
+  { name: 'Picnic Day', date: { type: 'nth-weekday', month: 8, weekday: 1, n: 1 }, subdivisions: ['AU-NT'] },
+  { name: 'National Day of Mourning for Queen Elizabeth II', date: { type: 'once', year: 2022, month: 9, day: 22 } },
+  // Proclaimed each year; usually the last Monday of September
+  { name: "Queen's Birthday", date: { type: 'nth-weekday', month: 9, weekday: 1, n: -1 }, to: 2022, subdivisions: ['AU-WA'] },
+  { name: "King's Birthday", date: { type: 'nth-weekday', month: 9, weekday: 1, n: -1 }, from: 2023, subdivisions: ['AU-WA'] },
+  { name: "Queen's Birthday", date: { type: 'nth-weekday', month: 10, weekday: 1, n: 1 }, to: 2022, subdivisions: ['AU-QLD'] },
+  { name: "King's Birthday", date: { type: 'nth-weekday', month: 10, weekday: 1, n: 1 }, from: 2023, subdivisions: ['AU-QLD'] },
+  { name: 'Labour Day', date: { type: 'nth-weekday', month: 10, weekday: 1, n: 1 }, subdivisions: ['AU-ACT', 'AU-NSW', 'AU-SA'] },
+  { name: 'Melbourne Cup', date: { type: 'nth-weekday', month: 11, weekday: 2, n: 1 }, subdivisions: ['AU-VIC'] },
+  { name: 'Christmas Day', date: { type: 'fixed', month: 12, day: 25 }, observed: 'substitute' },
+  { name: 'Boxing Day', date: { type: 'fixed', month: 12, day: 26 }, observed: 'substitute' }
+];
 
-  // Anzac Day (April 25)
-  holidays.push({
-    name: 'Anzac Day',
-    date: new Date(year, 3, 25),
-    countryCode: 'AU',
-    type: 'public'
-  });
-
-  // Queen's Birthday (second Monday in June)
-  holidays.push({
-    name: "Queen's Birthday",
-    date: getNthWeekdayOfMonth(year, 5, 1, 2),
-    countryCode: 'AU',
-    type: 'public'
-  });
-
-  // Christmas Day
-  holidays.push({
-    name: 'Christmas Day',
-    date: adjustForWeekend(new Date(year, 11, 25)),
-    countryCode: 'AU',
-    type: 'public'
-  });
-
-  // Boxing Day
-  holidays.push({
-    name: 'Boxing Day',
-    date: adjustForWeekend(new Date(year, 11, 26)),
-    countryCode: 'AU',
-    type: 'public'
-  });
-
-  return holidays;
+export function getAustraliaHolidays(year: number): Holiday[] {
+  return getHolidays(year, 'AU');
 }
 
 // ============================================================================
 // ITALY HOLIDAYS
 // ============================================================================
 
-export function getItalyHolidays(year: number): Holiday[] {
-  const holidays: Holiday[] = [];
-  const easter = getEasterSunday(year);
-
-  // New Year's Day
-  holidays.push({
-    name: "New Year's Day",
-    date: new Date(year, 0, 1),
-    countryCode: 'IT',
-    type: 'public'
-  });
-
-  // Epiphany
-  holidays.push({
-    name: 'Epiphany',
-    date: new Date(year, 0, 6),
-    countryCode: 'IT',
-    type: 'public'
-  });
-
-  // Easter Monday
-  holidays.push({
-    name: 'Easter Monday',
-    date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 1),
-    countryCode: 'IT',
-    type: 'public'
-  });
-
-  // Liberation Day
-  holidays.push({
-    name: 'Liberation Day',
-    date: new Date(year, 3, 25),
-    countryCode: 'IT',
-    type: 'public'
-  });
-
-  // Labour Day
-  holidays.push({
-    name: 'Labour Day',
-    date: new Date(year, 4, 1),
-    countryCode: 'IT',
-    type: 'public'
-  });
-
-  // Republic Day
-  holidays.push({
-    name: 'Republic Day',
-    date: new Date(year, 5, 2),
-    countryCode: 'IT',
-    type: 'public'
-  });
-
-  // Assumption of Mary
-  holidays.push({
-    name: 'Assumption of Mary',
-    date: new Date(year, 7, 15),
-    countryCode: 'IT',
-    type: 'public'
-  });
-
-  // All Saints' Day
-  holidays.push({
-    name: "All Saints' Day",
-    date: new Date(year, 10, 1),
-    countryCode: 'IT',
-    type: 'public'
-  });
-
-  // Immaculate Conception
-  holidays.push({
-    name: 'Immaculate Conception',
-    date: new Date(year, 11, 8),
-    countryCode: 'IT',
-    type: 'public'
-  });
-
-  // Christmas Day
-  holidays.push({
-    name: 'Christmas Day',
-    date: new Date(year, 11, 25),
-    countryCode: 'IT',
-    type: 'public'
-  });
-
-  // St. Stephen's Day
-  holidays.push({
-    name: "St. Stephen's Day",
-    date: new Date(year, 11, 26),
-    countryCode: 'IT',
-    type: 'public'
-  });
+// Epiphany was not a holiday from 1977 to 1985, when Republic Day moved to the first Sunday of June
+const ITALY_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 } },
+  { name: 'Epiphany', date: { type: 'fixed', month: 1, day: 6 }, excludedYears: [1977, 1978, 1979, 1980, 1981, 1982, 1983, 1984, 1985] },
+  { name: 'Easter Monday', date: { type: 'easter', offset: 1 } },
+  { name: 'Liberation Day', date: { type: 'fixed', month: 4, day: 25 } },
+  { name: 'Labour Day', date: { type: 'fixed', month: 5, day: 1 } },
+  { name: 'Republic Day', date: { type: 'fixed', month: 6, day: 2 }, to: 1976 },
+  { name: 'Republic Day', date: { type: 'nth-weekday', month: 6, weekday: 0, n: 1 }, from: 1977, to: 2000 },
+  { name: 'Republic Day', date: { type: 'fixed', month: 6, day: 2 }, from: 2001 },
+  { name: 'Assumption of Mary', date: { type: 'fixed', month: 8, day: 15 } },
+  { name: "All Saints' Day", date: { type: 'fixed', month: 11, day: 1 } },
+  { name: 'Immaculate Conception', date: { type: 'fixed', month: 12, day: 8 } },
+  { name: 'Christmas Day', date: { type: 'fixed', month: 12, day: 25 } },
+  { name: "St. Stephen's Day", date: { type: 'fixed', month: 12, day: 26 } }
+];
 
-  return holidays;
+export function getItalyHolidays(year: number): Holiday[] {
+  return getHolidays(year, 'IT');
 }
 
 // ============================================================================
-// SPAIN HOLIDAYS
+// SPAIN HOLIDAYS (autonomous communities set part of their calendar each year;
+// regional rules cover the days they keep every year)
 // ============================================================================
 
-export function getSpainHolidays(year: number): Holiday[] {
-  const holidays: Holiday[] = [];
-  const easter = getEasterSunday(year);
-
-  // New Year's Day
-  holidays.push({
-    name: "New Year's Day",
-    date: new Date(year, 0, 1),
-    countryCode: 'ES',
-    type: 'public'
-  });
-
-  // Epiphany
-  holidays.push({
-    name: 'Epiphany',
-    date: new Date(year, 0, 6),
-    countryCode: 'ES',
-    type: 'public'
-  });
-
-  // Good Friday
-  holidays.push({
-    name: 'Good Friday',
-    date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() - 2),
-    countryCode: 'ES',
-    type: 'public'
-  });
-
-  // Labour Day
-  holidays.push({
-    name: 'Labour Day',
-    date: new Date(year, 4, 1),
-    countryCode: 'ES',
-    type: 'public'
-  });
-
-  // Assumption of Mary
-  holidays.push({
-    name: 'Assumption of Mary',
-    date: new Date(year, 7, 15),
-    countryCode: 'ES',
-    type: 'public'
-  });
-
-  // National Day of Spain
-  holidays.push({
-    name: 'National Day of Spain',
-    date: new Date(year, 9, 12),
-    countryCode: 'ES',
-    type: 'public'
-  });
-
-  // All Saints' Day
-  holidays.push({
-    name: "All Saints' Day",
-    date: new Date(year, 10, 1),
-    countryCode: 'ES',
-    type: 'public'
-  });
-
-  // Constitution Day
-  holidays.push({
-    name: 'Constitution Day',
-    date: new Date(year, 11, 6),
-    countryCode: 'ES',
-    type: 'public'
-  });
-
-  // Immaculate Conception
-  holidays.push({
-    name: 'Immaculate Conception',
-    date: new Date(year, 11, 8),
-    countryCode: 'ES',
-    type: 'public'
-  });
-
-  // Christmas Day
-  holidays.push({
-    name: 'Christmas Day',
-    date: new Date(year, 11, 25),
-    countryCode: 'ES',
-    type: 'public'
-  });
+const SPAIN_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 } },
+  { name: 'Epiphany', date: { type: 'fixed', month: 1, day: 6 } },
+  { name: 'Andalusia Day', date: { type: 'fixed', month: 2, day: 28 }, subdivisions: ['ES-AN'] },
+  { name: 'Balearic Islands Day', date: { type: 'fixed', month: 3, day: 1 }, subdivisions: ['ES-IB'] },
+  {
+    name: 'Maundy Thursday',
+    date: { type: 'easter', offset: -3 },
+    subdivisions: ['ES-AN', 'ES-AR', 'ES-AS', 'ES-CB', 'ES-CE', 'ES-CL', 'ES-CM', 'ES-CN', 'ES-EX', 'ES-GA', 'ES-IB', 'ES-MC', 'ES-MD', 'ES-ML', 'ES-NC', 'ES-PV', 'ES-RI']
+  },
+  { name: 'Good Friday', date: { type: 'easter', offset: -2 } },
+  { name: 'Easter Monday', date: { type: 'easter', offset: 1 }, subdivisions: ['ES-CT', 'ES-IB', 'ES-NC', 'ES-PV', 'ES-VC'] },
+  { name: "Saint George's Day", date: { type: 'fixed', month: 4, day: 23 }, subdivisions: ['ES-AR'] },
+  { name: 'Castile and León Day', date: { type: 'fixed', month: 4, day: 23 }, subdivisions: ['ES-CL'] },
+  { name: 'Labour Day', date: { type: 'fixed', month: 5, day: 1 } },
+  { name: 'Community of Madrid Day', date: { type: 'fixed', month: 5, day: 2 }, subdivisions: ['ES-MD'] },
+  { name: 'Canary Islands Day', date: { type: 'fixed', month: 5, day: 30 }, subdivisions: ['ES-CN'] },
+  { name: 'Castilla-La Mancha Day', date: { type: 'fixed', month: 5, day: 31 }, subdivisions: ['ES-CM'] },
+  { name: 'Murcia Day', date: { type: 'fixed', month: 6, day: 9 }, subdivisions: ['ES-MC'] },
+  { name: 'La Rioja Day', date: { type: 'fixed', month: 6, day: 9 }, subdivisions: ['ES-RI'] },
+  { name: "Saint John's Day", date: { type: 'fixed', month: 6, day: 24 }, subdivisions: ['ES-CT'] },
+  { name: 'Galician National Day', date: { type: 'fixed', month: 7, day: 25 }, subdivisions: ['ES-GA'] },
+  { name: 'Cantabria Day', date: { type: 'fixed', month: 7, day: 28 }, subdivisions: ['ES-CB'] },
+  { name: 'Assumption of Mary', date: { type: 'fixed', month: 8, day: 15 } },
+  { name: 'Asturias Day', date: { type: 'fixed', month: 9, day: 8 }, subdivisions: ['ES-AS'] },
+  { name: 'Extremadura Day', date: { type: 'fixed', month: 9, day: 8 }, subdivisions: ['ES-EX'] },
+  { name: 'National Day of Catalonia', date: { type: 'fixed', month: 9, day: 11 }, subdivisions: ['ES-CT'] },
+  { name: 'Valencian Community Day', date: { type: 'fixed', month: 10, day: 9 }, subdivisions: ['ES-VC'] },
+  { name: 'National Day of Spain', date: { type: 'fixed', month: 10, day: 12 } },
+  { name: "All Saints' Day", date: { type: 'fixed', month: 11, day: 1 } },
+  { name: 'Constitution Day', date: { type: 'fixed', month: 12, day: 6 } },
+  { name: 'Immaculate Conception', date: { type: 'fixed', month: 12, day: 8 } },
+  { name: 'Christmas Day', date: { type: 'fixed', month: 12, day: 25 } },
+  { name: "Saint Stephen's Day", date: { type: 'fixed', month: 12, day: 26 }, subdivisions: ['ES-CT'] }
+];
 
-  return holidays;
+export function getSpainHolidays(year: number): Holiday[] {
+  return getHolidays(year, 'ES');
 }
 
 // ============================================================================
-// CHINA HOLIDAYS (Simplified - some are lunar calendar based)
+// CHINA HOLIDAYS
 // ============================================================================
 
-export function getChinaHolidays(year: number): Holiday[] {
-  const holidays: Holiday[] = [];
-
-  // New Year's Day
-  holidays.push({
-    name: "New Year's Day",
-    date: new Date(year, 0, 1),
-    countryCode: 'CN',
-    type: 'public'
-  });
-
-  // Note: Spring Festival (Chinese New Year) is lunar calendar based
-  // This is a simplified version - actual dates vary by year
-  // Would need a lunar calendar library for accurate dates
-
-  // Tomb Sweeping Day (April 4 or 5)
-  holidays.push({
+const CHINA_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 } },
+  // Spring Festival (first three days of the lunar year)
+  { name: 'Spring Festival', date: { type: 'lunar', month: 1, day: 1 } },
+  { name: 'Spring Festival', date: { type: 'lunar', month: 1, day: 2 } },
+  { name: 'Spring Festival', date: { type: 'lunar', month: 1, day: 3 } },
+  // Tomb Sweeping Day (Qingming solar term, April 4-6); it and the other traditional festivals became holidays in 2008
+  {
     name: 'Tomb Sweeping Day',
-    date: new Date(year, 3, 4),
-    countryCode: 'CN',
-    type: 'public'
-  });
-
-  // Labour Day
-  holidays.push({
-    name: 'Labour Day',
-    date: new Date(year, 4, 1),
-    countryCode: 'CN',
-    type: 'public'
-  });
-
-  // Dragon Boat Festival (lunar calendar - approximate)
-  // Note: Actual date varies, this is simplified
+    from: 2008,
+    date: {
+      type: 'custom',
+      dates: year => {
+        const qingming = QINGMING_DAYS[year - 1900];
+        return [new Date(year, 3, qingming ? Number(qingming) : 5)];
+      }
+    }
+  },
+  { name: 'Labour Day', date: { type: 'fixed', month: 5, day: 1 } },
+  { name: 'Dragon Boat Festival', date: { type: 'lunar', month: 5, day: 5 }, from: 2008 },
+  { name: 'Mid-Autumn Festival', date: { type: 'lunar', month: 8, day: 15 }, from: 2008 },
+  { name: 'National Day', date: { type: 'fixed', month: 10, day: 1 } }
+];
 
-  // Mid-Autumn Festival (lunar calendar - approximate)
-  // Note: Actual date varies, this is simplified
-
-  // National Day
-  holidays.push({
-    name: 'National Day',
-    date: new Date(year, 9, 1),
-    countryCode: 'CN',
-    type: 'public'
-  });
-
-  return holidays;
+export function getChinaHolidays(year: number): Holiday[] {
+  return getHolidays(year, 'CN');
 }
 
 // ============================================================================
 // INDIA HOLIDAYS (Simplified - many are lunar calendar based)
 // ============================================================================
 
-export function getIndiaHolidays(year: number): Holiday[] {
-  const holidays: Holiday[] = [];
-
-  // Republic Day
-  holidays.push({
-    name: 'Republic Day',
-    date: new Date(year, 0, 26),
-    countryCode: 'IN',
-    type: 'public'
-  });
-
-  // Independence Day
-  holidays.push({
-    name: 'Independence Day',
-    date: new Date(year, 7, 15),
-    countryCode: 'IN',
-    type: 'public'
-  });
+const INDIA_HOLIDAYS: HolidayRule[] = [
+  { name: 'Republic Day', date: { type: 'fixed', month: 1, day: 26 } },
+  { name: 'Holi', date: { type: 'hindu', festival: 'holi' }, religion: 'hindu' },
+  { name: 'Eid al-Fitr', date: { type: 'islamic', month: 10, day: 1 }, religion: 'islamic' },
+  { name: 'Eid al-Adha', date: { type: 'islamic', month: 12, day: 10 }, religion: 'islamic' },
+  { name: 'Independence Day', date: { type: 'fixed', month: 8, day: 15 } },
+  { name: 'Gandhi Jayanti', date: { type: 'fixed', month: 10, day: 2 } },
+  { name: 'Diwali', date: { type: 'hindu', festival: 'diwali' }, religion: 'hindu' }
+];
 
-  // Gandhi Jayanti
-  holidays.push({
-    name: 'Gandhi Jayanti',
-    date: new Date(year, 9, 2),
-    countryCode: 'IN',
-    type: 'public'
-  });
+export function getIndiaHolidays(year: number): Holiday[] {
+  return getHolidays(year, 'IN');
+}
 
-  // Note: Diwali, Holi, Eid, etc. are lunar calendar based
-  // Would need a lunar calendar library for accurate dates
+// ============================================================================
+// UNITED STATES HOLIDAYS (Federal)
+// ============================================================================
 
-  return holidays;
+// The Uniform Monday Holiday Act moved Washington's Birthday, Memorial Day, Columbus Day and Veterans Day to Mondays in 1971
+const UNITED_STATES_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 }, observed: 'nearest-weekday' },
+  { name: 'Martin Luther King Jr. Day', date: { type: 'nth-weekday', month: 1, weekday: 1, n: 3 }, from: 1986 },
+  { name: "Washington's Birthday", date: { type: 'fixed', month: 2, day: 22 }, observed: 'nearest-weekday', to: 1970 },
+  { name: "Presidents' Day", date: { type: 'nth-weekday', month: 2, weekday: 1, n: 3 }, from: 1971 },
+  { name: 'Memorial Day', date: { type: 'fixed', month: 5, day: 30 }, observed: 'nearest-weekday', to: 1970 },
+  { name: 'Memorial Day', date: { type: 'nth-weekday', month: 5, weekday: 1, n: -1 }, from: 1971 },
+  { name: 'Juneteenth', date: { type: 'fixed', month: 6, day: 19 }, observed: 'nearest-weekday', from: 2021 },
+  { name: 'Independence Day', date: { type: 'fixed', month: 7, day: 4 }, observed: 'nearest-weekday' },
+  { name: 'Labor Day', date: { type: 'nth-weekday', month: 9, weekday: 1, n: 1 }, from: 1894 },
+  { name: 'Columbus Day', date: { type: 'fixed', month: 10, day: 12 }, observed: 'nearest-weekday', from: 1937, to: 1970 },
+  { name: 'Columbus Day', date: { type: 'nth-weekday', month: 10, weekday: 1, n: 2 }, from: 1971 },
+  { name: 'Veterans Day', date: { type: 'nth-weekday', month: 10, weekday: 1, n: 4 }, from: 1971, to: 1977 },
+  { name: 'Armistice Day', date: { type: 'fixed', month: 11, day: 11 }, observed: 'nearest-weekday', from: 1938, to: 1953 },
+  { name: 'Veterans Day', date: { type: 'fixed', month: 11, day: 11 }, observed: 'nearest-weekday', from: 1954, to: 1970 },
+  { name: 'Veterans Day', date: { type: 'fixed', month: 11, day: 11 }, observed: 'nearest-weekday', from: 1978 },
+  // The last Thursday of November until 1939, and the second to last until 1942
+  { name: 'Thanksgiving Day', date: { type: 'nth-weekday', month: 11, weekday: 4, n: -1 }, to: 1938 },
+  { name: 'Thanksgiving Day', date: { type: 'nth-weekday', month: 11, weekday: 4, n: -2 }, from: 1939, to: 1941 },
+  { name: 'Thanksgiving Day', date: { type: 'nth-weekday', month: 11, weekday: 4, n: 4 }, from: 1942 },
+  { name: 'Christmas Day', date: { type: 'fixed', month: 12, day: 25 }, observed: 'nearest-weekday' },
+  // Federal offices closed by executive order for presidential funerals
+  { name: 'National Day of Mourning for Harry S. Truman', date: { type: 'once', year: 1972, month: 12, day: 28 } },
+  { name: 'National Day of Mourning for Lyndon B. Johnson', date: { type: 'once', year: 1973, month: 1, day: 25 } },
+  { name: 'National Day of Mourning for Richard Nixon', date: { type: 'once', year: 1994, month: 4, day: 27 } },
+  { name: 'National Day of Mourning for Ronald Reagan', date: { type: 'once', year: 2004, month: 6, day: 11 } },
+  { name: 'National Day of Mourning for Gerald Ford', date: { type: 'once', year: 2007, month: 1, day: 2 } },
+  { name: 'National Day of Mourning for George H. W. Bush', date: { type: 'once', year: 2018, month: 12, day: 5 } },
+  { name: 'National Day of Mourning for Jimmy Carter', date: { type: 'once', year: 2025, month: 1, day: 9 } }
+];
+
+export function getUnitedStatesHolidays(year: number): Holiday[] {
+  return getHolidays(year, 'US');
 }
 
 // ============================================================================
 // JAPAN HOLIDAYS
 // ============================================================================
 
-export function getJapanHolidays(year: number): Holiday[] {
-  const holidays: Holiday[] = [];
+/**
+ * Day of the March or September equinox in Japan, by the National Astronomical Observatory's
+ * approximation for 1900-2150
+ */
+function getJapanEquinoxDay(year: number, equinox: 'vernal' | 'autumnal'): Date {
+  const [constant, base] = year < 1980
+    ? [equinox === 'vernal' ? 20.8357 : 23.2588, 1983]
+    : year < 2100
+      ? [equinox === 'vernal' ? 20.8431 : 23.2488, 1980]
+      : [equinox === 'vernal' ? 21.851 : 24.2488, 1980];
+  const day = Math.floor(constant + 0.242194 * (year - 1980) - Math.trunc((year - base) / 4));
+  return new Date(year, equinox === 'vernal' ? 2 : 8, day);
+}
 
-  holidays.push({ name: "New Year's Day", date: new Date(year, 0, 1), countryCode: 'JP', type: 'public' });
-  holidays.push({ name: 'Coming of Age Day', date: getNthWeekdayOfMonth(year, 0, 1, 2), countryCode: 'JP', type: 'public' });
-  holidays.push({ name: 'National Foundation Day', date: new Date(year, 1, 11), countryCode: 'JP', type: 'public' });
-  holidays.push({ name: "Emperor's Birthday", date: new Date(year, 1, 23), countryCode: 'JP', type: 'public' });
-  holidays.push({ name: 'Vernal Equinox Day', date: new Date(year, 2, 20), countryCode: 'JP', type: 'public' });
-  holidays.push({ name: 'Showa Day', date: new Date(year, 3, 29), countryCode: 'JP', type: 'public' });
-  holidays.push({ name: 'Constitution Memorial Day', date: new Date(year, 4, 3), countryCode: 'JP', type: 'public' });
-  holidays.push({ name: 'Greenery Day', date: new Date(year, 4, 4), countryCode: 'JP', type: 'public' });
-  holidays.push({ name: "Children's Day", date: new Date(year, 4, 5), countryCode: 'JP', type: 'public' });
-  holidays.push({ name: 'Marine Day', date: getNthWeekdayOfMonth(year, 6, 1, 3), countryCode: 'JP', type: 'public' });
-  holidays.push({ name: 'Mountain Day', date: new Date(year, 7, 11), countryCode: 'JP', type: 'public' });
-  holidays.push({ name: 'Respect for the Aged Day', date: getNthWeekdayOfMonth(year, 8, 1, 3), countryCode: 'JP', type: 'public' });
-  holidays.push({ name: 'Autumnal Equinox Day', date: new Date(year, 8, 23), countryCode: 'JP', type: 'public' });
-  holidays.push({ name: 'Sports Day', date: getNthWeekdayOfMonth(year, 9, 1, 2), countryCode: 'JP', type: 'public' });
-  holidays.push({ name: 'Culture Day', date: new Date(year, 10, 3), countryCode: 'JP', type: 'public' });
-  holidays.push({ name: 'Labour Thanksgiving Day', date: new Date(year, 10, 23), countryCode: 'JP', type: 'public' });
+// Holidays moved for the Tokyo Olympics in 2020 and 2021 use one-off dates.
+// Substitute holidays began in April 1973, so that year's two are listed on their own
+const JAPAN_HOLIDAYS: HolidayRule[] = [
+  ...observedFrom([
+    { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 } },
+    { name: 'Coming of Age Day', date: { type: 'fixed', month: 1, day: 15 }, to: 1999 },
+    { name: 'Coming of Age Day', date: { type: 'nth-weekday', month: 1, weekday: 1, n: 2 }, from: 2000 },
+    { name: 'National Foundation Day', date: { type: 'fixed', month: 2, day: 11 }, from: 1967 },
+    { name: "Emperor's Birthday", date: { type: 'fixed', month: 2, day: 23 }, from: 2020 },
+    { name: 'Funeral of Emperor Showa', date: { type: 'once', year: 1989, month: 2, day: 24 } },
+    { name: 'Vernal Equinox Day', date: { type: 'custom', dates: year => [getJapanEquinoxDay(year, 'vernal')] } },
+    { name: 'Wedding of Crown Prince Akihito', date: { type: 'once', year: 1959, month: 4, day: 10 } },
+    { name: "Emperor's Birthday", date: { type: 'fixed', month: 4, day: 29 }, to: 1988 },
+    { name: 'Greenery Day', date: { type: 'fixed', month: 4, day: 29 }, from: 1989, to: 2006 },
+    { name: 'Showa Day', date: { type: 'fixed', month: 4, day: 29 }, from: 2007 },
+    { name: 'Enthronement of Emperor Naruhito', date: { type: 'once', year: 2019, month: 5, day: 1 } },
+    { name: 'Constitution Memorial Day', date: { type: 'fixed', month: 5, day: 3 } },
+    { name: 'Greenery Day', date: { type: 'fixed', month: 5, day: 4 }, from: 2007 },
+    { name: "Children's Day", date: { type: 'fixed', month: 5, day: 5 } },
+    { name: 'Wedding of Crown Prince Naruhito', date: { type: 'once', year: 1993, month: 6, day: 9 } },
+    { name: 'Marine Day', date: { type: 'fixed', month: 7, day: 20 }, from: 1996, to: 2002 },
+    { name: 'Marine Day', date: { type: 'nth-weekday', month: 7, weekday: 1, n: 3 }, from: 2003, excludedYears: [2020, 2021] },
+    { name: 'Marine Day', date: { type: 'once', year: 2020, month: 7, day: 23 } },
+    { name: 'Marine Day', date: { type: 'once', year: 2021, month: 7, day: 22 } },
+    { name: 'Mountain Day', date: { type: 'fixed', month: 8, day: 11 }, from: 2016, excludedYears: [2020, 2021] },
+    { name: 'Mountain Day', date: { type: 'once', year: 2020, month: 8, day: 10 } },
+    { name: 'Mountain Day', date: { type: 'once', year: 2021, month: 8, day: 8 } },
+    { name: 'Respect for the Aged Day', date: { type: 'fixed', month: 9, day: 15 }, from: 1966, to: 2002 },
+    { name: 'Respect for the Aged Day', date: { type: 'nth-weekday', month: 9, weekday: 1, n: 3 }, from: 2003 },
+    { name: 'Autumnal Equinox Day', date: { type: 'custom', dates: year => [getJapanEquinoxDay(year, 'autumnal')] } },
+    { name: 'Health and Sports Day', date: { type: 'fixed', month: 10, day: 10 }, from: 1966, to: 1999 },
+    { name: 'Health and Sports Day', date: { type: 'nth-weekday', month: 10, weekday: 1, n: 2 }, from: 2000, to: 2019 },
+    { name: 'Sports Day', date: { type: 'nth-weekday', month: 10, weekday: 1, n: 2 }, from: 2022 },
+    { name: 'Sports Day', date: { type: 'once', year: 2020, month: 7, day: 24 } },
+    { name: 'Sports Day', date: { type: 'once', year: 2021, month: 7, day: 23 } },
+    { name: 'Enthronement Ceremony', date: { type: 'once', year: 1990, month: 11, day: 12 } },
+    { name: 'Enthronement Ceremony', date: { type: 'once', year: 2019, month: 10, day: 22 } },
+    { name: 'Culture Day', date: { type: 'fixed', month: 11, day: 3 } },
+    { name: 'Labour Thanksgiving Day', date: { type: 'fixed', month: 11, day: 23 } },
+    { name: "Emperor's Birthday", date: { type: 'fixed', month: 12, day: 23 }, from: 1989, to: 2018 }
+  ], 'sunday-substitute', 1974),
+  { name: 'Substitute Holiday', date: { type: 'once', year: 1973, month: 4, day: 30 } },
+  { name: 'Substitute Holiday', date: { type: 'once', year: 1973, month: 9, day: 24 } },
+  // From 1986 a day between two holidays is a holiday too, such as May 4 until it became Greenery Day
+  { name: 'National Holiday', date: { type: 'between-holidays' }, from: 1986 }
+];
 
-  return holidays;
+export function getJapanHolidays(year: number): Holiday[] {
+  return getHolidays(year, 'JP');
 }
 
 // ============================================================================
 // FRANCE HOLIDAYS
 // ============================================================================
 
-export function getFranceHolidays(year: number): Holiday[] {
-  const holidays: Holiday[] = [];
-  const easter = getEasterSunday(year);
-
-  holidays.push({ name: "New Year's Day", date: new Date(year, 0, 1), countryCode: 'FR', type: 'public' });
-  holidays.push({ name: 'Easter Monday', date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 1), countryCode: 'FR', type: 'public' });
-  holidays.push({ name: 'Labour Day', date: new Date(year, 4, 1), countryCode: 'FR', type: 'public' });
-  holidays.push({ name: 'Victory in Europe Day', date: new Date(year, 4, 8), countryCode: 'FR', type: 'public' });
-  holidays.push({ name: 'Ascension Day', date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 39), countryCode: 'FR', type: 'public' });
-  holidays.push({ name: 'Whit Monday', date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 50), countryCode: 'FR', type: 'public' });
-  holidays.push({ name: 'Bastille Day', date: new Date(year, 6, 14), countryCode: 'FR', type: 'public' });
-  holidays.push({ name: 'Assumption of Mary', date: new Date(year, 7, 15), countryCode: 'FR', type: 'public' });
-  holidays.push({ name: "All Saints' Day", date: new Date(year, 10, 1), countryCode: 'FR', type: 'public' });
-  holidays.push({ name: 'Armistice Day', date: new Date(year, 10, 11), countryCode: 'FR', type: 'public' });
-  holidays.push({ name: 'Christmas Day', date: new Date(year, 11, 25), countryCode: 'FR', type: 'public' });
+const FRANCE_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 } },
+  { name: 'Easter Monday', date: { type: 'easter', offset: 1 } },
+  { name: 'Labour Day', date: { type: 'fixed', month: 5, day: 1 } },
+  // Not a holiday from 1960 until 1982
+  { name: 'Victory in Europe Day', date: { type: 'fixed', month: 5, day: 8 }, from: 1953, to: 1959 },
+  { name: 'Victory in Europe Day', date: { type: 'fixed', month: 5, day: 8 }, from: 1982 },
+  { name: 'Ascension Day', date: { type: 'easter', offset: 39 } },
+  { name: 'Whit Monday', date: { type: 'easter', offset: 50 } },
+  { name: 'Bastille Day', date: { type: 'fixed', month: 7, day: 14 } },
+  { name: 'Assumption of Mary', date: { type: 'fixed', month: 8, day: 15 } },
+  { name: "All Saints' Day", date: { type: 'fixed', month: 11, day: 1 } },
+  { name: 'Armistice Day', date: { type: 'fixed', month: 11, day: 11 } },
+  { name: 'Christmas Day', date: { type: 'fixed', month: 12, day: 25 } }
+];
 
-  return holidays;
+export function getFranceHolidays(year: number): Holiday[] {
+  return getHolidays(year, 'FR');
 }
 
 // ============================================================================
 // BRAZIL HOLIDAYS
 // ============================================================================
 
-export function getBrazilHolidays(year: number): Holiday[] {
-  const holidays: Holiday[] = [];
-  const easter = getEasterSunday(year);
-
-  holidays.push({ name: "New Year's Day", date: new Date(year, 0, 1), countryCode: 'BR', type: 'public' });
-  holidays.push({ name: 'Carnival', date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() - 47), countryCode: 'BR', type: 'public' });
-  holidays.push({ name: 'Good Friday', date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() - 2), countryCode: 'BR', type: 'public' });
-  holidays.push({ name: 'Tiradentes Day', date: new Date(year, 3, 21), countryCode: 'BR', type: 'public' });
-  holidays.push({ name: 'Labour Day', date: new Date(year, 4, 1), countryCode: 'BR', type: 'public' });
-  holidays.push({ name: 'Corpus Christi', date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 60), countryCode: 'BR', type: 'public' });
-  holidays.push({ name: 'Independence Day', date: new Date(year, 8, 7), countryCode: 'BR', type: 'public' });
-  holidays.push({ name: 'Our Lady of Aparecida', date: new Date(year, 9, 12), countryCode: 'BR', type: 'public' });
-  holidays.push({ name: "All Souls' Day", date: new Date(year, 10, 2), countryCode: 'BR', type: 'public' });
-  holidays.push({ name: 'Republic Proclamation Day', date: new Date(year, 10, 15), countryCode: 'BR', type: 'public' });
-  holidays.push({ name: 'Christmas Day', date: new Date(year, 11, 25), countryCode: 'BR', type: 'public' });
+const BRAZIL_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 } },
+  { name: 'Carnival', date: { type: 'easter', offset: -47 } },
+  { name: 'Good Friday', date: { type: 'easter', offset: -2 } },
+  { name: 'Tiradentes Day', date: { type: 'fixed', month: 4, day: 21 } },
+  { name: 'Labour Day', date: { type: 'fixed', month: 5, day: 1 } },
+  { name: 'Corpus Christi', date: { type: 'easter', offset: 60 } },
+  { name: 'Independence Day', date: { type: 'fixed', month: 9, day: 7 } },
+  { name: 'Our Lady of Aparecida', date: { type: 'fixed', month: 10, day: 12 } },
+  { name: "All Souls' Day", date: { type: 'fixed', month: 11, day: 2 } },
+  { name: 'Republic Proclamation Day', date: { type: 'fixed', month: 11, day: 15 } },
+  { name: 'Black Consciousness Day', date: { type: 'fixed', month: 11, day: 20 }, from: 2024 },
+  { name: 'Christmas Day', date: { type: 'fixed', month: 12, day: 25 } }
+];
 
-  return holidays;
+export function getBrazilHolidays(year: number): Holiday[] {
+  return getHolidays(year, 'BR');
 }
 
 // ============================================================================
 // MEXICO HOLIDAYS
 // ============================================================================
 
-export function getMexicoHolidays(year: number): Holiday[] {
-  const holidays: Holiday[] = [];
-
-  holidays.push({ name: "New Year's Day", date: new Date(year, 0, 1), countryCode: 'MX', type: 'public' });
-  holidays.push({ name: 'Constitution Day', date: getNthWeekdayOfMonth(year, 1, 1, 1), countryCode: 'MX', type: 'public' });
-  holidays.push({ name: 'Benito Juárez Birthday', date: getNthWeekdayOfMonth(year, 2, 1, 3), countryCode: 'MX', type: 'public' });
-  holidays.push({ name: 'Labour Day', date: new Date(year, 4, 1), countryCode: 'MX', type: 'public' });
-  holidays.push({ name: 'Independence Day', date: new Date(year, 8, 16), countryCode: 'MX', type: 'public' });
-  holidays.push({ name: 'Revolution Day', date: getNthWeekdayOfMonth(year, 10, 1, 3), countryCode: 'MX', type: 'public' });
-  holidays.push({ name: 'Christmas Day', date: new Date(year, 11, 25), countryCode: 'MX', type: 'public' });
+// Constitution Day, Benito Juárez's Birthday and Revolution Day moved to Mondays in 2006
+const MEXICO_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 } },
+  { name: 'Constitution Day', date: { type: 'fixed', month: 2, day: 5 }, to: 2005 },
+  { name: 'Constitution Day', date: { type: 'nth-weekday', month: 2, weekday: 1, n: 1 }, from: 2006 },
+  { name: 'Benito Juárez Birthday', date: { type: 'fixed', month: 3, day: 21 }, to: 2005 },
+  { name: 'Benito Juárez Birthday', date: { type: 'nth-weekday', month: 3, weekday: 1, n: 3 }, from: 2006 },
+  { name: 'Labour Day', date: { type: 'fixed', month: 5, day: 1 } },
+  { name: 'Independence Day', date: { type: 'fixed', month: 9, day: 16 } },
+  { name: 'Revolution Day', date: { type: 'fixed', month: 11, day: 20 }, to: 2005 },
+  { name: 'Revolution Day', date: { type: 'nth-weekday', month: 11, weekday: 1, n: 3 }, from: 2006 },
+  // Presidential inaugurations every six years, on 1 December until 2018 and on 1 October since 2024
+  {
+    name: 'Transmission of Federal Executive Power',
+    date: { type: 'custom', dates: year => (year % 6 === 2 ? [new Date(year, year >= 2024 ? 9 : 11, 1)] : []) },
+    from: 1934
+  },
+  { name: 'Christmas Day', date: { type: 'fixed', month: 12, day: 25 } }
+];
 
-  return holidays;
+export function getMexicoHolidays(year: number): Holiday[] {
+  return getHolidays(year, 'MX');
 }
 
 // ============================================================================
 // SOUTH KOREA HOLIDAYS
 // ============================================================================
 
-export function getSouthKoreaHolidays(year: number): Holiday[] {
-  const holidays: Holiday[] = [];
-
-  holidays.push({ name: "New Year's Day", date: new Date(year, 0, 1), countryCode: 'KR', type: 'public' });
-  holidays.push({ name: 'Independence Movement Day', date: new Date(year, 2, 1), countryCode: 'KR', type: 'public' });
-  holidays.push({ name: "Children's Day", date: new Date(year, 4, 5), countryCode: 'KR', type: 'public' });
-  holidays.push({ name: 'Memorial Day', date: new Date(year, 5, 6), countryCode: 'KR', type: 'public' });
-  holidays.push({ name: 'Liberation Day', date: new Date(year, 7, 15), countryCode: 'KR', type: 'public' });
-  holidays.push({ name: 'National Foundation Day', date: new Date(year, 9, 3), countryCode: 'KR', type: 'public' });
-  holidays.push({ name: 'Hangul Day', date: new Date(year, 9, 9), countryCode: 'KR', type: 'public' });
-  holidays.push({ name: 'Christmas Day', date: new Date(year, 11, 25), countryCode: 'KR', type: 'public' });
-  // Note: Lunar New Year and Chuseok are lunar-based
+// Lunar holidays follow the Korean calendar, which can differ from China's by a day.
+// Substitute holidays for days on a weekend or another holiday began in 2014 for Seollal,
+// Chuseok (Sundays and other holidays only) and Children's Day,
+// and were extended to the national days in 2021 and to Buddha's Birthday and Christmas in 2023
+const SOUTH_KOREA_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 } },
+  ...observedFrom([
+    { name: 'Seollal', date: { type: 'lunar', month: 1, day: 1, calendar: 'KR', offset: -1 } },
+    { name: 'Seollal', date: { type: 'lunar', month: 1, day: 1, calendar: 'KR' } },
+    { name: 'Seollal', date: { type: 'lunar', month: 1, day: 2, calendar: 'KR' } }
+  ], 'sunday-substitute', 2014),
+  ...observedFrom([{ name: 'Independence Movement Day', date: { type: 'fixed', month: 3, day: 1 } }], 'substitute', 2021),
+  ...observedFrom([{ name: "Children's Day", date: { type: 'fixed', month: 5, day: 5 } }], 'substitute', 2014),
+  ...observedFrom([{ name: "Buddha's Birthday", date: { type: 'lunar', month: 4, day: 8, calendar: 'KR' } }], 'substitute', 2023),
+  { name: 'Memorial Day', date: { type: 'fixed', month: 6, day: 6 } },
+  ...observedFrom([{ name: 'Liberation Day', date: { type: 'fixed', month: 8, day: 15 } }], 'substitute', 2021),
+  ...observedFrom([
+    { name: 'Chuseok', date: { type: 'lunar', month: 8, day: 14, calendar: 'KR' } },
+    { name: 'Chuseok', date: { type: 'lunar', month: 8, day: 15, calendar: 'KR' } },
+    { name: 'Chuseok', date: { type: 'lunar', month: 8, day: 16, calendar: 'KR' } }
+  ], 'sunday-substitute', 2014),
+  ...observedFrom([
+    { name: 'National Foundation Day', date: { type: 'fixed', month: 10, day: 3 } },
+    // Hangul Day was not a holiday from 1991 to 2012
+    { name: 'Hangul Day', date: { type: 'fixed', month: 10, day: 9 }, from: 1949, to: 1990 },
+    { name: 'Hangul Day', date: { type: 'fixed', month: 10, day: 9 }, from: 2013 }
+  ], 'substitute', 2021),
+  ...observedFrom([{ name: 'Christmas Day', date: { type: 'fixed', month: 12, day: 25 } }], 'substitute', 2023)
+];
 
-  return holidays;
+export function getSouthKoreaHolidays(year: number): Holiday[] {
+  return getHolidays(year, 'KR');
 }
 
 // ============================================================================
 // SINGAPORE HOLIDAYS
 // ============================================================================
 
-export function getSingaporeHolidays(year: number): Holiday[] {
-  const holidays: Holiday[] = [];
-  const easter = getEasterSunday(year);
-
-  holidays.push({ name: "New Year's Day", date: new Date(year, 0, 1), countryCode: 'SG', type: 'public' });
-  holidays.push({ name: 'Good Friday', date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() - 2), countryCode: 'SG', type: 'public' });
-  holidays.push({ name: 'Labour Day', date: new Date(year, 4, 1), countryCode: 'SG', type: 'public' });
-  holidays.push({ name: 'National Day', date: new Date(year, 7, 9), countryCode: 'SG', type: 'public' });
-  holidays.push({ name: 'Christmas Day', date: new Date(year, 11, 25), countryCode: 'SG', type: 'public' });
-  // Note: Chinese New Year, Vesak Day, Hari Raya, Deepavali are lunar-based
+// Holidays on a Sunday move to the next weekday that is not a holiday
+const SINGAPORE_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 }, observed: 'sunday-substitute' },
+  { name: 'Chinese New Year', date: { type: 'lunar', month: 1, day: 1 }, observed: 'sunday-substitute' },
+  { name: 'Chinese New Year', date: { type: 'lunar', month: 1, day: 2 }, observed: 'sunday-substitute' },
+  { name: 'Good Friday', date: { type: 'easter', offset: -2 }, observed: 'sunday-substitute' },
+  { name: 'Hari Raya Puasa', date: { type: 'islamic', month: 10, day: 1 }, religion: 'islamic', observed: 'sunday-substitute' },
+  { name: 'Labour Day', date: { type: 'fixed', month: 5, day: 1 }, observed: 'sunday-substitute' },
+  // Vesak Day (15th day of the 4th lunar month)
+  { name: 'Vesak Day', date: { type: 'lunar', month: 4, day: 15 }, religion: 'buddhist', observed: 'sunday-substitute' },
+  { name: 'Hari Raya Haji', date: { type: 'islamic', month: 12, day: 10 }, religion: 'islamic', observed: 'sunday-substitute' },
+  { name: 'National Day', date: { type: 'fixed', month: 8, day: 9 }, observed: 'sunday-substitute' },
+  { name: 'Deepavali', date: { type: 'hindu', festival: 'diwali' }, religion: 'hindu', observed: 'sunday-substitute' },
+  { name: 'Christmas Day', date: { type: 'fixed', month: 12, day: 25 }, observed: 'sunday-substitute' }
+];
 
-  return holidays;
+export function getSingaporeHolidays(year: number): Holiday[] {
+  return getHolidays(year, 'SG');
 }
 
 // ============================================================================
 // POLAND HOLIDAYS
 // ============================================================================
 
-export function getPolandHolidays(year: number): Holiday[] {
-  const holidays: Holiday[] = [];
-  const easter = getEasterSunday(year);
-
-  holidays.push({ name: "New Year's Day", date: new Date(year, 0, 1), countryCode: 'PL', type: 'public' });
-  holidays.push({ name: 'Epiphany', date: new Date(year, 0, 6), countryCode: 'PL', type: 'public' });
-  holidays.push({ name: 'Easter Sunday', date: easter, countryCode: 'PL', type: 'public' });
-  holidays.push({ name: 'Easter Monday', date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 1), countryCode: 'PL', type: 'public' });
-  holidays.push({ name: 'Labour Day', date: new Date(year, 4, 1), countryCode: 'PL', type: 'public' });
-  holidays.push({ name: 'Constitution Day', date: new Date(year, 4, 3), countryCode: 'PL', type: 'public' });
-  holidays.push({ name: 'Whit Sunday', date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 49), countryCode: 'PL', type: 'public' });
-  holidays.push({ name: 'Corpus Christi', date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 60), countryCode: 'PL', type: 'public' });
-  holidays.push({ name: 'Assumption of Mary', date: new Date(year, 7, 15), countryCode: 'PL', type: 'public' });
-  holidays.push({ name: "All Saints' Day", date: new Date(year, 10, 1), countryCode: 'PL', type: 'public' });
-  holidays.push({ name: 'Independence Day', date: new Date(year, 10, 11), countryCode: 'PL', type: 'public' });
-  holidays.push({ name: 'Christmas Day', date: new Date(year, 11, 25), countryCode: 'PL', type: 'public' });
-  holidays.push({ name: 'Second Day of Christmas', date: new Date(year, 11, 26), countryCode: 'PL', type: 'public' });
+const POLAND_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 } },
+  { name: 'Epiphany', date: { type: 'fixed', month: 1, day: 6 }, from: 2011 },
+  { name: 'Easter Sunday', date: { type: 'easter' } },
+  { name: 'Easter Monday', date: { type: 'easter', offset: 1 } },
+  { name: 'Labour Day', date: { type: 'fixed', month: 5, day: 1 } },
+  { name: 'Constitution Day', date: { type: 'fixed', month: 5, day: 3 }, from: 1990 },
+  { name: 'Whit Sunday', date: { type: 'easter', offset: 49 } },
+  { name: 'Corpus Christi', date: { type: 'easter', offset: 60 } },
+  { name: 'Assumption of Mary', date: { type: 'fixed', month: 8, day: 15 } },
+  { name: "All Saints' Day", date: { type: 'fixed', month: 11, day: 1 } },
+  { name: 'Independence Day', date: { type: 'fixed', month: 11, day: 11 }, from: 1989 },
+  { name: 'Christmas Day', date: { type: 'fixed', month: 12, day: 25 } },
+  { name: 'Second Day of Christmas', date: { type: 'fixed', month: 12, day: 26 } }
+];
 
-  return holidays;
+export function getPolandHolidays(year: number): Holiday[] {
+  return getHolidays(year, 'PL');
 }
 
 // ============================================================================
 // SWEDEN HOLIDAYS
 // ============================================================================
 
-export function getSwedenHolidays(year: number): Holiday[] {
-  const holidays: Holiday[] = [];
-  const easter = getEasterSunday(year);
-
-  holidays.push({ name: "New Year's Day", date: new Date(year, 0, 1), countryCode: 'SE', type: 'public' });
-  holidays.push({ name: 'Epiphany', date: new Date(year, 0, 6), countryCode: 'SE', type: 'public' });
-  holidays.push({ name: 'Good Friday', date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() - 2), countryCode: 'SE', type: 'public' });
-  holidays.push({ name: 'Easter Sunday', date: easter, countryCode: 'SE', type: 'public' });
-  holidays.push({ name: 'Easter Monday', date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 1), countryCode: 'SE', type: 'public' });
-  holidays.push({ name: 'Labour Day', date: new Date(year, 4, 1), countryCode: 'SE', type: 'public' });
-  holidays.push({ name: 'Ascension Day', date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 39), countryCode: 'SE', type: 'public' });
-  holidays.push({ name: 'National Day', date: new Date(year, 5, 6), countryCode: 'SE', type: 'public' });
-  holidays.push({ name: 'Midsummer Eve', date: getFridayBefore(year, 5, 26), countryCode: 'SE', type: 'public' });
-  holidays.push({ name: "All Saints' Day", date: getSaturdayBetween(year, 10, 31, 11, 6), countryCode: 'SE', type: 'public' });
-  holidays.push({ name: 'Christmas Eve', date: new Date(year, 11, 24), countryCode: 'SE', type: 'public' });
-  holidays.push({ name: 'Christmas Day', date: new Date(year, 11, 25), countryCode: 'SE', type: 'public' });
-  holidays.push({ name: 'Second Day of Christmas', date: new Date(year, 11, 26), countryCode: 'SE', type: 'public' });
+const SWEDEN_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 } },
+  { name: 'Epiphany', date: { type: 'fixed', month: 1, day: 6 } },
+  { name: 'Good Friday', date: { type: 'easter', offset: -2 } },
+  { name: 'Easter Sunday', date: { type: 'easter' } },
+  { name: 'Easter Monday', date: { type: 'easter', offset: 1 } },
+  { name: 'Labour Day', date: { type: 'fixed', month: 5, day: 1 } },
+  { name: 'Ascension Day', date: { type: 'easter', offset: 39 } },
+  // National Day replaced Whit Monday as a holiday in 2005
+  { name: 'Whit Monday', date: { type: 'easter', offset: 50 }, to: 2004 },
+  { name: 'National Day', date: { type: 'fixed', month: 6, day: 6 }, from: 2005 },
+  // Midsummer Eve is the Friday between 19 and 25 June
+  { name: 'Midsummer Eve', date: { type: 'weekday-on-or-after', month: 6, day: 19, weekday: 5 } },
+  // All Saints' Day is the Saturday between 31 October and 6 November
+  { name: "All Saints' Day", date: { type: 'weekday-on-or-after', month: 10, day: 31, weekday: 6 } },
+  { name: 'Christmas Eve', date: { type: 'fixed', month: 12, day: 24 } },
+  { name: 'Christmas Day', date: { type: 'fixed', month: 12, day: 25 } },
+  { name: 'Second Day of Christmas', date: { type: 'fixed', month: 12, day: 26 } }
+];
 
-  return holidays;
+export function getSwedenHolidays(year: number): Holiday[] {
+  return getHolidays(year, 'SE');
 }
 
-// Helper for Swedish Midsummer
-function getFridayBefore(year: number, month: number, maxDay: number): Date {
-  for (let d = maxDay; d >= maxDay - 6; d--) {
-    const date = new Date(year, month, d);
-    if (date.getDay() === 5) return date;
-  }
-  return new Date(year, month, maxDay);
-}
+// ============================================================================
+// BELGIUM HOLIDAYS
+// ============================================================================
 
-// Helper for Swedish All Saints
-function getSaturdayBetween(year: number, startMonth: number, startDay: number, endMonth: number, endDay: number): Date {
-  const start = new Date(year, startMonth, startDay);
-  const end = new Date(year, endMonth, endDay);
-  for (let d = new Date(start); d <= end; d.setDate(d.getDate() + 1)) {
-    if (d.getDay() === 6) return new Date(d);
-  }
-  return start;
+const BELGIUM_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 } },
+  { name: 'Easter Monday', date: { type: 'easter', offset: 1 } },
+  { name: 'Labour Day', date: { type: 'fixed', month: 5, day: 1 } },
+  { name: 'Ascension Day', date: { type: 'easter', offset: 39 } },
+  { name: 'Whit Monday', date: { type: 'easter', offset: 50 } },
+  { name: 'Belgian National Day', date: { type: 'fixed', month: 7, day: 21 } },
+  { name: 'Assumption of Mary', date: { type: 'fixed', month: 8, day: 15 } },
+  { name: "All Saints' Day", date: { type: 'fixed', month: 11, day: 1 } },
+  { name: 'Armistice Day', date: { type: 'fixed', month: 11, day: 11 } },
+  { name: 'Christmas Day', date: { type: 'fixed', month: 12, day: 25 } }
+];
+
+export function getBelgiumHolidays(year: number): Holiday[] {
+  return getHolidays(year, 'BE');
 }
 
 // ============================================================================
-// BELGIUM HOLIDAYS
+// SWITZERLAND HOLIDAYS (cantons add their own)
 // ============================================================================
 
-export function getBelgiumHolidays(year: number): Holiday[] {
-  const holidays: Holiday[] = [];
-  const easter = getEasterSunday(year);
-
-  holidays.push({ name: "New Year's Day", date: new Date(year, 0, 1), countryCode: 'BE', type: 'public' });
-  holidays.push({ name: 'Easter Monday', date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 1), countryCode: 'BE', type: 'public' });
-  holidays.push({ name: 'Labour Day', date: new Date(year, 4, 1), countryCode: 'BE', type: 'public' });
-  holidays.push({ name: 'Ascension Day', date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 39), countryCode: 'BE', type: 'public' });
-  holidays.push({ name: 'Whit Monday', date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 50), countryCode: 'BE', type: 'public' });
-  holidays.push({ name: 'Belgian National Day', date: new Date(year, 6, 21), countryCode: 'BE', type: 'public' });
-  holidays.push({ name: 'Assumption of Mary', date: new Date(year, 7, 15), countryCode: 'BE', type: 'public' });
-  holidays.push({ name: "All Saints' Day", date: new Date(year, 10, 1), countryCode: 'BE', type: 'public' });
-  holidays.push({ name: 'Armistice Day', date: new Date(year, 10, 11), countryCode: 'BE', type: 'public' });
-  holidays.push({ name: 'Christmas Day', date: new Date(year, 11, 25), countryCode: 'BE', type: 'public' });
+const SWISS_CATHOLIC_CANTONS = ['CH-AI', 'CH-FR', 'CH-LU', 'CH-NW', 'CH-OW', 'CH-SZ', 'CH-TI', 'CH-UR', 'CH-VS', 'CH-ZG'];
+
+const SWITZERLAND_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 } },
+  {
+    name: "Berchtold's Day",
+    date: { type: 'fixed', month: 1, day: 2 },
+    subdivisions: ['CH-AG', 'CH-BE', 'CH-FR', 'CH-GL', 'CH-JU', 'CH-LU', 'CH-OW', 'CH-SH', 'CH-SO', 'CH-TG', 'CH-VD', 'CH-ZG', 'CH-ZH']
+  },
+  { name: "Saint Joseph's Day", date: { type: 'fixed', month: 3, day: 19 }, subdivisions: ['CH-NW', 'CH-SZ', 'CH-TI', 'CH-UR', 'CH-VS'] },
+  { name: 'Näfels Procession', date: { type: 'nth-weekday', month: 4, weekday: 4, n: 1 }, subdivisions: ['CH-GL'] },
+  { name: 'Good Friday', date: { type: 'easter', offset: -2 }, excludedSubdivisions: ['CH-TI', 'CH-VS'] },
+  { name: 'Easter Monday', date: { type: 'easter', offset: 1 }, excludedSubdivisions: ['CH-VS'] },
+  { name: 'Labour Day', date: { type: 'fixed', month: 5, day: 1 }, subdivisions: ['CH-BL', 'CH-BS', 'CH-JU', 'CH-NE', 'CH-SH', 'CH-TI', 'CH-ZH'] },
+  { name: 'Ascension Day', date: { type: 'easter', offset: 39 } },
+  { name: 'Whit Monday', date: { type: 'easter', offset: 50 }, excludedSubdivisions: ['CH-VS'] },
+  { name: 'Corpus Christi', date: { type: 'easter', offset: 60 }, subdivisions: ['CH-AG', 'CH-JU', 'CH-SO', ...SWISS_CATHOLIC_CANTONS].sort() },
+  { name: 'Jura Independence Day', date: { type: 'fixed', month: 6, day: 23 }, subdivisions: ['CH-JU'] },
+  { name: 'Saints Peter and Paul', date: { type: 'fixed', month: 6, day: 29 }, subdivisions: ['CH-TI'] },
+  { name: 'Swiss National Day', date: { type: 'fixed', month: 8, day: 1 }, from: 1994 },
+  { name: 'Assumption of Mary', date: { type: 'fixed', month: 8, day: 15 }, subdivisions: ['CH-AG', 'CH-JU', 'CH-SO', ...SWISS_CATHOLIC_CANTONS].sort() },
+  // Geneva fasts on the Thursday after the first Sunday of September, Vaud on the Monday after the third
+  { name: 'Geneva Fast', date: { type: 'nth-weekday', month: 9, weekday: 0, n: 1, offset: 4 }, subdivisions: ['CH-GE'] },
+  { name: 'Federal Fast Monday', date: { type: 'nth-weekday', month: 9, weekday: 0, n: 3, offset: 1 }, subdivisions: ['CH-VD'] },
+  { name: "All Saints' Day", date: { type: 'fixed', month: 11, day: 1 }, subdivisions: ['CH-AG', 'CH-GL', 'CH-JU', 'CH-SG', 'CH-SO', ...SWISS_CATHOLIC_CANTONS].sort() },
+  { name: 'Immaculate Conception', date: { type: 'fixed', month: 12, day: 8 }, subdivisions: SWISS_CATHOLIC_CANTONS },
+  { name: 'Christmas Day', date: { type: 'fixed', month: 12, day: 25 } },
+  {
+    name: "St Stephen's Day",
+    date: { type: 'fixed', month: 12, day: 26 },
+    subdivisions: ['CH-AG', 'CH-AI', 'CH-AR', 'CH-BE', 'CH-BL', 'CH-BS', 'CH-FR', 'CH-GL', 'CH-GR', 'CH-LU', 'CH-NW', 'CH-OW', 'CH-SG', 'CH-SH', 'CH-SO', 'CH-SZ', 'CH-TG', 'CH-TI', 'CH-UR', 'CH-ZG', 'CH-ZH']
+  },
+  { name: 'Restoration of the Republic', date: { type: 'fixed', month: 12, day: 31 }, subdivisions: ['CH-GE'] }
+];
 
-  return holidays;
+export function getSwitzerlandHolidays(year: number): Holiday[] {
+  return getHolidays(year, 'CH');
 }
 
 // ============================================================================
-// SWITZERLAND HOLIDAYS (Federal only - cantons have additional)
+// HOLIDAY CALENDAR REGISTRY
 // ============================================================================
 
-export function getSwitzerlandHolidays(year: number): Holiday[] {
-  const holidays: Holiday[] = [];
-  const easter = getEasterSunday(year);
+/**
+ * ISO 3166-2 subdivision codes of the built-in calendars, including ones without regional holidays
+ */
+const BUILT_IN_SUBDIVISIONS: Record<string, string[]> = {
+  UK: ['GB-ENG', 'GB-NIR', 'GB-SCT', 'GB-WLS'],
+  DE: ['DE-BB', 'DE-BE', 'DE-BW', 'DE-BY', 'DE-HB', 'DE-HE', 'DE-HH', 'DE-MV', 'DE-NI', 'DE-NW', 'DE-RP', 'DE-SH', 'DE-SL', 'DE-SN', 'DE-ST', 'DE-TH'],
+  CA: ['CA-AB', 'CA-BC', 'CA-MB', 'CA-NB', 'CA-NL', 'CA-NS', 'CA-NT', 'CA-NU', 'CA-ON', 'CA-PE', 'CA-QC', 'CA-SK', 'CA-YT'],
+  AU: ['AU-ACT', 'AU-NSW', 'AU-NT', 'AU-QLD', 'AU-SA', 'AU-TAS', 'AU-VIC', 'AU-WA'],
+  ES: ['ES-AN', 'ES-AR', 'ES-AS', 'ES-CB', 'ES-CE', 'ES-CL', 'ES-CM', 'ES-CN', 'ES-CT', 'ES-EX', 'ES-GA', 'ES-IB', 'ES-MC', 'ES-MD', 'ES-ML', 'ES-NC', 'ES-PV', 'ES-RI', 'ES-VC'],
+  CH: ['CH-AG', 'CH-AI', 'CH-AR', 'CH-BE', 'CH-BL', 'CH-BS', 'CH-FR', 'CH-GE', 'CH-GL', 'CH-GR', 'CH-JU', 'CH-LU', 'CH-NE', 'CH-NW', 'CH-OW', 'CH-SG', 'CH-SH', 'CH-SO', 'CH-SZ', 'CH-TG', 'CH-TI', 'CH-UR', 'CH-VD', 'CH-VS', 'CH-ZG', 'CH-ZH']
+};
+
+const BUILT_IN_CALENDARS: Record<string, HolidayRule[]> = {
+  UK: UK_HOLIDAYS,
+  NL: NETHERLANDS_HOLIDAYS,
+  DE: GERMANY_HOLIDAYS,
+  CA: CANADA_HOLIDAYS,
+  AU: AUSTRALIA_HOLIDAYS,
+  IT: ITALY_HOLIDAYS,
+  ES: SPAIN_HOLIDAYS,
+  CN: CHINA_HOLIDAYS,
+  IN: INDIA_HOLIDAYS,
+  US: UNITED_STATES_HOLIDAYS,
+  JP: JAPAN_HOLIDAYS,
+  FR: FRANCE_HOLIDAYS,
+  BR: BRAZIL_HOLIDAYS,
+  MX: MEXICO_HOLIDAYS,
+  KR: SOUTH_KOREA_HOLIDAYS,
+  SG: SINGAPORE_HOLIDAYS,
+  PL: POLAND_HOLIDAYS,
+  SE: SWEDEN_HOLIDAYS,
+  BE: BELGIUM_HOLIDAYS,
+  CH: SWITZERLAND_HOLIDAYS
+};
+
+function createHolidayCalendar(rules: HolidayRule[], subdivisions: string[] = []): HolidayCalendar {
+  const codes = new Set(subdivisions.map(code => code.toUpperCase()));
+  for (const rule of rules) {
+    for (const code of [...(rule.subdivisions ?? []), ...(rule.excludedSubdivisions ?? [])]) {
+      codes.add(code.toUpperCase());
+    }
+  }
+  return { rules: [...rules], subdivisions: [...codes].sort() };
+}
 
-  holidays.push({ name: "New Year's Day", date: new Date(year, 0, 1), countryCode: 'CH', type: 'public' });
-  holidays.push({ name: 'Good Friday', date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() - 2), countryCode: 'CH', type: 'public' });
-  holidays.push({ name: 'Easter Monday', date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 1), countryCode: 'CH', type: 'public' });
-  holidays.push({ name: 'Ascension Day', date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 39), countryCode: 'CH', type: 'public' });
-  holidays.push({ name: 'Whit Monday', date: new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + 50), countryCode: 'CH', type: 'public' });
-  holidays.push({ name: 'Swiss National Day', date: new Date(year, 7, 1), countryCode: 'CH', type: 'public' });
-  holidays.push({ name: 'Christmas Day', date: new Date(year, 11, 25), countryCode: 'CH', type: 'public' });
+// Global holiday calendar registry
+const holidayCalendars = new Map<string, HolidayCalendar>(
+  Object.entries(BUILT_IN_CALENDARS).map(([code, rules]) => [code, createHolidayCalendar(rules, BUILT_IN_SUBDIVISIONS[code])])
+);
 
-  return holidays;
+// Days off per calendar, subdivision and year, cleared when a calendar is registered
+const daysOffCache = new Map<string, Set<string>>();
+
+/**
+ * Register a holiday calendar, or replace a built-in one, for use with every holiday lookup
+ * @param code - Country or calendar code, such as 'IE' or a company calendar name
+ * @param rules - Holiday rules
+ * @param options - Subdivision codes to accept besides those named in the rules
+ * @example
+ * registerHolidayCalendar('IE', [
+ *   { name: "St Patrick's Day", date: { type: 'fixed', month: 3, day: 17 }, observed: 'next-monday' },
+ *   { name: 'June Bank Holiday', date: { type: 'nth-weekday', month: 6, weekday: 1, n: 1 } }
+ * ]);
+ * registerHolidayCalendar('ACME', [
+ *   ...getHolidayCalendarRules('UK')!,
+ *   { name: 'Shutdown', date: { type: 'fixed', month: 12, day: 27 }, from: 2025 }
+ * ]);
+ */
+export function registerHolidayCalendar(code: string, rules: HolidayRule[], options: HolidayCalendarOptions = {}): void {
+  holidayCalendars.set(code, createHolidayCalendar(rules, options.subdivisions));
+  daysOffCache.clear();
+}
+
+/**
+ * Get the rules of a registered holiday calendar, e.g. to extend a country with company days
+ * @param code - Country or calendar code
+ * @returns Copy of the rules, or null for unknown codes
+ */
+export function getHolidayCalendarRules(code: CountryCode): HolidayRule[] | null {
+  const calendar = holidayCalendars.get(code);
+  return calendar ? [...calendar.rules] : null;
 }
 
 // ============================================================================
@@ -1042,117 +1230,176 @@ export function getSwitzerlandHolidays(year: number): Holiday[] {
 // ============================================================================
 
 /**
- * Get holidays for a specific country and year
+ * Get the holidays of one or more religious holiday sets
+ *
+ * Islamic holidays follow the Umm al-Qura calendar and may differ by a day where the
+ * new moon is sighted locally. Jewish holidays begin at sundown on the evening before the
+ * listed date. Hindu holidays are available for 1900-2100.
+ * @param year - The year
+ * @param sets - Religious holiday set or sets
+ * @param countryCode - Country to attach to the holidays
+ * @returns Array of holidays of type 'observance'
+ * @example getReligiousHolidays(2024, 'jewish', 'US') // Passover, Rosh Hashanah, Yom Kippur, Hanukkah
+ */
+export function getReligiousHolidays(
+  year: number,
+  sets: ReligiousHolidaySet | ReligiousHolidaySet[],
+  countryCode: CountryCode
+): Holiday[] {
+  const holidays: Holiday[] = [];
+  for (const religion of Array.isArray(sets) ? sets : [sets]) {
+    const rules = (RELIGIOUS_HOLIDAYS[religion] ?? []).map(rule => ({ ...rule, type: 'observance' as const, religion }));
+    holidays.push(...evaluateRules(rules, year, countryCode, () => true));
+  }
+  return holidays;
+}
+
+/**
+ * Get all supported religious holiday sets
+ * @returns Array of religious holiday sets
+ */
+export function getSupportedReligiousHolidaySets(): ReligiousHolidaySet[] {
+  return ['islamic', 'jewish', 'hindu', 'buddhist'];
+}
+
+function isSameLocalDay(a: Date, b: Date): boolean {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+}
+
+/**
+ * Resolve a subdivision code for a calendar, accepting lower case and 'UK-' for 'GB-'
+ */
+function normalizeSubdivision(countryCode: CountryCode, subdivision: string): string | null {
+  const code = subdivision.trim().toUpperCase().replace(/^UK-/, 'GB-');
+  return holidayCalendars.get(countryCode)?.subdivisions.includes(code) ? code : null;
+}
+
+/**
+ * Get the region-only holidays of a country, optionally for one subdivision
  * @param year - The year
  * @param countryCode - ISO country code
+ * @param subdivision - ISO 3166-2 subdivision code; omit for every subdivision's holidays
+ * @returns Array of holidays tagged with the subdivisions observing them (empty for unknown subdivisions)
+ * @example getSubdivisionHolidays(2024, 'DE', 'DE-BY') // Epiphany, Corpus Christi, All Saints' Day
+ */
+export function getSubdivisionHolidays(year: number, countryCode: CountryCode, subdivision?: string): Holiday[] {
+  const calendar = holidayCalendars.get(countryCode);
+  const code = subdivision === undefined ? null : normalizeSubdivision(countryCode, subdivision);
+  if (!calendar || (subdivision !== undefined && !code)) return [];
+
+  // Country-wide holidays are evaluated too so that substitute days skip them
+  const holidays = code
+    ? evaluateRules(calendar.rules, year, countryCode, rule => appliesToSubdivision(rule, code))
+    : evaluateRules(calendar.rules, year, countryCode, () => true);
+  return holidays.filter(h => h.subdivisions);
+}
+
+function appliesToSubdivision(rule: HolidayRule, subdivision: string): boolean {
+  return rule.subdivisions
+    ? rule.subdivisions.some(code => code.toUpperCase() === subdivision)
+    : !rule.excludedSubdivisions?.some(code => code.toUpperCase() === subdivision);
+}
+
+/**
+ * Get the ISO 3166-2 subdivision codes with regional holidays for a country
+ * @param countryCode - ISO country code
+ * @returns Array of subdivision codes (the United Kingdom's use the 'GB-' prefix)
+ * @example getSupportedSubdivisions('UK') // ['GB-ENG', 'GB-NIR', 'GB-SCT', 'GB-WLS']
+ */
+export function getSupportedSubdivisions(countryCode: CountryCode): string[] {
+  return [...(holidayCalendars.get(countryCode)?.subdivisions ?? [])];
+}
+
+/**
+ * Get holidays for a specific country and year, in date order
+ *
+ * With a `subdivision`, the country-wide holidays the region does not observe are dropped and
+ * its regional holidays are added. Unknown subdivisions add nothing, and unknown country codes
+ * have no holidays.
+ * @param year - The year
+ * @param countryCode - ISO country code or a code added with registerHolidayCalendar()
+ * @param options - Subdivision and religious holiday sets to combine with the country's holidays
  * @returns Array of holidays
+ * @example getHolidays(2024, 'UK', { religious: ['jewish', 'islamic'] })
+ * @example getHolidays(2024, 'DE', { subdivision: 'DE-BY' }) // Adds Epiphany, Corpus Christi, All Saints' Day
  */
-export function getHolidays(year: number, countryCode: CountryCode): Holiday[] {
-  switch (countryCode) {
-    case 'UK':
-      return getUKHolidays(year);
-    case 'NL':
-      return getNetherlandsHolidays(year);
-    case 'DE':
-      return getGermanyHolidays(year);
-    case 'CA':
-      return getCanadaHolidays(year);
-    case 'AU':
-      return getAustraliaHolidays(year);
-    case 'IT':
-      return getItalyHolidays(year);
-    case 'ES':
-      return getSpainHolidays(year);
-    case 'CN':
-      return getChinaHolidays(year);
-    case 'IN':
-      return getIndiaHolidays(year);
-    case 'JP':
-      return getJapanHolidays(year);
-    case 'FR':
-      return getFranceHolidays(year);
-    case 'BR':
-      return getBrazilHolidays(year);
-    case 'MX':
-      return getMexicoHolidays(year);
-    case 'KR':
-      return getSouthKoreaHolidays(year);
-    case 'SG':
-      return getSingaporeHolidays(year);
-    case 'PL':
-      return getPolandHolidays(year);
-    case 'SE':
-      return getSwedenHolidays(year);
-    case 'BE':
-      return getBelgiumHolidays(year);
-    case 'CH':
-      return getSwitzerlandHolidays(year);
-    case 'US':
-      // Import from existing calendar module
-      return [];
-    default:
-      return [];
+export function getHolidays(year: number, countryCode: CountryCode, options: HolidayOptions = {}): Holiday[] {
+  const calendar = holidayCalendars.get(countryCode);
+  if (!calendar) return [];
+
+  const subdivision = options.subdivision ? normalizeSubdivision(countryCode, options.subdivision) : null;
+  const holidays = evaluateRules(calendar.rules, year, countryCode, rule =>
+    subdivision ? appliesToSubdivision(rule, subdivision) : !rule.subdivisions
+  );
+  if (!options.religious?.length) return holidays;
+
+  const religious = getReligiousHolidays(year, options.religious, countryCode).filter(
+    holiday => !holidays.some(h => h.religion === holiday.religion && isSameLocalDay(h.date, holiday.date))
+  );
+  return [...holidays, ...religious];
+}
+
+/**
+ * Get the date a lookup matches a holiday on
+ */
+function getLookupDate(holiday: Holiday, options: HolidayOptions): Date {
+  return options.observed ? holiday.observedDate : holiday.date;
+}
+
+/**
+ * Find the holiday on a date. Observed dates can fall in the previous year, as when
+ * New Year's Day on a Saturday is observed on December 31
+ */
+function findHoliday(date: Date, countryCode: CountryCode, options: HolidayOptions): Holiday | undefined {
+  const year = date.getFullYear();
+  let holidays = getHolidays(year, countryCode, options);
+  if (options.observed && date.getMonth() === 11) {
+    holidays = [...holidays, ...getHolidays(year + 1, countryCode, options)];
   }
+  return holidays.find(h => isSameLocalDay(getLookupDate(h, options), date));
 }
 
 /**
  * Check if a date is a holiday in a specific country
  * @param date - The date to check
  * @param countryCode - ISO country code
+ * @param options - Subdivision, religious holiday sets and whether to match observed dates
  * @returns True if date is a holiday
+ * @example isHoliday(new Date(2022, 11, 27), 'UK', { observed: true }) // true (Christmas substitute day)
  */
-export function isHoliday(date: Date, countryCode: CountryCode): boolean {
-  const holidays = getHolidays(date.getFullYear(), countryCode);
-  // Normalize to local date components for comparison
-  const targetYear = date.getFullYear();
-  const targetMonth = date.getMonth();
-  const targetDay = date.getDate();
-  
-  return holidays.some(h => 
-    h.date.getFullYear() === targetYear &&
-    h.date.getMonth() === targetMonth &&
-    h.date.getDate() === targetDay
-  );
+export function isHoliday(date: Date, countryCode: CountryCode, options: HolidayOptions = {}): boolean {
+  return findHoliday(date, countryCode, options) !== undefined;
 }
 
 /**
  * Get the holiday name for a specific date and country
  * @param date - The date to check
  * @param countryCode - ISO country code
+ * @param options - Subdivision, religious holiday sets and whether to match observed dates
  * @returns Holiday name or null if not a holiday
  */
-export function getHolidayName(date: Date, countryCode: CountryCode): string | null {
-  const holidays = getHolidays(date.getFullYear(), countryCode);
-  // Normalize to local date components for comparison
-  const targetYear = date.getFullYear();
-  const targetMonth = date.getMonth();
-  const targetDay = date.getDate();
-  
-  const holiday = holidays.find(h => 
-    h.date.getFullYear() === targetYear &&
-    h.date.getMonth() === targetMonth &&
-    h.date.getDate() === targetDay
-  );
-  return holiday ? holiday.name : null;
+export function getHolidayName(date: Date, countryCode: CountryCode, options: HolidayOptions = {}): string | null {
+  return findHoliday(date, countryCode, options)?.name ?? null;
 }
 
 /**
  * Get next holiday from a given date
  * @param date - The reference date
  * @param countryCode - ISO country code
+ * @param options - Subdivision, religious holiday sets and whether to order by observed dates
  * @returns Next holiday or null
  */
-export function getNextHoliday(date: Date, countryCode: CountryCode): Holiday | null {
+export function getNextHoliday(date: Date, countryCode: CountryCode, options: HolidayOptions = {}): Holiday | null {
   const year = date.getFullYear();
-  let holidays = getHolidays(year, countryCode);
-  
+  let holidays = getHolidays(year, countryCode, options);
+
   // Also get next year's holidays
-  holidays = [...holidays, ...getHolidays(year + 1, countryCode)];
-  
+  holidays = [...holidays, ...getHolidays(year + 1, countryCode, options)];
+
   const future = holidays
-    .filter(h => h.date > date)
-    .sort((a, b) => a.date.getTime() - b.date.getTime());
-  
+    .filter(h => getLookupDate(h, options) > date)
+    .sort((a, b) => getLookupDate(a, options).getTime() - getLookupDate(b, options).getTime());
+
   return future[0] || null;
 }
 
@@ -1161,30 +1408,70 @@ export function getNextHoliday(date: Date, countryCode: CountryCode): Holiday |
  * @param date - The reference date
  * @param days - Number of days to look ahead
  * @param countryCode - ISO country code
+ * @param options - Subdivision, religious holiday sets and whether to match observed dates
  * @returns Array of upcoming holidays
  */
 export function getUpcomingHolidays(
   date: Date,
   days: number,
-  countryCode: CountryCode
+  countryCode: CountryCode,
+  options: HolidayOptions = {}
 ): Holiday[] {
   const year = date.getFullYear();
-  let holidays = getHolidays(year, countryCode);
-  
+  let holidays = getHolidays(year, countryCode, options);
+
   // Also get next year's holidays
-  holidays = [...holidays, ...getHolidays(year + 1, countryCode)];
-  
+  holidays = [...holidays, ...getHolidays(year + 1, countryCode, options)];
+
   const maxDate = new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
-  
+
   return holidays
-    .filter(h => h.date > date && h.date <= maxDate)
-    .sort((a, b) => a.date.getTime() - b.date.getTime());
+    .filter(h => getLookupDate(h, options) > date && getLookupDate(h, options) <= maxDate)
+    .sort((a, b) => getLookupDate(a, options).getTime() - getLookupDate(b, options).getTime());
 }
 
 /**
- * Get all supported country codes
+ * Get all supported country codes, including registered calendars
  * @returns Array of country codes
  */
 export function getSupportedCountries(): CountryCode[] {
-  return ['UK', 'NL', 'DE', 'CA', 'AU', 'IT', 'ES', 'CN', 'IN', 'US', 'JP', 'FR', 'BR', 'MX', 'KR', 'SG', 'PL', 'SE', 'BE', 'CH'];
+  return Array.from(holidayCalendars.keys());
+}
+
+function getDayOffKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
+
+function getDaysOff(year: number, calendar: HolidayCalendarRef): Set<string> {
+  const cacheKey = `${calendar.country}:${calendar.subdivision ?? ''}:${year}`;
+  let days = daysOffCache.get(cacheKey);
+  if (!days) {
+    days = new Set();
+    for (const holiday of getHolidays(year, calendar.country, { subdivision: calendar.subdivision })) {
+      if (holiday.type === 'observance') continue;
+      days.add(getDayOffKey(holiday.date));
+      days.add(getDayOffKey(holiday.observedDate));
+    }
+    daysOffCache.set(cacheKey, days);
+  }
+  return days;
+}
+
+/**
+ * Check if a date is a day off for a public holiday in any of several calendars, on the
+ * holiday itself or its observed date. Observances such as the Dutch Good Friday are not days off.
+ * @param date - The date to check
+ * @param calendars - Countries, optionally narrowed to a subdivision, whose holidays count
+ * @returns True if the date is a day off in at least one calendar
+ * @example
+ * isPublicHoliday(new Date(2025, 0, 6), { country: 'DE', subdivision: 'DE-BY' }); // true (Epiphany)
+ * isPublicHoliday(new Date(2022, 11, 27), [{ country: 'US' }, { country: 'UK' }]); // true (UK substitute day)
+ */
+export function isPublicHoliday(date: Date, calendars: HolidayCalendarRef | HolidayCalendarRef[]): boolean {
+  const key = getDayOffKey(date);
+  const year = date.getFullYear();
+  // Observed dates can move into the neighbouring year, as New Year's Day to December 31
+  return (Array.isArray(calendars) ? calendars : [calendars]).some(calendar =>
+    [year - 1, year, year + 1].some(y => getDaysOff(y, calendar).has(key))
+  );
 }
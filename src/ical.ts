@@ -0,0 +1,917 @@
+/**
+ * @fileoverview iCalendar (RFC 5545) parsing and serialization
+ * Reads VCALENDAR text into typed events, to-dos, timezones and alarms,
+ * and writes bookings and recurrences back as line-folded ICS text
+ */
+
+import type { RecurrenceRule, RecurrenceSet } from './types.js';
+import type { Booking } from './scheduling.js';
+import type { WallClockTime } from './timezone.js';
+import { MILLISECONDS_PER_SECOND, MILLISECONDS_PER_MINUTE, MILLISECONDS_PER_HOUR, MILLISECONDS_PER_DAY, MILLISECONDS_PER_WEEK } from './constants.js';
+import { Duration } from './duration.js';
+import { getOccurrencesBetween, isRecurrenceSet, parseRRule, toRRuleString } from './recurrence.js';
+import {
+  convertDateToZone,
+  getNextDSTTransition,
+  getTimezoneAbbreviation,
+  getTimezoneOffset,
+  isValidTimeZone,
+  zonedTimeToDate
+} from './timezone.js';
+
+/** A content line: property name, parameters and the value as written (still escaped) */
+export interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/** Reminder attached to an event or to-do (VALARM) */
+export interface ICalAlarm {
+  /** AUDIO, DISPLAY or EMAIL */
+  action: string;
+  /** Offset from the start (or end, see `related`) of the component, or an absolute time */
+  trigger: Duration | Date;
+  /** Whether a relative trigger counts from the start or the end (default: 'start') */
+  related?: 'start' | 'end';
+  description?: string;
+  summary?: string;
+  /** Number of additional repetitions */
+  repeat?: number;
+  /** Delay between repetitions */
+  duration?: Duration;
+}
+
+/** Fields shared by events and to-dos */
+export interface ICalComponent {
+  uid?: string;
+  summary?: string;
+  description?: string;
+  location?: string;
+  status?: string;
+  categories?: string[];
+  /** Start time (DTSTART) */
+  start?: Date;
+  duration?: Duration;
+  /** Whether times are whole days (VALUE=DATE) */
+  allDay?: boolean;
+  /** IANA timezone the times are written in (TZID); written as UTC when omitted */
+  timeZone?: string;
+  /** Rules, extra dates and exceptions (RRULE, RDATE, EXDATE), plus overrides from RECURRENCE-ID components */
+  recurrence?: RecurrenceSet;
+  /** The occurrence this component replaces (RECURRENCE-ID) */
+  recurrenceId?: Date;
+  alarms?: ICalAlarm[];
+  /** Creation time of this representation (DTSTAMP) */
+  timestamp?: Date;
+  /** Properties without a typed field, kept for round-tripping */
+  properties?: ICalProperty[];
+}
+
+/** A calendar event (VEVENT) */
+export interface ICalEvent extends ICalComponent {
+  start: Date;
+  /** End time, exclusive (DTEND) */
+  end?: Date;
+}
+
+/** A task (VTODO) */
+export interface ICalTodo extends ICalComponent {
+  due?: Date;
+  completed?: Date;
+  /** 1 (highest) to 9 (lowest), 0 for undefined */
+  priority?: number;
+  percentComplete?: number;
+}
+
+/** One STANDARD or DAYLIGHT section of a VTIMEZONE */
+export interface ICalTimeZoneObservance {
+  type: 'standard' | 'daylight';
+  /** Local time at which the observance first takes effect */
+  start: WallClockTime;
+  /** UTC offset in minutes before the onset */
+  offsetFrom: number;
+  /** UTC offset in minutes from the onset */
+  offsetTo: number;
+  name?: string;
+  /** Yearly onsets, expanded on wall-clock values (the rule's `timeZone` is 'UTC') */
+  recurrenceRule?: RecurrenceRule;
+}
+
+/** A timezone definition (VTIMEZONE) */
+export interface ICalTimeZone {
+  id: string;
+  observances: ICalTimeZoneObservance[];
+}
+
+/** A parsed calendar (VCALENDAR) */
+export interface ICalCalendar {
+  prodId?: string;
+  version?: string;
+  method?: string;
+  /** Display name (X-WR-CALNAME) */
+  name?: string;
+  events: ICalEvent[];
+  todos: ICalTodo[];
+  timeZones: ICalTimeZone[];
+  /** Calendar properties without a typed field */
+  properties?: ICalProperty[];
+}
+
+/** Options for writing iCalendar text */
+export interface ICalFormatOptions {
+  /** DTSTAMP for components that have none (default: now) */
+  timestamp?: Date;
+  /** Add VTIMEZONE definitions for IANA zones not listed in `timeZones` (default: true) */
+  includeTimeZones?: boolean;
+}
+
+/** Options for writing bookings as iCalendar text */
+export interface BookingICalOptions extends ICalFormatOptions {
+  prodId?: string;
+  /** Calendar display name */
+  name?: string;
+}
+
+interface RawComponent {
+  name: string;
+  properties: ICalProperty[];
+  components: RawComponent[];
+}
+
+const DEFAULT_PRODID = '-//ts-time-utils//iCalendar//EN';
+const MAX_LINE_OCTETS = 75;
+
+const COMPONENT_PROPERTIES = [
+  'UID', 'SUMMARY', 'DESCRIPTION', 'LOCATION', 'STATUS', 'CATEGORIES', 'DTSTART', 'DURATION',
+  'RDATE', 'EXDATE', 'RECURRENCE-ID', 'DTSTAMP'
+];
+const EVENT_PROPERTIES = [...COMPONENT_PROPERTIES, 'DTEND'];
+const TODO_PROPERTIES = [...COMPONENT_PROPERTIES, 'DUE', 'COMPLETED', 'PRIORITY', 'PERCENT-COMPLETE'];
+const CALENDAR_PROPERTIES = ['PRODID', 'VERSION', 'METHOD', 'X-WR-CALNAME'];
+
+/**
+ * Parses iCalendar text into events, to-dos and timezone definitions
+ *
+ * Times with a `TZID` naming an IANA zone keep that zone in `timeZone`; other
+ * `TZID` values are resolved through the calendar's VTIMEZONE definitions.
+ * Floating times and all-day dates are read as host local time. Events without
+ * a valid DTSTART are skipped.
+ *
+ * @param input - The ICS text (CRLF or LF line endings)
+ * @returns The parsed calendar, or null if the text contains no VCALENDAR
+ *
+ * @example
+ * ```ts
+ * const calendar = parseICalendar(icsText);
+ * calendar?.events[0].recurrence?.rules[0]; // RecurrenceRule from the RRULE
+ * ```
+ */
+export function parseICalendar(input: string): ICalCalendar | null {
+  const root = parseComponents(input);
+  if (!root) return null;
+
+  const timeZones = root.components.filter(c => c.name === 'VTIMEZONE').map(readTimeZone);
+  const zones = new Map(timeZones.map(zone => [zone.id, zone]));
+
+  const events: ICalEvent[] = [];
+  for (const component of root.components.filter(c => c.name === 'VEVENT')) {
+    const event = readEvent(component, zones);
+    if (event) events.push(event);
+  }
+  attachOverrides(events);
+
+  const todos = root.components.filter(c => c.name === 'VTODO').map(c => readTodo(c, zones));
+  attachOverrides(todos);
+
+  const calendar: ICalCalendar = { events, todos, timeZones };
+  const prodId = getProperty(root, 'PRODID');
+  const version = getProperty(root, 'VERSION');
+  const method = getProperty(root, 'METHOD');
+  const name = getProperty(root, 'X-WR-CALNAME');
+  if (prodId) calendar.prodId = unescapeText(prodId.value);
+  if (version) calendar.version = version.value;
+  if (method) calendar.method = method.value;
+  if (name) calendar.name = unescapeText(name.value);
+
+  const extra = root.properties.filter(p => !CALENDAR_PROPERTIES.includes(p.name));
+  if (extra.length > 0) calendar.properties = extra;
+
+  return calendar;
+}
+
+/**
+ * Writes a calendar as iCalendar text with CRLF line endings and lines folded at 75 octets
+ *
+ * Times are written in their `timeZone` (with a generated VTIMEZONE unless the
+ * calendar already lists one) or in UTC. Recurrence overrides without a
+ * matching RECURRENCE-ID component are written as minimal override events.
+ *
+ * @param calendar - Events, to-dos, timezones and calendar properties
+ * @param options - Formatting options
+ * @returns The ICS text
+ *
+ * @example
+ * ```ts
+ * formatICalendar({ events: [{ uid: 'a1', summary: 'Review', start, end }] });
+ * // "BEGIN:VCALENDAR\r\nVERSION:2.0\r\n..."
+ * ```
+ */
+export function formatICalendar(calendar: Partial<ICalCalendar>, options: ICalFormatOptions = {}): string {
+  const timestamp = options.timestamp ?? new Date();
+  const events = calendar.events ?? [];
+  const todos = calendar.todos ?? [];
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${escapeText(calendar.prodId ?? DEFAULT_PRODID)}`];
+
+  if (calendar.method) lines.push(`METHOD:${calendar.method}`);
+  if (calendar.name) lines.push(`X-WR-CALNAME:${escapeText(calendar.name)}`);
+  for (const property of calendar.properties ?? []) lines.push(formatProperty(property));
+
+  const timeZones = [...(calendar.timeZones ?? [])];
+  if (options.includeTimeZones !== false) {
+    const firstUse = new Map<string, Date>();
+    for (const component of [...events, ...todos]) {
+      const zone = component.timeZone;
+      const start = component.start ?? (component as ICalTodo).due;
+      if (!zone || !start || component.allDay || !isValidTimeZone(zone)) continue;
+      if (!firstUse.has(zone) || start < firstUse.get(zone)!) firstUse.set(zone, start);
+    }
+    for (const [zone, start] of firstUse) {
+      if (!timeZones.some(t => t.id === zone)) timeZones.push(buildTimeZone(zone, start));
+    }
+  }
+  for (const zone of timeZones) lines.push(...formatTimeZone(zone));
+
+  for (const event of [...events, ...getOverrideEvents(events)]) {
+    lines.push('BEGIN:VEVENT', ...formatComponent(event, timestamp));
+    if (event.end) lines.push(formatDateProperty('DTEND', event.end, event));
+    lines.push(...formatAlarms(event.alarms), 'END:VEVENT');
+  }
+
+  for (const todo of todos) {
+    lines.push('BEGIN:VTODO', ...formatComponent(todo, timestamp));
+    if (todo.due) lines.push(formatDateProperty('DUE', todo.due, todo));
+    if (todo.completed) lines.push(`COMPLETED:${formatUTCDateTime(todo.completed)}`);
+    if (todo.priority !== undefined) lines.push(`PRIORITY:${todo.priority}`);
+    if (todo.percentComplete !== undefined) lines.push(`PERCENT-COMPLETE:${todo.percentComplete}`);
+    lines.push(...formatAlarms(todo.alarms), 'END:VTODO');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Writes bookings as iCalendar events
+ *
+ * String `summary`, `description` and `location` metadata become the matching
+ * properties; bookings without an `id` get a generated UID.
+ *
+ * @param bookings - The bookings to export
+ * @param options - Calendar name, product id and formatting options
+ * @returns The ICS text
+ *
+ * @example
+ * ```ts
+ * bookingsToICalendar([{ id: 'b1', start, end, metadata: { summary: 'Dentist' } }]);
+ * ```
+ */
+export function bookingsToICalendar(bookings: Booking[], options: BookingICalOptions = {}): string {
+  const events = bookings.map((booking, index): ICalEvent => {
+    const start = new Date(booking.start);
+    const event: ICalEvent = {
+      uid: booking.id ?? `booking-${index}-${start.getTime()}@ts-time-utils`,
+      start,
+      end: new Date(booking.end)
+    };
+    for (const key of ['summary', 'description', 'location'] as const) {
+      const value = booking.metadata?.[key];
+      if (typeof value === 'string') event[key] = value;
+    }
+    return event;
+  });
+
+  return formatICalendar({ prodId: options.prodId, name: options.name, events }, options);
+}
+
+/**
+ * Creates a recurring event from a recurrence rule or set
+ * @param pattern - The recurrence; the first rule's start date (or first extra date) becomes DTSTART
+ * @param durationMinutes - Length of each occurrence
+ * @param details - Other event fields such as `uid` and `summary`
+ * @returns The event, or null if the recurrence has no start
+ *
+ * @example
+ * ```ts
+ * const event = recurrenceToICalEvent(
+ *   { frequency: 'weekly', startDate: new Date('2025-01-06T09:00'), byWeekday: [1] },
+ *   30,
+ *   { uid: 'standup', summary: 'Standup' }
+ * );
+ * formatICalendar({ events: [event!] });
+ * ```
+ */
+export function recurrenceToICalEvent(
+  pattern: RecurrenceRule | RecurrenceSet,
+  durationMinutes: number,
+  details: Partial<ICalEvent> = {}
+): ICalEvent | null {
+  const recurrence = isRecurrenceSet(pattern) ? pattern : { rules: [pattern] };
+  const first = recurrence.rules[0];
+  const startInput = first ? first.startDate : recurrence.includeDates?.[0];
+  if (startInput === undefined) return null;
+
+  const start = new Date(startInput);
+  if (isNaN(start.getTime())) return null;
+
+  const event: ICalEvent = {
+    ...details,
+    start,
+    end: new Date(start.getTime() + durationMinutes * MILLISECONDS_PER_MINUTE),
+    recurrence
+  };
+  if (first?.timeZone) event.timeZone = first.timeZone;
+  return event;
+}
+
+/**
+ * Parses an iCalendar DURATION value such as `PT1H30M`, `P2W` or `-PT15M`
+ * @param value - The duration value
+ * @returns The duration, or null if the value is not a valid duration
+ */
+export function parseICalDuration(value: string): Duration | null {
+  const match = value.trim().toUpperCase()
+    .match(/^([+-])?P(?:(\d+)W|(\d+)D(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?|T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)$/);
+  if (!match || /T$/.test(value.trim())) return null;
+
+  const [, sign, weeks, days, dayHours, dayMinutes, daySeconds, hours, minutes, seconds] = match;
+  const ms = Number(weeks ?? 0) * MILLISECONDS_PER_WEEK +
+    Number(days ?? 0) * MILLISECONDS_PER_DAY +
+    Number(dayHours ?? hours ?? 0) * MILLISECONDS_PER_HOUR +
+    Number(dayMinutes ?? minutes ?? 0) * MILLISECONDS_PER_MINUTE +
+    Number(daySeconds ?? seconds ?? 0) * MILLISECONDS_PER_SECOND;
+
+  return new Duration(sign === '-' ? -ms : ms);
+}
+
+/**
+ * Formats a duration as an iCalendar DURATION value (whole seconds)
+ * @param duration - Duration or milliseconds
+ * @returns The value, e.g. `PT1H30M`, `P1W` or `-PT15M`
+ */
+export function formatICalDuration(duration: Duration | number): string {
+  const ms = typeof duration === 'number' ? duration : duration.milliseconds;
+  const sign = ms < 0 ? '-' : '';
+  let seconds = Math.round(Math.abs(ms) / MILLISECONDS_PER_SECOND);
+
+  if (seconds > 0 && seconds % (MILLISECONDS_PER_WEEK / MILLISECONDS_PER_SECOND) === 0) {
+    return `${sign}P${seconds / (MILLISECONDS_PER_WEEK / MILLISECONDS_PER_SECOND)}W`;
+  }
+
+  const days = Math.floor(seconds / 86400);
+  seconds -= days * 86400;
+  const hours = Math.floor(seconds / 3600);
+  seconds -= hours * 3600;
+  const minutes = Math.floor(seconds / 60);
+  seconds -= minutes * 60;
+
+  let time = '';
+  if (hours) time += `${hours}H`;
+  if (minutes) time += `${minutes}M`;
+  if (seconds || (!days && !time)) time += `${seconds}S`;
+
+  return `${sign}P${days ? `${days}D` : ''}${time ? `T${time}` : ''}`;
+}
+
+/** Unfolds the text and builds the component tree below VCALENDAR */
+function parseComponents(input: string): RawComponent | null {
+  const lines = input.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const stack: RawComponent[] = [];
+  let root: RawComponent | null = null;
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const property = parseContentLine(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      const component: RawComponent = { name: property.value.toUpperCase(), properties: [], components: [] };
+      stack[stack.length - 1]?.components.push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      const name = property.value.toUpperCase();
+      const index = stack.map(c => c.name).lastIndexOf(name);
+      if (index === -1) continue;
+      const [closed] = stack.splice(index);
+      if (closed.name === 'VCALENDAR' && !root) root = closed;
+    } else {
+      stack[stack.length - 1]?.properties.push(property);
+    }
+  }
+
+  return root;
+}
+
+/** Splits `NAME;PARAM=value:VALUE`, honoring quoted parameter values */
+function parseContentLine(line: string): ICalProperty | null {
+  const segments: string[] = [];
+  let current = '';
+  let quoted = false;
+  let valueStart = -1;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && char === ';') {
+      segments.push(current);
+      current = '';
+      continue;
+    } else if (!quoted && char === ':') {
+      valueStart = i + 1;
+      break;
+    }
+    current += char;
+  }
+
+  if (valueStart === -1) return null;
+  segments.push(current);
+
+  const [name, ...params] = segments;
+  if (!name) return null;
+
+  const property: ICalProperty = { name: name.trim().toUpperCase(), params: {}, value: line.slice(valueStart) };
+  for (const param of params) {
+    const separator = param.indexOf('=');
+    if (separator === -1) continue;
+    property.params[param.slice(0, separator).trim().toUpperCase()] = param.slice(separator + 1).replace(/"/g, '');
+  }
+  return property;
+}
+
+function formatProperty(property: ICalProperty): string {
+  const params = Object.entries(property.params)
+    .map(([key, value]) => `;${key}=${/[:;,]/.test(value) ? `"${value}"` : value}`)
+    .join('');
+  return `${property.name}${params}:${property.value}`;
+}
+
+/** Folds a content line so that no line exceeds 75 octets, without splitting characters */
+function foldLine(line: string): string {
+  let result = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const code = char.codePointAt(0)!;
+    const size = code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+    if (octets + size > MAX_LINE_OCTETS) {
+      result += '\r\n ';
+      octets = 1;
+    }
+    result += char;
+    octets += size;
+  }
+
+  return result;
+}
+
+function escapeText(value: string): string {
+  return value.replace(/[\\;,]/g, '\\$&').replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function getProperty(component: RawComponent, name: string): ICalProperty | undefined {
+  return component.properties.find(p => p.name === name);
+}
+
+function getText(component: RawComponent, name: string): string | undefined {
+  const property = getProperty(component, name);
+  return property ? unescapeText(property.value) : undefined;
+}
+
+function parseOffset(value: string | undefined): number | null {
+  const match = value?.trim().match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+  if (!match) return null;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+function formatOffset(minutes: number): string {
+  const abs = Math.abs(minutes);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${minutes < 0 ? '-' : '+'}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+function parseWallClock(value: string): WallClockTime | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i);
+  if (!match) return null;
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+  return { year: +year, month: +month, day: +day, hour: +hour, minute: +minute, second: +second };
+}
+
+function wallClockToMs(time: WallClockTime): number {
+  return Date.UTC(time.year, time.month - 1, time.day, time.hour ?? 0, time.minute ?? 0, time.second ?? 0);
+}
+
+interface ParsedDate {
+  date: Date;
+  allDay: boolean;
+  timeZone?: string;
+}
+
+/** Reads a DATE or DATE-TIME value: UTC, in an IANA or VTIMEZONE zone, or floating local time */
+function parseDateValue(value: string, params: Record<string, string>, zones: Map<string, ICalTimeZone>): ParsedDate | null {
+  const text = value.split('/')[0].trim(); // PERIOD values start with their DATE-TIME
+  const time = parseWallClock(text);
+  if (!time) return null;
+
+  let result: ParsedDate;
+  const tzid = params.TZID?.replace(/^\//, '');
+
+  if (!/T/i.test(text)) {
+    result = { date: new Date(time.year, time.month - 1, time.day), allDay: true };
+  } else if (/Z$/i.test(text)) {
+    result = { date: new Date(wallClockToMs(time)), allDay: false };
+  } else if (tzid && isValidTimeZone(tzid)) {
+    result = { date: zonedTimeToDate(time, tzid)!, allDay: false, timeZone: tzid };
+  } else if (tzid && zones.has(tzid)) {
+    const wall = wallClockToMs(time);
+    result = { date: new Date(wall - getObservanceOffset(zones.get(tzid)!, wall) * MILLISECONDS_PER_MINUTE), allDay: false };
+  } else {
+    result = {
+      date: new Date(time.year, time.month - 1, time.day, time.hour, time.minute, time.second),
+      allDay: false
+    };
+  }
+
+  return isNaN(result.date.getTime()) ? null : result;
+}
+
+function parseDateList(component: RawComponent, name: string, zones: Map<string, ICalTimeZone>): Date[] {
+  return component.properties
+    .filter(p => p.name === name)
+    .flatMap(p => p.value.split(',').map(value => parseDateValue(value, p.params, zones)?.date))
+    .filter((date): date is Date => date !== undefined);
+}
+
+/** UTC offset (minutes) of a VTIMEZONE at a wall-clock time, from its most recent onset */
+function getObservanceOffset(zone: ICalTimeZone, wall: number): number {
+  let latest = -Infinity;
+  let offset = zone.observances[0]?.offsetFrom ?? 0;
+
+  for (const observance of zone.observances) {
+    const start = wallClockToMs(observance.start);
+    let onset = start <= wall ? start : -Infinity;
+    if (observance.recurrenceRule && start <= wall) {
+      // Yearly onsets: look at the last two years first, then at the whole history
+      const recent = Math.max(start, wall - 2 * 366 * MILLISECONDS_PER_DAY);
+      let onsets = getOccurrencesBetween(observance.recurrenceRule, new Date(recent), new Date(wall));
+      if (onsets.length === 0 && recent > start) {
+        onsets = getOccurrencesBetween(observance.recurrenceRule, new Date(start), new Date(wall));
+      }
+      if (onsets.length > 0) onset = onsets[onsets.length - 1].getTime();
+    }
+    if (onset > latest) {
+      latest = onset;
+      offset = observance.offsetTo;
+    }
+  }
+
+  return offset;
+}
+
+function readTimeZone(component: RawComponent): ICalTimeZone {
+  const observances: ICalTimeZoneObservance[] = [];
+
+  for (const child of component.components) {
+    if (child.name !== 'STANDARD' && child.name !== 'DAYLIGHT') continue;
+    const start = parseWallClock(getProperty(child, 'DTSTART')?.value ?? '');
+    const offsetFrom = parseOffset(getProperty(child, 'TZOFFSETFROM')?.value);
+    const offsetTo = parseOffset(getProperty(child, 'TZOFFSETTO')?.value);
+    if (!start || offsetFrom === null || offsetTo === null) continue;
+
+    const observance: ICalTimeZoneObservance = {
+      type: child.name === 'STANDARD' ? 'standard' : 'daylight',
+      start,
+      offsetFrom,
+      offsetTo
+    };
+    const name = getText(child, 'TZNAME');
+    if (name) observance.name = name;
+
+    const rrule = getProperty(child, 'RRULE');
+    const rule = rrule && parseRRule(`RRULE:${rrule.value}`, new Date(wallClockToMs(start)));
+    if (rule) observance.recurrenceRule = { ...rule, timeZone: 'UTC' };
+
+    observances.push(observance);
+  }
+
+  return { id: getProperty(component, 'TZID')?.value ?? '', observances };
+}
+
+/** Reads the fields shared by VEVENT and VTODO */
+function readComponent(
+  component: RawComponent,
+  zones: Map<string, ICalTimeZone>,
+  knownProperties: string[]
+): ICalComponent {
+  const result: ICalComponent = {};
+
+  for (const key of ['uid', 'summary', 'description', 'location', 'status'] as const) {
+    const value = getText(component, key.toUpperCase());
+    if (value !== undefined) result[key] = value;
+  }
+
+  const categories = component.properties
+    .filter(p => p.name === 'CATEGORIES')
+    .flatMap(p => p.value.split(/(?<!\\),/).map(unescapeText));
+  if (categories.length > 0) result.categories = categories;
+
+  const dtstart = getProperty(component, 'DTSTART');
+  const start = dtstart && parseDateValue(dtstart.value, dtstart.params, zones);
+  if (start) {
+    result.start = start.date;
+    if (start.allDay) result.allDay = true;
+    if (start.timeZone) result.timeZone = start.timeZone;
+  }
+
+  const duration = parseICalDuration(getProperty(component, 'DURATION')?.value ?? '');
+  if (duration) result.duration = duration;
+
+  const stamp = getProperty(component, 'DTSTAMP');
+  const timestamp = stamp && parseDateValue(stamp.value, stamp.params, zones);
+  if (timestamp) result.timestamp = timestamp.date;
+
+  const recurrenceId = getProperty(component, 'RECURRENCE-ID');
+  const original = recurrenceId && parseDateValue(recurrenceId.value, recurrenceId.params, zones);
+  if (original) result.recurrenceId = original.date;
+
+  // RRULE lines that do not parse are kept as raw properties
+  const rules: RecurrenceRule[] = [];
+  const unparsed: ICalProperty[] = [];
+  for (const property of component.properties.filter(p => p.name === 'RRULE')) {
+    const rule = result.start && parseRRule(`RRULE:${property.value}`, result.start);
+    if (rule) {
+      rules.push(result.timeZone ? { ...rule, timeZone: result.timeZone } : rule);
+    } else {
+      unparsed.push(property);
+    }
+  }
+
+  const includeDates = parseDateList(component, 'RDATE', zones);
+  const excludeDates = parseDateList(component, 'EXDATE', zones);
+  if (rules.length > 0 || includeDates.length > 0) {
+    result.recurrence = { rules };
+    if (includeDates.length > 0) result.recurrence.includeDates = includeDates;
+    if (excludeDates.length > 0) result.recurrence.excludeDates = excludeDates;
+  }
+
+  const alarms = component.components.filter(c => c.name === 'VALARM').map(c => readAlarm(c, zones))
+    .filter((alarm): alarm is ICalAlarm => alarm !== null);
+  if (alarms.length > 0) result.alarms = alarms;
+
+  const properties = [...component.properties.filter(p => !knownProperties.includes(p.name) && p.name !== 'RRULE'), ...unparsed];
+  if (properties.length > 0) result.properties = properties;
+
+  return result;
+}
+
+function readEvent(component: RawComponent, zones: Map<string, ICalTimeZone>): ICalEvent | null {
+  const base = readComponent(component, zones, EVENT_PROPERTIES);
+  if (!base.start) return null;
+
+  const event: ICalEvent = { ...base, start: base.start };
+  const dtend = getProperty(component, 'DTEND');
+  const end = dtend && parseDateValue(dtend.value, dtend.params, zones);
+  if (end) event.end = end.date;
+  return event;
+}
+
+function readTodo(component: RawComponent, zones: Map<string, ICalTimeZone>): ICalTodo {
+  const todo: ICalTodo = readComponent(component, zones, TODO_PROPERTIES);
+
+  for (const [key, name] of [['due', 'DUE'], ['completed', 'COMPLETED']] as const) {
+    const property = getProperty(component, name);
+    const parsed = property && parseDateValue(property.value, property.params, zones);
+    if (parsed) todo[key] = parsed.date;
+  }
+  for (const [key, name] of [['priority', 'PRIORITY'], ['percentComplete', 'PERCENT-COMPLETE']] as const) {
+    const value = parseInt(getProperty(component, name)?.value ?? '', 10);
+    if (!isNaN(value)) todo[key] = value;
+  }
+
+  return todo;
+}
+
+function readAlarm(component: RawComponent, zones: Map<string, ICalTimeZone>): ICalAlarm | null {
+  const trigger = getProperty(component, 'TRIGGER');
+  if (!trigger) return null;
+
+  const value = trigger.params.VALUE?.toUpperCase() === 'DATE-TIME'
+    ? parseDateValue(trigger.value, trigger.params, zones)?.date
+    : parseICalDuration(trigger.value);
+  if (!value) return null;
+
+  const alarm: ICalAlarm = { action: getProperty(component, 'ACTION')?.value.toUpperCase() ?? 'DISPLAY', trigger: value };
+  if (trigger.params.RELATED?.toUpperCase() === 'END') alarm.related = 'end';
+
+  const description = getText(component, 'DESCRIPTION');
+  const summary = getText(component, 'SUMMARY');
+  const repeat = parseInt(getProperty(component, 'REPEAT')?.value ?? '', 10);
+  const duration = parseICalDuration(getProperty(component, 'DURATION')?.value ?? '');
+  if (description !== undefined) alarm.description = description;
+  if (summary !== undefined) alarm.summary = summary;
+  if (!isNaN(repeat)) alarm.repeat = repeat;
+  if (duration) alarm.duration = duration;
+
+  return alarm;
+}
+
+/** Records RECURRENCE-ID components as overrides of the recurring component with the same UID */
+function attachOverrides(components: ICalComponent[]): void {
+  for (const component of components) {
+    if (!component.recurrenceId || !component.start || !component.uid) continue;
+
+    const master = components.find(c => c.uid === component.uid && !c.recurrenceId && c.recurrence);
+    if (!master?.recurrence) continue;
+
+    master.recurrence.overrides = [
+      ...(master.recurrence.overrides ?? []),
+      { originalDate: component.recurrenceId, date: component.start }
+    ];
+  }
+}
+
+/** Minimal events for recurrence overrides that have no RECURRENCE-ID event of their own */
+function getOverrideEvents(events: ICalEvent[]): ICalEvent[] {
+  const result: ICalEvent[] = [];
+
+  for (const event of events) {
+    if (!event.uid || event.recurrenceId) continue;
+
+    for (const override of event.recurrence?.overrides ?? []) {
+      const original = new Date(override.originalDate);
+      const exists = events.some(e => e.uid === event.uid && e.recurrenceId?.getTime() === original.getTime());
+      if (exists) continue;
+
+      const start = new Date(override.date);
+      const stub: ICalEvent = { uid: event.uid, start, recurrenceId: original };
+      if (event.summary) stub.summary = event.summary;
+      if (event.allDay) stub.allDay = true;
+      if (event.timeZone) stub.timeZone = event.timeZone;
+      if (event.end) stub.end = new Date(start.getTime() + event.end.getTime() - event.start.getTime());
+      result.push(stub);
+    }
+  }
+
+  return result;
+}
+
+function formatUTCDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatLocalDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
+
+/** Formats a date property the way the component's other times are written */
+function formatDateProperty(name: string, date: Date, component: ICalComponent): string {
+  if (component.allDay) return `${name};VALUE=DATE:${formatLocalDate(date)}`;
+
+  const zone = component.timeZone;
+  if (zone && isValidTimeZone(zone)) {
+    const parts = convertDateToZone(date, zone)!;
+    const wall = new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second));
+    return `${name};TZID=${zone}:${formatUTCDateTime(wall).slice(0, -1)}`;
+  }
+
+  return `${name}:${formatUTCDateTime(date)}`;
+}
+
+function formatComponent(component: ICalComponent, timestamp: Date): string[] {
+  const lines: string[] = [];
+
+  if (component.uid) lines.push(`UID:${escapeText(component.uid)}`);
+  lines.push(`DTSTAMP:${formatUTCDateTime(component.timestamp ?? timestamp)}`);
+  if (component.start) lines.push(formatDateProperty('DTSTART', component.start, component));
+  if (component.recurrenceId) lines.push(formatDateProperty('RECURRENCE-ID', component.recurrenceId, component));
+  if (component.duration) lines.push(`DURATION:${formatICalDuration(component.duration)}`);
+
+  for (const key of ['summary', 'description', 'location'] as const) {
+    const value = component[key];
+    if (value !== undefined) lines.push(`${key.toUpperCase()}:${escapeText(value)}`);
+  }
+  if (component.status) lines.push(`STATUS:${component.status}`);
+  if (component.categories?.length) lines.push(`CATEGORIES:${component.categories.map(escapeText).join(',')}`);
+
+  const recurrence = component.recurrence;
+  for (const rule of recurrence?.rules ?? []) {
+    let line = toRRuleString(rule);
+    // UNTIL must be a DATE when DTSTART is one
+    if (component.allDay && rule.until !== undefined) {
+      line = line.replace(/UNTIL=[^;]+/, `UNTIL=${formatLocalDate(new Date(rule.until))}`);
+    }
+    lines.push(line);
+  }
+  for (const date of recurrence?.includeDates ?? []) lines.push(formatDateProperty('RDATE', new Date(date), component));
+  for (const date of recurrence?.excludeDates ?? []) lines.push(formatDateProperty('EXDATE', new Date(date), component));
+
+  for (const property of component.properties ?? []) lines.push(formatProperty(property));
+  return lines;
+}
+
+function formatAlarms(alarms: ICalAlarm[] | undefined): string[] {
+  const lines: string[] = [];
+
+  for (const alarm of alarms ?? []) {
+    lines.push('BEGIN:VALARM', `ACTION:${alarm.action}`);
+    if (alarm.trigger instanceof Date) {
+      lines.push(`TRIGGER;VALUE=DATE-TIME:${formatUTCDateTime(alarm.trigger)}`);
+    } else {
+      lines.push(`TRIGGER${alarm.related === 'end' ? ';RELATED=END' : ''}:${formatICalDuration(alarm.trigger)}`);
+    }
+    // DISPLAY and EMAIL alarms require a description
+    const description = alarm.description ?? (alarm.action === 'AUDIO' ? undefined : alarm.summary ?? 'Reminder');
+    if (description !== undefined) lines.push(`DESCRIPTION:${escapeText(description)}`);
+    if (alarm.summary !== undefined) lines.push(`SUMMARY:${escapeText(alarm.summary)}`);
+    if (alarm.repeat !== undefined) lines.push(`REPEAT:${alarm.repeat}`);
+    if (alarm.duration) lines.push(`DURATION:${formatICalDuration(alarm.duration)}`);
+    lines.push('END:VALARM');
+  }
+
+  return lines;
+}
+
+function formatTimeZone(zone: ICalTimeZone): string[] {
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${zone.id}`];
+
+  for (const observance of zone.observances) {
+    const name = observance.type.toUpperCase();
+    lines.push(
+      `BEGIN:${name}`,
+      `DTSTART:${formatUTCDateTime(new Date(wallClockToMs(observance.start))).slice(0, -1)}`,
+      `TZOFFSETFROM:${formatOffset(observance.offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(observance.offsetTo)}`
+    );
+    if (observance.name) lines.push(`TZNAME:${escapeText(observance.name)}`);
+    if (observance.recurrenceRule) lines.push(toRRuleString(observance.recurrenceRule));
+    lines.push(`END:${name}`);
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/**
+ * Describes an IANA zone as a VTIMEZONE, using the DST transitions of the year
+ * of first use as yearly nth-weekday rules
+ */
+function buildTimeZone(zone: string, from: Date): ICalTimeZone {
+  const year = from.getUTCFullYear();
+  const yearEnd = Date.UTC(year + 1, 0, 1);
+  const observances: ICalTimeZoneObservance[] = [];
+
+  let transition = getNextDSTTransition(new Date(Date.UTC(year, 0, 1)), zone);
+  while (transition && transition.getTime() < yearEnd) {
+    const offsetFrom = getTimezoneOffset(zone, new Date(transition.getTime() - 1)) ?? 0;
+    const offsetTo = getTimezoneOffset(zone, transition) ?? 0;
+    const onset = new Date(transition.getTime() + offsetFrom * MILLISECONDS_PER_MINUTE);
+    const day = onset.getUTCDate();
+    const daysInMonth = new Date(Date.UTC(onset.getUTCFullYear(), onset.getUTCMonth() + 1, 0)).getUTCDate();
+    const name = getTimezoneAbbreviation(zone, transition);
+
+    const observance: ICalTimeZoneObservance = {
+      type: offsetTo > offsetFrom ? 'daylight' : 'standard',
+      start: {
+        year: onset.getUTCFullYear(), month: onset.getUTCMonth() + 1, day,
+        hour: onset.getUTCHours(), minute: onset.getUTCMinutes(), second: onset.getUTCSeconds()
+      },
+      offsetFrom,
+      offsetTo,
+      recurrenceRule: {
+        frequency: 'yearly',
+        startDate: onset,
+        timeZone: 'UTC',
+        byMonth: [onset.getUTCMonth() + 1],
+        byWeekday: [{ weekday: onset.getUTCDay(), nth: day + 7 > daysInMonth ? -1 : Math.ceil(day / 7) }]
+      }
+    };
+    if (name) observance.name = name;
+    observances.push(observance);
+    transition = getNextDSTTransition(transition, zone);
+  }
+
+  if (observances.length === 0) {
+    const offset = getTimezoneOffset(zone, from) ?? 0;
+    const name = getTimezoneAbbreviation(zone, from);
+    observances.push({ type: 'standard', start: { year: 1970, month: 1, day: 1 }, offsetFrom: offset, offsetTo: offset });
+    if (name) observances[0].name = name;
+  }
+
+  return { id: zone, observances };
+}
@@ -94,6 +94,7 @@ export {
   getMLKDay,
   getPresidentsDay,
   getMemorialDay,
+  getJuneteenth,
   getIndependenceDay,
   getLaborDay,
   getColumbusDay,
@@ -178,9 +179,15 @@ export {
   getTimezoneAbbreviation,
   convertBetweenZones,
   getTimezoneDifferenceHours,
-  isSameTimezone
+  isSameTimezone,
+  zonedTimeToDate,
+  toFloatingTime,
+  fromFloatingTime,
+  startOfFloatingDay
 } from './timezone.js';
 
+export type { WallClockTime, ZoneWorkingHours } from './timezone.js';
+
 // Working hours utilities
 export {
   DEFAULT_WORKING_HOURS,
@@ -188,6 +195,7 @@ export {
   isWorkingTime,
   nextWorkingTime,
   workingTimeBetween,
+  getWorkingPeriods,
   addWorkingHours,
   addWorkingDays,
   subtractWorkingDays,
@@ -298,9 +306,14 @@ export {
   getOccurrencesBetween,
   isRecurrenceDate,
   isValidRecurrenceRule,
-  recurrenceToString
+  recurrenceToString,
+  isRecurrenceSet,
+  parseRRule,
+  toRRuleString
 } from './recurrence.js';
 
+export type { RRuleStringOptions } from './recurrence.js';
+
 // Countdown utilities
 export {
   createCountdown,
@@ -366,6 +379,8 @@ export type {
   DateRange,
   ParseOptions,
   WorkingHoursConfig,
+  WorkingShift,
+  HolidayCalendarRef,
   AgeResult,
   ZonedTime,
   Interval,
@@ -373,6 +388,9 @@ export type {
   RecurrencePattern,
   RecurrenceRule,
   RecurrenceFrequency,
+  NthWeekday,
+  RecurrenceSet,
+  RecurrenceOverride,
   LocaleFormatOptions,
   BusinessConfig,
   DateValidator,
@@ -388,6 +406,7 @@ export type {
   EpochTimestamp,
   SupportedLocale,
   LocaleConfig,
+  CronPhrases,
   RelativeTimeOptions,
   RelativeTimeUnit
 } from './types.js';
@@ -405,7 +424,7 @@ export {
   CRON_PRESETS
 } from './cron.js';
 
-export type { CronParts, ParsedCronField } from './cron.js';
+export type { CronParts, ParsedCronField, CronOptions, CronSearchOptions, CronDescriptionOptions } from './cron.js';
 
 // Fiscal year utilities
 export {
@@ -518,6 +537,7 @@ export {
   getSpainHolidays,
   getChinaHolidays,
   getIndiaHolidays,
+  getUnitedStatesHolidays,
   getJapanHolidays,
   getFranceHolidays,
   getBrazilHolidays,
@@ -530,14 +550,31 @@ export {
   getSwitzerlandHolidays,
   getHolidays,
   isHoliday,
+  isPublicHoliday,
   getHolidayName,
   getNextHoliday,
   getUpcomingHolidays,
-  getSupportedCountries
+  getSupportedCountries,
+  getReligiousHolidays,
+  getSupportedReligiousHolidaySets,
+  getSubdivisionHolidays,
+  getSupportedSubdivisions,
+  registerHolidayCalendar,
+  getHolidayCalendarRules,
+  getHolidaysFromRules
 } from './holidays.js';
 
 // Export types
-export type { CountryCode, Holiday } from './holidays.js';
+export type {
+  CountryCode,
+  Holiday,
+  HolidayOptions,
+  ObservanceRule,
+  ReligiousHolidaySet,
+  HolidayRule,
+  HolidayDateRule,
+  HolidayCalendarOptions
+} from './holidays.js';
 
 // Chain API (fluent interface)
 export { chain, ChainedDate, formatMs } from './chain.js';
@@ -554,6 +591,17 @@ export {
   toJapaneseDate,
   toPersianDate,
   toChineseDate,
+  fromHebrewDate,
+  fromIslamicDate,
+  fromBuddhistDate,
+  fromJapaneseDate,
+  fromPersianDate,
+  fromChineseDate,
+  fromCalendarDate,
+  addCalendarMonths,
+  addCalendarYears,
+  getChineseNewYear,
+  getChineseLeapMonth,
   formatInCalendar,
   getCalendarMonthNames,
   getJapaneseEra,
@@ -577,10 +625,12 @@ export type {
   CalendarDate,
   HebrewDate,
   IslamicDate,
+  IslamicCalendarVariant,
   BuddhistDate,
   JapaneseDate,
   PersianDate,
   ChineseDate,
+  ChineseCalendarOptions,
   CalendarType
 } from './calendars.js';
 
@@ -622,20 +672,42 @@ export {
   getMarketClose,
   getNextMarketOpen,
   getNextMarketClose,
+  getTradingSession,
   getSettlementDate,
   getTradeDateFromSettlement,
+  getSettlementCycle,
   eachTradingDay,
   countTradingDays,
   addTradingDays,
   getOptionsExpiration,
+  adjustBusinessDay,
+  getDayCountFraction,
+  getCouponSchedule,
+  getMarketHolidays,
+  registerMarket,
+  getSupportedMarkets,
   MARKET_HOURS,
   US_MARKET_HOLIDAYS
 } from './finance.js';
 
 export type {
   USMarket,
+  Market,
   MarketHours,
-  OptionsExpirationType
+  MarketDefinition,
+  SettlementCyclePeriod,
+  AssetClass,
+  SettlementOptions,
+  EarlyCloseRule,
+  TradingSession,
+  OptionsExpirationType,
+  DayCountConvention,
+  BusinessDayConvention,
+  CouponFrequency,
+  StubType,
+  DayCountOptions,
+  CouponScheduleOptions,
+  CouponPeriod
 } from './finance.js';
 
 // Scheduling utilities
@@ -644,12 +716,14 @@ export {
   generateSlotsForRange,
   getAvailableSlots,
   findNextAvailable,
+  findMeetingSlots,
   isSlotAvailable,
   findConflicts,
   hasConflict,
   addBuffer,
   removeBuffer,
   expandRecurringAvailability,
+  expandRecurringBookings,
   mergeBookings,
   splitSlot,
   DEFAULT_SCHEDULING_CONFIG
@@ -658,9 +732,36 @@ export {
 export type {
   SchedulingConfig,
   Slot,
-  Booking
+  Booking,
+  Attendee,
+  MeetingRoom,
+  MeetingSlotOptions,
+  MeetingSlot
 } from './scheduling.js';
 
+// iCalendar utilities
+export {
+  parseICalendar,
+  formatICalendar,
+  bookingsToICalendar,
+  recurrenceToICalEvent,
+  parseICalDuration,
+  formatICalDuration
+} from './ical.js';
+
+export type {
+  ICalProperty,
+  ICalAlarm,
+  ICalComponent,
+  ICalEvent,
+  ICalTodo,
+  ICalTimeZoneObservance,
+  ICalTimeZone,
+  ICalCalendar,
+  ICalFormatOptions,
+  BookingICalOptions
+} from './ical.js';
+
 // High-precision utilities
 export {
   createNanosecondTimestamp,
@@ -732,3 +833,16 @@ export type {
   MedicationConfig,
   OnCallSlot
 } from './healthcare.js';
+
+// SLA utilities
+export {
+  getSlaDueDate,
+  getSlaStatus
+} from './sla.js';
+
+export type {
+  SlaPause,
+  SlaOptions,
+  SlaWarning,
+  SlaStatus
+} from './sla.js';
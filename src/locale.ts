@@ -96,6 +96,41 @@ const DEFAULT_LOCALES: Record<string, LocaleConfig> = {
     numbers: {
       decimal: ',',
       thousands: '.'
+    },
+    cron: {
+      pattern: '{second} {time} {dayOfMonth} {month} {dayOfWeek} {year}',
+      everySecond: 'cada segundo',
+      everyNSeconds: 'cada {0} segundos',
+      atSecond: 'en el segundo {0}',
+      everyMinute: 'cada minuto',
+      everyNMinutes: 'cada {0} minutos',
+      atMinuteOfHour: 'en el minuto {0} de cada hora',
+      everyHour: 'cada hora',
+      everyNHours: 'cada {0} horas',
+      everyHourBetween: 'cada hora de {0} en el minuto 0',
+      atTime: 'a las {0}',
+      dailyAtMidnight: 'todos los días a medianoche',
+      weeklyAtMidnight: 'todos los domingos a medianoche',
+      monthlyAtMidnight: 'el primer día de cada mes a medianoche',
+      yearlyAtMidnight: 'cada año el 1 de {0} a medianoche',
+      onDaysOfMonth: 'el día {0} del mes',
+      onSpecialDaysOfMonth: 'el {0} del mes',
+      dayOfMonth: 'día {0}',
+      lastDay: 'último día',
+      lastWeekday: 'último día laborable',
+      daysBeforeLastDay: 'día {0} antes del último',
+      nearestWeekday: 'día laborable más cercano al día {0}',
+      onWeekdays: 'los {0}',
+      onSpecialWeekdays: 'el {0} del mes',
+      nthWeekday: '{0} {1}',
+      lastWeekdayOfMonth: 'último {0}',
+      ordinals: ['', 'primer', 'segundo', 'tercer', 'cuarto', 'quinto'],
+      inMonths: 'en {0}',
+      inYears: 'en {0}',
+      range: '{0} a {1}',
+      listSeparator: ', ',
+      listEnd: ' y ',
+      atStartup: 'al iniciar el sistema'
     }
   },
   'fr': {
@@ -188,6 +223,41 @@ const DEFAULT_LOCALES: Record<string, LocaleConfig> = {
     numbers: {
       decimal: ',',
       thousands: '.'
+    },
+    cron: {
+      pattern: '{dayOfWeek} {dayOfMonth} {month} {year} {second} {time}',
+      everySecond: 'jede Sekunde',
+      everyNSeconds: 'alle {0} Sekunden',
+      atSecond: 'bei Sekunde {0}',
+      everyMinute: 'jede Minute',
+      everyNMinutes: 'alle {0} Minuten',
+      atMinuteOfHour: 'zur Minute {0} jeder Stunde',
+      everyHour: 'jede Stunde',
+      everyNHours: 'alle {0} Stunden',
+      everyHourBetween: 'jede Stunde von {0} zur Minute 0',
+      atTime: 'um {0}',
+      dailyAtMidnight: 'jeden Tag um Mitternacht',
+      weeklyAtMidnight: 'jeden Sonntag um Mitternacht',
+      monthlyAtMidnight: 'am ersten Tag jedes Monats um Mitternacht',
+      yearlyAtMidnight: 'jedes Jahr am 1. {0} um Mitternacht',
+      onDaysOfMonth: 'am Tag {0} des Monats',
+      onSpecialDaysOfMonth: 'am {0} des Monats',
+      dayOfMonth: '{0}.',
+      lastDay: 'letzten Tag',
+      lastWeekday: 'letzten Werktag',
+      daysBeforeLastDay: '{0}. Tag vor dem letzten Tag',
+      nearestWeekday: 'Werktag nächst dem {0}.',
+      onWeekdays: 'jeden {0}',
+      onSpecialWeekdays: 'am {0} des Monats',
+      nthWeekday: '{0} {1}',
+      lastWeekdayOfMonth: 'letzten {0}',
+      ordinals: ['', 'ersten', 'zweiten', 'dritten', 'vierten', 'fünften'],
+      inMonths: 'im {0}',
+      inYears: 'im Jahr {0}',
+      range: '{0} bis {1}',
+      listSeparator: ', ',
+      listEnd: ' und ',
+      atStartup: 'beim Systemstart'
     }
   },
   'zh': {
@@ -280,6 +350,41 @@ const DEFAULT_LOCALES: Record<string, LocaleConfig> = {
     numbers: {
       decimal: '.',
       thousands: ','
+    },
+    cron: {
+      pattern: '{year}{month}{dayOfMonth}{dayOfWeek} {time}{second}',
+      everySecond: '毎秒',
+      everyNSeconds: '{0}秒ごと',
+      atSecond: '{0}秒',
+      everyMinute: '毎分',
+      everyNMinutes: '{0}分ごと',
+      atMinuteOfHour: '毎時{0}分',
+      everyHour: '毎時',
+      everyNHours: '{0}時間ごと',
+      everyHourBetween: '{0}時の毎時0分',
+      atTime: '{0}',
+      dailyAtMidnight: '毎日午前0時',
+      weeklyAtMidnight: '毎週日曜日の午前0時',
+      monthlyAtMidnight: '毎月1日の午前0時',
+      yearlyAtMidnight: '毎年{0}1日の午前0時',
+      onDaysOfMonth: '毎月{0}日',
+      onSpecialDaysOfMonth: '毎月{0}',
+      dayOfMonth: '{0}日',
+      lastDay: '最終日',
+      lastWeekday: '最終平日',
+      daysBeforeLastDay: '最終日の{0}日前',
+      nearestWeekday: '{0}日に最も近い平日',
+      onWeekdays: '毎週{0}',
+      onSpecialWeekdays: '毎月{0}',
+      nthWeekday: '第{0}{1}',
+      lastWeekdayOfMonth: '最終{0}',
+      ordinals: ['', '1', '2', '3', '4', '5'],
+      inMonths: '{0}の',
+      inYears: '{0}年の',
+      range: '{0}から{1}',
+      listSeparator: '、',
+      listEnd: 'と',
+      atStartup: 'システム起動時'
     }
   },
   'fa': {
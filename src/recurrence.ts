@@ -1,16 +1,29 @@
 /**
  * @fileoverview Recurring events and pattern-based date generation utilities
- * Provides RRULE-inspired recurrence patterns for creating repeating events
+ * Implements RFC 5545 RRULE semantics for creating repeating events
  */
 
-import type { DateInput, RecurrenceRule, RecurrenceFrequency } from './types.js';
-import { addTime } from './calculate.js';
+import type { DateInput, RecurrenceRule, RecurrenceSet, RecurrenceFrequency, NthWeekday } from './types.js';
+import {
+  MILLISECONDS_PER_SECOND,
+  MILLISECONDS_PER_MINUTE,
+  MILLISECONDS_PER_HOUR,
+  MILLISECONDS_PER_DAY
+} from './constants.js';
+import { formatOrdinal } from './format.js';
+import { fromFloatingTime, isValidTimeZone, startOfFloatingDay, toFloatingTime } from './timezone.js';
+
+/** Options for converting a recurrence rule to an RRULE string */
+export interface RRuleStringOptions {
+  /** Prefix the output with a `DTSTART` line (default: false) */
+  includeStartDate?: boolean;
+}
 
 /**
  * Creates a recurrence pattern generator
- * @param rule - The recurrence rule defining the pattern
+ * @param rule - The recurrence rule or recurrence set defining the pattern
  * @returns An object with methods to work with the recurrence
- * 
+ *
  * @example
  * ```ts
  * // Daily recurrence
@@ -19,7 +32,7 @@ import { addTime } from './calculate.js';
  *   interval: 1,
  *   startDate: new Date('2024-01-01')
  * });
- * 
+ *
  * // Weekly on Monday and Wednesday
  * const weekly = createRecurrence({
  *   frequency: 'weekly',
@@ -27,7 +40,7 @@ import { addTime } from './calculate.js';
  *   startDate: new Date('2024-01-01'),
  *   byWeekday: [1, 3] // Monday = 1, Wednesday = 3
  * });
- * 
+ *
  * // Monthly on the 15th
  * const monthly = createRecurrence({
  *   frequency: 'monthly',
@@ -35,32 +48,31 @@ import { addTime } from './calculate.js';
  *   startDate: new Date('2024-01-01'),
  *   byMonthDay: [15]
  * });
+ *
+ * // Weekly standup with one cancelled and one moved meeting
+ * const standup = createRecurrence({
+ *   rules: [{ frequency: 'weekly', startDate: new Date('2024-01-01T09:00') }],
+ *   excludeDates: [new Date('2024-01-08T09:00')],
+ *   overrides: [{ originalDate: new Date('2024-01-15T09:00'), date: new Date('2024-01-16T09:00') }]
+ * });
  * ```
  */
-export function createRecurrence(rule: RecurrenceRule) {
-  const startDate = new Date(rule.startDate);
-  
+export function createRecurrence<T extends RecurrenceRule | RecurrenceSet>(rule: T) {
   return {
     rule,
     getNextOccurrence: (afterDate?: DateInput) => getNextOccurrence(rule, afterDate),
-    getOccurrencesBetween: (start: DateInput, end: DateInput, limit?: number) => 
+    getOccurrencesBetween: (start: DateInput, end: DateInput, limit?: number) =>
       getOccurrencesBetween(rule, start, end, limit),
     isRecurrenceDate: (date: DateInput) => isRecurrenceDate(date, rule),
     getAllOccurrences: (limit = 100) => {
       const occurrences: Date[] = [];
-      let current = new Date(startDate.getTime() - 1);
-      
-      while (occurrences.length < limit) {
-        if (rule.until && current > new Date(rule.until)) break;
-        if (rule.count && occurrences.length >= rule.count) break;
-
-        const next = getNextOccurrence(rule, current);
-        if (!next) break;
-        
-        occurrences.push(next);
-        current = new Date(next.getTime() + 1);
+      if (limit <= 0) return occurrences;
+
+      for (const occurrence of expandSource(rule)) {
+        occurrences.push(occurrence);
+        if (occurrences.length >= limit) break;
       }
-      
+
       return occurrences;
     }
   };
@@ -68,10 +80,10 @@ export function createRecurrence(rule: RecurrenceRule) {
 
 /**
  * Gets the next occurrence of a recurring event after a specified date
- * @param rule - The recurrence rule
+ * @param rule - The recurrence rule or recurrence set
  * @param afterDate - Date to find next occurrence after (defaults to now)
  * @returns The next occurrence date, or null if no more occurrences
- * 
+ *
  * @example
  * ```ts
  * const rule = {
@@ -79,62 +91,31 @@ export function createRecurrence(rule: RecurrenceRule) {
  *   interval: 2,
  *   startDate: new Date('2024-01-01')
  * };
- * 
+ *
  * const next = getNextOccurrence(rule, new Date('2024-01-05'));
  * // Returns Date('2024-01-07') - every other day
  * ```
  */
-export function getNextOccurrence(rule: RecurrenceRule, afterDate?: DateInput): Date | null {
+export function getNextOccurrence(rule: RecurrenceRule | RecurrenceSet, afterDate?: DateInput): Date | null {
   const after = afterDate ? new Date(afterDate) : new Date();
-  const start = new Date(rule.startDate);
-  
-  // If afterDate is before start, check if start matches
-  if (after < start) {
-    if (matchesRecurrenceRule(start, rule)) {
-      return new Date(start);
-    }
-  }
-  
-  // Check if we've exceeded count or until date
-  if (rule.until && after >= new Date(rule.until)) {
-    return null;
-  }
-  
-  // Start searching from the day after 'after'
-  // We want strictly greater than after, so start from the next potential occurrence
-  let candidate = addTime(after, 1, 'day');
-  
-  // Preserve time from start date
-  candidate.setHours(start.getHours(), start.getMinutes(), start.getSeconds(), start.getMilliseconds());
-  
-  const maxIterations = 1000; // Prevent infinite loops
-  let iterations = 0;
-  
-  while (iterations < maxIterations) {
-    if (rule.until && candidate > new Date(rule.until)) {
-      return null;
-    }
-    
-    if (matchesRecurrenceRule(candidate, rule)) {
-      return new Date(candidate);
+
+  for (const occurrence of expandSource(rule, after)) {
+    if (occurrence > after) {
+      return occurrence;
     }
-    
-    // Move to next potential date based on frequency
-    candidate = getNextCandidate(candidate, rule);
-    iterations++;
   }
-  
+
   return null;
 }
 
 /**
  * Gets all occurrences of a recurring event between two dates
- * @param rule - The recurrence rule
+ * @param rule - The recurrence rule or recurrence set
  * @param start - Start date of the range
  * @param end - End date of the range
  * @param limit - Maximum number of occurrences to return (default: 1000)
  * @returns Array of dates that match the recurrence pattern
- * 
+ *
  * @example
  * ```ts
  * const rule = {
@@ -143,7 +124,7 @@ export function getNextOccurrence(rule: RecurrenceRule, afterDate?: DateInput):
  *   startDate: new Date('2024-01-01'),
  *   byWeekday: [1, 5] // Monday and Friday
  * };
- * 
+ *
  * const occurrences = getOccurrencesBetween(
  *   rule,
  *   new Date('2024-01-01'),
@@ -153,7 +134,7 @@ export function getNextOccurrence(rule: RecurrenceRule, afterDate?: DateInput):
  * ```
  */
 export function getOccurrencesBetween(
-  rule: RecurrenceRule,
+  rule: RecurrenceRule | RecurrenceSet,
   start: DateInput,
   end: DateInput,
   limit = 1000
@@ -161,39 +142,29 @@ export function getOccurrencesBetween(
   const startDate = new Date(start);
   const endDate = new Date(end);
   const occurrences: Date[] = [];
-  
-  let current = new Date(rule.startDate);
-  
-  // Fast forward to start date if recurrence starts before range
-  if (current < startDate) {
-    current = new Date(startDate);
-  }
-  
-  let iterations = 0;
-  const maxIterations = limit * 10; // Safety limit
-  
-  while (current <= endDate && occurrences.length < limit && iterations < maxIterations) {
-    if (rule.until && current > new Date(rule.until)) {
-      break;
-    }
-    
-    if (matchesRecurrenceRule(current, rule) && current >= startDate) {
-      occurrences.push(new Date(current));
+  if (limit <= 0) return occurrences;
+
+  for (const occurrence of expandSource(rule, startDate)) {
+    if (occurrence > endDate) break;
+
+    if (occurrence >= startDate) {
+      occurrences.push(occurrence);
+      if (occurrences.length >= limit) break;
     }
-    
-    current = getNextCandidate(current, rule);
-    iterations++;
   }
-  
+
   return occurrences;
 }
 
 /**
- * Checks if a specific date matches a recurrence rule
+ * Checks if a specific date matches a recurrence rule or recurrence set
+ *
+ * For daily and coarser frequencies any time on an occurrence's day matches;
+ * hourly, minutely and secondly rules require the exact occurrence time.
  * @param date - The date to check
- * @param rule - The recurrence rule
+ * @param rule - The recurrence rule or recurrence set
  * @returns True if the date matches the recurrence pattern
- * 
+ *
  * @example
  * ```ts
  * const rule = {
@@ -202,29 +173,60 @@ export function getOccurrencesBetween(
  *   startDate: new Date('2024-01-01'),
  *   byWeekday: [1] // Mondays only
  * };
- * 
+ *
  * isRecurrenceDate(new Date('2024-01-08'), rule); // true (Monday)
  * isRecurrenceDate(new Date('2024-01-09'), rule); // false (Tuesday)
  * ```
  */
-export function isRecurrenceDate(date: DateInput, rule: RecurrenceRule): boolean {
+export function isRecurrenceDate(date: DateInput, rule: RecurrenceRule | RecurrenceSet): boolean {
   const checkDate = new Date(date);
-  const start = new Date(rule.startDate);
-  
-  // Must be on or after start date
-  if (checkDate < start) return false;
-  
-  // Must be before until date if specified
-  if (rule.until && checkDate > new Date(rule.until)) return false;
-  
-  return matchesRecurrenceRule(checkDate, rule);
+  const rules = isRecurrenceSet(rule) ? rule.rules : [rule];
+
+  if (!isRecurrenceSet(rule)) {
+    // Must be on or after start date
+    if (checkDate < new Date(rule.startDate)) return false;
+
+    // Must be before until date if specified
+    if (rule.until && checkDate > new Date(rule.until)) return false;
+  }
+
+  if (rules.some(r => SUB_DAILY_FREQUENCIES.includes(r.frequency))) {
+    for (const occurrence of expandSource(rule, checkDate)) {
+      if (occurrence.getTime() === checkDate.getTime()) return true;
+      if (occurrence > checkDate) return false;
+    }
+    return false;
+  }
+
+  // Day boundaries follow the rule's timezone when it has one
+  const timeZone = rules[0]?.timeZone;
+  if (timeZone && !isValidTimeZone(timeZone)) return false;
+  const day = startOfFloatingDay(toFloatingTime(checkDate, timeZone));
+  const dayStart = fromFloatingTime(day, timeZone);
+  const dayEnd = fromFloatingTime(day + MILLISECONDS_PER_DAY, timeZone);
+
+  for (const occurrence of expandSource(rule, dayStart)) {
+    if (occurrence >= dayEnd) return false;
+    if (occurrence >= dayStart) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Checks whether a recurrence definition is a recurrence set rather than a single rule
+ * @param value - The recurrence rule or recurrence set
+ * @returns True if the value is a recurrence set
+ */
+export function isRecurrenceSet(value: RecurrenceRule | RecurrenceSet): value is RecurrenceSet {
+  return Array.isArray((value as RecurrenceSet).rules);
 }
 
 /**
  * Validates a recurrence rule
  * @param rule - The recurrence rule to validate
  * @returns True if the rule is valid
- * 
+ *
  * @example
  * ```ts
  * isValidRecurrenceRule({
@@ -232,7 +234,7 @@ export function isRecurrenceDate(date: DateInput, rule: RecurrenceRule): boolean
  *   interval: 1,
  *   startDate: new Date()
  * }); // true
- * 
+ *
  * isValidRecurrenceRule({
  *   frequency: 'daily',
  *   interval: 0, // Invalid
@@ -242,35 +244,47 @@ export function isRecurrenceDate(date: DateInput, rule: RecurrenceRule): boolean
  */
 export function isValidRecurrenceRule(rule: Partial<RecurrenceRule>): boolean {
   if (!rule.frequency || !rule.startDate) return false;
-  
-  const validFrequencies: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
-  if (!validFrequencies.includes(rule.frequency)) return false;
-  
+
+  if (!VALID_FREQUENCIES.includes(rule.frequency)) return false;
+
   if (rule.interval !== undefined && rule.interval < 1) return false;
-  
+
   if (rule.count !== undefined && rule.count < 1) return false;
-  
+
   if (rule.until) {
     const until = new Date(rule.until);
     const start = new Date(rule.startDate);
     if (until <= start) return false;
   }
-  
+
   if (rule.byWeekday) {
     if (!Array.isArray(rule.byWeekday)) return false;
-    if (!rule.byWeekday.every((d: number) => d >= 0 && d <= 6)) return false;
+    const validWeekdays = rule.byWeekday.every(entry => {
+      if (typeof entry === 'number') return isInRange(entry, 0, 6);
+      return isInRange(entry.weekday, 0, 6) && isSignedInRange(entry.nth, 53);
+    });
+    if (!validWeekdays) return false;
   }
-  
+
   if (rule.byMonthDay) {
     if (!Array.isArray(rule.byMonthDay)) return false;
-    if (!rule.byMonthDay.every((d: number) => d >= 1 && d <= 31)) return false;
+    if (!rule.byMonthDay.every(d => isSignedInRange(d, 31))) return false;
   }
-  
+
   if (rule.byMonth) {
     if (!Array.isArray(rule.byMonth)) return false;
-    if (!rule.byMonth.every((m: number) => m >= 1 && m <= 12)) return false;
+    if (!rule.byMonth.every(m => isInRange(m, 1, 12))) return false;
   }
-  
+
+  if (rule.byYearDay && !rule.byYearDay.every(d => isSignedInRange(d, 366))) return false;
+  if (rule.byWeekNo && !rule.byWeekNo.every(w => isSignedInRange(w, 53))) return false;
+  if (rule.byHour && !rule.byHour.every(h => isInRange(h, 0, 23))) return false;
+  if (rule.byMinute && !rule.byMinute.every(m => isInRange(m, 0, 59))) return false;
+  if (rule.bySecond && !rule.bySecond.every(s => isInRange(s, 0, 59))) return false;
+  if (rule.bySetPos && !rule.bySetPos.every(p => isSignedInRange(p, 366))) return false;
+  if (rule.weekStart !== undefined && !isInRange(rule.weekStart, 0, 6)) return false;
+  if (rule.timeZone !== undefined && !isValidTimeZone(rule.timeZone)) return false;
+
   return true;
 }
 
@@ -278,7 +292,7 @@ export function isValidRecurrenceRule(rule: Partial<RecurrenceRule>): boolean {
  * Converts a recurrence rule to a human-readable string
  * @param rule - The recurrence rule
  * @returns A human-readable description
- * 
+ *
  * @example
  * ```ts
  * const rule = {
@@ -287,7 +301,7 @@ export function isValidRecurrenceRule(rule: Partial<RecurrenceRule>): boolean {
  *   startDate: new Date('2024-01-01'),
  *   byWeekday: [1, 3, 5]
  * };
- * 
+ *
  * recurrenceToString(rule);
  * // "Every 2 weeks on Monday, Wednesday, Friday"
  * ```
@@ -295,147 +309,751 @@ export function isValidRecurrenceRule(rule: Partial<RecurrenceRule>): boolean {
 export function recurrenceToString(rule: RecurrenceRule): string {
   const interval = rule.interval || 1;
   let result = interval === 1 ? 'Every' : `Every ${interval}`;
-  
+  const weekdays = rule.byWeekday && rule.byWeekday.length > 0
+    ? ` on ${rule.byWeekday.map(describeWeekday).join(', ')}`
+    : '';
+
   switch (rule.frequency) {
+    case 'secondly':
+      result += interval === 1 ? ' second' : ' seconds';
+      break;
+    case 'minutely':
+      result += interval === 1 ? ' minute' : ' minutes';
+      break;
+    case 'hourly':
+      result += interval === 1 ? ' hour' : ' hours';
+      break;
     case 'daily':
       result += interval === 1 ? ' day' : ' days';
       break;
     case 'weekly':
       result += interval === 1 ? ' week' : ' weeks';
-      if (rule.byWeekday && rule.byWeekday.length > 0) {
-        const days = rule.byWeekday.map((d: number) => 
-          ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][d]
-        );
-        result += ` on ${days.join(', ')}`;
-      }
+      result += weekdays;
       break;
     case 'monthly':
       result += interval === 1 ? ' month' : ' months';
       if (rule.byMonthDay && rule.byMonthDay.length > 0) {
         result += ` on day ${rule.byMonthDay.join(', ')}`;
       }
+      result += weekdays;
       break;
     case 'yearly':
       result += interval === 1 ? ' year' : ' years';
       if (rule.byMonth && rule.byMonth.length > 0) {
-        const months = rule.byMonth.map((m: number) => 
-          ['January', 'February', 'March', 'April', 'May', 'June',
-           'July', 'August', 'September', 'October', 'November', 'December'][m - 1]
-        );
+        const months = rule.byMonth.map((m: number) => MONTH_NAMES[m - 1]);
         result += ` in ${months.join(', ')}`;
       }
       if (rule.byMonthDay && rule.byMonthDay.length > 0) {
         result += ` on day ${rule.byMonthDay.join(', ')}`;
       }
+      result += weekdays;
       break;
   }
-  
+
   if (rule.count) {
     result += ` (${rule.count} times)`;
   } else if (rule.until) {
     result += ` until ${new Date(rule.until).toLocaleDateString()}`;
   }
-  
+
   return result;
 }
 
-// Helper functions
+/**
+ * Parses an RFC 5545 RRULE string into a recurrence rule
+ *
+ * Accepts a bare `FREQ=...` value, an `RRULE:` line, or a block that also
+ * contains a `DTSTART` line. A `DTSTART` in the input takes precedence over
+ * the `startDate` argument; one of the two is required. A `TZID` on the
+ * `DTSTART` becomes the rule's `timeZone`.
+ * @param input - RRULE string (optionally with a DTSTART line)
+ * @param startDate - Start date to use when the input has no DTSTART
+ * @returns The parsed rule, or null if the input is invalid
+ *
+ * @example
+ * ```ts
+ * parseRRule('RRULE:FREQ=MONTHLY;BYDAY=-1FR', new Date('2024-01-01'));
+ * // { frequency: 'monthly', startDate: ..., byWeekday: [{ weekday: 5, nth: -1 }] }
+ *
+ * parseRRule('DTSTART:20240101T090000Z\nRRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10');
+ * ```
+ */
+export function parseRRule(input: string, startDate?: DateInput): RecurrenceRule | null {
+  // Unfold continuation lines before splitting
+  const lines = input.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  let start: Date | null = startDate !== undefined ? new Date(startDate) : null;
+  let timeZone: string | undefined;
+  let ruleValue: string | null = null;
 
-function matchesRecurrenceRule(date: Date, rule: RecurrenceRule): boolean {
-  const start = new Date(rule.startDate);
-  start.setHours(0, 0, 0, 0);
-  const checkDate = new Date(date);
-  checkDate.setHours(0, 0, 0, 0);
-  
-  const interval = rule.interval || 1;
-  
-  // Check if date matches the frequency and interval
-  switch (rule.frequency) {
-    case 'daily': {
-      // Calculate days difference more reliably
-      const msPerDay = 1000 * 60 * 60 * 24;
-      const daysDiff = Math.round((checkDate.getTime() - start.getTime()) / msPerDay);
-      if (daysDiff < 0) return false;
-      if (daysDiff % interval !== 0) return false;
-      break;
+  for (const line of lines) {
+    const upper = line.toUpperCase();
+    if (upper.startsWith('DTSTART')) {
+      const separator = line.lastIndexOf(':');
+      const tzid = line.slice(0, separator).match(/;TZID=([^;]+)/i)?.[1];
+      if (tzid && !isValidTimeZone(tzid)) return null;
+      const parsed = parseRRuleDate(line.slice(separator + 1), tzid);
+      if (!parsed) return null;
+      start = parsed;
+      timeZone = tzid;
+    } else if (upper.startsWith('RRULE:')) {
+      ruleValue = line.slice('RRULE:'.length);
+    } else if (upper.startsWith('FREQ=') || upper.includes(';FREQ=')) {
+      ruleValue = line;
     }
-    case 'weekly': {
-      // If byWeekday is specified, check if current day matches
-      if (rule.byWeekday && rule.byWeekday.length > 0) {
-        if (!rule.byWeekday.includes(date.getDay())) {
-          return false;
-        }
-      } else {
-        // No specific weekdays - match same day of week as start
-        if (date.getDay() !== start.getDay()) return false;
+  }
+
+  if (!ruleValue || !start || isNaN(start.getTime())) return null;
+
+  const rule: Partial<RecurrenceRule> = { startDate: start };
+  if (timeZone) rule.timeZone = timeZone;
+
+  for (const part of ruleValue.split(';')) {
+    if (!part) continue;
+    const separator = part.indexOf('=');
+    if (separator === -1) return null;
+    const key = part.slice(0, separator).toUpperCase();
+    const value = part.slice(separator + 1).toUpperCase();
+
+    switch (key) {
+      case 'FREQ':
+        rule.frequency = value.toLowerCase() as RecurrenceFrequency;
+        break;
+      case 'INTERVAL':
+      case 'COUNT': {
+        const parsed = parseRRuleInteger(value);
+        if (parsed === null) return null;
+        rule[key === 'INTERVAL' ? 'interval' : 'count'] = parsed;
+        break;
       }
-      
-      // Check interval
-      const msPerDay = 1000 * 60 * 60 * 24;
-      const daysDiff = Math.round((checkDate.getTime() - start.getTime()) / msPerDay);
-      const weeksDiff = Math.floor(daysDiff / 7);
-      if (weeksDiff % interval !== 0) return false;
-      break;
-    }
-    case 'monthly': {
-      const monthsDiff = 
-        (date.getFullYear() - start.getFullYear()) * 12 + 
-        (date.getMonth() - start.getMonth());
-      if (monthsDiff < 0) return false;
-      if (monthsDiff % interval !== 0) return false;
-      
-      if (rule.byMonthDay && !rule.byMonthDay.includes(date.getDate())) {
-        return false;
+      case 'UNTIL': {
+        const until = parseRRuleDate(value, timeZone);
+        if (!until) return null;
+        rule.until = until;
+        break;
       }
-      break;
-    }
-    case 'yearly': {
-      const yearsDiff = date.getFullYear() - start.getFullYear();
-      if (yearsDiff < 0) return false;
-      if (yearsDiff % interval !== 0) return false;
-      
-      if (rule.byMonth && !rule.byMonth.includes(date.getMonth() + 1)) {
-        return false;
+      case 'WKST': {
+        const weekStart = RRULE_WEEKDAYS.indexOf(value);
+        if (weekStart === -1) return null;
+        rule.weekStart = weekStart;
+        break;
       }
-      
-      if (rule.byMonthDay && !rule.byMonthDay.includes(date.getDate())) {
-        return false;
+      case 'BYDAY': {
+        const weekdays = value.split(',').map(parseRRuleWeekday);
+        if (weekdays.some(entry => entry === null)) return null;
+        rule.byWeekday = weekdays as (number | NthWeekday)[];
+        break;
+      }
+      default: {
+        const field = RRULE_LIST_FIELDS[key];
+        if (field) {
+          const values = value.split(',').map(parseRRuleInteger);
+          if (values.some(v => v === null)) return null;
+          rule[field] = values as number[];
+        } else if (!key.startsWith('X-')) {
+          return null;
+        }
       }
-      break;
     }
   }
-  
-  return true;
+
+  return isValidRecurrenceRule(rule) ? rule as RecurrenceRule : null;
 }
 
-function getNextCandidate(date: Date, rule: RecurrenceRule): Date {
-  const interval = rule.interval || 1;
-  
-  switch (rule.frequency) {
-    case 'daily':
-      // For daily recurrence, always increment by 1 day to check each day
-      // matchesRecurrenceRule will filter based on interval
-      return addTime(date, 1, 'day');
+/**
+ * Converts a recurrence rule to an RFC 5545 RRULE string
+ * @param rule - The recurrence rule
+ * @param options - Output options
+ * @returns The `RRULE:` line, preceded by a `DTSTART` line when requested
+ *   (with a `TZID` parameter for rules that have a `timeZone`)
+ *
+ * @example
+ * ```ts
+ * toRRuleString({
+ *   frequency: 'monthly',
+ *   startDate: new Date('2024-01-01'),
+ *   byWeekday: [{ weekday: 2, nth: 2 }]
+ * });
+ * // "RRULE:FREQ=MONTHLY;BYDAY=2TU"
+ * ```
+ */
+export function toRRuleString(rule: RecurrenceRule, options: RRuleStringOptions = {}): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+
+  if (rule.interval !== undefined && rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.weekStart !== undefined) parts.push(`WKST=${RRULE_WEEKDAYS[rule.weekStart]}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until !== undefined) parts.push(`UNTIL=${formatRRuleDate(new Date(rule.until))}`);
+
+  for (const [key, field] of Object.entries(RRULE_LIST_FIELDS)) {
+    const values = rule[field];
+    if (values && values.length > 0) parts.push(`${key}=${values.join(',')}`);
+    if (key === 'BYMONTHDAY' && rule.byWeekday && rule.byWeekday.length > 0) {
+      parts.push(`BYDAY=${rule.byWeekday.map(formatRRuleWeekday).join(',')}`);
+    }
+  }
+
+  const line = `RRULE:${parts.join(';')}`;
+  if (!options.includeStartDate) return line;
+
+  const start = new Date(rule.startDate);
+  const dtstart = rule.timeZone
+    ? `DTSTART;TZID=${rule.timeZone}:${formatRRuleDate(new Date(toFloatingTime(start, rule.timeZone))).slice(0, -1)}`
+    : `DTSTART:${formatRRuleDate(start)}`;
+  return `${dtstart}\n${line}`;
+}
+
+// Helper functions
+
+const VALID_FREQUENCIES: RecurrenceFrequency[] = [
+  'secondly', 'minutely', 'hourly', 'daily', 'weekly', 'monthly', 'yearly'
+];
+
+const SUB_DAILY_FREQUENCIES: RecurrenceFrequency[] = ['secondly', 'minutely', 'hourly'];
+
+const SUB_DAILY_UNIT_MS: Partial<Record<RecurrenceFrequency, number>> = {
+  secondly: MILLISECONDS_PER_SECOND,
+  minutely: MILLISECONDS_PER_MINUTE,
+  hourly: MILLISECONDS_PER_HOUR
+};
+
+/** One full Gregorian cycle: a day pattern with no match in this span never matches */
+const MAX_SEARCH_YEARS = 400;
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'];
+
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+type ListField = 'byMonth' | 'byWeekNo' | 'byYearDay' | 'byMonthDay' | 'byHour' | 'byMinute' | 'bySecond' | 'bySetPos';
+
+/** Numeric RRULE parts in RFC 5545 output order (BYDAY is emitted after BYMONTHDAY) */
+const RRULE_LIST_FIELDS: Record<string, ListField> = {
+  BYMONTH: 'byMonth',
+  BYWEEKNO: 'byWeekNo',
+  BYYEARDAY: 'byYearDay',
+  BYMONTHDAY: 'byMonthDay',
+  BYHOUR: 'byHour',
+  BYMINUTE: 'byMinute',
+  BYSECOND: 'bySecond',
+  BYSETPOS: 'bySetPos'
+};
+
+/**
+ * Recurrence rule with RFC 5545 defaults applied. All arithmetic happens on
+ * "floating" wall-clock timestamps (UTC fields standing in for local fields),
+ * so day and hour steps are never distorted by DST transitions.
+ */
+interface ExpandedRule {
+  frequency: RecurrenceFrequency;
+  timeZone: string | undefined;
+  interval: number;
+  start: number;
+  until: Date | null;
+  count: number | undefined;
+  weekStart: number;
+  byMonth: number[] | null;
+  byWeekNo: number[] | null;
+  byYearDay: number[] | null;
+  byMonthDay: number[] | null;
+  byWeekday: number[] | null;
+  byNthWeekday: NthWeekday[] | null;
+  byHour: number[] | null;
+  byMinute: number[] | null;
+  bySecond: number[] | null;
+  bySetPos: number[] | null;
+}
+
+function isInRange(value: number, min: number, max: number): boolean {
+  return Number.isInteger(value) && value >= min && value <= max;
+}
+
+function isSignedInRange(value: number, max: number): boolean {
+  return Number.isInteger(value) && value !== 0 && value >= -max && value <= max;
+}
+
+function nonEmpty<T>(values: T[] | undefined): T[] | null {
+  return values && values.length > 0 ? [...values] : null;
+}
+
+function mod(value: number, divisor: number): number {
+  return ((value % divisor) + divisor) % divisor;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function daysInYear(year: number): number {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0 ? 366 : 365;
+}
+
+function dayOfYear(day: number): number {
+  const year = new Date(day).getUTCFullYear();
+  return Math.round((day - Date.UTC(year, 0, 1)) / MILLISECONDS_PER_DAY) + 1;
+}
+
+/**
+ * RFC 5545 week numbering: weeks start on `weekStart` and week 1 is the
+ * first week with at least four days in the year
+ */
+function getWeekNumber(day: number, weekStart: number): { year: number; week: number } {
+  const weekday = new Date(day).getUTCDay();
+  const fourthDay = day + (3 - mod(weekday - weekStart, 7)) * MILLISECONDS_PER_DAY;
+  return {
+    year: new Date(fourthDay).getUTCFullYear(),
+    week: Math.floor((dayOfYear(fourthDay) - 1) / 7) + 1
+  };
+}
+
+function expandRule(rule: RecurrenceRule): ExpandedRule {
+  const start = toFloatingTime(new Date(rule.startDate), rule.timeZone);
+  const startFields = new Date(start);
+  const weekdays = rule.byWeekday ?? [];
+
+  const expanded: ExpandedRule = {
+    frequency: rule.frequency,
+    timeZone: rule.timeZone,
+    interval: rule.interval || 1,
+    start,
+    until: rule.until !== undefined ? new Date(rule.until) : null,
+    count: rule.count,
+    weekStart: rule.weekStart ?? 1,
+    byMonth: nonEmpty(rule.byMonth),
+    byWeekNo: nonEmpty(rule.byWeekNo),
+    byYearDay: nonEmpty(rule.byYearDay),
+    byMonthDay: nonEmpty(rule.byMonthDay),
+    byWeekday: nonEmpty(weekdays.filter((d): d is number => typeof d === 'number')),
+    byNthWeekday: nonEmpty(weekdays.filter((d): d is NthWeekday => typeof d !== 'number')),
+    byHour: nonEmpty(rule.byHour)?.sort((a, b) => a - b) ?? null,
+    byMinute: nonEmpty(rule.byMinute)?.sort((a, b) => a - b) ?? null,
+    bySecond: nonEmpty(rule.bySecond)?.sort((a, b) => a - b) ?? null,
+    bySetPos: nonEmpty(rule.bySetPos)
+  };
+
+  // Without any day-level parts, RFC 5545 takes the missing values from DTSTART
+  const hasDayRule = expanded.byWeekNo || expanded.byYearDay || expanded.byMonthDay ||
+    expanded.byWeekday || expanded.byNthWeekday;
+  if (!hasDayRule) {
+    if (rule.frequency === 'yearly') {
+      expanded.byMonth = expanded.byMonth ?? [startFields.getUTCMonth() + 1];
+      expanded.byMonthDay = [startFields.getUTCDate()];
+    } else if (rule.frequency === 'monthly') {
+      expanded.byMonthDay = [startFields.getUTCDate()];
+    } else if (rule.frequency === 'weekly') {
+      expanded.byWeekday = [startFields.getUTCDay()];
+    }
+  }
+
+  return expanded;
+}
+
+/** Floating start of the first period (sub-daily periods are aligned to their unit) */
+function getPeriodBase(r: ExpandedRule): number {
+  const unit = SUB_DAILY_UNIT_MS[r.frequency];
+  if (unit) return r.start - mod(r.start, unit);
+
+  const day = startOfFloatingDay(r.start);
+  if (r.frequency === 'weekly') {
+    return day - mod(new Date(day).getUTCDay() - r.weekStart, 7) * MILLISECONDS_PER_DAY;
+  }
+  return day;
+}
+
+function getPeriodStart(r: ExpandedRule, base: number, index: number): number {
+  const first = new Date(base);
+  switch (r.frequency) {
+    case 'yearly':
+      return Date.UTC(first.getUTCFullYear() + index * r.interval, 0, 1);
+    case 'monthly':
+      return Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + index * r.interval, 1);
     case 'weekly':
-      // If we have specific weekdays, try next day, otherwise skip full interval
-      if (rule.byWeekday && rule.byWeekday.length > 0) {
-        return addTime(date, 1, 'day');
-      }
-      return addTime(date, interval * 7, 'day');
+      return base + index * r.interval * 7 * MILLISECONDS_PER_DAY;
+    case 'daily':
+      return base + index * r.interval * MILLISECONDS_PER_DAY;
+    default:
+      return base + index * r.interval * SUB_DAILY_UNIT_MS[r.frequency]!;
+  }
+}
+
+/** Index of the last period starting at or before a floating timestamp */
+function getPeriodIndex(r: ExpandedRule, base: number, floating: number): number {
+  const first = new Date(base);
+  const target = new Date(floating);
+  let index: number;
+  switch (r.frequency) {
+    case 'yearly':
+      index = Math.floor((target.getUTCFullYear() - first.getUTCFullYear()) / r.interval);
+      break;
     case 'monthly':
-      // If we have specific days of month, try next day, otherwise skip full interval
-      if (rule.byMonthDay && rule.byMonthDay.length > 0) {
-        return addTime(date, 1, 'day');
+      index = Math.floor((
+        (target.getUTCFullYear() - first.getUTCFullYear()) * 12 +
+        (target.getUTCMonth() - first.getUTCMonth())
+      ) / r.interval);
+      break;
+    case 'weekly':
+      index = Math.floor((floating - base) / (r.interval * 7 * MILLISECONDS_PER_DAY));
+      break;
+    case 'daily':
+      index = Math.floor((floating - base) / (r.interval * MILLISECONDS_PER_DAY));
+      break;
+    default:
+      index = Math.floor((floating - base) / (r.interval * SUB_DAILY_UNIT_MS[r.frequency]!));
+  }
+  return Math.max(0, index);
+}
+
+function matchesNth(nth: number, position: number, total: number): boolean {
+  const fromStart = Math.ceil(position / 7);
+  const fromEnd = Math.ceil((total - position + 1) / 7);
+  return nth === fromStart || nth === -fromEnd;
+}
+
+/**
+ * Checks a floating midnight against the day-level BYxxx parts
+ * @param scope - What ordinal weekdays count within (null treats them as plain weekdays)
+ * @param weekYear - Week-numbering year the day must belong to for BYWEEKNO
+ */
+function matchesDay(r: ExpandedRule, day: number, scope: 'month' | 'year' | null, weekYear?: number): boolean {
+  const d = new Date(day);
+  const year = d.getUTCFullYear();
+  const month = d.getUTCMonth();
+  const date = d.getUTCDate();
+  const weekday = d.getUTCDay();
+
+  if (r.byMonth && !r.byMonth.includes(month + 1)) return false;
+
+  if (r.byWeekNo) {
+    const { year: isoYear, week } = getWeekNumber(day, r.weekStart);
+    if (weekYear !== undefined && isoYear !== weekYear) return false;
+    // December 28th always falls in the last week of its week-numbering year
+    const weeksInYear = getWeekNumber(Date.UTC(isoYear, 11, 28), r.weekStart).week;
+    if (!r.byWeekNo.some(n => n === week || n === week - weeksInYear - 1)) return false;
+  }
+
+  if (r.byYearDay) {
+    const doy = dayOfYear(day);
+    const total = daysInYear(year);
+    if (!r.byYearDay.some(n => n === doy || n === doy - total - 1)) return false;
+  }
+
+  if (r.byMonthDay) {
+    const total = daysInMonth(year, month);
+    if (!r.byMonthDay.some(n => n === date || n === date - total - 1)) return false;
+  }
+
+  if (r.byWeekday || r.byNthWeekday) {
+    const plain = r.byWeekday?.includes(weekday) ?? false;
+    const nth = r.byNthWeekday?.some(entry => {
+      if (entry.weekday !== weekday) return false;
+      if (scope === 'month') return matchesNth(entry.nth, date, daysInMonth(year, month));
+      if (scope === 'year') return matchesNth(entry.nth, dayOfYear(day), daysInYear(year));
+      return true;
+    }) ?? false;
+    if (!plain && !nth) return false;
+  }
+
+  return true;
+}
+
+/** Millisecond offsets within a day produced by BYHOUR/BYMINUTE/BYSECOND (or the start time) */
+function getTimesOfDay(r: ExpandedRule): number[] {
+  const start = new Date(r.start);
+  const hours = r.byHour ?? [start.getUTCHours()];
+  const minutes = r.byMinute ?? [start.getUTCMinutes()];
+  const seconds = r.bySecond ?? [start.getUTCSeconds()];
+  const times: number[] = [];
+
+  for (const hour of hours) {
+    for (const minute of minutes) {
+      for (const second of seconds) {
+        times.push(
+          hour * MILLISECONDS_PER_HOUR + minute * MILLISECONDS_PER_MINUTE +
+          second * MILLISECONDS_PER_SECOND + start.getUTCMilliseconds()
+        );
       }
-      return addTime(date, interval, 'month');
+    }
+  }
+
+  return times;
+}
+
+function applySetPos(candidates: number[], setPos: number[] | null): number[] {
+  if (!setPos) return candidates;
+
+  const picked = new Set<number>();
+  for (const pos of setPos) {
+    const index = pos > 0 ? pos - 1 : candidates.length + pos;
+    if (index >= 0 && index < candidates.length) {
+      picked.add(candidates[index]);
+    }
+  }
+  return [...picked].sort((a, b) => a - b);
+}
+
+/** Sorted floating candidates for one daily-or-coarser period */
+function getDayPeriodCandidates(r: ExpandedRule, periodStart: number): number[] {
+  const first = new Date(periodStart);
+  const year = first.getUTCFullYear();
+  let from = periodStart;
+  let to: number;
+  let scope: 'month' | 'year' | null = null;
+
+  switch (r.frequency) {
     case 'yearly':
-      // If we have specific months or days, try next day, otherwise skip full interval
-      if ((rule.byMonth && rule.byMonth.length > 0) || 
-          (rule.byMonthDay && rule.byMonthDay.length > 0)) {
-        return addTime(date, 1, 'day');
+      scope = r.byMonth ? 'month' : 'year';
+      to = Date.UTC(year, 11, 31);
+      if (r.byWeekNo) {
+        // Week 1 and the last week may spill into the neighbouring years
+        from -= 6 * MILLISECONDS_PER_DAY;
+        to += 6 * MILLISECONDS_PER_DAY;
       }
-      return addTime(date, interval, 'year');
+      break;
+    case 'monthly':
+      scope = 'month';
+      to = Date.UTC(year, first.getUTCMonth() + 1, 0);
+      break;
+    case 'weekly':
+      to = periodStart + 6 * MILLISECONDS_PER_DAY;
+      break;
     default:
-      return addTime(date, 1, 'day');
+      to = periodStart;
+  }
+
+  const times = getTimesOfDay(r);
+  const candidates: number[] = [];
+  for (let day = from; day <= to; day += MILLISECONDS_PER_DAY) {
+    if (!matchesDay(r, day, scope, r.frequency === 'yearly' ? year : undefined)) continue;
+    for (const time of times) {
+      candidates.push(day + time);
+    }
+  }
+
+  return applySetPos(candidates, r.bySetPos);
+}
+
+/**
+ * For sub-daily periods that cannot match, returns the floating time of the
+ * next day, hour or minute worth checking; null when the period may match
+ */
+function getSubDailySkip(r: ExpandedRule, periodStart: number): number | null {
+  const day = startOfFloatingDay(periodStart);
+  if (!matchesDay(r, day, null)) return day + MILLISECONDS_PER_DAY;
+
+  const time = new Date(periodStart);
+  if (r.byHour && !r.byHour.includes(time.getUTCHours())) {
+    return periodStart - mod(periodStart, MILLISECONDS_PER_HOUR) + MILLISECONDS_PER_HOUR;
+  }
+  if (r.frequency !== 'hourly' && r.byMinute && !r.byMinute.includes(time.getUTCMinutes())) {
+    return periodStart - mod(periodStart, MILLISECONDS_PER_MINUTE) + MILLISECONDS_PER_MINUTE;
+  }
+  if (r.frequency === 'secondly' && r.bySecond && !r.bySecond.includes(time.getUTCSeconds())) {
+    return periodStart + MILLISECONDS_PER_SECOND;
   }
+  return null;
+}
+
+/** Sorted floating candidates for one sub-daily period */
+function getSubDailyCandidates(r: ExpandedRule, periodStart: number): number[] {
+  const start = new Date(r.start);
+  const ms = start.getUTCMilliseconds();
+  const candidates: number[] = [];
+
+  if (r.frequency === 'hourly') {
+    for (const minute of r.byMinute ?? [start.getUTCMinutes()]) {
+      for (const second of r.bySecond ?? [start.getUTCSeconds()]) {
+        candidates.push(periodStart + minute * MILLISECONDS_PER_MINUTE + second * MILLISECONDS_PER_SECOND + ms);
+      }
+    }
+  } else if (r.frequency === 'minutely') {
+    for (const second of r.bySecond ?? [start.getUTCSeconds()]) {
+      candidates.push(periodStart + second * MILLISECONDS_PER_SECOND + ms);
+    }
+  } else {
+    candidates.push(periodStart + ms);
+  }
+
+  return applySetPos(candidates, r.bySetPos);
+}
+
+/**
+ * Lazily generates the occurrences of a rule in chronological order,
+ * honoring COUNT and UNTIL
+ * @param from - Hint that occurrences before this date are not needed;
+ *   ignored when the rule has a count, which must be tallied from the start
+ */
+function* expandOccurrences(rule: RecurrenceRule, from?: Date): Generator<Date, void, unknown> {
+  if (rule.timeZone && !isValidTimeZone(rule.timeZone)) return;
+
+  const r = expandRule(rule);
+  const base = getPeriodBase(r);
+  const untilFloating = r.until ? toFloatingTime(r.until, r.timeZone) + 7 * MILLISECONDS_PER_DAY : Infinity;
+  const subDaily = SUB_DAILY_FREQUENCIES.includes(r.frequency);
+  let emitted = 0;
+  let last = NaN;
+
+  // Periods ending well before `from` cannot contribute when nothing needs counting
+  let index = from && r.count === undefined
+    ? getPeriodIndex(r, base, toFloatingTime(from, r.timeZone) - 2 * MILLISECONDS_PER_DAY)
+    : 0;
+  // Give up after a full cycle without any candidate, counted from the last one found
+  let horizon = new Date(getPeriodStart(r, base, index)).getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  while (true) {
+    const periodStart = getPeriodStart(r, base, index);
+    if (new Date(periodStart).getUTCFullYear() > horizon || periodStart > untilFloating) return;
+
+    let candidates: number[];
+    if (subDaily) {
+      const skipTo = getSubDailySkip(r, periodStart);
+      if (skipTo !== null) {
+        const step = r.interval * SUB_DAILY_UNIT_MS[r.frequency]!;
+        index = Math.max(index + 1, Math.ceil((skipTo - base) / step));
+        continue;
+      }
+      candidates = getSubDailyCandidates(r, periodStart);
+    } else {
+      candidates = getDayPeriodCandidates(r, periodStart);
+    }
+    if (candidates.length > 0) horizon = new Date(periodStart).getUTCFullYear() + MAX_SEARCH_YEARS;
+
+    for (const candidate of candidates) {
+      if (candidate < r.start) continue;
+
+      const occurrence = fromFloatingTime(candidate, r.timeZone);
+      if (r.until && occurrence > r.until) return;
+      // Two wall-clock times can land on one moment when a DST gap shifts one of them
+      if (occurrence.getTime() === last) continue;
+      last = occurrence.getTime();
+
+      yield occurrence;
+      emitted++;
+      if (r.count !== undefined && emitted >= r.count) return;
+    }
+
+    index++;
+  }
+}
+
+/** Merges chronologically sorted streams, dropping duplicate times */
+function* mergeOccurrences(streams: Iterator<Date>[]): Generator<Date, void, unknown> {
+  const heads = streams.map(stream => stream.next());
+  let last = NaN;
+
+  while (true) {
+    let earliest = -1;
+    for (let i = 0; i < heads.length; i++) {
+      const head = heads[i];
+      if (head.done) continue;
+      if (earliest === -1 || head.value < (heads[earliest].value as Date)) earliest = i;
+    }
+    if (earliest === -1) return;
+
+    const occurrence = heads[earliest].value as Date;
+    heads[earliest] = streams[earliest].next();
+    if (occurrence.getTime() !== last) {
+      last = occurrence.getTime();
+      yield occurrence;
+    }
+  }
+}
+
+function sortedDates(dates: DateInput[]): Date[] {
+  return dates.map(d => new Date(d)).sort((a, b) => a.getTime() - b.getTime());
+}
+
+/** Rule and RDATE occurrences of a set with EXDATEs removed, before overrides apply */
+function* expandBaseSet(set: RecurrenceSet, from?: Date): Generator<Date, void, unknown> {
+  const excluded = new Set((set.excludeDates ?? []).map(d => new Date(d).getTime()));
+  const streams: Iterator<Date>[] = set.rules.map(rule => expandOccurrences(rule, from));
+  streams.push(sortedDates(set.includeDates ?? [])[Symbol.iterator]());
+
+  for (const occurrence of mergeOccurrences(streams)) {
+    if (!excluded.has(occurrence.getTime())) yield occurrence;
+  }
+}
+
+function* expandRecurrenceSet(set: RecurrenceSet, from?: Date): Generator<Date, void, unknown> {
+  const moves = new Map<number, Date>();
+
+  for (const override of set.overrides ?? []) {
+    const original = new Date(override.originalDate);
+    for (const occurrence of expandBaseSet(set, original)) {
+      if (occurrence.getTime() === original.getTime()) {
+        moves.set(original.getTime(), new Date(override.date));
+      }
+      if (occurrence >= original) break;
+    }
+  }
+
+  if (moves.size === 0) {
+    yield* expandBaseSet(set, from);
+    return;
+  }
+
+  function* remaining(): Generator<Date, void, unknown> {
+    for (const occurrence of expandBaseSet(set, from)) {
+      if (!moves.has(occurrence.getTime())) yield occurrence;
+    }
+  }
+
+  yield* mergeOccurrences([remaining(), sortedDates([...moves.values()])[Symbol.iterator]()]);
+}
+
+function expandSource(source: RecurrenceRule | RecurrenceSet, from?: Date): Generator<Date, void, unknown> {
+  return isRecurrenceSet(source) ? expandRecurrenceSet(source, from) : expandOccurrences(source, from);
+}
+
+function describeWeekday(entry: number | NthWeekday): string {
+  if (typeof entry === 'number') return DAY_NAMES[entry];
+
+  const name = DAY_NAMES[entry.weekday];
+  if (entry.nth === -1) return `the last ${name}`;
+  return entry.nth > 0
+    ? `the ${formatOrdinal(entry.nth)} ${name}`
+    : `the ${formatOrdinal(-entry.nth)} to last ${name}`;
+}
+
+function parseRRuleInteger(value: string): number | null {
+  return /^[+-]?\d+$/.test(value) ? parseInt(value, 10) : null;
+}
+
+function parseRRuleWeekday(value: string): number | NthWeekday | null {
+  const match = value.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+  if (!match) return null;
+
+  const weekday = RRULE_WEEKDAYS.indexOf(match[2]);
+  return match[1] ? { weekday, nth: parseInt(match[1], 10) } : weekday;
+}
+
+function formatRRuleWeekday(entry: number | NthWeekday): string {
+  return typeof entry === 'number'
+    ? RRULE_WEEKDAYS[entry]
+    : `${entry.nth}${RRULE_WEEKDAYS[entry.weekday]}`;
+}
+
+/**
+ * Parses an RFC 5545 DATE or DATE-TIME value: UTC when suffixed with Z,
+ * otherwise wall-clock time in the given zone (or host local time)
+ */
+function parseRRuleDate(value: string, timeZone?: string): Date | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i);
+  if (!match) return null;
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0', utc] = match;
+  const fields = [+year, +month - 1, +day, +hour, +minute, +second] as const;
+  let date: Date;
+  if (utc) {
+    date = new Date(Date.UTC(...fields));
+  } else if (timeZone) {
+    date = fromFloatingTime(Date.UTC(...fields), timeZone);
+  } else {
+    date = new Date(...fields);
+  }
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function formatRRuleDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
 }
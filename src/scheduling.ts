@@ -3,9 +3,9 @@
  * Provides slot generation, availability checking, and conflict detection
  */
 
-import type { DateRange, DateInput, WorkingHoursConfig, RecurrenceRule } from './types.js';
+import type { DateRange, DateInput, WorkingHoursConfig, RecurrenceRule, RecurrenceSet } from './types.js';
 import { dateRangeOverlap, mergeDateRanges, findGaps } from './dateRange.js';
-import { isWorkingDay, isWorkingTime, DEFAULT_WORKING_HOURS, getWorkDayStart, getWorkDayEnd } from './workingHours.js';
+import { isWorkingDay, isWorkingTime, DEFAULT_WORKING_HOURS, getWorkDayStart, getWorkDayEnd, getWorkingPeriods } from './workingHours.js';
 import { getOccurrencesBetween } from './recurrence.js';
 
 /** Configuration for scheduling operations */
@@ -16,8 +16,12 @@ export interface SchedulingConfig {
   bufferMinutes?: number;
   /** Default slot duration in minutes */
   slotDuration?: number;
-  /** Holidays to exclude */
+  /** Days off, taken as whole days in the working hours' zone on each date's local calendar day */
   holidays?: Date[];
+  /** Other people who must be free, used by findNextAvailable() */
+  attendees?: Attendee[];
+  /** Rooms to choose from, one of which must be free, used by findNextAvailable() */
+  rooms?: MeetingRoom[];
 }
 
 /** A time slot with availability status */
@@ -33,6 +37,58 @@ export interface Booking extends DateRange {
   metadata?: Record<string, unknown>;
 }
 
+/** A person whose calendar is checked when finding meeting slots */
+export interface Attendee {
+  id: string;
+  /** Working hours in the attendee's own `timeZone` (default: DEFAULT_WORKING_HOURS) */
+  workingHours?: WorkingHoursConfig;
+  /** Existing bookings */
+  bookings?: Booking[];
+  /** Days off, taken as whole days in the attendee's zone on each date's local calendar day */
+  holidays?: Date[];
+  /** Optional attendees do not block a slot but rank it higher when free */
+  optional?: boolean;
+}
+
+/** A room that can host a meeting */
+export interface MeetingRoom {
+  id: string;
+  /** Bookable hours (default: any time) */
+  workingHours?: WorkingHoursConfig;
+  /** Existing bookings */
+  bookings?: Booking[];
+}
+
+/** Options for finding meeting slots */
+export interface MeetingSlotOptions {
+  /** Required and optional attendees */
+  attendees: Attendee[];
+  /** Rooms to choose from, one of which must be free (default: no room needed) */
+  rooms?: MeetingRoom[];
+  /** End of the search window (default: 30 days after the start) */
+  before?: DateInput;
+  /** Spacing of candidate start times in minutes, aligned to UTC (default: 15) */
+  stepMinutes?: number;
+  /** Free time kept around existing bookings in minutes (default: 0) */
+  bufferMinutes?: number;
+  /** Maximum number of slots returned (default: 10) */
+  limit?: number;
+  /** Rank by optional attendance and then start time, or by start time only (default: 'attendance') */
+  sortBy?: 'attendance' | 'start';
+}
+
+/** A candidate meeting slot */
+export interface MeetingSlot extends DateRange {
+  /** Ids of the attendees who are free */
+  attendees: string[];
+  /** Ids of the optional attendees who are busy */
+  unavailable: string[];
+  /** Id of the first free room, in the order given */
+  room?: string;
+  /** Share of attendees who are free (0-1) */
+  score: number;
+}
+
 /** Default scheduling configuration */
 export const DEFAULT_SCHEDULING_CONFIG: SchedulingConfig = {
   workingHours: DEFAULT_WORKING_HOURS,
@@ -49,12 +105,24 @@ function toDate(input: DateInput): Date {
   return new Date(input);
 }
 
+/** Time ranges as sorted, merged [start, end) milliseconds */
+type Periods = Array<[number, number]>;
+
+/** 'YYYY-MM-DD' of a date's local calendar day, as `WorkingHoursConfig.exceptions` are keyed */
+function getLocalDateKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
 /**
- * Check if a date is a holiday
+ * Working hours with each holiday's local calendar day off, taken as a whole day in
+ * the working hours' zone
  */
-function isHoliday(date: Date, holidays: Date[]): boolean {
-  const dateStr = date.toISOString().split('T')[0];
-  return holidays.some(h => h.toISOString().split('T')[0] === dateStr);
+function withHolidays(workingHours: WorkingHoursConfig, holidays: Date[] = []): WorkingHoursConfig {
+  if (holidays.length === 0) return workingHours;
+  const exceptions = { ...workingHours.exceptions };
+  for (const holiday of holidays) exceptions[getLocalDateKey(holiday)] = [];
+  return { ...workingHours, exceptions };
 }
 
 /**
@@ -72,11 +140,10 @@ function isHoliday(date: Date, holidays: Date[]): boolean {
 export function generateSlots(date: DateInput, config: SchedulingConfig = {}): Slot[] {
   const d = toDate(date);
   const cfg = { ...DEFAULT_SCHEDULING_CONFIG, ...config };
-  const workingHours = cfg.workingHours ?? DEFAULT_WORKING_HOURS;
+  const workingHours = withHolidays(cfg.workingHours ?? DEFAULT_WORKING_HOURS, cfg.holidays);
 
-  // Check if it's a working day and not a holiday
+  // Holidays are days off in the working hours
   if (!isWorkingDay(d, workingHours)) return [];
-  if (cfg.holidays && isHoliday(d, cfg.holidays)) return [];
 
   const slots: Slot[] = [];
   const slotDuration = cfg.slotDuration ?? 30;
@@ -183,10 +250,20 @@ export function getAvailableSlots(
  * @param config - Scheduling configuration
  * @returns Next available slot or null if none found within 30 days
  *
+ * With `config.attendees` or `config.rooms`, the slot must also suit every required
+ * attendee and one room, as found by findMeetingSlots() with these bookings, working
+ * hours and holidays as the organizer's.
+ *
  * @example
  * ```ts
  * const nextSlot = findNextAvailable(new Date(), bookings, 60);
  * if (nextSlot) console.log(`Next 1-hour slot at ${nextSlot.start}`);
+ *
+ * // Next hour that also suits Ana in Berlin and a free room
+ * findNextAvailable(new Date(), bookings, 60, {
+ *   attendees: [{ id: 'ana', workingHours: { ...DEFAULT_WORKING_HOURS, timeZone: 'Europe/Berlin' } }],
+ *   rooms: [{ id: 'room-1', bookings: roomBookings }]
+ * });
  * ```
  */
 export function findNextAvailable(
@@ -198,6 +275,18 @@ export function findNextAvailable(
   const startDate = toDate(after);
   const cfg = { ...DEFAULT_SCHEDULING_CONFIG, ...config, slotDuration: duration };
 
+  if (cfg.attendees?.length || cfg.rooms?.length) {
+    const organizer: Attendee = { id: 'organizer', workingHours: cfg.workingHours, bookings, holidays: cfg.holidays };
+    const [slot] = findMeetingSlots(startDate, duration, {
+      attendees: [organizer, ...(cfg.attendees ?? [])],
+      rooms: cfg.rooms,
+      bufferMinutes: cfg.bufferMinutes,
+      sortBy: 'start',
+      limit: 1
+    });
+    return slot ? { start: slot.start, end: slot.end, available: true } : null;
+  }
+
   // Search up to 30 days ahead
   for (let dayOffset = 0; dayOffset < 30; dayOffset++) {
     const checkDate = new Date(startDate);
@@ -215,6 +304,163 @@ export function findNextAvailable(
   return null;
 }
 
+function toPeriods(ranges: DateRange[], bufferMs = 0): Periods {
+  const periods = ranges
+    .map((range): [number, number] => [range.start.getTime() - bufferMs, range.end.getTime() + bufferMs])
+    .filter(([start, end]) => end > start)
+    .sort((a, b) => a[0] - b[0]);
+
+  const merged: Periods = [];
+  for (const period of periods) {
+    const last = merged[merged.length - 1];
+    if (last && period[0] <= last[1]) {
+      last[1] = Math.max(last[1], period[1]);
+    } else {
+      merged.push(period);
+    }
+  }
+  return merged;
+}
+
+function subtractPeriods(periods: Periods, busy: Periods): Periods {
+  return periods.flatMap(([start, end]) => {
+    const parts: Periods = [];
+    let cursor = start;
+    for (const [busyStart, busyEnd] of busy) {
+      if (busyEnd <= cursor || busyStart >= end) continue;
+      if (busyStart > cursor) parts.push([cursor, busyStart]);
+      cursor = Math.max(cursor, busyEnd);
+    }
+    if (cursor < end) parts.push([cursor, end]);
+    return parts;
+  });
+}
+
+function intersectPeriods(a: Periods, b: Periods): Periods {
+  const result: Periods = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const start = Math.max(a[i][0], b[j][0]);
+    const end = Math.min(a[i][1], b[j][1]);
+    if (end > start) result.push([start, end]);
+    if (a[i][1] < b[j][1]) i++;
+    else j++;
+  }
+  return result;
+}
+
+function coversPeriod(periods: Periods, start: number, end: number): boolean {
+  return periods.some(([periodStart, periodEnd]) => periodStart <= start && periodEnd >= end);
+}
+
+/**
+ * Free time of a calendar within a window: its working periods, or the whole
+ * window without working hours, less holidays and buffered bookings
+ */
+function getFreePeriods(
+  window: DateRange,
+  workingHours: WorkingHoursConfig | undefined,
+  bookings: Booking[] = [],
+  holidays: Date[] = [],
+  bufferMs = 0
+): Periods {
+  let open: Periods;
+  if (workingHours) {
+    open = toPeriods(getWorkingPeriods(window.start, window.end, withHolidays(workingHours, holidays)));
+  } else {
+    open = [[window.start.getTime(), window.end.getTime()]];
+  }
+  return subtractPeriods(open, toPeriods(bookings, bufferMs));
+}
+
+/**
+ * Finds meeting slots where every required attendee and one room are free, ranked by
+ * how many optional attendees can join
+ * @param after - Start searching at this date
+ * @param duration - Meeting duration in minutes
+ * @param options - Attendees, rooms and search options
+ * @returns Candidate slots, best first
+ *
+ * Each attendee's working hours, bookings and holidays are checked in their own
+ * `workingHours.timeZone`, including the public holidays of its holiday calendars.
+ *
+ * @example
+ * ```ts
+ * const slots = findMeetingSlots(new Date('2024-01-15'), 60, {
+ *   attendees: [
+ *     { id: 'ana', workingHours: { ...DEFAULT_WORKING_HOURS, timeZone: 'Europe/Berlin' }, bookings: anaBookings },
+ *     { id: 'bo', workingHours: { ...DEFAULT_WORKING_HOURS, timeZone: 'America/New_York' } },
+ *     { id: 'cy', optional: true, bookings: cyBookings }
+ *   ],
+ *   rooms: [{ id: 'room-1', bookings: roomBookings }, { id: 'room-2' }],
+ *   limit: 3
+ * });
+ * // [{ start, end, attendees: ['ana', 'bo', 'cy'], unavailable: [], room: 'room-1', score: 1 }, ...]
+ * ```
+ */
+export function findMeetingSlots(after: DateInput, duration: number, options: MeetingSlotOptions): MeetingSlot[] {
+  const start = toDate(after);
+  const window: DateRange = {
+    start,
+    end: options.before !== undefined ? toDate(options.before) : new Date(start.getTime() + 30 * 24 * 60 * 60 * 1000)
+  };
+  const durationMs = duration * 60 * 1000;
+  const stepMs = (options.stepMinutes ?? 15) * 60 * 1000;
+  const bufferMs = (options.bufferMinutes ?? 0) * 60 * 1000;
+  const limit = options.limit ?? 10;
+  const byStart = options.sortBy === 'start';
+  if (durationMs <= 0 || stepMs <= 0 || window.end <= window.start) return [];
+
+  const attendees = options.attendees.map(attendee => ({
+    attendee,
+    free: getFreePeriods(
+      window,
+      attendee.workingHours ?? DEFAULT_WORKING_HOURS,
+      attendee.bookings,
+      attendee.holidays,
+      bufferMs
+    )
+  }));
+  const rooms = (options.rooms ?? []).map(room => ({
+    room,
+    free: getFreePeriods(window, room.workingHours, room.bookings, [], bufferMs)
+  }));
+
+  let candidates: Periods = [[window.start.getTime(), window.end.getTime()]];
+  for (const { attendee, free } of attendees) {
+    if (!attendee.optional) candidates = intersectPeriods(candidates, free);
+  }
+
+  const slots: MeetingSlot[] = [];
+  for (const [periodStart, periodEnd] of candidates) {
+    for (let slotStart = Math.ceil(periodStart / stepMs) * stepMs; slotStart + durationMs <= periodEnd; slotStart += stepMs) {
+      const slotEnd = slotStart + durationMs;
+      const room = rooms.find(({ free }) => coversPeriod(free, slotStart, slotEnd));
+      if (rooms.length > 0 && !room) continue;
+
+      const available = attendees.filter(({ free }) => coversPeriod(free, slotStart, slotEnd));
+      slots.push({
+        start: new Date(slotStart),
+        end: new Date(slotEnd),
+        attendees: available.map(({ attendee }) => attendee.id),
+        unavailable: attendees
+          .filter(({ attendee }) => !available.some(entry => entry.attendee === attendee))
+          .map(({ attendee }) => attendee.id),
+        ...(room ? { room: room.room.id } : {}),
+        score: attendees.length > 0 ? available.length / attendees.length : 1
+      });
+      // Candidates come in start order, so the earliest are already known
+      if (byStart && slots.length >= limit) return slots;
+    }
+  }
+
+  if (!byStart) {
+    slots.sort((a, b) => b.score - a.score || a.start.getTime() - b.start.getTime());
+  }
+  return slots.slice(0, limit);
+}
+
 /**
  * Checks if a slot is available (no conflicts with existing bookings)
  * @param slot - The slot to check
@@ -312,7 +558,7 @@ export function removeBuffer(slot: DateRange, bufferMinutes: number): DateRange
 
 /**
  * Expands recurring availability pattern into concrete slots
- * @param pattern - Recurrence pattern
+ * @param pattern - Recurrence rule, or a recurrence set with added, cancelled or moved days
  * @param range - Date range to expand within
  * @param config - Scheduling configuration
  * @returns Array of slots from the recurring pattern
@@ -329,7 +575,7 @@ export function removeBuffer(slot: DateRange, bufferMinutes: number): DateRange
  * ```
  */
 export function expandRecurringAvailability(
-  pattern: RecurrenceRule,
+  pattern: RecurrenceRule | RecurrenceSet,
   range: DateRange,
   config: SchedulingConfig = {}
 ): Slot[] {
@@ -344,6 +590,39 @@ export function expandRecurringAvailability(
   return slots;
 }
 
+/**
+ * Expands a recurring event into concrete bookings
+ * @param pattern - Recurrence rule, or a recurrence set with added, cancelled or moved occurrences
+ * @param durationMinutes - Length of each occurrence in minutes
+ * @param range - Date range to expand within
+ * @param id - Optional booking id shared by all occurrences
+ * @returns Array of bookings, one per occurrence starting within the range
+ *
+ * @example
+ * ```ts
+ * const standup = {
+ *   rules: [{ frequency: 'daily', startDate: new Date('2024-01-15T09:00'), byWeekday: [1, 2, 3, 4, 5] }],
+ *   excludeDates: [new Date('2024-01-17T09:00')] // cancelled
+ * };
+ * const bookings = expandRecurringBookings(standup, 15, range, 'standup');
+ * getAvailableSlots(new Date('2024-01-17'), bookings); // 09:00 is free again
+ * ```
+ */
+export function expandRecurringBookings(
+  pattern: RecurrenceRule | RecurrenceSet,
+  durationMinutes: number,
+  range: DateRange,
+  id?: string
+): Booking[] {
+  const durationMs = durationMinutes * 60 * 1000;
+
+  return getOccurrencesBetween(pattern, range.start, range.end).map(occurrence => ({
+    start: occurrence,
+    end: new Date(occurrence.getTime() + durationMs),
+    ...(id !== undefined ? { id } : {})
+  }));
+}
+
 /**
  * Merges adjacent or overlapping bookings
  * @param bookings - Array of bookings to merge
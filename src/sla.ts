@@ -0,0 +1,220 @@
+/**
+ * @fileoverview SLA utilities for business-hours deadlines
+ * Provides due dates, elapsed and remaining business time, pauses, breach status and warnings
+ */
+
+import type { DateInput, WorkingHoursConfig } from './types.js';
+import { MILLISECONDS_PER_HOUR } from './constants.js';
+import { DEFAULT_WORKING_HOURS, addWorkingHours, workingTimeBetween } from './workingHours.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A period during which the SLA clock is stopped, e.g. while waiting on the customer.
+ * A pause without an end is still open and lasts until `now`.
+ */
+export interface SlaPause {
+  start: DateInput;
+  end?: DateInput;
+}
+
+/**
+ * Options for SLA calculations
+ */
+export interface SlaOptions {
+  /** Calendar the SLA clock runs on (default: DEFAULT_WORKING_HOURS) */
+  workingHours?: WorkingHoursConfig;
+  /** Periods during which the clock is stopped */
+  pauses?: SlaPause[];
+  /** Progress percentages (0-100) at which to warn, e.g. [50, 75, 90] */
+  warnings?: number[];
+  /** Point in time to evaluate the SLA at (default: now) */
+  now?: DateInput;
+}
+
+/**
+ * A warning threshold and when the SLA reaches it
+ */
+export interface SlaWarning {
+  percentage: number;
+  /** When the threshold is reached, assuming open pauses resume at `now` */
+  date: Date;
+  reached: boolean;
+}
+
+/**
+ * State of an SLA at a point in time. Durations are business time in milliseconds.
+ */
+export interface SlaStatus {
+  startDate: Date;
+  dueDate: Date;
+  target: number;
+  elapsed: number;
+  remaining: number;
+  /** Business time past the due date, 0 while within the SLA */
+  overdue: number;
+  /** Share of the target used, 0-100 */
+  progress: number;
+  isBreached: boolean;
+  isPaused: boolean;
+  warnings: SlaWarning[];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Sorted, merged pause intervals in ms, with open pauses closed at `now` */
+function normalizePauses(pauses: SlaPause[], now: number): Array<[number, number]> {
+  const intervals = pauses
+    .map((pause): [number, number] => [
+      new Date(pause.start).getTime(),
+      pause.end === undefined ? now : new Date(pause.end).getTime()
+    ])
+    .filter(([start, end]) => end > start)
+    .sort((a, b) => a[0] - b[0]);
+
+  const merged: Array<[number, number]> = [];
+  for (const interval of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && interval[0] <= last[1]) {
+      last[1] = Math.max(last[1], interval[1]);
+    } else {
+      merged.push(interval);
+    }
+  }
+  return merged;
+}
+
+/** Date at which `amount` ms of unpaused business time have passed since `start` */
+function resolveDeadline(
+  start: Date,
+  amount: number,
+  pauses: Array<[number, number]>,
+  config: WorkingHoursConfig
+): Date {
+  let cursor = start;
+  let remaining = amount;
+  for (const [pauseStart, pauseEnd] of pauses) {
+    if (pauseEnd <= cursor.getTime()) continue;
+    const available = workingTimeBetween(cursor, new Date(pauseStart), config);
+    if (available >= remaining) break;
+    remaining -= available;
+    cursor = new Date(Math.max(cursor.getTime(), pauseEnd));
+  }
+  return addWorkingHours(cursor, remaining / MILLISECONDS_PER_HOUR, config);
+}
+
+/** Business time between `start` and `end` outside of any pause */
+function unpausedTimeBetween(
+  start: Date,
+  end: Date,
+  pauses: Array<[number, number]>,
+  config: WorkingHoursConfig
+): number {
+  let total = workingTimeBetween(start, end, config);
+  for (const [pauseStart, pauseEnd] of pauses) {
+    const from = Math.max(pauseStart, start.getTime());
+    const to = Math.min(pauseEnd, end.getTime());
+    if (to > from) total -= workingTimeBetween(new Date(from), new Date(to), config);
+  }
+  return total;
+}
+
+function validateTarget(targetHours: number): void {
+  if (!Number.isFinite(targetHours) || targetHours <= 0) {
+    throw new Error(`Invalid SLA target "${targetHours}"`);
+  }
+}
+
+// ============================================================================
+// SLA
+// ============================================================================
+
+/**
+ * Get the due date of an SLA, counting business time only and stopping the clock during pauses
+ * @param startDate - When the SLA clock starts
+ * @param targetHours - Target in business hours
+ * @param options - Working hours calendar, pauses and the evaluation time
+ * @returns The due date; open pauses are assumed to resume at `now`
+ *
+ * @example
+ * ```ts
+ * // Opened Monday 15:00, 4 business hours on 9-17 with a 12-13 break => due Tuesday 11:00
+ * getSlaDueDate(new Date('2024-01-15T15:00'), 4);
+ *
+ * // Waiting on the customer from 16:00 until Tuesday 10:00 => due Tuesday 14:00
+ * getSlaDueDate(new Date('2024-01-15T15:00'), 4, {
+ *   pauses: [{ start: new Date('2024-01-15T16:00'), end: new Date('2024-01-16T10:00') }]
+ * });
+ * ```
+ */
+export function getSlaDueDate(startDate: DateInput, targetHours: number, options: SlaOptions = {}): Date {
+  validateTarget(targetHours);
+  const config = options.workingHours ?? DEFAULT_WORKING_HOURS;
+  const now = new Date(options.now ?? Date.now()).getTime();
+  const pauses = normalizePauses(options.pauses ?? [], now);
+  return resolveDeadline(new Date(startDate), targetHours * MILLISECONDS_PER_HOUR, pauses, config);
+}
+
+/**
+ * Get the state of an SLA: due date, elapsed and remaining business time, breach status and warnings
+ * @param startDate - When the SLA clock starts
+ * @param targetHours - Target in business hours
+ * @param options - Working hours calendar, pauses, warning percentages and the evaluation time
+ * @returns The SLA status at `options.now`
+ *
+ * @example
+ * ```ts
+ * const status = getSlaStatus(ticket.createdAt, 4, {
+ *   workingHours: supportHours,
+ *   pauses: ticket.waitingOnCustomer,
+ *   warnings: [50, 75, 90]
+ * });
+ * status.dueDate;     // Date
+ * status.remaining;   // business ms left
+ * status.isBreached;  // false
+ * status.warnings.filter(w => w.reached); // thresholds already crossed
+ * ```
+ */
+export function getSlaStatus(startDate: DateInput, targetHours: number, options: SlaOptions = {}): SlaStatus {
+  validateTarget(targetHours);
+  const config = options.workingHours ?? DEFAULT_WORKING_HOURS;
+  const now = new Date(options.now ?? Date.now());
+  const start = new Date(startDate);
+  const pauses = normalizePauses(options.pauses ?? [], now.getTime());
+  const target = targetHours * MILLISECONDS_PER_HOUR;
+
+  const elapsed = unpausedTimeBetween(start, now, pauses, config);
+  const progress = Math.max(0, Math.min(100, (elapsed / target) * 100));
+
+  const warnings = [...(options.warnings ?? [])]
+    .sort((a, b) => a - b)
+    .map((percentage): SlaWarning => {
+      if (!Number.isFinite(percentage) || percentage <= 0 || percentage > 100) {
+        throw new Error(`Invalid SLA warning percentage "${percentage}"`);
+      }
+      return {
+        percentage,
+        date: resolveDeadline(start, (target * percentage) / 100, pauses, config),
+        reached: progress >= percentage
+      };
+    });
+
+  return {
+    startDate: start,
+    dueDate: resolveDeadline(start, target, pauses, config),
+    target,
+    elapsed,
+    remaining: Math.max(0, target - elapsed),
+    overdue: Math.max(0, elapsed - target),
+    progress,
+    isBreached: elapsed >= target,
+    isPaused: (options.pauses ?? []).some(pause =>
+      new Date(pause.start) <= now && (pause.end === undefined || now < new Date(pause.end))
+    ),
+    warnings
+  };
+}
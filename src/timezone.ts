@@ -18,6 +18,41 @@ type SweepEvent = {
   delta: number;
 };
 
+/** Wall-clock date and time components in a timezone (month is 1-12) */
+export interface WallClockTime {
+  year: number;
+  month: number;
+  day: number;
+  hour?: number;
+  minute?: number;
+  second?: number;
+  millisecond?: number;
+}
+
+const wallClockFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getWallClockFormatter(zone: string): Intl.DateTimeFormat {
+  let fmt = wallClockFormatters.get(zone);
+  if (!fmt) {
+    // hourCycle h23 avoids the "24:00" midnight that hour12: false produces
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit', hourCycle: 'h23'
+    });
+    wallClockFormatters.set(zone, fmt);
+  }
+  return fmt;
+}
+
+/** Wall-clock time of an instant in a zone, encoded as a UTC timestamp */
+function getWallClockMs(ms: number, zone: string): number {
+  const parts = getWallClockFormatter(zone).formatToParts(new Date(ms));
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+  const wall = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wall + (((ms % 1000) + 1000) % 1000);
+}
+
 function normalizeHourValue(hour: number): number {
   return ((hour % DAY_HOURS) + DAY_HOURS) % DAY_HOURS;
 }
@@ -66,12 +101,7 @@ export function getZonedTime(date: Date, zone: string): ZonedTime | null {
 /** Convert a date (treated as absolute moment) to another zone's clock components */
 export function convertDateToZone(date: Date, zone: string): { year: number; month: number; day: number; hour: number; minute: number; second: number; } | null {
   try {
-    const fmt = new Intl.DateTimeFormat('en-US', {
-      timeZone: zone,
-      year: 'numeric', month: '2-digit', day: '2-digit',
-      hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false
-    });
-    const parts = fmt.formatToParts(date);
+    const parts = getWallClockFormatter(zone).formatToParts(date);
     const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
     return {
       year: get('year'),
@@ -86,6 +116,98 @@ export function convertDateToZone(date: Date, zone: string): { year: number; mon
   }
 }
 
+/**
+ * Convert wall-clock components in a zone to the absolute moment they denote
+ *
+ * A time repeated by a DST fall-back resolves to the `prefer`red instance.
+ * A time skipped by a spring-forward is shifted forward by the length of the
+ * gap, so 02:30 on a day that jumps from 02:00 to 03:00 becomes 03:30.
+ * @param time - wall-clock components (month is 1-12)
+ * @param zone - IANA timezone string
+ * @param prefer - instance to use for ambiguous times (default: 'earlier')
+ * @returns the moment, or null if the zone is invalid
+ */
+export function zonedTimeToDate(
+  time: WallClockTime,
+  zone: string,
+  prefer: 'earlier' | 'later' = 'earlier'
+): Date | null {
+  const local = Date.UTC(
+    time.year, time.month - 1, time.day,
+    time.hour ?? 0, time.minute ?? 0, time.second ?? 0, time.millisecond ?? 0
+  );
+
+  try {
+    // Offsets a day either side bracket any transition affecting this wall time
+    const offsetBefore = getWallClockMs(local - DAY_MS, zone) - (local - DAY_MS);
+    const offsetAfter = getWallClockMs(local + DAY_MS, zone) - (local + DAY_MS);
+    const matches = [...new Set([offsetBefore, offsetAfter])]
+      .map(offset => local - offset)
+      .filter(instant => getWallClockMs(instant, zone) === local)
+      .sort((a, b) => a - b);
+
+    if (matches.length === 0) {
+      return new Date(local - offsetBefore);
+    }
+    return new Date(prefer === 'earlier' ? matches[0] : matches[matches.length - 1]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the wall-clock time of a date in a zone, or in host local time without one, as
+ * floating milliseconds: the UTC timestamp of the same wall-clock fields, so that days
+ * and hours can be counted without DST shifts
+ * @param date - moment to read
+ * @param zone - IANA timezone string (default: host local time)
+ * @throws if the zone is invalid
+ */
+export function toFloatingTime(date: Date, zone?: string): number {
+  if (zone) {
+    const parts = convertDateToZone(date, zone);
+    if (!parts) throw new Error(`Invalid time zone "${zone}"`);
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) +
+      date.getUTCMilliseconds();
+  }
+  return Date.UTC(
+    date.getFullYear(), date.getMonth(), date.getDate(),
+    date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds()
+  );
+}
+
+/**
+ * Get the moment at which a floating wall-clock time occurs in a zone, or in host local time
+ * without one, resolving DST overlaps and gaps as zonedTimeToDate() does
+ * @param ms - floating milliseconds, as from toFloatingTime()
+ * @param zone - IANA timezone string (default: host local time)
+ * @throws if the zone is invalid
+ */
+export function fromFloatingTime(ms: number, zone?: string): Date {
+  const f = new Date(ms);
+  if (zone) {
+    const date = zonedTimeToDate({
+      year: f.getUTCFullYear(), month: f.getUTCMonth() + 1, day: f.getUTCDate(),
+      hour: f.getUTCHours(), minute: f.getUTCMinutes(), second: f.getUTCSeconds(),
+      millisecond: f.getUTCMilliseconds()
+    }, zone);
+    if (!date) throw new Error(`Invalid time zone "${zone}"`);
+    return date;
+  }
+  return new Date(
+    f.getUTCFullYear(), f.getUTCMonth(), f.getUTCDate(),
+    f.getUTCHours(), f.getUTCMinutes(), f.getUTCSeconds(), f.getUTCMilliseconds()
+  );
+}
+
+/**
+ * Get the midnight starting the day of a floating wall-clock time
+ * @param ms - floating milliseconds, as from toFloatingTime()
+ */
+export function startOfFloatingDay(ms: number): number {
+  return Math.floor(ms / DAY_MS) * DAY_MS;
+}
+
 /** Check if provided zone string is a valid IANA zone */
 export function isValidTimeZone(zone: string): boolean {
   try {
@@ -208,33 +330,52 @@ export function getNextDSTTransition(date: Date, zone: string): Date | null {
   return new Date(high);
 }
 
+/** Working hours (0-24) in a timezone, for zones that keep their own hours */
+export interface ZoneWorkingHours {
+  timeZone: string;
+  start?: number;
+  end?: number;
+}
+
 /**
  * Find overlapping working hours between multiple timezones
- * @param zones - array of IANA timezone strings
- * @param workHoursStart - work hours start (0-24)
- * @param workHoursEnd - work hours end (0-24)
+ * @param zones - array of IANA timezone strings, or zones with their own working hours
+ * @param workHoursStart - work hours start (0-24), for zones without their own
+ * @param workHoursEnd - work hours end (0-24), for zones without their own
  * @param date - reference date (default: today)
  * @returns one contiguous UTC overlap window, specifically the longest
  * contiguous overlap slice. A full-day overlap is returned as
  * `{ startUTC: 0, endUTC: 24 }`, and wrapped overlaps are returned with
  * `endUTC` normalized back into the 0-24 range and may be less than `startUTC`
+ *
+ * @example
+ * ```ts
+ * findCommonWorkingHours([
+ *   { timeZone: 'America/New_York', start: 8, end: 16 },
+ *   { timeZone: 'Europe/London', start: 10, end: 18 }
+ * ], 9, 17, new Date('2024-01-15')); // { startUTC: 13, endUTC: 18 }
+ * ```
  */
 export function findCommonWorkingHours(
-  zones: string[],
+  zones: Array<string | ZoneWorkingHours>,
   workHoursStart: number = 9,
   workHoursEnd: number = 17,
   date: Date = new Date()
 ): { startUTC: number; endUTC: number } | null {
   if (zones.length === 0) return null;
 
-  const endHour = workHoursEnd < workHoursStart ? workHoursEnd + DAY_HOURS : workHoursEnd;
-  const duration = endHour - workHoursStart;
-  if (duration <= 0) {
-    return null;
-  }
-
   const sweepEvents: SweepEvent[] = [];
-  for (const zone of zones) {
+  for (const entry of zones) {
+    const zone = typeof entry === 'string' ? entry : entry.timeZone;
+    const start = typeof entry === 'string' ? workHoursStart : entry.start ?? workHoursStart;
+    const end = typeof entry === 'string' ? workHoursEnd : entry.end ?? workHoursEnd;
+
+    const endHour = end < start ? end + DAY_HOURS : end;
+    const duration = endHour - start;
+    if (duration <= 0) {
+      return null;
+    }
+
     const offset = getTimezoneOffset(zone, date);
     if (offset === null) {
       return null;
@@ -245,7 +386,7 @@ export function findCommonWorkingHours(
       continue;
     }
 
-    const startUTC = normalizeHourValue(workHoursStart - (offset / 60));
+    const startUTC = normalizeHourValue(start - (offset / 60));
     pushSweepInterval(sweepEvents, startUTC, startUTC + duration);
     pushSweepInterval(sweepEvents, startUTC + DAY_HOURS, startUTC + DAY_HOURS + duration);
   }
@@ -76,10 +76,34 @@ export type DateTransformer = (date: Date) => Date;
 export interface WorkingHoursConfig {
   /** Working days (0=Sunday, 1=Monday, etc.) */
   workingDays: number[];
-  /** Working hours range */
+  /** Working hours range, in fractional hours */
   hours: { start: number; end: number };
-  /** Break periods during working hours */
+  /** Break periods during working hours, removed from every shift */
   breaks?: { start: number; end: number }[];
+  /** IANA timezone the working days and hours are in (default: host local time) */
+  timeZone?: string;
+  /** Shifts per weekday (0=Sunday), replacing `hours` and `workingDays` for that weekday; an empty list is a day off */
+  schedule?: Partial<Record<number, WorkingShift[]>>;
+  /** Shifts on specific dates ('YYYY-MM-DD' in the config's zone), replacing the weekday's and holidays; an empty list is a day off */
+  exceptions?: Record<string, WorkingShift[]>;
+  /** Country code (e.g. 'DE') whose public holidays are days off */
+  country?: string;
+  /** ISO 3166-2 subdivision of `country` (e.g. 'DE-BY') whose regional holidays are also days off */
+  subdivision?: string;
+  /** Further calendars whose public holidays are days off, for teams spanning several countries */
+  holidayCalendars?: HolidayCalendarRef[];
+}
+
+/** A country's public holidays, optionally with a subdivision's regional holidays */
+export interface HolidayCalendarRef {
+  country: string;
+  subdivision?: string;
+}
+
+/** A working period within a day, in fractional hours (8.5) or 'HH:MM' */
+export interface WorkingShift {
+  start: number | string;
+  end: number | string;
 }
 
 /** Result of age calculation */
@@ -126,9 +150,19 @@ export interface RecurrencePattern {
 }
 
 /** Recurrence frequency types */
-export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+export type RecurrenceFrequency =
+  | 'secondly' | 'minutely' | 'hourly'
+  | 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+/** Weekday with an ordinal position, e.g. `{ weekday: 5, nth: -1 }` for the last Friday (RRULE `-1FR`) */
+export interface NthWeekday {
+  /** Day of week (0=Sunday, 6=Saturday) */
+  weekday: number;
+  /** Position within the month or year (1=first, -1=last) */
+  nth: number;
+}
 
-/** Recurrence rule for repeating events (RRULE-inspired) */
+/** Recurrence rule for repeating events (RFC 5545 RRULE semantics) */
 export interface RecurrenceRule {
   /** Frequency of recurrence */
   frequency: RecurrenceFrequency;
@@ -136,18 +170,57 @@ export interface RecurrenceRule {
   startDate: DateInput;
   /** Interval between occurrences (default: 1) */
   interval?: number;
-  /** Days of week (0=Sunday, 6=Saturday) */
-  byWeekday?: number[];
-  /** Days of month (1-31) */
+  /** Days of week (0=Sunday, 6=Saturday), optionally with an ordinal position */
+  byWeekday?: (number | NthWeekday)[];
+  /** Days of month (1-31, or -1 to -31 counted from the end of the month) */
   byMonthDay?: number[];
   /** Months of year (1-12) */
   byMonth?: number[];
+  /** Days of year (1-366, or -1 to -366 counted from the end of the year) */
+  byYearDay?: number[];
+  /** Week numbers (1-53, or -1 to -53 counted from the end of the year) */
+  byWeekNo?: number[];
+  /** Hours of day (0-23) */
+  byHour?: number[];
+  /** Minutes of hour (0-59) */
+  byMinute?: number[];
+  /** Seconds of minute (0-59) */
+  bySecond?: number[];
+  /** Positions within each period's set of occurrences (1=first, -1=last) */
+  bySetPos?: number[];
+  /** First day of the week for weekly intervals and week numbers (default: 1, Monday) */
+  weekStart?: number;
+  /**
+   * IANA timezone whose wall-clock time occurrences keep (default: host local time).
+   * Times skipped by a DST change move forward by the gap; repeated times use the earlier instance.
+   */
+  timeZone?: string;
   /** Number of occurrences (alternative to until) */
   count?: number;
   /** End date for recurrence (alternative to count) */
   until?: DateInput;
 }
 
+/** A single moved occurrence of a recurrence (iCalendar RECURRENCE-ID) */
+export interface RecurrenceOverride {
+  /** The occurrence as originally generated */
+  originalDate: DateInput;
+  /** When the occurrence takes place instead */
+  date: DateInput;
+}
+
+/** Recurrence rules combined with one-off additions, cancellations and moves */
+export interface RecurrenceSet {
+  /** Rules generating occurrences (RRULE) */
+  rules: RecurrenceRule[];
+  /** Extra one-off occurrences (RDATE) */
+  includeDates?: DateInput[];
+  /** Cancelled occurrences, matched by exact time (EXDATE) */
+  excludeDates?: DateInput[];
+  /** Moved occurrences; ignored when the original is not part of the set */
+  overrides?: RecurrenceOverride[];
+}
+
 /** Locale-specific formatting options */
 export interface LocaleFormatOptions extends FormatOptions {
   /** Calendar system to use */
@@ -166,6 +239,10 @@ export interface BusinessConfig {
   tradingDays?: number[];
   /** Country code for built-in holidays */
   country?: string;
+  /** ISO 3166-2 subdivision of `country` whose regional holidays also count */
+  subdivision?: string;
+  /** Further calendars whose public holidays count, for cross-border businesses */
+  holidayCalendars?: HolidayCalendarRef[];
 }
 
 /** Duration unit types */
@@ -289,6 +366,75 @@ export interface LocaleConfig {
     decimal?: string;
     thousands?: string;
   };
+  /** Phrase templates for `describeCron()`; missing phrases fall back to English */
+  cron?: Partial<CronPhrases>;
+}
+
+/**
+ * Phrase templates for describing cron expressions.
+ * `{0}` and `{1}` are placeholders; the finished description starts with a capital letter.
+ */
+export interface CronPhrases {
+  /** Order of the description parts: `{second}`, `{time}`, `{dayOfMonth}`, `{month}`, `{dayOfWeek}` and `{year}` */
+  pattern: string;
+  everySecond: string;
+  /** `{0}`: step in seconds */
+  everyNSeconds: string;
+  /** `{0}`: second of the minute */
+  atSecond: string;
+  everyMinute: string;
+  /** `{0}`: step in minutes */
+  everyNMinutes: string;
+  /** `{0}`: minute of the hour */
+  atMinuteOfHour: string;
+  everyHour: string;
+  /** `{0}`: step in hours */
+  everyNHours: string;
+  /** `{0}`: hour range such as `9-17` */
+  everyHourBetween: string;
+  /** `{0}`: time as `HH:mm` */
+  atTime: string;
+  /** `0 0 * * *` */
+  dailyAtMidnight: string;
+  /** `0 0 * * 0` */
+  weeklyAtMidnight: string;
+  /** `0 0 1 * *` */
+  monthlyAtMidnight: string;
+  /** `0 0 1 1 *`; `{0}`: name of January */
+  yearlyAtMidnight: string;
+  /** `{0}`: list of days of the month */
+  onDaysOfMonth: string;
+  /** `{0}`: list of `L`/`W` day phrases */
+  onSpecialDaysOfMonth: string;
+  /** `{0}`: day of the month, used among `L`/`W` phrases */
+  dayOfMonth: string;
+  lastDay: string;
+  lastWeekday: string;
+  /** `{0}`: number of days */
+  daysBeforeLastDay: string;
+  /** `{0}`: day of the month */
+  nearestWeekday: string;
+  /** `{0}`: list of weekdays */
+  onWeekdays: string;
+  /** `{0}`: list of `#`/`L` weekday phrases */
+  onSpecialWeekdays: string;
+  /** `{0}`: ordinal, `{1}`: weekday */
+  nthWeekday: string;
+  /** `{0}`: weekday */
+  lastWeekdayOfMonth: string;
+  /** Ordinals for `#1` to `#5`, starting at index 1 */
+  ordinals: string[];
+  /** `{0}`: list of months */
+  inMonths: string;
+  /** `{0}`: list of years */
+  inYears: string;
+  /** `{0}` through `{1}` */
+  range: string;
+  /** Separator between list items */
+  listSeparator: string;
+  /** Separator before the last list item */
+  listEnd: string;
+  atStartup: string;
 }
 
 /** Relative time formatting options */
@@ -1,8 +1,19 @@
 /**
  * Working hours utilities for business time calculations
+ *
+ * Working days and hours are wall-clock times in the config's `timeZone`,
+ * or in the host's local time when it has none. A day's shifts come from its
+ * date exception, else none on public holidays of the config's calendars,
+ * else its weekday schedule, else `hours` on `workingDays`.
  */
 
-import type { WorkingHoursConfig } from './types.js';
+import type { DateRange, HolidayCalendarRef, WorkingHoursConfig } from './types.js';
+import { MILLISECONDS_PER_DAY, MILLISECONDS_PER_HOUR, MILLISECONDS_PER_MINUTE } from './constants.js';
+import { fromFloatingTime, startOfFloatingDay, toFloatingTime } from './timezone.js';
+import { isPublicHoliday } from './holidays.js';
+
+// Longest stretch searched for the next working time
+const MAX_SEARCH_DAYS = 366 * 10;
 
 export const DEFAULT_WORKING_HOURS: WorkingHoursConfig = {
   workingDays: [1,2,3,4,5],
@@ -10,97 +21,157 @@ export const DEFAULT_WORKING_HOURS: WorkingHoursConfig = {
   breaks: [{ start: 12, end: 13 }]
 };
 
-/** Check if a date is a configured working day */
-export function isWorkingDay(date: Date, config: WorkingHoursConfig = DEFAULT_WORKING_HOURS): boolean {
-  return config.workingDays.includes(date.getDay());
+/** Milliseconds from midnight of a time given as fractional hours or an 'HH:MM' string */
+function toDayOffset(time: number | string): number {
+  if (typeof time === 'number') return Math.round(time * MILLISECONDS_PER_HOUR);
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) throw new Error(`Invalid time "${time}"`);
+  return Number(match[1]) * MILLISECONDS_PER_HOUR + Number(match[2]) * MILLISECONDS_PER_MINUTE;
+}
+
+function isFloatingHoliday(day: number, config: WorkingHoursConfig): boolean {
+  const calendars: HolidayCalendarRef[] = [
+    ...(config.country ? [{ country: config.country, subdivision: config.subdivision }] : []),
+    ...(config.holidayCalendars ?? [])
+  ];
+  if (calendars.length === 0) return false;
+  const d = new Date(day);
+  return isPublicHoliday(new Date(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()), calendars);
+}
+
+/**
+ * Working periods of a wall-clock day as [start, end) offsets from midnight, in order, with breaks removed
+ */
+function getDayShifts(day: number, config: WorkingHoursConfig): Array<[number, number]> {
+  const weekday = new Date(day).getUTCDay();
+  const shifts = config.exceptions?.[new Date(day).toISOString().slice(0, 10)]
+    ?? (isFloatingHoliday(day, config) ? [] : undefined)
+    ?? config.schedule?.[weekday]
+    ?? (config.workingDays.includes(weekday) ? [config.hours] : []);
+
+  let periods = shifts
+    .map((shift): [number, number] => [toDayOffset(shift.start), toDayOffset(shift.end)])
+    .filter(([start, end]) => start < end);
+  for (const b of config.breaks ?? []) {
+    const breakStart = toDayOffset(b.start);
+    const breakEnd = toDayOffset(b.end);
+    periods = periods.flatMap(([start, end]): Array<[number, number]> => {
+      if (breakEnd <= start || breakStart >= end) return [[start, end]];
+      const parts: Array<[number, number]> = [];
+      if (breakStart > start) parts.push([start, breakStart]);
+      if (breakEnd < end) parts.push([breakEnd, end]);
+      return parts;
+    });
+  }
+
+  return periods.sort((a, b) => a[0] - b[0]);
 }
 
-/** Convert date to fractional hour */
-function toHourFraction(date: Date): number {
-  return date.getHours() + date.getMinutes() / 60 + date.getSeconds()/3600;
+function isWorkingFloatingDay(day: number, config: WorkingHoursConfig): boolean {
+  return getDayShifts(day, config).length > 0;
+}
+
+/**
+ * Working periods of a wall-clock day as absolute [start, end) milliseconds,
+ * so days shortened or lengthened by DST changes have their real length
+ */
+function getWorkingIntervals(day: number, config: WorkingHoursConfig): Array<[number, number]> {
+  return getDayShifts(day, config).map(([start, end]): [number, number] => [
+    fromFloatingTime(day + start, config.timeZone).getTime(),
+    fromFloatingTime(day + end, config.timeZone).getTime()
+  ]);
+}
+
+/** Check if a date is a configured working day */
+export function isWorkingDay(date: Date, config: WorkingHoursConfig = DEFAULT_WORKING_HOURS): boolean {
+  return isWorkingFloatingDay(startOfFloatingDay(toFloatingTime(date, config.timeZone)), config);
 }
 
 /** Check if inside working hours (excluding breaks) */
 export function isWorkingTime(date: Date, config: WorkingHoursConfig = DEFAULT_WORKING_HOURS): boolean {
-  if (!isWorkingDay(date, config)) return false;
-  const h = toHourFraction(date);
-  if (h < config.hours.start || h >= config.hours.end) return false;
-  if (config.breaks) {
-    for (const b of config.breaks) {
-      if (h >= b.start && h < b.end) return false;
-    }
-  }
-  return true;
+  const t = date.getTime();
+  const day = startOfFloatingDay(toFloatingTime(date, config.timeZone));
+  return getWorkingIntervals(day, config).some(([start, end]) => t >= start && t < end);
 }
 
 /** Move date forward to next working minute */
 export function nextWorkingTime(date: Date, config: WorkingHoursConfig = DEFAULT_WORKING_HOURS): Date {
-  const d = new Date(date);
-  while (!isWorkingTime(d, config)) {
-    d.setMinutes(d.getMinutes() + 1);
+  const t = date.getTime();
+  let day = startOfFloatingDay(toFloatingTime(date, config.timeZone));
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++, day += MILLISECONDS_PER_DAY) {
+    for (const [start, end] of getWorkingIntervals(day, config)) {
+      if (end > t) return new Date(Math.max(start, t));
+    }
   }
-  return d;
-}
-
-/** Clamp a date into working window of its day */
-function clampToWorkingWindow(date: Date, config: WorkingHoursConfig): Date | null {
-  if (!isWorkingDay(date, config)) return null;
-  const start = new Date(date); start.setHours(config.hours.start,0,0,0);
-  const end = new Date(date); end.setHours(config.hours.end,0,0,0);
-  if (date < start) return start;
-  if (date > end) return null;
-  return date;
+  throw new Error('No working time found within ten years');
 }
 
 /** Compute working time (ms) between two dates */
 export function workingTimeBetween(start: Date, end: Date, config: WorkingHoursConfig = DEFAULT_WORKING_HOURS): number {
   if (end <= start) return 0;
+  const from = start.getTime();
+  const to = end.getTime();
+  const lastDay = startOfFloatingDay(toFloatingTime(end, config.timeZone));
   let total = 0;
-  const cursor = new Date(start);
-  while (cursor < end) {
-    if (isWorkingDay(cursor, config)) {
-      const windowStart = new Date(cursor); windowStart.setHours(config.hours.start,0,0,0);
-      const windowEnd = new Date(cursor); windowEnd.setHours(config.hours.end,0,0,0);
-      const rangeStart = cursor > windowStart ? cursor : windowStart;
-      const rangeEnd = end < windowEnd ? end : windowEnd;
-      if (rangeStart < rangeEnd) {
-        let segment = (rangeEnd.getTime() - rangeStart.getTime()) / 1000 / 60 / 60; // hours
-        // subtract breaks
-        if (config.breaks) {
-          for (const b of config.breaks) {
-            const bStart = new Date(rangeStart); bStart.setHours(Math.floor(b.start), (b.start%1)*60,0,0);
-            const bEnd = new Date(rangeStart); bEnd.setHours(Math.floor(b.end), (b.end%1)*60,0,0);
-            const overlapStart = bStart > rangeStart ? bStart : rangeStart;
-            const overlapEnd = bEnd < rangeEnd ? bEnd : rangeEnd;
-            if (overlapStart < overlapEnd) {
-              segment -= (overlapEnd.getTime() - overlapStart.getTime()) / 1000 / 60 / 60;
-            }
-          }
-        }
-        total += segment;
-      }
+  for (let day = startOfFloatingDay(toFloatingTime(start, config.timeZone)); day <= lastDay; day += MILLISECONDS_PER_DAY) {
+    for (const [intervalStart, intervalEnd] of getWorkingIntervals(day, config)) {
+      const overlap = Math.min(to, intervalEnd) - Math.max(from, intervalStart);
+      if (overlap > 0) total += overlap;
     }
-    // advance to next day start
-    cursor.setHours(24,0,0,0);
   }
-  return total * 60 * 60 * 1000; // ms
+  return total;
 }
 
-/** Advance by working hours amount (simple iterative approach) */
+/** List the working periods between two dates, clipped to the range */
+export function getWorkingPeriods(start: Date, end: Date, config: WorkingHoursConfig = DEFAULT_WORKING_HOURS): DateRange[] {
+  if (end <= start) return [];
+  const from = start.getTime();
+  const to = end.getTime();
+  const lastDay = startOfFloatingDay(toFloatingTime(end, config.timeZone));
+  const periods: DateRange[] = [];
+  for (let day = startOfFloatingDay(toFloatingTime(start, config.timeZone)); day <= lastDay; day += MILLISECONDS_PER_DAY) {
+    for (const [intervalStart, intervalEnd] of getWorkingIntervals(day, config)) {
+      const periodStart = Math.max(from, intervalStart);
+      const periodEnd = Math.min(to, intervalEnd);
+      if (periodEnd > periodStart) periods.push({ start: new Date(periodStart), end: new Date(periodEnd) });
+    }
+  }
+  return periods;
+}
+
+/** Advance by working hours amount */
 export function addWorkingHours(start: Date, hours: number, config: WorkingHoursConfig = DEFAULT_WORKING_HOURS): Date {
   if (hours <= 0) return new Date(start);
-  let remaining = hours * 60; // minutes
-  let cursor = new Date(start);
-  cursor = nextWorkingTime(cursor, config);
+  let remaining = hours * MILLISECONDS_PER_HOUR;
+  const t = start.getTime();
+  let day = startOfFloatingDay(toFloatingTime(start, config.timeZone));
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++, day += MILLISECONDS_PER_DAY) {
+    for (const [intervalStart, intervalEnd] of getWorkingIntervals(day, config)) {
+      const from = Math.max(intervalStart, t);
+      if (from >= intervalEnd) continue;
+      if (remaining <= intervalEnd - from) return new Date(from + remaining);
+      remaining -= intervalEnd - from;
+    }
+  }
+  throw new Error('No working time found within ten years');
+}
+
+/**
+ * Move a date by working days in the config's zone, keeping its wall-clock time
+ */
+function shiftWorkingDays(start: Date, days: number, config: WorkingHoursConfig): Date {
+  let floating = toFloatingTime(start, config.timeZone);
+  const direction = days > 0 ? 1 : -1;
+  let remaining = Math.abs(days);
+
   while (remaining > 0) {
-    if (isWorkingTime(cursor, config)) {
-      cursor.setMinutes(cursor.getMinutes() + 1);
-      remaining -= 1;
-    } else {
-      cursor = nextWorkingTime(cursor, config);
+    floating += direction * MILLISECONDS_PER_DAY;
+    if (isWorkingFloatingDay(startOfFloatingDay(floating), config)) {
+      remaining--;
     }
   }
-  return cursor;
+
+  return fromFloatingTime(floating, config.timeZone);
 }
 
 /**
@@ -111,19 +182,7 @@ export function addWorkingHours(start: Date, hours: number, config: WorkingHours
  */
 export function addWorkingDays(start: Date, days: number, config: WorkingHoursConfig = DEFAULT_WORKING_HOURS): Date {
   if (days === 0) return new Date(start);
-  
-  const result = new Date(start);
-  const direction = days > 0 ? 1 : -1;
-  let remaining = Math.abs(days);
-  
-  while (remaining > 0) {
-    result.setDate(result.getDate() + direction);
-    if (isWorkingDay(result, config)) {
-      remaining--;
-    }
-  }
-  
-  return result;
+  return shiftWorkingDays(start, days, config);
 }
 
 /**
@@ -142,14 +201,7 @@ export function subtractWorkingDays(start: Date, days: number, config: WorkingHo
  * @param config - working hours configuration
  */
 export function getNextWorkingDay(date: Date, config: WorkingHoursConfig = DEFAULT_WORKING_HOURS): Date {
-  const result = new Date(date);
-  result.setDate(result.getDate() + 1);
-  
-  while (!isWorkingDay(result, config)) {
-    result.setDate(result.getDate() + 1);
-  }
-  
-  return result;
+  return shiftWorkingDays(date, 1, config);
 }
 
 /**
@@ -158,14 +210,7 @@ export function getNextWorkingDay(date: Date, config: WorkingHoursConfig = DEFAU
  * @param config - working hours configuration
  */
 export function getPreviousWorkingDay(date: Date, config: WorkingHoursConfig = DEFAULT_WORKING_HOURS): Date {
-  const result = new Date(date);
-  result.setDate(result.getDate() - 1);
-  
-  while (!isWorkingDay(result, config)) {
-    result.setDate(result.getDate() - 1);
-  }
-  
-  return result;
+  return shiftWorkingDays(date, -1, config);
 }
 
 /**
@@ -175,17 +220,7 @@ export function getPreviousWorkingDay(date: Date, config: WorkingHoursConfig = D
  * @param config - working hours configuration
  */
 export function getWorkingDaysInMonth(year: number, month: number, config: WorkingHoursConfig = DEFAULT_WORKING_HOURS): number {
-  const daysInMonth = new Date(year, month + 1, 0).getDate();
-  let count = 0;
-  
-  for (let day = 1; day <= daysInMonth; day++) {
-    const date = new Date(year, month, day);
-    if (isWorkingDay(date, config)) {
-      count++;
-    }
-  }
-  
-  return count;
+  return getWorkingDaysInMonthArray(year, month, config).length;
 }
 
 /**
@@ -199,9 +234,9 @@ export function getWorkingDaysInMonthArray(year: number, month: number, config:
   const workingDays: Date[] = [];
   
   for (let day = 1; day <= daysInMonth; day++) {
-    const date = new Date(year, month, day);
-    if (isWorkingDay(date, config)) {
-      workingDays.push(date);
+    const floating = Date.UTC(year, month, day);
+    if (isWorkingFloatingDay(floating, config)) {
+      workingDays.push(fromFloatingTime(floating, config.timeZone));
     }
   }
   
@@ -218,17 +253,12 @@ export function workingDaysBetween(start: Date, end: Date, config: WorkingHoursC
   if (end < start) return 0;
   
   let count = 0;
-  const current = new Date(start);
-  current.setHours(0, 0, 0, 0);
+  const lastDay = startOfFloatingDay(toFloatingTime(end, config.timeZone));
   
-  const endDate = new Date(end);
-  endDate.setHours(0, 0, 0, 0);
-  
-  while (current <= endDate) {
-    if (isWorkingDay(current, config)) {
+  for (let day = startOfFloatingDay(toFloatingTime(start, config.timeZone)); day <= lastDay; day += MILLISECONDS_PER_DAY) {
+    if (isWorkingFloatingDay(day, config)) {
       count++;
     }
-    current.setDate(current.getDate() + 1);
   }
   
   return count;
@@ -240,43 +270,55 @@ export function workingDaysBetween(start: Date, end: Date, config: WorkingHoursC
  * @param config - working hours configuration
  */
 export function isBreakTime(date: Date, config: WorkingHoursConfig = DEFAULT_WORKING_HOURS): boolean {
-  if (!isWorkingDay(date, config)) return false;
-  if (!config.breaks || config.breaks.length === 0) return false;
+  const floating = toFloatingTime(date, config.timeZone);
+  const day = startOfFloatingDay(floating);
+  const shifts = getDayShifts(day, config);
+  if (shifts.length === 0) return false;
   
-  const h = toHourFraction(date);
-  for (const b of config.breaks) {
-    if (h >= b.start && h < b.end) return true;
-  }
-  return false;
+  // Between the day's first start and last end, outside every shift: a break or a split-shift gap
+  const offset = floating - day;
+  return offset >= shifts[0][0] && offset < shifts[shifts.length - 1][1]
+    && !shifts.some(([start, end]) => offset >= start && offset < end);
 }
 
 /**
  * Get the start of the work day for a given date
  * @param date - date to get work start for
  * @param config - working hours configuration
+ * @returns start of the day's first shift, or of the default hours on days off
  */
 export function getWorkDayStart(date: Date, config: WorkingHoursConfig = DEFAULT_WORKING_HOURS): Date {
-  const result = new Date(date);
-  result.setHours(config.hours.start, 0, 0, 0);
-  return result;
+  const day = startOfFloatingDay(toFloatingTime(date, config.timeZone));
+  const shifts = getDayShifts(day, config);
+  const offset = shifts.length > 0 ? shifts[0][0] : toDayOffset(config.hours.start);
+  return fromFloatingTime(day + offset, config.timeZone);
 }
 
 /**
  * Get the end of the work day for a given date
  * @param date - date to get work end for
  * @param config - working hours configuration
+ * @returns end of the day's last shift, or of the default hours on days off
  */
 export function getWorkDayEnd(date: Date, config: WorkingHoursConfig = DEFAULT_WORKING_HOURS): Date {
-  const result = new Date(date);
-  result.setHours(config.hours.end, 0, 0, 0);
-  return result;
+  const day = startOfFloatingDay(toFloatingTime(date, config.timeZone));
+  const shifts = getDayShifts(day, config);
+  const offset = shifts.length > 0 ? shifts[shifts.length - 1][1] : toDayOffset(config.hours.end);
+  return fromFloatingTime(day + offset, config.timeZone);
 }
 
 /**
  * Get the total working hours per day (excluding breaks)
  * @param config - working hours configuration
+ * @param date - day to measure, following its schedule and exceptions and counting
+ *   the hours a DST change adds or removes (optional; without it, the default `hours`)
  */
-export function getWorkingHoursPerDay(config: WorkingHoursConfig = DEFAULT_WORKING_HOURS): number {
+export function getWorkingHoursPerDay(config: WorkingHoursConfig = DEFAULT_WORKING_HOURS, date?: Date): number {
+  if (date) {
+    const day = startOfFloatingDay(toFloatingTime(date, config.timeZone));
+    return getWorkingIntervals(day, config).reduce((sum, [start, end]) => sum + end - start, 0) / MILLISECONDS_PER_HOUR;
+  }
+
   let hours = config.hours.end - config.hours.start;
   
   if (config.breaks) {
@@ -72,6 +72,22 @@ describe("Calculate utilities", () => {
       const end = new Date('2025-09-12'); // Friday
       expect(businessDaysBetween(start, end)).toBe(5);
     });
+
+    it("skips public holidays of the configured country and subdivision", () => {
+      // December 25-26 and January 1 are German holidays
+      expect(businessDaysBetween(new Date(2024, 11, 23), new Date(2025, 0, 3), { country: 'DE' })).toBe(7);
+      // Epiphany is a holiday in Bavaria only
+      expect(businessDaysBetween(new Date(2025, 0, 6), new Date(2025, 0, 10), { country: 'DE' })).toBe(5);
+      expect(businessDaysBetween(new Date(2025, 0, 6), new Date(2025, 0, 10), { country: 'DE', subdivision: 'DE-BY' })).toBe(4);
+    });
+
+    it("combines holiday calendars, custom holidays and trading days", () => {
+      // Early May and Spring bank holidays in the UK, Memorial Day in the US
+      const config = { holidayCalendars: [{ country: 'US' }, { country: 'UK' }] };
+      expect(businessDaysBetween(new Date(2025, 4, 1), new Date(2025, 4, 31), config)).toBe(20);
+      expect(businessDaysBetween(new Date(2025, 4, 1), new Date(2025, 4, 31), { ...config, holidays: [new Date(2025, 4, 2)] })).toBe(19);
+      expect(businessDaysBetween(new Date(2025, 8, 8), new Date(2025, 8, 14), { tradingDays: [0, 1, 2, 3, 4] })).toBe(5);
+    });
   });
 
   describe("isBetween", () => {
@@ -261,6 +261,21 @@ describe("Calendar utilities", () => {
       expect(getUSHolidayName(new Date(2025, 11, 25))).toBe("Christmas Day");
       expect(getUSHolidayName(new Date(2025, 5, 15))).toBeNull();
     });
+
+    it("getUSHolidays returns the holidays observed in past years", () => {
+      const names = (year: number) => getUSHolidays(year).map(h => h.name);
+      expect(names(2020)).not.toContain("Juneteenth");
+      expect(names(2021)).toContain("Juneteenth");
+      expect(names(1985)).not.toContain("Martin Luther King Jr. Day");
+      expect(getUSHolidayName(new Date(1986, 0, 20))).toBe("Martin Luther King Jr. Day");
+      expect(getUSHolidayName(new Date(1970, 1, 22))).toBe("Washington's Birthday");
+      expect(getUSHolidayName(new Date(1970, 4, 30))).toBe("Memorial Day");
+      expect(getUSHolidayName(new Date(1975, 9, 27))).toBe("Veterans Day");
+      expect(isUSHoliday(new Date(1975, 10, 11))).toBe(false);
+      expect(getUSHolidayName(new Date(1940, 10, 21))).toBe("Thanksgiving Day");
+      expect(getUSHolidayName(new Date(1938, 10, 24))).toBe("Thanksgiving Day");
+      expect(getUSHolidayName(new Date(1994, 3, 27))).toBe("National Day of Mourning for Richard Nixon");
+    });
   });
 
   describe("Week functions", () => {
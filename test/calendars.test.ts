@@ -6,6 +6,17 @@ import {
   toJapaneseDate,
   toPersianDate,
   toChineseDate,
+  fromHebrewDate,
+  fromIslamicDate,
+  fromBuddhistDate,
+  fromJapaneseDate,
+  fromPersianDate,
+  fromChineseDate,
+  fromCalendarDate,
+  addCalendarMonths,
+  addCalendarYears,
+  getChineseNewYear,
+  getChineseLeapMonth,
   formatInCalendar,
   getCalendarMonthNames,
   getJapaneseEra,
@@ -74,6 +85,28 @@ describe('Non-Gregorian Calendars', () => {
 
       expect(islamic.month).toBe(9); // Ramadan is 9th month
     });
+
+    it('should follow the Umm al-Qura table', () => {
+      expect(toIslamicDate(new Date(2024, 2, 11))).toMatchObject({ year: 1445, month: 9, day: 1 });
+      expect(toIslamicDate(new Date(2025, 2, 30))).toMatchObject({ year: 1446, month: 10, day: 1 });
+      expect(fromIslamicDate({ year: 1445, month: 12, day: 10 })).toEqual(new Date(2024, 5, 16)); // Eid al-Adha
+    });
+
+    it('should compute the tabular civil and astronomical-epoch calendars', () => {
+      expect(toIslamicDate(new Date(2025, 2, 30), 'islamic-civil')).toMatchObject({ year: 1446, month: 9, day: 30 });
+      expect(toIslamicDate(new Date(2024, 2, 11), 'islamic-tbla')).toMatchObject({
+        year: 1445, month: 9, day: 2, calendar: 'islamic-tbla'
+      });
+      expect(fromIslamicDate({ year: 1446, month: 10, day: 1 }, 'islamic-civil')).toEqual(new Date(2025, 2, 31));
+      expect(fromIslamicDate({ year: 1446, month: 12, day: 30 }, 'islamic-civil')).toBeNull(); // common year
+      expect(fromIslamicDate({ year: 1445, month: 12, day: 30 }, 'islamic-civil')).toEqual(new Date(2024, 6, 7));
+    });
+
+    it('should fall back to the civil calendar outside the Umm al-Qura table', () => {
+      const date = new Date(1800, 0, 1);
+      expect(toIslamicDate(date)).toMatchObject({ year: 1214, month: 8, day: 4 });
+      expect(toIslamicDate(date)).toMatchObject({ ...toIslamicDate(date, 'islamic-civil'), calendar: 'islamic-umalqura' });
+    });
   });
 
   describe('toBuddhistDate', () => {
@@ -118,6 +151,13 @@ describe('Non-Gregorian Calendars', () => {
       expect(persian.month).toBe(1); // Farvardin
       expect(persian.day).toBe(1);
     });
+
+    it('should start the year on the day of the equinox only when it comes before noon in Tehran', () => {
+      // The 2025 equinox was at 12:31 Tehran time, so Nowruz moved to the next day
+      expect(toPersianDate(new Date(2025, 2, 20))).toMatchObject({ year: 1403, month: 12, day: 30 });
+      expect(toPersianDate(new Date(2025, 2, 21))).toMatchObject({ year: 1404, month: 1, day: 1 });
+      expect(toPersianDate(new Date(1925, 2, 21))).toMatchObject({ year: 1304, month: 1, day: 1 });
+    });
   });
 
   describe('toChineseDate', () => {
@@ -131,6 +171,178 @@ describe('Non-Gregorian Calendars', () => {
     });
   });
 
+  describe('Chinese lunisolar calendar', () => {
+    it('should convert dates using the almanac table', () => {
+      expect(toChineseDate(new Date(2024, 1, 10))).toEqual({
+        year: 2024, month: 1, day: 1, calendar: 'chinese', cycleYear: 41, isLeapMonth: false
+      });
+      expect(toChineseDate(new Date(2024, 1, 9))).toMatchObject({ year: 2023, month: 12, day: 30 });
+      expect(toChineseDate(new Date(1900, 0, 31))).toMatchObject({ year: 1900, month: 1, day: 1 });
+    });
+
+    it('should report leap months', () => {
+      expect(toChineseDate(new Date(2023, 2, 22))).toMatchObject({ year: 2023, month: 2, day: 1, isLeapMonth: true });
+      expect(toChineseDate(new Date(2023, 3, 20))).toMatchObject({ year: 2023, month: 3, day: 1, isLeapMonth: false });
+      expect(getChineseLeapMonth(2023)).toBe(2);
+      expect(getChineseLeapMonth(2024)).toBe(0);
+      expect(getChineseLeapMonth(2033)).toBe(11);
+      expect(getChineseLeapMonth(1800)).toBeNull();
+    });
+
+    it('should follow the almanac where new moons fall close to midnight', () => {
+      expect(getChineseNewYear(1954)).toEqual(new Date(1954, 1, 3));
+      expect(getChineseNewYear(2027)).toEqual(new Date(2027, 1, 6));
+      expect(getChineseNewYear(2030)).toEqual(new Date(2030, 1, 3));
+      expect(getChineseLeapMonth(1987)).toBe(6);
+    });
+
+    it('should convert lunar dates back to Gregorian dates', () => {
+      expect(fromChineseDate({ year: 2024, month: 8, day: 15 })).toEqual(new Date(2024, 8, 17));
+      expect(fromChineseDate({ year: 2023, month: 2, day: 1, isLeapMonth: true })).toEqual(new Date(2023, 2, 22));
+      expect(fromChineseDate({ year: 2024, month: 2, day: 1, isLeapMonth: true })).toBeNull();
+      expect(fromChineseDate({ year: 2024, month: 1, day: 30 })).toBeNull(); // 29-day month
+      expect(fromChineseDate({ year: 2101, month: 1, day: 1 })).toBeNull();
+    });
+
+    it('should round-trip every day of a year', () => {
+      for (let day = 0; day < 366; day++) {
+        const date = new Date(2025, 0, 1 + day);
+        expect(fromChineseDate(toChineseDate(date))).toEqual(date);
+      }
+    });
+
+    it('should support the Korean almanac', () => {
+      expect(getChineseNewYear(2027, { country: 'KR' })).toEqual(new Date(2027, 1, 7));
+      expect(getChineseLeapMonth(2012)).toBe(4);
+      expect(getChineseLeapMonth(2012, { country: 'KR' })).toBe(3);
+      expect(toChineseDate(new Date(2027, 1, 6), { country: 'KR' })).toMatchObject({ year: 2026, month: 12, day: 30 });
+    });
+
+    it('should fall back to Intl outside 1900-2100', () => {
+      const chinese = toChineseDate(new Date(1850, 5, 1));
+      expect(chinese.calendar).toBe('chinese');
+      expect(chinese.year).toBe(1850);
+    });
+  });
+
+  describe('converting back to Gregorian', () => {
+    it('should convert Hebrew dates', () => {
+      expect(fromHebrewDate({ year: 5784, month: 8, day: 15 })).toEqual(new Date(2024, 3, 23));
+      expect(fromHebrewDate({ year: 5785, month: 1, day: 1 })).toEqual(new Date(2024, 9, 3));
+      expect(fromHebrewDate({ year: 5784, month: 7, day: 14 })).toEqual(new Date(2024, 2, 24)); // Purim in Adar II
+      expect(fromHebrewDate({ year: 5785, month: 6, day: 14 })).toEqual(new Date(2025, 2, 14)); // Purim in Adar
+    });
+
+    it('should return null for Hebrew dates that do not exist', () => {
+      expect(fromHebrewDate({ year: 5785, month: 7, day: 1 })).toBeNull(); // no Adar II in a common year
+      expect(fromHebrewDate({ year: 5784, month: 7, day: 30 })).toBeNull(); // Adar II has 29 days
+      expect(fromHebrewDate({ year: 5784, month: 14, day: 1 })).toBeNull();
+    });
+
+    it('should convert Islamic dates in each variant', () => {
+      expect(fromIslamicDate({ year: 1445, month: 10, day: 1 })).toEqual(new Date(2024, 3, 10));
+      expect(fromIslamicDate({ year: 1, month: 1, day: 1 }, 'islamic-civil')).toEqual(new Date(622, 6, 19));
+      const civil = toIslamicDate(new Date(2024, 5, 1), 'islamic-civil');
+      expect(fromIslamicDate(civil)).toEqual(new Date(2024, 5, 1));
+    });
+
+    it('should convert Persian dates', () => {
+      expect(fromPersianDate({ year: 1403, month: 1, day: 1 })).toEqual(new Date(2024, 2, 20));
+      expect(fromPersianDate({ year: 1403, month: 12, day: 30 })).toEqual(new Date(2025, 2, 20));
+      expect(fromPersianDate({ year: 1402, month: 12, day: 30 })).toBeNull(); // common year
+    });
+
+    it('should convert Japanese era dates', () => {
+      expect(fromJapaneseDate({ era: 'Reiwa', year: 6, month: 3, day: 25 })).toEqual(new Date(2024, 2, 25));
+      expect(fromJapaneseDate({ era: 'Shōwa', year: 64, month: 1, day: 7 })).toEqual(new Date(1989, 0, 7));
+      expect(fromJapaneseDate({ era: 'showa', year: 64, month: 1, day: 8 })).toBeNull(); // Heisei had begun
+      expect(fromJapaneseDate({ era: 'Heisei', year: 1, month: 1, day: 8 })).toEqual(new Date(1989, 0, 8));
+      expect(fromJapaneseDate({ era: 'Edo', year: 1, month: 1, day: 1 })).toBeNull();
+    });
+
+    it('should convert Buddhist dates', () => {
+      expect(fromBuddhistDate({ year: 2567, month: 2, day: 29 })).toEqual(new Date(2024, 1, 29));
+      expect(fromBuddhistDate({ year: 2567, month: 2, day: 30 })).toBeNull();
+    });
+
+    it('should round-trip every day of a year in each calendar', () => {
+      for (let day = 0; day < 366; day += 1) {
+        const date = new Date(2024, 0, 1 + day);
+        expect(fromHebrewDate(toHebrewDate(date))).toEqual(date);
+        expect(fromIslamicDate(toIslamicDate(date))).toEqual(date);
+        expect(fromPersianDate(toPersianDate(date))).toEqual(date);
+        expect(fromJapaneseDate(toJapaneseDate(date))).toEqual(date);
+        expect(fromBuddhistDate(toBuddhistDate(date))).toEqual(date);
+      }
+    });
+
+    it('should dispatch on the calendar with fromCalendarDate', () => {
+      const date = new Date(2024, 5, 1);
+      expect(fromCalendarDate(toPersianDate(date))).toEqual(date);
+      expect(fromCalendarDate(toChineseDate(date))).toEqual(date);
+      expect(fromCalendarDate({ calendar: 'gregory', year: 2024, month: 6, day: 1 })).toBeNull();
+    });
+  });
+
+  describe('calendar arithmetic', () => {
+    const hebrew = (date: Date | null) => date && toHebrewDate(date);
+
+    it('should step through Adar I and Adar II in Hebrew leap years', () => {
+      const shevat = fromHebrewDate({ year: 5784, month: 5, day: 10 })!;
+      expect(hebrew(addCalendarMonths(shevat, 1, 'hebrew'))).toMatchObject({ year: 5784, month: 6, day: 10 });
+      expect(hebrew(addCalendarMonths(shevat, 2, 'hebrew'))).toMatchObject({ year: 5784, month: 7, day: 10 });
+      expect(hebrew(addCalendarMonths(shevat, 3, 'hebrew'))).toMatchObject({ year: 5784, month: 8, day: 10 });
+    });
+
+    it('should go from Adar to Nisan in Hebrew common years', () => {
+      const shevat = fromHebrewDate({ year: 5785, month: 5, day: 10 })!;
+      expect(hebrew(addCalendarMonths(shevat, 1, 'hebrew'))).toMatchObject({ year: 5785, month: 6, day: 10 });
+      expect(hebrew(addCalendarMonths(shevat, 2, 'hebrew'))).toMatchObject({ year: 5785, month: 8, day: 10 });
+      const nisan = fromHebrewDate({ year: 5785, month: 8, day: 1 })!;
+      expect(hebrew(addCalendarMonths(nisan, -1, 'hebrew'))).toMatchObject({ year: 5785, month: 6, day: 1 });
+    });
+
+    it('should cross Hebrew years and keep the time of day', () => {
+      const elul = new Date(2024, 8, 20, 9, 30); // 17 Elul 5784
+      const result = addCalendarMonths(elul, 1, 'hebrew')!;
+      expect(hebrew(result)).toMatchObject({ year: 5785, month: 1, day: 17 });
+      expect([result.getHours(), result.getMinutes()]).toEqual([9, 30]);
+    });
+
+    it('should map Adar between leap and common years when adding years', () => {
+      const adar = fromHebrewDate({ year: 5783, month: 6, day: 14 })!;
+      expect(hebrew(addCalendarYears(adar, 1, 'hebrew'))).toMatchObject({ year: 5784, month: 7, day: 14 });
+      const adarII = fromHebrewDate({ year: 5784, month: 7, day: 14 })!;
+      expect(hebrew(addCalendarYears(adarII, 1, 'hebrew'))).toMatchObject({ year: 5785, month: 6, day: 14 });
+      const adarI = fromHebrewDate({ year: 5784, month: 6, day: 30 })!;
+      expect(hebrew(addCalendarYears(adarI, 1, 'hebrew'))).toMatchObject({ year: 5785, month: 6, day: 29 });
+    });
+
+    it('should clamp to the end of shorter months', () => {
+      const shahrivar = fromPersianDate({ year: 1403, month: 6, day: 31 })!;
+      expect(toPersianDate(addCalendarMonths(shahrivar, 1, 'persian')!)).toMatchObject({ month: 7, day: 30 });
+      expect(addCalendarMonths(new Date(2024, 0, 31), 1, 'japanese')).toEqual(new Date(2024, 1, 29));
+      expect(addCalendarYears(new Date(2024, 1, 29), 1, 'buddhist')).toEqual(new Date(2025, 1, 28));
+    });
+
+    it('should add Islamic months', () => {
+      const result = addCalendarMonths(new Date(2024, 3, 10), -13, 'islamic-umalqura')!;
+      expect(toIslamicDate(result)).toMatchObject({ year: 1444, month: 9, day: 1 });
+    });
+
+    it('should count Chinese leap months', () => {
+      const second = fromChineseDate({ year: 2023, month: 2, day: 15 })!;
+      expect(toChineseDate(addCalendarMonths(second, 1, 'chinese')!)).toMatchObject({ month: 2, isLeapMonth: true });
+      expect(toChineseDate(addCalendarMonths(second, 2, 'chinese')!)).toMatchObject({ month: 3, isLeapMonth: false });
+
+      const leap = fromChineseDate({ year: 2023, month: 2, day: 15, isLeapMonth: true })!;
+      expect(toChineseDate(addCalendarYears(leap, 1, 'chinese')!)).toMatchObject({
+        year: 2024, month: 2, day: 15, isLeapMonth: false
+      });
+      expect(addCalendarMonths(new Date(2100, 11, 1), 3, 'chinese')).toBeNull();
+    });
+  });
+
   describe('formatInCalendar', () => {
     it('should format date in Hebrew calendar', () => {
       const date = new Date('2024-03-25');
@@ -147,6 +359,12 @@ describe('Non-Gregorian Calendars', () => {
       expect(formatted).toContain('Reiwa');
     });
 
+    it('should format each Islamic variant', () => {
+      const date = new Date(2024, 2, 11);
+      expect(formatInCalendar(date, 'islamic-umalqura')).toContain('Ramadan 1, 1445');
+      expect(formatInCalendar(date, 'islamic-tbla')).toContain('Ramadan 2, 1445');
+    });
+
     it('should respect locale parameter', () => {
       const date = new Date('2024-03-25');
       const enFormatted = formatInCalendar(date, 'buddhist', 'en');
@@ -237,6 +455,11 @@ describe('Non-Gregorian Calendars', () => {
       expect(getIslamicMonthName(9)).toBe('Ramadan');
       expect(getIslamicMonthName(12)).toBe('Dhu al-Hijjah');
     });
+
+    it('should name the month of a date in a variant', () => {
+      expect(getIslamicMonthName(new Date(2025, 2, 30))).toBe('Shawwal');
+      expect(getIslamicMonthName(new Date(2025, 2, 30), 'islamic-civil')).toBe('Ramadan');
+    });
   });
 
   describe('getPersianMonthName', () => {
@@ -251,6 +474,12 @@ describe('Non-Gregorian Calendars', () => {
     it('should identify Persian leap years', () => {
       expect(isPersianLeapYear(1403)).toBe(true);
       expect(isPersianLeapYear(1404)).toBe(false);
+      expect(isPersianLeapYear(1408)).toBe(true);
+    });
+
+    it('should follow the equinox where the 33-year cycle drifts', () => {
+      expect(isPersianLeapYear(1634)).toBe(false);
+      expect(isPersianLeapYear(1635)).toBe(true);
     });
   });
 
@@ -353,11 +582,12 @@ describe('Non-Gregorian Calendars', () => {
       expect(calendars).toContain('islamic');
       expect(calendars).toContain('islamic-umalqura');
       expect(calendars).toContain('islamic-civil');
+      expect(calendars).toContain('islamic-tbla');
       expect(calendars).toContain('buddhist');
       expect(calendars).toContain('japanese');
       expect(calendars).toContain('persian');
       expect(calendars).toContain('chinese');
-      expect(calendars.length).toBe(8);
+      expect(calendars.length).toBe(9);
     });
   });
 });
@@ -10,6 +10,8 @@ import {
   describeCron,
   CRON_PRESETS
 } from '../src/cron';
+import { registerLocale } from '../src/locale';
+import type { SupportedLocale } from '../src/types';
 
 describe('cron utilities', () => {
   describe('parseCronExpression', () => {
@@ -24,10 +26,33 @@ describe('cron utilities', () => {
       });
     });
 
+    it('parses 6- and 7-field expressions with seconds and year', () => {
+      expect(parseCronExpression('30 0 9 * * ?')).toEqual({
+        second: '30', minute: '0', hour: '9', dayOfMonth: '*', month: '*', dayOfWeek: '?'
+      });
+      expect(parseCronExpression('0 0 9 ? * MON-FRI 2025')?.year).toBe('2025');
+    });
+
+    it('parses AWS cron() expressions with a trailing year', () => {
+      expect(parseCronExpression('cron(0 12 * * ? *)')).toEqual({
+        minute: '0', hour: '12', dayOfMonth: '*', month: '*', dayOfWeek: '?', year: '*'
+      });
+      expect(parseCronExpression('cron(0 12 * * ?)')).toBeNull();
+      expect(parseCronExpression('cron(0 10 * * 2 *)')).toBeNull();
+      expect(parseCronExpression('cron(0 10 ? * ? *)')).toBeNull();
+    });
+
+    it('expands macros', () => {
+      expect(parseCronExpression('@hourly')).toEqual(parseCronExpression('0 * * * *'));
+      expect(parseCronExpression('@annually')).toEqual(parseCronExpression('0 0 1 1 *'));
+      expect(parseCronExpression('@reboot')?.reboot).toBe(true);
+      expect(parseCronExpression('@sometimes')).toBeNull();
+    });
+
     it('returns null for invalid expressions', () => {
       expect(parseCronExpression('invalid')).toBeNull();
       expect(parseCronExpression('0 9 * *')).toBeNull(); // Missing field
-      expect(parseCronExpression('0 9 * * * *')).toBeNull(); // Too many fields
+      expect(parseCronExpression('0 0 9 * * * * *')).toBeNull(); // Too many fields
     });
   });
 
@@ -62,7 +87,19 @@ describe('cron utilities', () => {
       expect(result?.values).toEqual([1, 3, 5]);
     });
 
+    it('parses lists of ranges and steps', () => {
+      expect(parseCronField('1-3,10-30/10', 0, 59)?.values).toEqual([1, 2, 3, 10, 20, 30]);
+      expect(parseCronField('5/20', 0, 59)?.values).toEqual([5, 25, 45]);
+    });
+
+    it('parses names', () => {
+      const months = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+      expect(parseCronField('jan-mar,DEC', 1, 12, months)?.values).toEqual([1, 2, 3, 12]);
+    });
+
     it('returns null for invalid fields', () => {
+      expect(parseCronField('1,99', 0, 59)).toBeNull();
+      expect(parseCronField('5-1', 0, 59)).toBeNull();
       expect(parseCronField('100', 0, 59)).toBeNull(); // Out of range
       expect(parseCronField('abc', 0, 59)).toBeNull(); // Not a number
     });
@@ -88,6 +125,60 @@ describe('cron utilities', () => {
     it('returns false for invalid expression', () => {
       expect(matchesCron(new Date(), 'invalid')).toBe(false);
     });
+
+    it('matches the seconds and year fields', () => {
+      const date = new Date(2025, 0, 13, 9, 0, 30);
+      expect(matchesCron(date, '30 0 9 * * ?')).toBe(true);
+      expect(matchesCron(date, '15 0 9 * * ?')).toBe(false);
+      expect(matchesCron(date, '30 0 9 * * ? 2025')).toBe(true);
+      expect(matchesCron(date, '30 0 9 * * ? 2026')).toBe(false);
+    });
+
+    it('matches month and weekday names', () => {
+      const monday = new Date(2025, 0, 13, 9, 0);
+      expect(matchesCron(monday, '0 9 * JAN MON-FRI')).toBe(true);
+      expect(matchesCron(monday, '0 9 * FEB MON')).toBe(false);
+      expect(matchesCron(monday, '0 9 * * SAT,SUN')).toBe(false);
+    });
+
+    it('uses Quartz weekday numbering for 6/7-field and AWS expressions', () => {
+      const sunday = new Date(2025, 0, 12, 9, 0);
+      expect(matchesCron(sunday, '0 0 9 ? * 1')).toBe(true);
+      expect(matchesCron(sunday, 'cron(0 9 ? * 1 *)')).toBe(true);
+      expect(matchesCron(sunday, '0 9 * * 7')).toBe(true);
+      expect(matchesCron(sunday, '0 9 * * 0')).toBe(true);
+    });
+
+    it('matches the last day of the month (L, L-n)', () => {
+      expect(matchesCron(new Date(2024, 1, 29, 0, 0), '0 0 L * *')).toBe(true);
+      expect(matchesCron(new Date(2025, 1, 28, 0, 0), '0 0 L * *')).toBe(true);
+      expect(matchesCron(new Date(2025, 1, 27, 0, 0), '0 0 L * *')).toBe(false);
+      expect(matchesCron(new Date(2025, 1, 25, 0, 0), '0 0 L-3 * *')).toBe(true);
+    });
+
+    it('matches the nearest weekday (nW, LW)', () => {
+      // March 15, 2025 is a Saturday: 15W fires on Friday the 14th
+      expect(matchesCron(new Date(2025, 2, 14, 0, 0), '0 0 15W * *')).toBe(true);
+      expect(matchesCron(new Date(2025, 2, 15, 0, 0), '0 0 15W * *')).toBe(false);
+      // February 1, 2025 is a Saturday: 1W moves forward to Monday the 3rd
+      expect(matchesCron(new Date(2025, 1, 3, 0, 0), '0 0 1W * *')).toBe(true);
+      // August 31, 2025 is a Sunday: LW is Friday the 29th
+      expect(matchesCron(new Date(2025, 7, 29, 0, 0), '0 0 LW * *')).toBe(true);
+    });
+
+    it('matches nth and last weekdays (#, L)', () => {
+      // Third Friday of January 2025 is the 17th
+      expect(matchesCron(new Date(2025, 0, 17, 10, 0), '0 10 ? * 5#3')).toBe(true);
+      expect(matchesCron(new Date(2025, 0, 17, 10, 0), '0 0 10 ? * FRI#3')).toBe(true);
+      expect(matchesCron(new Date(2025, 0, 10, 10, 0), '0 10 ? * 5#3')).toBe(false);
+      // Last Friday of January 2025 is the 31st
+      expect(matchesCron(new Date(2025, 0, 31, 10, 0), '0 10 ? * 5L')).toBe(true);
+      expect(matchesCron(new Date(2025, 0, 24, 10, 0), '0 10 ? * 5L')).toBe(false);
+    });
+
+    it('never matches @reboot', () => {
+      expect(matchesCron(new Date(), '@reboot')).toBe(false);
+    });
   });
 
   describe('getNextCronDate', () => {
@@ -100,6 +191,36 @@ describe('cron utilities', () => {
 
     it('returns null for invalid expression', () => {
       expect(getNextCronDate('invalid')).toBeNull();
+      expect(getNextCronDate('@reboot')).toBeNull();
+    });
+
+    it('finds the next matching second', () => {
+      const after = new Date(2025, 0, 13, 9, 0, 10);
+      expect(getNextCronDate('*/15 * * * * ?', after)).toEqual(new Date(2025, 0, 13, 9, 0, 15));
+      expect(getNextCronDate('5 * * * * ?', after)).toEqual(new Date(2025, 0, 13, 9, 1, 5));
+    });
+
+    it('finds the next date for extended day syntax', () => {
+      expect(getNextCronDate('0 9 ? * FRI#3', new Date(2025, 0, 1))).toEqual(new Date(2025, 0, 17, 9, 0));
+      expect(getNextCronDate('@monthly', new Date(2025, 0, 15))).toEqual(new Date(2025, 1, 1, 0, 0));
+      expect(getNextCronDate('0 0 L FEB ?', new Date(2025, 0, 1), 600000)).toEqual(new Date(2025, 1, 28, 0, 0));
+    });
+
+    it('finds sparse dates more than a year ahead', () => {
+      expect(getNextCronDate('0 0 29 2 *', new Date(2025, 0, 1))).toEqual(new Date(2028, 1, 29, 0, 0));
+      expect(getNextCronDate('0 0 * * 1#5', new Date(2025, 0, 1))).toEqual(new Date(2025, 2, 31, 0, 0));
+      expect(getNextCronDate('0 0 0 1 1 ? 2030', new Date(2025, 0, 1))).toEqual(new Date(2030, 0, 1, 0, 0));
+    });
+
+    it('returns null for expressions that never match', () => {
+      expect(getNextCronDate('0 0 30 2 *', new Date(2025, 0, 1))).toBeNull();
+      expect(getNextCronDate('0 0 0 1 1 ? 2024', new Date(2025, 0, 1))).toBeNull();
+    });
+
+    it('limits the search to the given number of minutes', () => {
+      expect(getNextCronDate('0 0 29 2 *', new Date(2025, 0, 1), 525600)).toBeNull();
+      expect(getNextCronDate('0 0 29 2 *', new Date(2025, 0, 1), { maxIterations: 2 * 525600 })).toBeNull();
+      expect(getNextCronDate('0 0 29 2 *', new Date(2025, 0, 1), { maxIterations: 4 * 525600 })).toEqual(new Date(2028, 1, 29, 0, 0));
     });
   });
 
@@ -113,6 +234,18 @@ describe('cron utilities', () => {
         expect(d.getMinutes()).toBe(0);
       });
     });
+
+    it('computes a large batch of firings', () => {
+      const after = new Date(2025, 0, 1);
+      const dates = getNextCronDates('*/5 * * * *', 1000, after);
+      expect(dates).toHaveLength(1000);
+      expect(dates[0]).toEqual(new Date(2025, 0, 1, 0, 5));
+      expect(dates[999].getTime() - dates[0].getTime()).toBe(999 * 5 * 60000);
+
+      const yearly = getNextCronDates('0 9 * * 1-5', 261, after);
+      expect(yearly).toHaveLength(261);
+      expect(yearly[260]).toEqual(new Date(2025, 11, 31, 9, 0));
+    });
   });
 
   describe('getPreviousCronDate', () => {
@@ -126,6 +259,90 @@ describe('cron utilities', () => {
     it('returns null for invalid expression', () => {
       expect(getPreviousCronDate('invalid')).toBeNull();
     });
+
+    it('finds the previous matching second', () => {
+      const before = new Date(2025, 0, 13, 9, 0, 10);
+      expect(getPreviousCronDate('*/15 * * * * ?', before)).toEqual(new Date(2025, 0, 13, 9, 0, 0));
+      expect(getPreviousCronDate('0 9 ? * 5L', before)).toEqual(new Date(2024, 11, 27, 9, 0));
+    });
+
+    it('finds sparse dates more than a year back', () => {
+      expect(getPreviousCronDate('0 0 29 2 *', new Date(2025, 0, 1))).toEqual(new Date(2024, 1, 29, 0, 0));
+      expect(getPreviousCronDate('30 23 L * *', new Date(2025, 0, 1))).toEqual(new Date(2024, 11, 31, 23, 30));
+      expect(getPreviousCronDate('0 0 30 2 *', new Date(2025, 0, 1))).toBeNull();
+    });
+  });
+
+  describe('timeZone option', () => {
+    const newYork = { timeZone: 'America/New_York' };
+
+    it('evaluates the expression in the given zone', () => {
+      const next = getNextCronDate('0 9 * * *', new Date('2025-01-13T12:00:00Z'), newYork);
+      expect(next).toEqual(new Date('2025-01-13T14:00:00Z'));
+
+      const prev = getPreviousCronDate('0 9 * * *', new Date('2025-01-13T12:00:00Z'), newYork);
+      expect(prev).toEqual(new Date('2025-01-12T14:00:00Z'));
+
+      expect(matchesCron(new Date('2025-01-13T14:00:00Z'), '0 9 * * MON', newYork)).toBe(true);
+      expect(matchesCron(new Date('2025-01-13T14:00:00Z'), '0 9 * * MON', { timeZone: 'Europe/Paris' })).toBe(false);
+    });
+
+    it('keeps the wall-clock time across DST changes', () => {
+      const dates = getNextCronDates('0 9 * * *', 3, new Date('2025-03-08T12:00:00Z'), newYork);
+      expect(dates).toEqual([
+        new Date('2025-03-08T14:00:00Z'),
+        new Date('2025-03-09T13:00:00Z'),
+        new Date('2025-03-10T13:00:00Z')
+      ]);
+    });
+
+    it('shifts times skipped by a DST gap forward by default', () => {
+      // 02:30 does not exist in New York on March 9, 2025
+      const dates = getNextCronDates('30 2 * * *', 3, new Date('2025-03-08T00:00:00Z'), newYork);
+      expect(dates).toEqual([
+        new Date('2025-03-08T07:30:00Z'), // 02:30 EST
+        new Date('2025-03-09T07:30:00Z'), // 03:30 EDT
+        new Date('2025-03-10T06:30:00Z') // 02:30 EDT
+      ]);
+      expect(matchesCron(new Date('2025-03-09T07:30:00Z'), '30 2 * * *', newYork)).toBe(true);
+    });
+
+    it('finds a shifted firing just after the gap', () => {
+      const after = new Date('2025-03-09T07:10:00Z'); // 03:10 EDT
+      expect(getNextCronDate('20 2 * * *', after, newYork)).toEqual(new Date('2025-03-09T07:20:00Z'));
+    });
+
+    it('skips times in a DST gap when asked to', () => {
+      const options = { ...newYork, dstGap: 'skip' as const };
+      expect(getNextCronDate('30 2 * * *', new Date('2025-03-08T12:00:00Z'), options))
+        .toEqual(new Date('2025-03-10T06:30:00Z'));
+      expect(matchesCron(new Date('2025-03-09T07:30:00Z'), '30 2 * * *', options)).toBe(false);
+    });
+
+    it('fires repeated times only once', () => {
+      // 01:30 happens twice in New York on November 2, 2025
+      const dates = getNextCronDates('30 1 * * *', 2, new Date('2025-11-02T00:00:00Z'), newYork);
+      expect(dates).toEqual([
+        new Date('2025-11-02T05:30:00Z'), // 01:30 EDT
+        new Date('2025-11-03T06:30:00Z')
+      ]);
+      expect(matchesCron(new Date('2025-11-02T06:30:00Z'), '30 1 * * *', newYork)).toBe(false);
+
+      // From inside the repeated hour, the previous firing is the first pass
+      const before = new Date('2025-11-02T06:10:00Z'); // 01:10 EST
+      expect(getPreviousCronDate('*/30 * * * *', before, newYork)).toEqual(new Date('2025-11-02T05:30:00Z'));
+    });
+
+    it('keeps accepting a positional iteration limit', () => {
+      expect(getNextCronDate('0 9 * * *', new Date(2025, 0, 13, 8, 55), 3)).toBeNull();
+      expect(getNextCronDate('0 9 * * *', new Date(2025, 0, 13, 8, 55), { maxIterations: 10 }))
+        .toEqual(new Date(2025, 0, 13, 9, 0));
+    });
+
+    it('rejects unknown zones', () => {
+      expect(getNextCronDate('0 9 * * *', new Date(), { timeZone: 'Mars/Olympus' })).toBeNull();
+      expect(matchesCron(new Date(), '* * * * *', { timeZone: 'Mars/Olympus' })).toBe(false);
+    });
   });
 
   describe('isValidCron', () => {
@@ -136,6 +353,24 @@ describe('cron utilities', () => {
       expect(isValidCron('0 0 1 1 *')).toBe(true);
     });
 
+    it('validates extended syntax', () => {
+      expect(isValidCron('0 0 12 ? * MON-FRI')).toBe(true);
+      expect(isValidCron('0 15 10 L * ? 2025')).toBe(true);
+      expect(isValidCron('cron(0/15 * * * ? *)')).toBe(true);
+      expect(isValidCron('0 0 LW,15W * *')).toBe(true);
+      expect(isValidCron('@reboot')).toBe(true);
+      expect(isValidCron('@daily')).toBe(true);
+    });
+
+    it('invalidates incorrect extended syntax', () => {
+      expect(isValidCron('? * * * *')).toBe(false); // ? only in day fields
+      expect(isValidCron('0 0 * * 5#6')).toBe(false);
+      expect(isValidCron('0 0 32W * *')).toBe(false);
+      expect(isValidCron('0 0 0 * * 0')).toBe(false); // Quartz weekdays are 1-7
+      expect(isValidCron('0 0 0 * * ? 1969')).toBe(false);
+      expect(isValidCron('0 0 * FOO *')).toBe(false);
+    });
+
     it('invalidates incorrect expressions', () => {
       expect(isValidCron('invalid')).toBe(false);
       expect(isValidCron('60 * * * *')).toBe(false); // Invalid minute
@@ -151,8 +386,78 @@ describe('cron utilities', () => {
       expect(describeCron('0 0 1 * *')).toBe('First day of every month at midnight');
     });
 
+    it('describes times, names and ranges', () => {
+      expect(describeCron('0 9 * * 1-5')).toBe('At 09:00 on Monday through Friday');
+      expect(describeCron('0 9 * * 0,7')).toBe('At 09:00 on Sunday');
+      expect(describeCron('30 14 * JAN,JUL *')).toBe('At 14:30 in January and July');
+      expect(describeCron('*/5 * * * *')).toBe('Every 5 minutes');
+      expect(describeCron('0 0 9 ? * 2-6')).toBe('At 09:00 on Monday through Friday');
+    });
+
+    it('describes seconds and years', () => {
+      expect(describeCron('*/10 * * * * ?')).toBe('Every 10 seconds');
+      expect(describeCron('0 0 12 * * ? 2025')).toBe('At 12:00 in 2025');
+    });
+
+    it('describes L, W and # modifiers', () => {
+      expect(describeCron('0 0 L * *')).toBe('At 00:00 on the last day of the month');
+      expect(describeCron('0 9 15W * *')).toBe('At 09:00 on the weekday nearest day 15 of the month');
+      expect(describeCron('0 9 LW * *')).toBe('At 09:00 on the last weekday of the month');
+      expect(describeCron('0 10 ? * 5#3')).toBe('At 10:00 on the third Friday of the month');
+      expect(describeCron('0 10 ? * FRIL')).toBe('At 10:00 on the last Friday of the month');
+    });
+
+    it('describes macros', () => {
+      expect(describeCron('@hourly')).toBe('Every hour');
+      expect(describeCron('@weekly')).toBe('Every Sunday at midnight');
+      expect(describeCron('@yearly')).toBe('Every year on January 1 at midnight');
+      expect(describeCron('@reboot')).toBe('At system startup');
+    });
+
     it('returns null for invalid expression', () => {
       expect(describeCron('invalid')).toBeNull();
+      expect(describeCron('61 * * * *')).toBeNull();
+      expect(describeCron('invalid', { locale: 'de' })).toBeNull();
+    });
+
+    it('describes expressions in German', () => {
+      expect(describeCron('0 9 * * 1', { locale: 'de' })).toBe('Jeden Montag um 09:00');
+      expect(describeCron('0 9 * * 1-5', { locale: 'de-DE' })).toBe('Jeden Montag bis Freitag um 09:00');
+      expect(describeCron('30 14 * JAN,JUL *', { locale: 'de' })).toBe('Im Januar und Juli um 14:30');
+      expect(describeCron('0 10 ? * 5#3', { locale: 'de' })).toBe('Am dritten Freitag des Monats um 10:00');
+      expect(describeCron('*/5 * * * *', { locale: 'de' })).toBe('Alle 5 Minuten');
+      expect(describeCron('@daily', { locale: 'de' })).toBe('Jeden Tag um Mitternacht');
+    });
+
+    it('describes expressions in Spanish', () => {
+      expect(describeCron('0 9 * * 1-5', { locale: 'es' })).toBe('A las 09:00 los lunes a viernes');
+      expect(describeCron('0 0 L * *', { locale: 'es' })).toBe('A las 00:00 el último día del mes');
+      expect(describeCron('@yearly', { locale: 'es' })).toBe('Cada año el 1 de enero a medianoche');
+    });
+
+    it('describes expressions in Japanese', () => {
+      expect(describeCron('0 9 * * 1', { locale: 'ja' })).toBe('毎週月曜日 09:00');
+      expect(describeCron('0 9 15 * *', { locale: 'ja' })).toBe('毎月15日 09:00');
+      expect(describeCron('0 10 ? * FRIL', { locale: 'ja' })).toBe('毎月最終金曜日 10:00');
+      expect(describeCron('@reboot', { locale: 'ja' })).toBe('システム起動時');
+    });
+
+    it('uses phrases registered with the locale', () => {
+      registerLocale({
+        locale: 'xc' as SupportedLocale,
+        calendar: {
+          dayNames: ['dimanche', 'lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi']
+        },
+        cron: {
+          pattern: '{dayOfWeek} {time}',
+          atTime: 'à {0}',
+          onWeekdays: 'chaque {0}'
+        }
+      });
+
+      expect(describeCron('0 9 * * 1', { locale: 'xc' as SupportedLocale })).toBe('Chaque lundi à 09:00');
+      // Phrases the locale leaves out fall back to English
+      expect(describeCron('*/5 * * * *', { locale: 'xc' as SupportedLocale })).toBe('Every 5 minutes');
     });
   });
 
@@ -8,21 +8,41 @@ import {
   getMarketClose,
   getNextMarketOpen,
   getNextMarketClose,
+  getTradingSession,
   getSettlementDate,
   getTradeDateFromSettlement,
+  getSettlementCycle,
   eachTradingDay,
   countTradingDays,
   addTradingDays,
   getOptionsExpiration,
+  adjustBusinessDay,
+  getDayCountFraction,
+  getCouponSchedule,
+  getMarketHolidays,
+  getSupportedMarkets,
+  registerMarket,
   MARKET_HOURS,
   US_MARKET_HOLIDAYS
 } from '../src/finance.js';
+import { zonedTimeToDate } from '../src/timezone.js';
 
 // Helper to create local dates without timezone confusion
 function localDate(year: number, month: number, day: number, hour = 0, minute = 0): Date {
   return new Date(year, month - 1, day, hour, minute, 0, 0);
 }
 
+// Helpers for the moment a wall-clock time occurs at an exchange
+function marketTime(zone: string, year: number, month: number, day: number, hour = 0, minute = 0): Date {
+  return zonedTimeToDate({ year, month, day, hour, minute }, zone)!;
+}
+const newYorkTime = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  marketTime('America/New_York', year, month, day, hour, minute);
+const tokyoTime = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  marketTime('Asia/Tokyo', year, month, day, hour, minute);
+const hongKongTime = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  marketTime('Asia/Hong_Kong', year, month, day, hour, minute);
+
 describe('finance', () => {
   describe('MARKET_HOURS', () => {
     it('should have NYSE and NASDAQ hours', () => {
@@ -71,6 +91,21 @@ describe('finance', () => {
       // Good Friday 2024 is March 29
       expect(isMarketHoliday(localDate(2024, 3, 29))).toBe(true);
     });
+
+    it('should follow the exchange\'s holiday history', () => {
+      // Washington's Birthday and Memorial Day before the Monday holidays of 1971
+      expect(isMarketHoliday(localDate(1970, 2, 23))).toBe(true);
+      expect(isMarketHoliday(localDate(1970, 2, 16))).toBe(false);
+      expect(isMarketHoliday(localDate(1969, 5, 30))).toBe(true);
+      expect(isMarketHoliday(localDate(1971, 2, 15))).toBe(true);
+      // Election Day, and unscheduled closures
+      expect(isMarketHoliday(localDate(1968, 11, 5))).toBe(true);
+      expect(isMarketHoliday(localDate(1980, 11, 4))).toBe(true);
+      expect(isMarketHoliday(localDate(1984, 11, 6))).toBe(false);
+      expect(isMarketHoliday(localDate(1994, 4, 27))).toBe(true);
+      expect(isMarketHoliday(localDate(1985, 9, 27))).toBe(true);
+      expect(isMarketHoliday(localDate(1997, 1, 20))).toBe(false); // MLK Day before 1998
+    });
   });
 
   describe('isTradingDay', () => {
@@ -93,23 +128,52 @@ describe('finance', () => {
   describe('isMarketOpen', () => {
     it('should return true during trading hours on trading day', () => {
       // 10:30 AM on a Tuesday
-      expect(isMarketOpen(localDate(2024, 1, 16, 10, 30))).toBe(true);
+      expect(isMarketOpen(newYorkTime(2024, 1, 16, 10, 30))).toBe(true);
     });
 
     it('should return false before market open', () => {
-      expect(isMarketOpen(localDate(2024, 1, 16, 8, 0))).toBe(false);
+      expect(isMarketOpen(newYorkTime(2024, 1, 16, 8, 0))).toBe(false);
     });
 
     it('should return false after market close', () => {
-      expect(isMarketOpen(localDate(2024, 1, 16, 17, 0))).toBe(false);
+      expect(isMarketOpen(newYorkTime(2024, 1, 16, 17, 0))).toBe(false);
     });
 
     it('should return false on weekend', () => {
-      expect(isMarketOpen(localDate(2024, 1, 13, 12, 0))).toBe(false); // Saturday noon
+      expect(isMarketOpen(newYorkTime(2024, 1, 13, 12, 0))).toBe(false); // Saturday noon
     });
 
     it('should return false on holiday', () => {
-      expect(isMarketOpen(localDate(2024, 12, 25, 12, 0))).toBe(false); // Christmas noon
+      expect(isMarketOpen(newYorkTime(2024, 12, 25, 12, 0))).toBe(false); // Christmas noon
+    });
+
+    it('should read the time on each exchange\'s clock', () => {
+      // 10:00 in Tokyo, 01:00 in London, 20:00 the day before in New York
+      const tokyoMorning = new Date('2024-01-16T01:00:00Z');
+      expect(isMarketOpen(tokyoMorning, 'TSE')).toBe(true);
+      expect(isMarketOpen(tokyoMorning, 'LSE')).toBe(false);
+      expect(isMarketOpen(tokyoMorning, 'NYSE')).toBe(false);
+
+      // 13:00 in New York, 18:00 in London, 03:00 the next day in Tokyo
+      const newYorkAfternoon = new Date('2024-01-16T18:00:00Z');
+      expect(isMarketOpen(newYorkAfternoon)).toBe(true);
+      expect(isMarketOpen(newYorkAfternoon, 'LSE')).toBe(false);
+      expect(isMarketOpen(newYorkAfternoon, 'TSE')).toBe(false);
+
+      // 10:00 in London, 19:00 in Tokyo, 05:00 in New York
+      const londonMorning = new Date('2024-01-16T10:00:00Z');
+      expect(isMarketOpen(londonMorning, 'LSE')).toBe(true);
+      expect(isMarketOpen(londonMorning, 'XETRA')).toBe(true);
+      expect(isMarketOpen(londonMorning, 'TSE')).toBe(false);
+      expect(isMarketOpen(londonMorning)).toBe(false);
+    });
+
+    it('should check the trading day on the exchange\'s clock', () => {
+      // Monday 09:30 in Tokyo is still Sunday in New York and London
+      const mondayInTokyo = tokyoTime(2024, 1, 22, 9, 30);
+      expect(isMarketOpen(mondayInTokyo, 'TSE')).toBe(true);
+      // Friday 15:00 in New York is Saturday in Tokyo
+      expect(isMarketOpen(newYorkTime(2024, 1, 19, 15, 0))).toBe(true);
     });
   });
 
@@ -134,56 +198,65 @@ describe('finance', () => {
 
   describe('getMarketOpen', () => {
     it('should return correct open time', () => {
-      const open = getMarketOpen(localDate(2024, 1, 16));
-      expect(open.getHours()).toBe(9);
-      expect(open.getMinutes()).toBe(30);
+      expect(getMarketOpen(localDate(2024, 1, 16))).toEqual(newYorkTime(2024, 1, 16, 9, 30));
+      expect(getMarketOpen(localDate(2024, 1, 16), 'TSE')).toEqual(tokyoTime(2024, 1, 16, 9, 0));
+    });
+
+    it('should follow daylight saving time in the exchange\'s zone', () => {
+      expect(getMarketOpen(localDate(2024, 7, 16))).toEqual(new Date('2024-07-16T13:30:00Z'));
+      expect(getMarketOpen(localDate(2024, 1, 16))).toEqual(new Date('2024-01-16T14:30:00Z'));
     });
   });
 
   describe('getMarketClose', () => {
     it('should return correct close time', () => {
-      const close = getMarketClose(localDate(2024, 1, 16));
-      expect(close.getHours()).toBe(16);
-      expect(close.getMinutes()).toBe(0);
+      expect(getMarketClose(localDate(2024, 1, 16))).toEqual(newYorkTime(2024, 1, 16, 16, 0));
+      expect(getMarketClose(localDate(2024, 1, 16), 'LSE')).toEqual(new Date('2024-01-16T16:30:00Z'));
     });
   });
 
   describe('getNextMarketOpen', () => {
     it('should return same day if before open on trading day', () => {
-      const next = getNextMarketOpen(localDate(2024, 1, 16, 8, 0));
-      expect(next.getDate()).toBe(16);
-      expect(next.getHours()).toBe(9);
-      expect(next.getMinutes()).toBe(30);
+      expect(getNextMarketOpen(newYorkTime(2024, 1, 16, 8, 0))).toEqual(newYorkTime(2024, 1, 16, 9, 30));
     });
 
     it('should return next trading day if after open', () => {
-      const next = getNextMarketOpen(localDate(2024, 1, 16, 12, 0));
-      expect(next.getDate()).toBe(17);
+      expect(getNextMarketOpen(newYorkTime(2024, 1, 16, 12, 0))).toEqual(newYorkTime(2024, 1, 17, 9, 30));
     });
 
     it('should skip weekends', () => {
       // Friday afternoon -> Monday (but Monday is MLK Day, so Tuesday)
-      const next = getNextMarketOpen(localDate(2024, 1, 12, 17, 0));
-      expect(next.getDate()).toBe(16); // Tuesday (skips weekend + MLK Day)
+      expect(getNextMarketOpen(newYorkTime(2024, 1, 12, 17, 0))).toEqual(newYorkTime(2024, 1, 16, 9, 30));
     });
 
     it('should skip holidays', () => {
       // Sunday before MLK Day -> Day after MLK Day
-      const next = getNextMarketOpen(localDate(2024, 1, 14, 17, 0));
-      expect(next.getDate()).toBe(16); // Skip MLK Day (15th)
+      expect(getNextMarketOpen(newYorkTime(2024, 1, 14, 17, 0))).toEqual(newYorkTime(2024, 1, 16, 9, 30));
+    });
+
+    it('should find the next open on the exchange\'s clock', () => {
+      // 09:00 UTC is 18:00 in Tokyo, after the close
+      const after = new Date('2024-01-16T09:00:00Z');
+      expect(getNextMarketOpen(after, 'TSE')).toEqual(tokyoTime(2024, 1, 17, 9, 0));
+      expect(getNextMarketOpen(after, 'LSE')).toEqual(new Date('2024-01-17T08:00:00Z'));
+      expect(getNextMarketOpen(after)).toEqual(newYorkTime(2024, 1, 16, 9, 30));
     });
   });
 
   describe('getNextMarketClose', () => {
     it('should return same day close if before close on trading day', () => {
-      const next = getNextMarketClose(localDate(2024, 1, 16, 12, 0));
-      expect(next.getDate()).toBe(16);
-      expect(next.getHours()).toBe(16);
+      expect(getNextMarketClose(newYorkTime(2024, 1, 16, 12, 0))).toEqual(newYorkTime(2024, 1, 16, 16, 0));
     });
 
     it('should return next trading day close if after close', () => {
-      const next = getNextMarketClose(localDate(2024, 1, 16, 17, 0));
-      expect(next.getDate()).toBe(17);
+      expect(getNextMarketClose(newYorkTime(2024, 1, 16, 17, 0))).toEqual(newYorkTime(2024, 1, 17, 16, 0));
+    });
+
+    it('should find the next close on the exchange\'s clock', () => {
+      // 05:00 UTC is 14:00 in Tokyo and the middle of the night in New York
+      const after = new Date('2024-01-16T05:00:00Z');
+      expect(getNextMarketClose(after, 'TSE')).toEqual(tokyoTime(2024, 1, 16, 15, 30));
+      expect(getNextMarketClose(after)).toEqual(newYorkTime(2024, 1, 16, 16, 0));
     });
   });
 
@@ -222,6 +295,132 @@ describe('finance', () => {
       // Tue, Mon is MLK Day (skip), Fri, Thu
       expect(trade.getDate()).toBe(12); // Friday
     });
+
+    it('should return the latest trade date settling by a non-settlement day', () => {
+      const trade = getTradeDateFromSettlement(localDate(2024, 1, 20), 2); // Saturday
+      expect(trade.getDate()).toBe(17); // Wednesday settles Friday
+    });
+  });
+
+  describe('settlement rules', () => {
+    const ymd = (d: Date) => [d.getFullYear(), d.getMonth() + 1, d.getDate()];
+
+    it('should look up settlement cycles per asset class and venue', () => {
+      expect(getSettlementCycle('equity')).toBe(1);
+      expect(getSettlementCycle('equity', 'XETRA')).toBe(2);
+      expect(getSettlementCycle('government-bond', 'LSE')).toBe(1);
+      expect(getSettlementCycle('government-bond', 'EURONEXT')).toBe(2);
+      expect(getSettlementCycle('option', 'HKEX')).toBe(1);
+      expect(getSettlementCycle('fx-spot')).toBe(2);
+    });
+
+    it('should look up the settlement cycle in force on the trade date', () => {
+      expect(getSettlementCycle('equity', 'NYSE', localDate(2024, 5, 24))).toBe(2);
+      expect(getSettlementCycle('equity', 'NYSE', localDate(2024, 5, 28))).toBe(1);
+      expect(getSettlementCycle('government-bond', 'NYSE', localDate(2020, 1, 2))).toBe(1);
+      expect(getSettlementCycle('equity', 'TSX', localDate(2024, 5, 24))).toBe(2);
+      expect(getSettlementCycle('equity', 'TSX', localDate(2024, 5, 27))).toBe(1);
+      expect(getSettlementCycle('equity', 'XETRA', localDate(2024, 5, 24))).toBe(2);
+    });
+
+    it('should settle US trades T+2 before May 28, 2024', () => {
+      // Memorial Day is on Monday, May 27, 2024
+      expect(ymd(getSettlementDate(localDate(2024, 5, 23), {}))).toEqual([2024, 5, 28]);
+      expect(ymd(getSettlementDate(localDate(2024, 5, 24), {}))).toEqual([2024, 5, 29]);
+      expect(ymd(getSettlementDate(localDate(2024, 5, 28), {}))).toEqual([2024, 5, 29]);
+      expect(ymd(getTradeDateFromSettlement(localDate(2024, 5, 29), {}))).toEqual([2024, 5, 28]);
+      expect(ymd(getTradeDateFromSettlement(localDate(2024, 5, 28), {}))).toEqual([2024, 5, 23]);
+    });
+
+    it('should settle by asset class on the venue calendar', () => {
+      // US equities settle T+1, skipping Martin Luther King Jr. Day
+      expect(ymd(getSettlementDate(localDate(2025, 1, 17), {}))).toEqual([2025, 1, 21]);
+      // XETRA is closed December 24-26
+      expect(ymd(getSettlementDate(localDate(2024, 12, 23), { market: 'XETRA' }))).toEqual([2024, 12, 30]);
+      expect(ymd(getSettlementDate(localDate(2024, 12, 23), { assetClass: 'option' }, 'XETRA'))).toEqual([2024, 12, 27]);
+      expect(ymd(getSettlementDate(localDate(2024, 1, 12), { days: 3 }))).toEqual([2024, 1, 18]);
+    });
+
+    it('should settle cross-border trades on days every market is open', () => {
+      // May 5, 2025 is an English bank holiday
+      expect(ymd(getSettlementDate(localDate(2025, 5, 2), { market: 'NYSE' }))).toEqual([2025, 5, 5]);
+      expect(ymd(getSettlementDate(localDate(2025, 5, 2), { market: 'NYSE', additionalMarkets: ['LSE'] }))).toEqual([2025, 5, 6]);
+      // NYSE trades on the bank holiday, settling with Friday's trades
+      expect(ymd(getTradeDateFromSettlement(localDate(2025, 5, 6), { market: 'NYSE', additionalMarkets: ['LSE'] }))).toEqual([2025, 5, 5]);
+    });
+
+    it('should settle FX spot on both currencies\' calendars', () => {
+      // Showa Day (April 29) is a Tokyo holiday
+      expect(ymd(getSettlementDate(localDate(2024, 4, 25), { assetClass: 'fx-spot', currencyPair: 'EUR/JPY' }))).toEqual([2024, 4, 30]);
+      // Easter Monday is a TARGET holiday
+      expect(ymd(getSettlementDate(localDate(2024, 3, 28), { assetClass: 'fx-spot', currencyPair: 'EURUSD' }))).toEqual([2024, 4, 3]);
+      // Early May bank holiday in the UK
+      expect(ymd(getSettlementDate(localDate(2024, 5, 3), { assetClass: 'fx-spot', currencyPair: 'GBP/USD' }))).toEqual([2024, 5, 8]);
+    });
+
+    it('should skip the Japanese New Year bank closures for JPY', () => {
+      // Tokyo banks close December 31 to January 3
+      expect(ymd(getSettlementDate(localDate(2024, 12, 27), { assetClass: 'fx-spot', currencyPair: 'EUR/JPY' }))).toEqual([2025, 1, 6]);
+      expect(ymd(getSettlementDate(localDate(2025, 12, 29), { assetClass: 'fx-spot', currencyPair: 'USD/JPY' }))).toEqual([2026, 1, 5]);
+    });
+
+    it('should count US holidays only on the FX value date', () => {
+      // July 4 counts as a spot day for EUR/USD but cannot be the value date
+      expect(ymd(getSettlementDate(localDate(2024, 7, 2), { assetClass: 'fx-spot', currencyPair: 'EUR/USD' }))).toEqual([2024, 7, 5]);
+      expect(ymd(getSettlementDate(localDate(2024, 7, 3), { assetClass: 'fx-spot', currencyPair: 'EUR/USD' }))).toEqual([2024, 7, 5]);
+      expect(ymd(getTradeDateFromSettlement(localDate(2024, 7, 5), { assetClass: 'fx-spot', currencyPair: 'EUR/USD' }))).toEqual([2024, 7, 3]);
+    });
+
+    it('should settle USD/CAD T+1', () => {
+      // Canada Day is on Monday, July 1, 2024
+      expect(ymd(getSettlementDate(localDate(2024, 6, 28), { assetClass: 'fx-spot', currencyPair: 'USD/CAD' }))).toEqual([2024, 7, 2]);
+    });
+
+    it('should reverse the same rules', () => {
+      const options = { assetClass: 'fx-spot' as const, currencyPair: 'EUR/JPY' };
+      for (let day = 1; day <= 30; day++) {
+        const trade = localDate(2024, 4, day);
+        if (trade.getDay() === 0 || trade.getDay() === 6) continue;
+        const settlement = getSettlementDate(trade, options);
+        const reversed = getTradeDateFromSettlement(settlement, options);
+        expect(getSettlementDate(reversed, options)).toEqual(settlement);
+        expect(reversed >= trade).toBe(true);
+      }
+    });
+
+    it('should use settlement cycles of registered exchanges', () => {
+      registerMarket('T0', {
+        hours: { open: { hour: 9, minute: 0 }, close: { hour: 17, minute: 0 }, timezone: 'UTC' },
+        holidays: [],
+        settlementCycles: { equity: 0, 'government-bond': 3 }
+      });
+      expect(ymd(getSettlementDate(localDate(2024, 5, 3), { market: 'T0' }))).toEqual([2024, 5, 3]);
+      expect(ymd(getSettlementDate(localDate(2024, 5, 3), { market: 'T0', assetClass: 'government-bond' }))).toEqual([2024, 5, 8]);
+      expect(getSettlementCycle('option', 'T0')).toBe(1);
+    });
+
+    it('should use previous settlement cycles of registered exchanges', () => {
+      registerMarket('T1', {
+        hours: { open: { hour: 9, minute: 0 }, close: { hour: 17, minute: 0 }, timezone: 'UTC' },
+        holidays: [],
+        settlementCycles: { equity: 1 },
+        previousSettlementCycles: [
+          { before: localDate(2017, 9, 5), cycles: { equity: 3 } },
+          { before: localDate(2024, 5, 28), cycles: { equity: 2 } }
+        ]
+      });
+      expect(getSettlementCycle('equity', 'T1', localDate(2010, 1, 4))).toBe(3);
+      expect(getSettlementCycle('equity', 'T1', localDate(2017, 9, 5))).toBe(2);
+      expect(getSettlementCycle('equity', 'T1', localDate(2024, 5, 28))).toBe(1);
+      expect(getSettlementCycle('equity', 'T1')).toBe(1);
+      expect(getSettlementCycle('option', 'T1', localDate(2010, 1, 4))).toBe(1);
+    });
+
+    it('should throw for unknown currencies and invalid pairs', () => {
+      expect(() => getSettlementDate(localDate(2024, 5, 3), { assetClass: 'fx-spot', currencyPair: 'EUR/ZAR' }))
+        .toThrow('Currency "ZAR" has no settlement calendar');
+      expect(() => getSettlementDate(localDate(2024, 5, 3), { assetClass: 'fx-spot' })).toThrow('Invalid currency pair');
+    });
   });
 
   describe('eachTradingDay', () => {
@@ -310,4 +509,287 @@ describe('finance', () => {
       expect(exp.getDay()).toBe(5); // Friday
     });
   });
+
+  describe('market registry', () => {
+    it('should include the built-in exchanges', () => {
+      expect(getSupportedMarkets()).toEqual(
+        expect.arrayContaining(['NYSE', 'NASDAQ', 'LSE', 'EURONEXT', 'XETRA', 'TSE', 'HKEX', 'ASX', 'TSX', 'CME'])
+      );
+      expect(getMarketHours('TSE').timezone).toBe('Asia/Tokyo');
+      expect(getMarketHours('HKEX').lunchBreak).toEqual({ start: { hour: 12, minute: 0 }, end: { hour: 13, minute: 0 } });
+      expect(getMarketHours('LSE').lunchBreak).toBeUndefined();
+    });
+
+    it('should close on each exchange holiday', () => {
+      expect(isMarketHoliday(localDate(2024, 8, 26), 'LSE')).toBe(true); // Summer Bank Holiday
+      expect(isMarketHoliday(localDate(2024, 8, 26), 'NYSE')).toBe(false);
+      expect(isMarketHoliday(localDate(2024, 12, 24), 'XETRA')).toBe(true);
+      expect(isMarketHoliday(localDate(2024, 12, 24), 'EURONEXT')).toBe(false);
+      expect(isMarketHoliday(localDate(2024, 4, 1), 'EURONEXT')).toBe(true); // Easter Monday
+      expect(isMarketHoliday(localDate(2024, 2, 19), 'TSX')).toBe(true); // Family Day
+      expect(isMarketHoliday(localDate(2024, 8, 5), 'TSX')).toBe(true); // Civic Holiday
+      expect(isMarketHoliday(localDate(2024, 11, 11), 'TSX')).toBe(false); // Remembrance Day
+      expect(isMarketHoliday(localDate(2024, 4, 25), 'ASX')).toBe(true); // Anzac Day
+      expect(isMarketHoliday(localDate(2024, 11, 28), 'CME')).toBe(true); // Thanksgiving
+    });
+
+    it('should move Sunday holidays to substitute days in Tokyo and Hong Kong', () => {
+      // National Foundation Day 2024 fell on Sunday, February 11
+      expect(isMarketHoliday(localDate(2024, 2, 12), 'TSE')).toBe(true);
+      expect(isMarketHoliday(localDate(2024, 1, 2), 'TSE')).toBe(true);
+      // New Year's Day 2023 was a Sunday: its substitute day coincides with the Jan 2 closure
+      expect(isTradingDay(localDate(2023, 1, 3), 'TSE')).toBe(false);
+      expect(isTradingDay(localDate(2023, 1, 4), 'TSE')).toBe(true);
+      expect(getMarketHolidays(2023, 'TSE').filter(h => h.name === 'Substitute Holiday').map(h => h.date))
+        .toEqual([localDate(2023, 1, 2)]);
+      expect(isTradingDay(localDate(2023, 3, 20), 'TSE')).toBe(true);
+      expect(isTradingDay(localDate(2023, 3, 21), 'TSE')).toBe(false);
+      // Citizens' holiday between Respect for the Aged Day and Autumnal Equinox Day
+      expect(isTradingDay(localDate(2026, 9, 22), 'TSE')).toBe(false);
+      // Lunar New Year 2024: Saturday 10th, Sunday 11th, Monday 12th, so Tuesday 13th is a substitute
+      expect(isMarketHoliday(localDate(2024, 2, 12), 'HKEX')).toBe(true);
+      expect(isMarketHoliday(localDate(2024, 2, 13), 'HKEX')).toBe(true);
+      expect(isMarketHoliday(localDate(2024, 2, 14), 'HKEX')).toBe(false);
+      expect(getMarketHolidays(2024, 'HKEX').map(h => h.name)).toContain('Chung Yeung Festival');
+    });
+
+    it('should respect lunch breaks', () => {
+      expect(isMarketOpen(tokyoTime(2024, 1, 16, 11, 0), 'TSE')).toBe(true);
+      expect(isMarketOpen(tokyoTime(2024, 1, 16, 12, 0), 'TSE')).toBe(false);
+      expect(isMarketOpen(tokyoTime(2024, 1, 16, 12, 30), 'TSE')).toBe(true);
+      expect(isMarketOpen(hongKongTime(2024, 1, 16, 12, 30), 'HKEX')).toBe(false);
+
+      expect(getNextMarketOpen(hongKongTime(2024, 1, 16, 12, 15), 'HKEX')).toEqual(hongKongTime(2024, 1, 16, 13, 0));
+      expect(getNextMarketOpen(hongKongTime(2024, 1, 16, 14, 0), 'HKEX')).toEqual(hongKongTime(2024, 1, 17, 9, 30));
+    });
+
+    it('should count and add trading days on any exchange', () => {
+      // Golden Week 2024: April 29 and May 3-6 are holidays in Tokyo
+      expect(countTradingDays(localDate(2024, 4, 29), localDate(2024, 5, 6), 'TSE')).toBe(3);
+      expect(addTradingDays(localDate(2024, 5, 2), 1, 'TSE').getDate()).toBe(7);
+      expect(addTradingDays(localDate(2024, 12, 23), 1, 'XETRA').getDate()).toBe(27);
+      expect(getNextMarketOpen(tokyoTime(2024, 12, 31, 9, 0), 'TSE')).toEqual(tokyoTime(2025, 1, 6, 9, 0));
+    });
+
+    it('should use registered exchanges', () => {
+      registerMarket('SIX', {
+        hours: { open: { hour: 9, minute: 0 }, close: { hour: 17, minute: 30 }, timezone: 'Europe/Zurich' },
+        holidays: [{ name: 'Swiss National Day', date: { type: 'fixed', month: 8, day: 1 } }]
+      });
+      expect(getSupportedMarkets()).toContain('SIX');
+      expect(isTradingDay(localDate(2025, 8, 1), 'SIX')).toBe(false);
+      expect(isMarketOpen(marketTime('Europe/Zurich', 2025, 8, 4, 17, 0), 'SIX')).toBe(true);
+      expect(isMarketOpen(new Date('2025-08-04T16:00:00Z'), 'SIX')).toBe(false);
+      expect(countTradingDays(localDate(2025, 7, 28), localDate(2025, 8, 3), 'SIX')).toBe(4);
+    });
+
+    it('should list market holidays in order of their observed dates', () => {
+      const lunarNewYear = getMarketHolidays(2023, 'HKEX').filter(h => h.name === 'Lunar New Year');
+      expect(lunarNewYear.map(h => h.observedDate)).toEqual([localDate(2023, 1, 23), localDate(2023, 1, 24), localDate(2023, 1, 25)]);
+      const observed = getMarketHolidays(2023, 'HKEX').map(h => h.observedDate.getTime());
+      expect(observed).toEqual([...observed].sort((a, b) => a - b));
+    });
+
+    it('should not close US exchanges on the Friday before a Saturday New Year', () => {
+      const newYear = getMarketHolidays(2022).find(h => h.name === "New Year's Day")!;
+      expect(newYear.observedDate).toEqual(localDate(2022, 1, 1));
+      expect(isTradingDay(localDate(2021, 12, 31))).toBe(true);
+      expect(isTradingDay(localDate(2017, 1, 2))).toBe(false);
+      // Nor the Federal Reserve
+      expect(getSettlementDate(localDate(2021, 12, 29), { assetClass: 'fx-spot', currencyPair: 'EUR/USD' }).toDateString())
+        .toBe(localDate(2021, 12, 31).toDateString());
+    });
+
+    it('should match holidays observed in the neighbouring year', () => {
+      registerMarket('NEWYEAR', {
+        hours: { open: { hour: 9, minute: 0 }, close: { hour: 17, minute: 0 }, timezone: 'UTC' },
+        holidays: [{ name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 }, observed: 'nearest-weekday' }]
+      });
+      expect(isMarketHoliday(localDate(2021, 12, 31), 'NEWYEAR')).toBe(true);
+      expect(isMarketHoliday(localDate(2021, 12, 30), 'NEWYEAR')).toBe(false);
+    });
+
+    it('should throw for unknown exchanges', () => {
+      expect(() => isTradingDay(localDate(2025, 8, 1), 'NOPE')).toThrow('Market "NOPE" is not registered');
+    });
+  });
+
+  describe('early closes and trading sessions', () => {
+    it('should close NYSE at 13:00 on early close days', () => {
+      for (const [month, day] of [[11, 29], [7, 3], [12, 24]]) {
+        expect(getMarketClose(localDate(2024, month, day))).toEqual(newYorkTime(2024, month, day, 13, 0));
+        expect(isMarketOpen(newYorkTime(2024, month, day, 12, 59))).toBe(true);
+        expect(isMarketOpen(newYorkTime(2024, month, day, 13, 0))).toBe(false);
+      }
+      expect(getMarketClose(localDate(2024, 11, 27))).toEqual(newYorkTime(2024, 11, 27, 16, 0));
+    });
+
+    it('should skip early closes that fall on holidays or weekends', () => {
+      // July 3, 2026 is the observed Independence Day holiday
+      expect(isMarketOpen(newYorkTime(2026, 7, 3, 10, 0))).toBe(false);
+      expect(getNextMarketClose(newYorkTime(2024, 12, 23, 17, 0))).toEqual(newYorkTime(2024, 12, 24, 13, 0));
+      expect(getNextMarketClose(newYorkTime(2024, 12, 24, 14, 0))).toEqual(newYorkTime(2024, 12, 26, 16, 0));
+    });
+
+    it('should return pre-market, regular and after-hours boundaries', () => {
+      const at = (hour: number, minute = 0) => newYorkTime(2024, 11, 29, hour, minute);
+      const session = getTradingSession(localDate(2024, 11, 29))!;
+      expect(session.isEarlyClose).toBe(true);
+      expect(session.preMarket).toEqual({ start: at(4), end: at(9, 30) });
+      expect(session.regular).toEqual({ start: at(9, 30), end: at(13) });
+      expect(session.afterHours).toEqual({ start: at(13), end: at(17) });
+
+      const regular = getTradingSession(localDate(2024, 11, 27))!;
+      expect(regular.isEarlyClose).toBe(false);
+      expect(regular.regular.end).toEqual(newYorkTime(2024, 11, 27, 16, 0));
+      expect(regular.afterHours!.end).toEqual(newYorkTime(2024, 11, 27, 20, 0));
+
+      expect(getTradingSession(localDate(2024, 11, 28))).toBeNull();
+      expect(getTradingSession(localDate(2024, 11, 30))).toBeNull();
+    });
+
+    it('should handle early closes on other exchanges', () => {
+      // HKEX trades a morning session only on Lunar New Year's Eve (Feb 9, 2024)
+      const hk = getTradingSession(localDate(2024, 2, 9), 'HKEX')!;
+      expect(hk.isEarlyClose).toBe(true);
+      expect(hk.regular.end).toEqual(hongKongTime(2024, 2, 9, 12, 0));
+      expect(hk.lunchBreak).toBeUndefined();
+      expect(hk.preMarket).toBeUndefined();
+      expect(isMarketOpen(hongKongTime(2024, 2, 9, 13, 30), 'HKEX')).toBe(false);
+      expect(getNextMarketOpen(hongKongTime(2024, 2, 9, 12, 30), 'HKEX')).toEqual(hongKongTime(2024, 2, 14, 9, 30));
+
+      expect(getTradingSession(localDate(2024, 2, 8), 'HKEX')!.lunchBreak).toBeDefined();
+      expect(getMarketClose(localDate(2024, 12, 31), 'LSE')).toEqual(new Date('2024-12-31T12:30:00Z'));
+      expect(getMarketClose(localDate(2024, 12, 31), 'TSX')).toEqual(marketTime('America/Toronto', 2024, 12, 31, 16, 0));
+    });
+
+    it('should use early closes of registered exchanges', () => {
+      registerMarket('EARLY', {
+        hours: {
+          open: { hour: 9, minute: 0 },
+          close: { hour: 17, minute: 0 },
+          timezone: 'UTC',
+          earlyCloses: [{ name: 'Half day', date: { type: 'fixed', month: 6, day: 13 }, close: { hour: 12, minute: 0 }, from: 2025 }]
+        },
+        holidays: []
+      });
+      expect(getMarketClose(localDate(2024, 6, 13), 'EARLY')).toEqual(new Date('2024-06-13T17:00:00Z'));
+      expect(getMarketClose(localDate(2025, 6, 13), 'EARLY')).toEqual(new Date('2025-06-13T12:00:00Z'));
+      expect(isMarketOpen(new Date('2025-06-13T12:30:00Z'), 'EARLY')).toBe(false);
+      expect(getMarketHours('EARLY').earlyCloses).toHaveLength(1);
+    });
+  });
+
+  describe('day counts and coupon schedules', () => {
+    const ymd = (d: Date) => [d.getFullYear(), d.getMonth() + 1, d.getDate()];
+
+    it('should adjust dates by business day convention', () => {
+      // Aug 31, 2024 is a Saturday and Sep 2 is Labor Day
+      expect(ymd(adjustBusinessDay(localDate(2024, 8, 31)))).toEqual([2024, 9, 3]);
+      expect(ymd(adjustBusinessDay(localDate(2024, 8, 31), 'modified-following'))).toEqual([2024, 8, 30]);
+      expect(ymd(adjustBusinessDay(localDate(2024, 8, 31), 'preceding'))).toEqual([2024, 8, 30]);
+      expect(ymd(adjustBusinessDay(localDate(2024, 6, 1), 'modified-preceding'))).toEqual([2024, 6, 3]);
+      expect(ymd(adjustBusinessDay(localDate(2024, 8, 31), 'none'))).toEqual([2024, 8, 31]);
+      expect(ymd(adjustBusinessDay(localDate(2024, 12, 25), 'following', 'LSE'))).toEqual([2024, 12, 27]);
+    });
+
+    it('should calculate 30/360 fractions', () => {
+      expect(getDayCountFraction(localDate(2024, 1, 15), localDate(2024, 7, 15), '30/360')).toBe(0.5);
+      expect(getDayCountFraction(localDate(2024, 1, 31), localDate(2024, 3, 31), '30/360')).toBeCloseTo(60 / 360);
+      expect(getDayCountFraction(localDate(2024, 1, 30), localDate(2024, 3, 31), '30/360')).toBeCloseTo(60 / 360);
+      expect(getDayCountFraction(localDate(2024, 1, 29), localDate(2024, 3, 31), '30/360')).toBeCloseTo(62 / 360);
+      expect(getDayCountFraction(localDate(2024, 1, 29), localDate(2024, 3, 31), '30E/360')).toBeCloseTo(61 / 360);
+      // End of February counts as the 30th in the US convention only
+      expect(getDayCountFraction(localDate(2024, 2, 29), localDate(2024, 8, 31), '30/360')).toBe(0.5);
+      expect(getDayCountFraction(localDate(2024, 2, 29), localDate(2024, 8, 31), '30E/360')).toBeCloseTo(181 / 360);
+    });
+
+    it('should calculate actual day fractions', () => {
+      expect(getDayCountFraction(localDate(2024, 1, 15), localDate(2024, 7, 15), 'ACT/360')).toBeCloseTo(182 / 360);
+      expect(getDayCountFraction(localDate(2024, 1, 15), localDate(2024, 7, 15), 'ACT/365F')).toBeCloseTo(182 / 365);
+      expect(getDayCountFraction(localDate(2023, 12, 1), localDate(2024, 2, 1), 'ACT/ACT ISDA')).toBeCloseTo(31 / 365 + 31 / 366);
+      expect(getDayCountFraction(localDate(2024, 7, 15), localDate(2024, 1, 15), 'ACT/360')).toBeCloseTo(-182 / 360);
+    });
+
+    it('should calculate ACT/ACT ICMA fractions against the reference period', () => {
+      expect(getDayCountFraction(localDate(2024, 1, 15), localDate(2024, 7, 15), 'ACT/ACT ICMA')).toBe(0.5);
+      expect(getDayCountFraction(localDate(2024, 3, 1), localDate(2024, 6, 15), 'ACT/ACT ICMA', {
+        referenceStart: localDate(2023, 12, 15),
+        referenceEnd: localDate(2024, 6, 15)
+      })).toBeCloseTo(106 / 366);
+      expect(getDayCountFraction(localDate(2024, 1, 15), localDate(2025, 1, 15), 'ACT/ACT ICMA', { frequency: 1 })).toBe(1);
+    });
+
+    it('should count trading days for BUS/252', () => {
+      // Jan 2-8, 2024 has five trading days before the end date
+      expect(getDayCountFraction(localDate(2024, 1, 2), localDate(2024, 1, 9), 'BUS/252')).toBeCloseTo(5 / 252);
+      expect(getDayCountFraction(localDate(2024, 1, 12), localDate(2024, 1, 16), 'BUS/252')).toBeCloseTo(1 / 252);
+    });
+
+    it('should generate regular schedules with adjusted payment dates', () => {
+      const schedule = getCouponSchedule(localDate(2024, 6, 15), localDate(2026, 6, 15));
+      expect(schedule).toHaveLength(4);
+      expect(schedule.every(period => period.accrualFraction === 0.5 && !period.isStub)).toBe(true);
+      // Jun 15, 2024 and Dec 15, 2024 are weekends
+      expect(ymd(schedule[0].accrualEnd)).toEqual([2024, 12, 15]);
+      expect(ymd(schedule[0].paymentDate)).toEqual([2024, 12, 16]);
+      expect(ymd(schedule[3].paymentDate)).toEqual([2026, 6, 15]);
+    });
+
+    it('should place short and long stubs', () => {
+      const shortFirst = getCouponSchedule(localDate(2024, 3, 1), localDate(2026, 6, 15), { dayCount: 'ACT/ACT ICMA' });
+      expect(shortFirst).toHaveLength(5);
+      expect(shortFirst[0].isStub).toBe(true);
+      expect(ymd(shortFirst[0].accrualEnd)).toEqual([2024, 6, 15]);
+      expect(shortFirst[0].accrualFraction).toBeCloseTo(106 / 366);
+
+      const longFirst = getCouponSchedule(localDate(2024, 3, 1), localDate(2026, 6, 15), { dayCount: 'ACT/ACT ICMA', stub: 'long-first' });
+      expect(longFirst).toHaveLength(4);
+      expect(ymd(longFirst[0].accrualEnd)).toEqual([2024, 12, 15]);
+      expect(longFirst[0].accrualFraction).toBeCloseTo(106 / 366 + 0.5);
+
+      const shortLast = getCouponSchedule(localDate(2024, 3, 1), localDate(2026, 6, 15), { stub: 'short-last' });
+      expect(ymd(shortLast[4].accrualStart)).toEqual([2026, 3, 1]);
+      expect(shortLast[4].isStub).toBe(true);
+
+      const longLast = getCouponSchedule(localDate(2024, 3, 1), localDate(2026, 6, 15), { stub: 'long-last' });
+      expect(longLast).toHaveLength(4);
+      expect(ymd(longLast[3].accrualStart)).toEqual([2025, 9, 1]);
+    });
+
+    it('should honour explicit first and penultimate coupon dates', () => {
+      const schedule = getCouponSchedule(localDate(2024, 2, 1), localDate(2025, 6, 20), {
+        firstCouponDate: localDate(2024, 4, 15),
+        penultimateCouponDate: localDate(2025, 4, 15)
+      });
+      expect(schedule.map(period => ymd(period.accrualEnd))).toEqual([
+        [2024, 4, 15], [2024, 10, 15], [2025, 4, 15], [2025, 6, 20]
+      ]);
+      expect(schedule.map(period => period.isStub)).toEqual([true, false, false, true]);
+    });
+
+    it('should roll month ends with the end-of-month rule', () => {
+      const schedule = getCouponSchedule(localDate(2024, 2, 29), localDate(2025, 2, 28), {
+        frequency: 4,
+        endOfMonth: true,
+        businessDayConvention: 'modified-following'
+      });
+      expect(schedule.map(period => ymd(period.accrualEnd))).toEqual([
+        [2024, 5, 31], [2024, 8, 31], [2024, 11, 30], [2025, 2, 28]
+      ]);
+      // Aug 31 and Nov 30, 2024 are Saturdays; Modified Following stays in the month
+      expect(ymd(schedule[1].paymentDate)).toEqual([2024, 8, 30]);
+      expect(ymd(schedule[2].paymentDate)).toEqual([2024, 11, 29]);
+
+      const adjusted = getCouponSchedule(localDate(2024, 2, 29), localDate(2025, 2, 28), {
+        frequency: 4, endOfMonth: true, businessDayConvention: 'modified-following', adjustAccrualDates: true, dayCount: 'ACT/360'
+      });
+      expect(ymd(adjusted[1].accrualEnd)).toEqual([2024, 8, 30]);
+      expect(adjusted[1].accrualFraction).toBeCloseTo(91 / 360);
+    });
+
+    it('should return no periods when maturity is not after the effective date', () => {
+      expect(getCouponSchedule(localDate(2024, 6, 15), localDate(2024, 6, 15))).toEqual([]);
+    });
+  });
 });
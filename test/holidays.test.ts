@@ -15,8 +15,27 @@ import {
   getSpainHolidays,
   getChinaHolidays,
   getIndiaHolidays,
+  getSouthKoreaHolidays,
+  getSingaporeHolidays,
+  getReligiousHolidays,
+  getSupportedReligiousHolidaySets,
+  getSubdivisionHolidays,
+  getSupportedSubdivisions,
+  getUnitedStatesHolidays,
+  getSwedenHolidays,
+  registerHolidayCalendar,
+  getHolidayCalendarRules,
+  isPublicHoliday,
 } from '../src/holidays.js';
 
+const formatDay = (date: Date) => `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+
+const datesNamed = (holidays: { name: string; date: Date }[], name: string) =>
+  holidays.filter(h => h.name === name).map(h => formatDay(h.date));
+
+const observedDatesNamed = (holidays: { name: string; observedDate: Date }[], name: string) =>
+  holidays.filter(h => h.name === name).map(h => formatDay(h.observedDate));
+
 describe('International Holidays', () => {
   describe('UK Holidays', () => {
     it('should return all UK bank holidays for 2024', () => {
@@ -241,6 +260,63 @@ describe('International Holidays', () => {
       expect(nationalDay!.date.getDate()).toBe(1);
       expect(nationalDay!.date.getMonth()).toBe(9); // October
     });
+
+    it('should place lunar festivals on their lunar calendar dates', () => {
+      const holidays2024 = getChinaHolidays(2024);
+      expect(datesNamed(holidays2024, 'Spring Festival')).toEqual(['2024-2-10', '2024-2-11', '2024-2-12']);
+      expect(datesNamed(holidays2024, 'Dragon Boat Festival')).toEqual(['2024-6-10']);
+      expect(datesNamed(holidays2024, 'Mid-Autumn Festival')).toEqual(['2024-9-17']);
+
+      const holidays2025 = getChinaHolidays(2025);
+      expect(datesNamed(holidays2025, 'Spring Festival')[0]).toBe('2025-1-29');
+      expect(datesNamed(holidays2025, 'Dragon Boat Festival')).toEqual(['2025-5-31']);
+      expect(datesNamed(holidays2025, 'Mid-Autumn Festival')).toEqual(['2025-10-6']);
+    });
+
+    it('should place Tomb Sweeping Day on the Qingming solar term', () => {
+      expect(datesNamed(getChinaHolidays(2024), 'Tomb Sweeping Day')).toEqual(['2024-4-4']);
+      expect(datesNamed(getChinaHolidays(2026), 'Tomb Sweeping Day')).toEqual(['2026-4-5']);
+      expect(datesNamed(getChinaHolidays(2008), 'Tomb Sweeping Day')).toEqual(['2008-4-4']);
+      // A public holiday only since 2008
+      expect(datesNamed(getChinaHolidays(1943), 'Tomb Sweeping Day')).toEqual([]);
+    });
+
+    it('should leave out lunar festivals outside 1900-2100', () => {
+      const holidays = getChinaHolidays(2150);
+      expect(holidays.find(h => h.name === 'Spring Festival')).toBeUndefined();
+      expect(holidays.find(h => h.name === 'National Day')).toBeDefined();
+    });
+  });
+
+  describe('South Korea Holidays', () => {
+    it('should include Seollal, Buddha\'s Birthday and Chuseok', () => {
+      const holidays = getSouthKoreaHolidays(2024);
+      expect(datesNamed(holidays, 'Seollal')).toEqual(['2024-2-9', '2024-2-10', '2024-2-11']);
+      expect(datesNamed(holidays, "Buddha's Birthday")).toEqual(['2024-5-15']);
+      expect(datesNamed(holidays, 'Chuseok')).toEqual(['2024-9-16', '2024-9-17', '2024-9-18']);
+    });
+
+    it('should follow the Korean calendar where it differs from China\'s', () => {
+      // New moons just before midnight in Beijing fall after midnight in Seoul
+      expect(datesNamed(getSouthKoreaHolidays(1997), 'Seollal')[1]).toBe('1997-2-8');
+      expect(datesNamed(getChinaHolidays(1997), 'Spring Festival')[0]).toBe('1997-2-7');
+      expect(datesNamed(getSouthKoreaHolidays(2027), 'Seollal')[1]).toBe('2027-2-7');
+    });
+  });
+
+  describe('Singapore Holidays', () => {
+    it('should include Chinese New Year and Vesak Day', () => {
+      const holidays = getSingaporeHolidays(2024);
+      expect(datesNamed(holidays, 'Chinese New Year')).toEqual(['2024-2-10', '2024-2-11']);
+      expect(datesNamed(holidays, 'Vesak Day')).toEqual(['2024-5-22']);
+    });
+
+    it('should include Hari Raya Puasa, Hari Raya Haji and Deepavali', () => {
+      const holidays = getSingaporeHolidays(2024);
+      expect(datesNamed(holidays, 'Hari Raya Puasa')).toEqual(['2024-4-10']);
+      expect(datesNamed(holidays, 'Hari Raya Haji')).toEqual(['2024-6-16']);
+      expect(datesNamed(holidays, 'Deepavali')).toEqual(['2024-10-31']);
+    });
   });
 
   describe('India Holidays', () => {
@@ -273,6 +349,368 @@ describe('International Holidays', () => {
       expect(gandhiJayanti!.date.getDate()).toBe(2);
       expect(gandhiJayanti!.date.getMonth()).toBe(9); // October
     });
+
+    it('should include Holi, Diwali and the Eids', () => {
+      const holidays = getIndiaHolidays(2025);
+      expect(datesNamed(holidays, 'Holi')).toEqual(['2025-3-14']);
+      expect(datesNamed(holidays, 'Diwali')).toEqual(['2025-10-20']);
+      expect(datesNamed(holidays, 'Eid al-Fitr')).toEqual(['2025-3-30']);
+      expect(datesNamed(holidays, 'Eid al-Adha')).toEqual(['2025-6-6']);
+      expect(holidays.find(h => h.name === 'Holi')!.type).toBe('public');
+    });
+  });
+
+  describe('Religious holiday sets', () => {
+    it('should compute Islamic holidays from the Umm al-Qura calendar', () => {
+      const holidays = getReligiousHolidays(2024, 'islamic', 'UK');
+      expect(datesNamed(holidays, 'Eid al-Fitr')).toEqual(['2024-4-10']);
+      expect(datesNamed(holidays, 'Eid al-Adha')).toEqual(['2024-6-16']);
+      expect(datesNamed(holidays, 'Islamic New Year')).toEqual(['2024-7-7']);
+      expect(holidays.every(h => h.type === 'observance' && h.religion === 'islamic')).toBe(true);
+    });
+
+    it('should include both occurrences when an Islamic holiday falls twice in a year', () => {
+      expect(datesNamed(getReligiousHolidays(2000, 'islamic', 'UK'), 'Eid al-Fitr')).toEqual(['2000-1-8', '2000-12-27']);
+    });
+
+    it('should compute Jewish holidays from the Hebrew calendar', () => {
+      const holidays = getReligiousHolidays(2024, 'jewish', 'US');
+      expect(datesNamed(holidays, 'Passover')).toEqual(['2024-4-23']);
+      expect(datesNamed(holidays, 'Rosh Hashanah')).toEqual(['2024-10-3']);
+      expect(datesNamed(holidays, 'Yom Kippur')).toEqual(['2024-10-12']);
+      expect(datesNamed(holidays, 'Hanukkah')).toEqual(['2024-12-26']);
+    });
+
+    it('should compute Holi and Diwali', () => {
+      const dates = (year: number) => getReligiousHolidays(year, 'hindu', 'IN');
+      expect(datesNamed(dates(2023), 'Holi')).toEqual(['2023-3-8']);
+      expect(datesNamed(dates(2024), 'Holi')).toEqual(['2024-3-25']);
+      expect(datesNamed(dates(2023), 'Diwali')).toEqual(['2023-11-12']);
+      expect(datesNamed(dates(2024), 'Diwali')).toEqual(['2024-10-31']);
+      expect(dates(2101)).toEqual([]);
+    });
+
+    it('should compute Vesak from the lunar calendar', () => {
+      expect(datesNamed(getReligiousHolidays(2023, 'buddhist', 'SG'), 'Vesak')).toEqual(['2023-6-2']);
+    });
+
+    it('should combine sets with a country in getHolidays', () => {
+      const holidays = getHolidays(2024, 'UK', { religious: ['jewish', 'hindu'] });
+      expect(datesNamed(holidays, 'Yom Kippur')).toEqual(['2024-10-12']);
+      expect(datesNamed(holidays, 'Diwali')).toEqual(['2024-10-31']);
+      expect(holidays.every(h => h.countryCode === 'UK')).toBe(true);
+      expect(isHoliday(new Date(2024, 9, 12), 'UK')).toBe(false);
+      expect(isHoliday(new Date(2024, 9, 12), 'UK', { religious: ['jewish'] })).toBe(true);
+      expect(getHolidayName(new Date(2024, 2, 25), 'DE', { religious: ['hindu'] })).toBe('Holi');
+    });
+
+    it('should not repeat holidays the country already lists', () => {
+      const holidays = getHolidays(2024, 'SG', { religious: ['buddhist', 'islamic'] });
+      expect(holidays.filter(h => h.date.getMonth() === 4 && h.date.getDate() === 22)).toHaveLength(1);
+      expect(holidays.filter(h => h.religion === 'islamic').map(h => h.name)).toEqual([
+        'Hari Raya Puasa', 'Hari Raya Haji', 'Islamic New Year'
+      ]);
+    });
+
+    it('should list the supported sets', () => {
+      expect(getSupportedReligiousHolidaySets()).toEqual(['islamic', 'jewish', 'hindu', 'buddhist']);
+    });
+  });
+
+  describe('Subdivision holidays', () => {
+    it('should add state holidays in Germany', () => {
+      const bavaria = getHolidays(2024, 'DE', { subdivision: 'DE-BY' });
+      expect(datesNamed(bavaria, 'Epiphany')).toEqual(['2024-1-6']);
+      expect(datesNamed(bavaria, 'Corpus Christi')).toEqual(['2024-5-30']);
+      expect(datesNamed(bavaria, "All Saints' Day")).toEqual(['2024-11-1']);
+      expect(bavaria.find(h => h.name === 'Epiphany')!.subdivisions).toEqual(['DE-BW', 'DE-BY', 'DE-ST']);
+
+      const berlin = getHolidays(2024, 'DE', { subdivision: 'DE-BE' });
+      expect(datesNamed(berlin, "International Women's Day")).toEqual(['2024-3-8']);
+      expect(datesNamed(berlin, 'Epiphany')).toEqual([]);
+      expect(datesNamed(getHolidays(2024, 'DE', { subdivision: 'DE-SN' }), 'Repentance and Prayer Day')).toEqual(['2024-11-20']);
+    });
+
+    it('should keep region-only holidays out of country-wide lookups', () => {
+      expect(isHoliday(new Date(2024, 0, 6), 'DE')).toBe(false);
+      expect(isHoliday(new Date(2024, 0, 6), 'DE', { subdivision: 'DE-BY' })).toBe(true);
+      expect(getHolidays(2024, 'DE').some(h => h.subdivisions)).toBe(false);
+    });
+
+    it('should follow Scottish and Northern Irish bank holidays', () => {
+      const scotland = getHolidays(2024, 'UK', { subdivision: 'GB-SCT' });
+      expect(datesNamed(scotland, '2 January')).toEqual(['2024-1-2']);
+      expect(datesNamed(scotland, 'Easter Monday')).toEqual([]);
+      expect(datesNamed(scotland, 'Summer Bank Holiday')).toEqual(['2024-8-5']);
+      expect(datesNamed(scotland, "St Andrew's Day")).toEqual(['2024-11-30']);
+      expect(observedDatesNamed(scotland, "St Andrew's Day")).toEqual(['2024-12-2']);
+
+      const northernIreland = getHolidays(2024, 'UK', { subdivision: 'GB-NIR' });
+      expect(observedDatesNamed(northernIreland, "St Patrick's Day")).toEqual(['2024-3-18']);
+      expect(datesNamed(northernIreland, 'Battle of the Boyne')).toEqual(['2024-7-12']);
+      expect(getHolidays(2024, 'UK', { subdivision: 'GB-ENG' })).toEqual(getHolidays(2024, 'UK'));
+    });
+
+    it('should follow Canadian provinces', () => {
+      const quebec = getHolidays(2024, 'CA', { subdivision: 'CA-QC' });
+      expect(datesNamed(quebec, 'Saint-Jean-Baptiste Day')).toEqual(['2024-6-24']);
+      expect(datesNamed(quebec, 'Remembrance Day')).toEqual([]);
+      expect(datesNamed(quebec, 'Family Day')).toEqual([]);
+
+      const ontario = getHolidays(2024, 'CA', { subdivision: 'ca-on' });
+      expect(datesNamed(ontario, 'Family Day')).toEqual(['2024-2-19']);
+      expect(datesNamed(getHolidays(2015, 'CA', { subdivision: 'CA-BC' }), 'Family Day')).toEqual(['2015-2-9']);
+    });
+
+    it('should follow Australian states', () => {
+      const victoria = getHolidays(2024, 'AU', { subdivision: 'AU-VIC' });
+      expect(datesNamed(victoria, 'Labour Day')).toEqual(['2024-3-11']);
+      expect(datesNamed(victoria, 'Melbourne Cup')).toEqual(['2024-11-5']);
+
+      const westernAustralia = getHolidays(2024, 'AU', { subdivision: 'AU-WA' });
+      expect(datesNamed(getHolidays(2023, 'AU', { subdivision: 'AU-WA' }), "King's Birthday")).toEqual(['2023-9-25']);
+      expect(datesNamed(westernAustralia, 'Easter Saturday')).toEqual([]);
+      expect(datesNamed(getHolidays(2024, 'AU', { subdivision: 'AU-QLD' }), "King's Birthday")).toEqual(['2024-10-7']);
+    });
+
+    it('should follow Catalonia and the Swiss cantons', () => {
+      const catalonia = getHolidays(2024, 'ES', { subdivision: 'ES-CT' });
+      expect(datesNamed(catalonia, 'National Day of Catalonia')).toEqual(['2024-9-11']);
+      expect(datesNamed(catalonia, "Saint Stephen's Day")).toEqual(['2024-12-26']);
+      expect(datesNamed(catalonia, 'Maundy Thursday')).toEqual([]);
+
+      const zurich = getHolidays(2024, 'CH', { subdivision: 'CH-ZH' });
+      expect(datesNamed(zurich, "Berchtold's Day")).toEqual(['2024-1-2']);
+      expect(datesNamed(zurich, 'Labour Day')).toEqual(['2024-5-1']);
+      expect(datesNamed(getHolidays(2024, 'CH', { subdivision: 'CH-GE' }), 'Geneva Fast')).toEqual(['2024-9-5']);
+      expect(datesNamed(getHolidays(2024, 'CH', { subdivision: 'CH-VS' }), 'Good Friday')).toEqual([]);
+    });
+
+    it('should return holidays in date order', () => {
+      const dates = getHolidays(2024, 'CH', { subdivision: 'CH-LU' }).map(h => h.date.getTime());
+      expect(dates).toEqual([...dates].sort((a, b) => a - b));
+    });
+
+    it('should accept the subdivision in next and upcoming holiday lookups', () => {
+      const from = new Date(2024, 5, 20);
+      expect(getNextHoliday(from, 'CA')!.name).toBe('Canada Day');
+      expect(getNextHoliday(from, 'CA', { subdivision: 'CA-QC' })!.name).toBe('Saint-Jean-Baptiste Day');
+      expect(getUpcomingHolidays(new Date(2024, 10, 1), 10, 'AU', { subdivision: 'AU-VIC' }).map(h => h.name)).toEqual(['Melbourne Cup']);
+    });
+
+    it('should ignore unknown subdivisions', () => {
+      expect(getHolidays(2024, 'DE', { subdivision: 'DE-XX' })).toEqual(getHolidays(2024, 'DE'));
+      expect(getSubdivisionHolidays(2024, 'FR', 'FR-IDF')).toEqual([]);
+    });
+
+    it('should list subdivisions and their holidays', () => {
+      expect(getSupportedSubdivisions('UK')).toEqual(['GB-ENG', 'GB-NIR', 'GB-SCT', 'GB-WLS']);
+      expect(getSupportedSubdivisions('DE')).toHaveLength(16);
+      expect(getSupportedSubdivisions('FR')).toEqual([]);
+      expect(getSubdivisionHolidays(2024, 'UK', 'UK-NIR').map(h => h.name)).toEqual(["St Patrick's Day", 'Battle of the Boyne']);
+      expect(getSubdivisionHolidays(2024, 'DE').every(h => h.subdivisions!.length > 0)).toBe(true);
+    });
+  });
+
+  describe('US Holidays', () => {
+    it('should return the federal holidays', () => {
+      const holidays = getUnitedStatesHolidays(2024);
+      expect(holidays).toHaveLength(11);
+      expect(datesNamed(holidays, 'Thanksgiving Day')).toEqual(['2024-11-28']);
+      expect(datesNamed(getHolidays(2024, 'US'), 'Memorial Day')).toEqual(['2024-5-27']);
+    });
+
+    it('should only include holidays after they were established', () => {
+      expect(datesNamed(getUnitedStatesHolidays(2020), 'Juneteenth')).toEqual([]);
+      expect(datesNamed(getUnitedStatesHolidays(2021), 'Juneteenth')).toEqual(['2021-6-19']);
+      expect(datesNamed(getUnitedStatesHolidays(1985), 'Martin Luther King Jr. Day')).toEqual([]);
+    });
+  });
+
+  describe('Observed dates', () => {
+    it('should give UK substitute days to consecutive weekend holidays', () => {
+      const holidays2021 = getUKHolidays(2021);
+      expect(datesNamed(holidays2021, 'Christmas Day')).toEqual(['2021-12-25']);
+      expect(observedDatesNamed(holidays2021, 'Christmas Day')).toEqual(['2021-12-27']);
+      expect(observedDatesNamed(holidays2021, 'Boxing Day')).toEqual(['2021-12-28']);
+
+      const holidays2022 = getUKHolidays(2022);
+      expect(observedDatesNamed(holidays2022, 'Boxing Day')).toEqual(['2022-12-26']);
+      expect(observedDatesNamed(holidays2022, 'Christmas Day')).toEqual(['2022-12-27']);
+    });
+
+    it('should observe US holidays on the nearest weekday', () => {
+      expect(observedDatesNamed(getUnitedStatesHolidays(2021), 'Christmas Day')).toEqual(['2021-12-24']);
+      expect(observedDatesNamed(getUnitedStatesHolidays(2022), "New Year's Day")).toEqual(['2021-12-31']);
+      expect(observedDatesNamed(getUnitedStatesHolidays(2021), 'Independence Day')).toEqual(['2021-7-5']);
+    });
+
+    it('should move Canadian and Australian weekend holidays to Monday', () => {
+      expect(observedDatesNamed(getCanadaHolidays(2023), 'Canada Day')).toEqual(['2023-7-3']);
+      expect(observedDatesNamed(getAustraliaHolidays(2025), 'Australia Day')).toEqual(['2025-1-27']);
+      expect(observedDatesNamed(getAustraliaHolidays(2022), 'Christmas Day')).toEqual(['2022-12-27']);
+      expect(observedDatesNamed(getAustraliaHolidays(2024), 'Easter Saturday')).toEqual(['2024-3-30']);
+    });
+
+    it('should substitute around regional holidays', () => {
+      const scotland = getHolidays(2023, 'UK', { subdivision: 'GB-SCT' });
+      expect(observedDatesNamed(scotland, '2 January')).toEqual(['2023-1-2']);
+      expect(observedDatesNamed(scotland, "New Year's Day")).toEqual(['2023-1-3']);
+      expect(observedDatesNamed(getHolidays(2023, 'UK'), "New Year's Day")).toEqual(['2023-1-2']);
+      expect(observedDatesNamed(getSubdivisionHolidays(2022, 'UK', 'GB-SCT'), '2 January')).toEqual(['2022-1-4']);
+    });
+
+    it('should substitute Sunday holidays in Japan, Korea and Singapore', () => {
+      expect(observedDatesNamed(getHolidays(2023, 'JP'), "New Year's Day")).toEqual(['2023-1-2']);
+      expect(isHoliday(new Date(2023, 0, 2), 'JP', { observed: true })).toBe(true);
+      expect(observedDatesNamed(getSouthKoreaHolidays(2023), 'Seollal')).toEqual(['2023-1-21', '2023-1-24', '2023-1-23']);
+      expect(observedDatesNamed(getSingaporeHolidays(2023), 'Chinese New Year')).toEqual(['2023-1-24', '2023-1-23']);
+      expect(observedDatesNamed(getSingaporeHolidays(2023), 'Deepavali')).toEqual(['2023-11-13']);
+    });
+
+    it('should follow the years substitute holidays were introduced', () => {
+      // Japan from April 1973
+      expect(observedDatesNamed(getHolidays(1973, 'JP'), 'National Foundation Day')).toEqual(['1973-2-11']);
+      expect(datesNamed(getHolidays(1973, 'JP'), 'Substitute Holiday')).toEqual(['1973-4-30', '1973-9-24']);
+      expect(observedDatesNamed(getHolidays(2021, 'JP'), 'Mountain Day')).toEqual(['2021-8-9']);
+      // Korea: Children's Day from 2014, Hangul Day from 2021, Saturday Seollal never
+      expect(observedDatesNamed(getSouthKoreaHolidays(2013), "Children's Day")).toEqual(['2013-5-5']);
+      expect(observedDatesNamed(getSouthKoreaHolidays(2024), "Children's Day")).toEqual(['2024-5-6']);
+      expect(observedDatesNamed(getSouthKoreaHolidays(2016), 'Hangul Day')).toEqual(['2016-10-9']);
+      expect(observedDatesNamed(getSouthKoreaHolidays(2022), 'Hangul Day')).toEqual(['2022-10-10']);
+    });
+
+    it('should give Korean substitute days to holidays that fall on another holiday', () => {
+      const isObserved = (date: Date) => isHoliday(date, 'KR', { observed: true });
+      // Chuseok eve on National Foundation Day
+      expect(isObserved(new Date(2017, 9, 6))).toBe(true);
+      expect(isObserved(new Date(2028, 9, 5))).toBe(true);
+      // Children's Day on Buddha's Birthday
+      expect(isObserved(new Date(2025, 4, 6))).toBe(true);
+      expect(isObserved(new Date(2025, 4, 5))).toBe(true);
+      // National Foundation Day had no substitute before 2021, so it keeps its day
+      expect(observedDatesNamed(getSouthKoreaHolidays(2017), 'National Foundation Day')).toEqual(['2017-10-3']);
+    });
+
+    it('should keep the date for countries without observance rules', () => {
+      expect(getGermanyHolidays(2022).every(h => h.observedDate.getTime() === h.date.getTime())).toBe(true);
+    });
+
+    it('should match observed dates in lookups when asked', () => {
+      expect(isHoliday(new Date(2022, 11, 27), 'UK')).toBe(false);
+      expect(isHoliday(new Date(2022, 11, 27), 'UK', { observed: true })).toBe(true);
+      expect(isHoliday(new Date(2022, 11, 25), 'UK', { observed: true })).toBe(false);
+      expect(getHolidayName(new Date(2021, 11, 31), 'US', { observed: true })).toBe("New Year's Day");
+      expect(getHolidayName(new Date(2021, 11, 31), 'US')).toBeNull();
+
+      const from = new Date(2021, 11, 20);
+      expect(getNextHoliday(from, 'US', { observed: true })!.name).toBe('Christmas Day');
+      expect(getUpcomingHolidays(from, 14, 'US', { observed: true }).map(h => h.name)).toEqual(['Christmas Day', "New Year's Day"]);
+      expect(getUpcomingHolidays(from, 11, 'US').map(h => h.name)).toEqual(['Christmas Day']);
+    });
+  });
+
+  describe('Historical holidays', () => {
+    it('should only include US holidays from the year they were created', () => {
+      expect(datesNamed(getUnitedStatesHolidays(2020), 'Juneteenth')).toEqual([]);
+      expect(datesNamed(getUnitedStatesHolidays(2021), 'Juneteenth')).toEqual(['2021-6-19']);
+      expect(datesNamed(getUnitedStatesHolidays(1985), 'Martin Luther King Jr. Day')).toEqual([]);
+      expect(datesNamed(getUnitedStatesHolidays(1986), 'Martin Luther King Jr. Day')).toEqual(['1986-1-20']);
+    });
+
+    it('should use US dates from before the Uniform Monday Holiday Act', () => {
+      expect(datesNamed(getUnitedStatesHolidays(1970), "Washington's Birthday")).toEqual(['1970-2-22']);
+      expect(datesNamed(getUnitedStatesHolidays(1970), 'Memorial Day')).toEqual(['1970-5-30']);
+      expect(datesNamed(getUnitedStatesHolidays(1975), 'Veterans Day')).toEqual(['1975-10-27']);
+      expect(datesNamed(getUnitedStatesHolidays(1940), 'Thanksgiving Day')).toEqual(['1940-11-21']);
+      expect(getHolidayName(new Date(2025, 0, 9), 'US')).toBe('National Day of Mourning for Jimmy Carter');
+    });
+
+    it('should include one-off UK bank holidays', () => {
+      expect(getHolidayName(new Date(2022, 8, 19), 'UK')).toBe('State Funeral of Queen Elizabeth II');
+      expect(getHolidayName(new Date(2023, 4, 8), 'UK')).toBe('Coronation of King Charles III');
+      expect(getHolidayName(new Date(2011, 3, 29), 'UK')).toBe('Royal Wedding');
+      expect(getHolidayName(new Date(1999, 11, 31), 'UK')).toBe('Millennium Celebrations');
+      expect(isHoliday(new Date(2024, 8, 19), 'UK')).toBe(false);
+    });
+
+    it('should move UK bank holidays in the years they were moved', () => {
+      expect(datesNamed(getUKHolidays(2022), 'Spring Bank Holiday')).toEqual(['2022-6-2']);
+      expect(datesNamed(getUKHolidays(2022), "Queen's Platinum Jubilee")).toEqual(['2022-6-3']);
+      expect(datesNamed(getUKHolidays(2012), 'Spring Bank Holiday')).toEqual(['2012-6-4']);
+      expect(datesNamed(getUKHolidays(2002), 'Spring Bank Holiday')).toEqual(['2002-6-4']);
+      expect(datesNamed(getUKHolidays(2020), 'Early May Bank Holiday')).toEqual(['2020-5-8']);
+      expect(datesNamed(getUKHolidays(2023), 'Early May Bank Holiday')).toEqual(['2023-5-1']);
+      expect(datesNamed(getUKHolidays(2024), 'Spring Bank Holiday')).toEqual(['2024-5-27']);
+    });
+
+    it('should follow older UK and Scottish rules', () => {
+      expect(datesNamed(getUKHolidays(1970), 'Whit Monday')).toEqual(['1970-5-18']);
+      expect(datesNamed(getUKHolidays(1970), 'Summer Bank Holiday')).toEqual(['1970-8-3']);
+      expect(datesNamed(getUKHolidays(1973), "New Year's Day")).toEqual([]);
+      expect(datesNamed(getHolidays(1973, 'UK', { subdivision: 'GB-SCT' }), "New Year's Day")).toEqual(['1973-1-1']);
+      expect(datesNamed(getHolidays(2006, 'UK', { subdivision: 'GB-SCT' }), "St Andrew's Day")).toEqual([]);
+    });
+
+    it("should rename Queen's Birthday and Queen's Day for the new monarchs", () => {
+      expect(datesNamed(getAustraliaHolidays(2022), "Queen's Birthday")).toEqual(['2022-6-13']);
+      expect(datesNamed(getAustraliaHolidays(2023), "King's Birthday")).toEqual(['2023-6-12']);
+      expect(datesNamed(getAustraliaHolidays(2023), "Queen's Birthday")).toEqual([]);
+      expect(datesNamed(getNetherlandsHolidays(2013), "Queen's Day")).toEqual(['2013-4-30']);
+      expect(datesNamed(getNetherlandsHolidays(2013), "King's Day")).toEqual([]);
+      expect(datesNamed(getNetherlandsHolidays(2006), "Queen's Day")).toEqual(['2006-4-29']);
+    });
+
+    it('should follow German unity and Repentance Day changes', () => {
+      expect(datesNamed(getGermanyHolidays(1989), 'German Unity Day')).toEqual([]);
+      expect(datesNamed(getGermanyHolidays(1989), 'Day of German Unity')).toEqual(['1989-6-17']);
+      expect(datesNamed(getGermanyHolidays(1994), 'Repentance and Prayer Day')).toEqual(['1994-11-16']);
+      expect(datesNamed(getGermanyHolidays(1995), 'Repentance and Prayer Day')).toEqual([]);
+      expect(datesNamed(getGermanyHolidays(2017), 'Reformation Day')).toEqual(['2017-10-31']);
+      expect(datesNamed(getHolidays(2017, 'DE', { subdivision: 'DE-SN' }), 'Reformation Day')).toEqual(['2017-10-31']);
+    });
+
+    it('should compute the Japanese equinox days', () => {
+      expect(datesNamed(getHolidays(2023, 'JP'), 'Vernal Equinox Day')).toEqual(['2023-3-21']);
+      expect(datesNamed(getHolidays(2024, 'JP'), 'Vernal Equinox Day')).toEqual(['2024-3-20']);
+      expect(datesNamed(getHolidays(1960, 'JP'), 'Vernal Equinox Day')).toEqual(['1960-3-20']);
+      expect(datesNamed(getHolidays(2012, 'JP'), 'Autumnal Equinox Day')).toEqual(['2012-9-22']);
+      expect(datesNamed(getHolidays(2023, 'JP'), 'Autumnal Equinox Day')).toEqual(['2023-9-23']);
+      expect(datesNamed(getHolidays(1979, 'JP'), 'Autumnal Equinox Day')).toEqual(['1979-9-24']);
+    });
+
+    it('should add Mexican inauguration days every six years', () => {
+      const name = 'Transmission of Federal Executive Power';
+      expect(datesNamed(getHolidays(2012, 'MX'), name)).toEqual(['2012-12-1']);
+      expect(datesNamed(getHolidays(2018, 'MX'), name)).toEqual(['2018-12-1']);
+      expect(datesNamed(getHolidays(2024, 'MX'), name)).toEqual(['2024-10-1']);
+      expect(datesNamed(getHolidays(2022, 'MX'), name)).toEqual([]);
+      expect(datesNamed(getHolidays(2016, 'MX'), name)).toEqual([]);
+    });
+
+    it('should use the Olympic dates for Japanese holidays in 2020 and 2021', () => {
+      const holidays = getHolidays(2020, 'JP');
+      expect(datesNamed(holidays, 'Marine Day')).toEqual(['2020-7-23']);
+      expect(datesNamed(holidays, 'Sports Day')).toEqual(['2020-7-24']);
+      expect(datesNamed(holidays, 'Mountain Day')).toEqual(['2020-8-10']);
+      expect(datesNamed(getHolidays(2019, 'JP'), "Emperor's Birthday")).toEqual([]);
+      expect(datesNamed(getHolidays(2018, 'JP'), "Emperor's Birthday")).toEqual(['2018-12-23']);
+      expect(getHolidayName(new Date(2019, 4, 1), 'JP')).toBe('Enthronement of Emperor Naruhito');
+    });
+
+    it('should make a day between two Japanese holidays a holiday', () => {
+      // Between Respect for the Aged Day and Autumnal Equinox Day
+      expect(getHolidayName(new Date(2009, 8, 22), 'JP')).toBe('National Holiday');
+      expect(isHoliday(new Date(2015, 8, 22), 'JP')).toBe(true);
+      expect(isHoliday(new Date(2026, 8, 22), 'JP')).toBe(true);
+      expect(isHoliday(new Date(2027, 8, 22), 'JP')).toBe(false);
+      // May 4 from 1988 until it became Greenery Day, unless a Sunday or already a substitute day
+      expect(getHolidayName(new Date(2000, 4, 4), 'JP')).toBe('National Holiday');
+      expect(isHoliday(new Date(1985, 4, 4), 'JP')).toBe(false);
+      expect(datesNamed(getHolidays(1997, 'JP'), 'National Holiday')).toEqual([]);
+      expect(datesNamed(getHolidays(1992, 'JP'), 'National Holiday')).toEqual([]);
+      expect(datesNamed(getHolidays(2019, 'JP'), 'National Holiday')).toEqual(['2019-4-30', '2019-5-2']);
+    });
   });
 
   describe('Unified API', () => {
@@ -376,3 +814,119 @@ describe('International Holidays', () => {
     });
   });
 });
+
+describe('Holiday calendar registry', () => {
+  it('should place Midsummer Eve on the Friday between 19 and 25 June', () => {
+    expect(datesNamed(getSwedenHolidays(2020), 'Midsummer Eve')).toEqual(['2020-6-19']);
+    expect(datesNamed(getSwedenHolidays(2024), 'Midsummer Eve')).toEqual(['2024-6-21']);
+  });
+
+  it('should evaluate each kind of date rule', () => {
+    registerHolidayCalendar('XX', [
+      { name: 'Fixed', date: { type: 'fixed', month: 3, day: 10 } },
+      { name: 'Second Tuesday', date: { type: 'nth-weekday', month: 4, weekday: 2, n: 2 } },
+      { name: 'Second Last Friday', date: { type: 'nth-weekday', month: 5, weekday: 5, n: -2 } },
+      { name: 'Monday On Or After', date: { type: 'weekday-on-or-after', month: 6, day: 4, weekday: 1 } },
+      { name: 'Sunday On Or Before', date: { type: 'weekday-on-or-before', month: 7, day: 6, weekday: 0 } },
+      { name: 'Pentecost', date: { type: 'easter', offset: 49 } },
+      { name: 'Lunar New Year', date: { type: 'lunar', month: 1, day: 1 } },
+      { name: 'Eid al-Fitr', date: { type: 'islamic', month: 10, day: 1 } },
+      { name: 'Yom Kippur', date: { type: 'hebrew', month: 1, day: 10 } },
+      { name: 'Diwali', date: { type: 'hindu', festival: 'diwali' } },
+      { name: 'Custom', date: { type: 'custom', dates: year => [new Date(year, 8, 1), new Date(year, 8, 2)] } }
+    ]);
+    const holidays = getHolidays(2024, 'XX');
+
+    expect(holidays.map(h => `${h.name} ${formatDay(h.date)}`)).toEqual([
+      'Lunar New Year 2024-2-10',
+      'Fixed 2024-3-10',
+      'Second Tuesday 2024-4-9',
+      'Eid al-Fitr 2024-4-10',
+      'Pentecost 2024-5-19',
+      'Second Last Friday 2024-5-24',
+      'Monday On Or After 2024-6-10',
+      'Sunday On Or Before 2024-6-30',
+      'Custom 2024-9-1',
+      'Custom 2024-9-2',
+      'Yom Kippur 2024-10-12',
+      'Diwali 2024-10-31'
+    ]);
+    expect(holidays.every(h => h.countryCode === 'XX' && h.type === 'public')).toBe(true);
+  });
+
+  it('should register a new country with observance, year ranges and subdivisions', () => {
+    registerHolidayCalendar('IE', [
+      { name: "New Year's Day", date: { type: 'fixed', month: 1, day: 1 }, observed: 'next-monday' },
+      { name: "St Brigid's Day", date: { type: 'weekday-on-or-after', month: 2, day: 1, weekday: 1 }, from: 2023 },
+      { name: "St Patrick's Day", date: { type: 'fixed', month: 3, day: 17 }, observed: 'next-monday' },
+      { name: 'Local Day', date: { type: 'fixed', month: 9, day: 1 }, subdivisions: ['IE-D'] }
+    ], { subdivisions: ['IE-C'] });
+
+    expect(getSupportedCountries()).toContain('IE');
+    expect(getSupportedSubdivisions('IE')).toEqual(['IE-C', 'IE-D']);
+    expect(datesNamed(getHolidays(2022, 'IE'), "St Brigid's Day")).toEqual([]);
+    expect(datesNamed(getHolidays(2023, 'IE'), "St Brigid's Day")).toEqual(['2023-2-6']);
+    expect(observedDatesNamed(getHolidays(2024, 'IE'), "St Patrick's Day")).toEqual(['2024-3-18']);
+    expect(isHoliday(new Date(2024, 2, 18), 'IE', { observed: true })).toBe(true);
+    expect(isHoliday(new Date(2024, 8, 1), 'IE')).toBe(false);
+    expect(isHoliday(new Date(2024, 8, 1), 'IE', { subdivision: 'ie-d' })).toBe(true);
+    expect(getSubdivisionHolidays(2024, 'IE', 'IE-C')).toEqual([]);
+  });
+
+  it('should extend a built-in calendar with company shutdown days', () => {
+    registerHolidayCalendar('ACME', [
+      ...getHolidayCalendarRules('UK')!,
+      { name: 'Company Shutdown', date: { type: 'fixed', month: 12, day: 27 }, type: 'observance', from: 2025, to: 2026 }
+    ]);
+
+    expect(getHolidayName(new Date(2025, 11, 25), 'ACME')).toBe('Christmas Day');
+    expect(getHolidayName(new Date(2025, 11, 27), 'ACME')).toBe('Company Shutdown');
+    expect(isHoliday(new Date(2027, 11, 27), 'ACME')).toBe(false);
+    expect(getHolidays(2025, 'UK').some(h => h.name === 'Company Shutdown')).toBe(false);
+  });
+
+  it('should drop dates moved outside the year by an offset', () => {
+    registerHolidayCalendar('XX', [
+      { name: 'New Year Eve', date: { type: 'fixed', month: 1, day: 1, offset: -1 } }
+    ]);
+    expect(getHolidays(2024, 'XX')).toEqual([]);
+  });
+
+  it('should return copies of rules and nothing for unknown codes', () => {
+    const rules = getHolidayCalendarRules('US')!;
+    rules.length = 0;
+    expect(getHolidays(2024, 'US').length).toBe(11);
+    expect(getHolidayCalendarRules('ZZ')).toBeNull();
+    expect(getHolidays(2024, 'ZZ')).toEqual([]);
+  });
+});
+
+describe('isPublicHoliday', () => {
+  it('matches holidays and their observed days off', () => {
+    expect(isPublicHoliday(new Date(2025, 0, 6), { country: 'DE', subdivision: 'DE-BY' })).toBe(true);
+    expect(isPublicHoliday(new Date(2025, 0, 6), { country: 'DE' })).toBe(false);
+    // Christmas 2022 fell on a Sunday; the UK substitute day was Tuesday the 27th
+    expect(isPublicHoliday(new Date(2022, 11, 27), { country: 'UK' })).toBe(true);
+    expect(isPublicHoliday(new Date(2022, 11, 25), { country: 'UK' })).toBe(true);
+  });
+
+  it('finds observed days off across year boundaries', () => {
+    // New Year's Day 2022 was a Saturday, observed on Friday, December 31, 2021
+    expect(isPublicHoliday(new Date(2021, 11, 31), { country: 'US' })).toBe(true);
+    expect(isPublicHoliday(new Date(2021, 11, 30), { country: 'US' })).toBe(false);
+  });
+
+  it('combines calendars and skips observances', () => {
+    expect(isPublicHoliday(new Date(2025, 4, 26), [{ country: 'DE' }, { country: 'US' }])).toBe(true);
+    expect(isPublicHoliday(new Date(2025, 4, 26), [{ country: 'DE' }])).toBe(false);
+    // Good Friday is an observance in the Netherlands
+    expect(isPublicHoliday(new Date(2025, 3, 18), { country: 'NL' })).toBe(false);
+  });
+
+  it('uses registered calendars', () => {
+    registerHolidayCalendar('PUBLIC-TEST', [{ name: 'Founders Day', date: { type: 'fixed', month: 3, day: 3 } }]);
+    expect(isPublicHoliday(new Date(2025, 2, 3), { country: 'PUBLIC-TEST' })).toBe(true);
+    registerHolidayCalendar('PUBLIC-TEST', []);
+    expect(isPublicHoliday(new Date(2025, 2, 3), { country: 'PUBLIC-TEST' })).toBe(false);
+  });
+});
@@ -0,0 +1,306 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseICalendar,
+  formatICalendar,
+  bookingsToICalendar,
+  recurrenceToICalEvent,
+  parseICalDuration,
+  formatICalDuration
+} from '../src/ical';
+import { Duration } from '../src/duration';
+import { getOccurrencesBetween } from '../src/recurrence';
+
+const ics = (...lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+describe('iCalendar', () => {
+  describe('parseICalendar', () => {
+    it('should parse events with UTC times, escaped text and folded lines', () => {
+      const calendar = parseICalendar(ics(
+        'PRODID:-//Example//EN',
+        'X-WR-CALNAME:Team',
+        'BEGIN:VEVENT',
+        'UID:evt-1',
+        'DTSTART:20240115T140000Z',
+        'DTEND:20240115T150000Z',
+        'SUMMARY:Planning\\, Q1',
+        'DESCRIPTION:Line one\\nLine two that is long enough to be folded onto a second',
+        '  line',
+        'CATEGORIES:Work,Meetings',
+        'X-CUSTOM;X-PARAM="a:b":kept',
+        'END:VEVENT'
+      ))!;
+
+      expect(calendar.prodId).toBe('-//Example//EN');
+      expect(calendar.name).toBe('Team');
+      expect(calendar.events).toHaveLength(1);
+
+      const [event] = calendar.events;
+      expect(event.uid).toBe('evt-1');
+      expect(event.start).toEqual(new Date('2024-01-15T14:00:00Z'));
+      expect(event.end).toEqual(new Date('2024-01-15T15:00:00Z'));
+      expect(event.summary).toBe('Planning, Q1');
+      expect(event.description).toBe('Line one\nLine two that is long enough to be folded onto a second line');
+      expect(event.categories).toEqual(['Work', 'Meetings']);
+      expect(event.properties).toEqual([{ name: 'X-CUSTOM', params: { 'X-PARAM': 'a:b' }, value: 'kept' }]);
+    });
+
+    it('should read all-day dates and durations', () => {
+      const [event] = parseICalendar(ics(
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20240704',
+        'DURATION:P1D',
+        'END:VEVENT'
+      ))!.events;
+
+      expect(event.allDay).toBe(true);
+      expect(event.start).toEqual(new Date(2024, 6, 4));
+      expect(event.duration?.days).toBe(1);
+    });
+
+    it('should map RRULE to a recurrence rule in the TZID zone', () => {
+      const [event] = parseICalendar(ics(
+        'BEGIN:VEVENT',
+        'UID:standup',
+        'DTSTART;TZID=America/New_York:20240304T090000',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4',
+        'EXDATE;TZID=America/New_York:20240306T090000',
+        'END:VEVENT'
+      ))!.events;
+
+      expect(event.timeZone).toBe('America/New_York');
+      expect(event.start).toEqual(new Date('2024-03-04T14:00:00Z'));
+      expect(event.recurrence?.rules[0]).toMatchObject({
+        frequency: 'weekly',
+        byWeekday: [1, 3],
+        count: 4,
+        timeZone: 'America/New_York'
+      });
+      expect(getOccurrencesBetween(event.recurrence!, new Date('2024-03-01'), new Date('2024-04-01'))).toEqual([
+        new Date('2024-03-04T14:00:00Z'),
+        new Date('2024-03-11T13:00:00Z'),
+        new Date('2024-03-13T13:00:00Z')
+      ]);
+    });
+
+    it('should resolve TZIDs through VTIMEZONE definitions', () => {
+      const calendar = parseICalendar(ics(
+        'BEGIN:VTIMEZONE',
+        'TZID:Eastern Standard Time',
+        'BEGIN:STANDARD',
+        'DTSTART:16010101T020000',
+        'TZOFFSETFROM:-0400',
+        'TZOFFSETTO:-0500',
+        'RRULE:FREQ=YEARLY;BYDAY=1SU;BYMONTH=11',
+        'END:STANDARD',
+        'BEGIN:DAYLIGHT',
+        'DTSTART:16010101T020000',
+        'TZOFFSETFROM:-0500',
+        'TZOFFSETTO:-0400',
+        'RRULE:FREQ=YEARLY;BYDAY=2SU;BYMONTH=3',
+        'END:DAYLIGHT',
+        'END:VTIMEZONE',
+        'BEGIN:VEVENT',
+        'DTSTART;TZID=Eastern Standard Time:20240115T090000',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART;TZID=Eastern Standard Time:20240715T090000',
+        'END:VEVENT'
+      ))!;
+
+      expect(calendar.timeZones[0].id).toBe('Eastern Standard Time');
+      expect(calendar.timeZones[0].observances.map(o => o.type)).toEqual(['standard', 'daylight']);
+      expect(calendar.events.map(e => e.start)).toEqual([
+        new Date('2024-01-15T14:00:00Z'),
+        new Date('2024-07-15T13:00:00Z')
+      ]);
+    });
+
+    it('should attach RECURRENCE-ID events as overrides of the recurring event', () => {
+      const calendar = parseICalendar(ics(
+        'BEGIN:VEVENT',
+        'UID:weekly',
+        'DTSTART:20240101T090000Z',
+        'RRULE:FREQ=WEEKLY;COUNT=3',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:weekly',
+        'RECURRENCE-ID:20240108T090000Z',
+        'DTSTART:20240108T110000Z',
+        'END:VEVENT'
+      ))!;
+
+      expect(calendar.events).toHaveLength(2);
+      expect(calendar.events[0].recurrence?.overrides).toEqual([
+        { originalDate: new Date('2024-01-08T09:00:00Z'), date: new Date('2024-01-08T11:00:00Z') }
+      ]);
+      expect(calendar.events[1].recurrenceId).toEqual(new Date('2024-01-08T09:00:00Z'));
+    });
+
+    it('should parse to-dos and alarms', () => {
+      const [todo] = parseICalendar(ics(
+        'BEGIN:VTODO',
+        'UID:task-1',
+        'SUMMARY:File report',
+        'DUE:20240120T170000Z',
+        'PRIORITY:1',
+        'PERCENT-COMPLETE:40',
+        'STATUS:IN-PROCESS',
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        'TRIGGER;RELATED=END:-PT15M',
+        'DESCRIPTION:Due soon',
+        'END:VALARM',
+        'BEGIN:VALARM',
+        'ACTION:AUDIO',
+        'TRIGGER;VALUE=DATE-TIME:20240120T080000Z',
+        'END:VALARM',
+        'END:VTODO'
+      ))!.todos;
+
+      expect(todo).toMatchObject({ uid: 'task-1', summary: 'File report', priority: 1, percentComplete: 40, status: 'IN-PROCESS' });
+      expect(todo.due).toEqual(new Date('2024-01-20T17:00:00Z'));
+      expect(todo.alarms).toHaveLength(2);
+      expect(todo.alarms![0]).toMatchObject({ action: 'DISPLAY', related: 'end', description: 'Due soon' });
+      expect((todo.alarms![0].trigger as Duration).minutes).toBe(-15);
+      expect(todo.alarms![1].trigger).toEqual(new Date('2024-01-20T08:00:00Z'));
+    });
+
+    it('should return null without a VCALENDAR', () => {
+      expect(parseICalendar('BEGIN:VEVENT\r\nEND:VEVENT')).toBeNull();
+      expect(parseICalendar('')).toBeNull();
+    });
+  });
+
+  describe('formatICalendar', () => {
+    const timestamp = new Date('2024-01-01T00:00:00Z');
+
+    it('should write CRLF lines folded at 75 octets', () => {
+      const text = formatICalendar({
+        events: [{
+          uid: 'long',
+          start: new Date('2024-01-15T14:00:00Z'),
+          summary: 'Überprüfung der Quartalszahlen – ein sehr langer Titel mit Umlauten äöü und mehr',
+          description: 'a;b,c\nd'
+        }]
+      }, { timestamp });
+
+      const lines = text.split('\r\n');
+      expect(text.endsWith('\r\n')).toBe(true);
+      expect(lines.every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+      expect(text).toContain('DESCRIPTION:a\\;b\\,c\\nd');
+      expect(text).toContain('DTSTAMP:20240101T000000Z');
+      expect(parseICalendar(text)!.events[0].summary).toBe(
+        'Überprüfung der Quartalszahlen – ein sehr langer Titel mit Umlauten äöü und mehr'
+      );
+    });
+
+    it('should write zoned times with a generated VTIMEZONE', () => {
+      const text = formatICalendar({
+        events: [{ uid: 'ny', start: new Date('2024-03-04T14:00:00Z'), timeZone: 'America/New_York' }]
+      }, { timestamp });
+
+      expect(text).toContain('DTSTART;TZID=America/New_York:20240304T090000');
+      expect(text).toContain('TZID:America/New_York');
+      expect(text).toContain('RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU');
+      expect(text).toContain('RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU');
+      expect(text).toContain('TZOFFSETTO:-0400');
+    });
+
+    it('should round-trip events with recurrences and alarms', () => {
+      const source = parseICalendar(ics(
+        'BEGIN:VEVENT',
+        'UID:weekly',
+        'DTSTAMP:20240101T000000Z',
+        'DTSTART;TZID=Europe/Berlin:20240101T100000',
+        'DTEND;TZID=Europe/Berlin:20240101T110000',
+        'RRULE:FREQ=WEEKLY;UNTIL=20240131T090000Z',
+        'RDATE;TZID=Europe/Berlin:20240103T100000',
+        'EXDATE;TZID=Europe/Berlin:20240108T100000',
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        'TRIGGER:-PT10M',
+        'DESCRIPTION:Soon',
+        'END:VALARM',
+        'END:VEVENT'
+      ))!;
+
+      const copy = parseICalendar(formatICalendar(source))!;
+      expect(copy.events).toEqual(source.events);
+    });
+
+    it('should write overrides without their own event as RECURRENCE-ID events', () => {
+      const event = recurrenceToICalEvent({
+        rules: [{ frequency: 'daily', startDate: new Date('2024-01-01T09:00:00Z'), count: 3 }],
+        overrides: [{ originalDate: new Date('2024-01-02T09:00:00Z'), date: new Date('2024-01-02T12:00:00Z') }]
+      }, 30, { uid: 'daily', summary: 'Check-in' })!;
+
+      const parsed = parseICalendar(formatICalendar({ events: [event] }, { timestamp }))!;
+      expect(parsed.events).toHaveLength(2);
+      expect(parsed.events[1]).toMatchObject({
+        uid: 'daily',
+        summary: 'Check-in',
+        recurrenceId: new Date('2024-01-02T09:00:00Z'),
+        start: new Date('2024-01-02T12:00:00Z'),
+        end: new Date('2024-01-02T12:30:00Z')
+      });
+      expect(parsed.events[0].recurrence?.overrides).toHaveLength(1);
+    });
+  });
+
+  describe('bookingsToICalendar', () => {
+    it('should write bookings as events', () => {
+      const text = bookingsToICalendar([
+        {
+          id: 'b1',
+          start: new Date('2024-01-15T09:00:00Z'),
+          end: new Date('2024-01-15T10:00:00Z'),
+          metadata: { summary: 'Dentist', location: 'Main St', attendees: 2 }
+        },
+        { start: new Date('2024-01-16T09:00:00Z'), end: new Date('2024-01-16T09:30:00Z') }
+      ], { name: 'Bookings', timestamp: new Date('2024-01-01T00:00:00Z') });
+
+      const calendar = parseICalendar(text)!;
+      expect(calendar.name).toBe('Bookings');
+      expect(calendar.events).toHaveLength(2);
+      expect(calendar.events[0]).toMatchObject({ uid: 'b1', summary: 'Dentist', location: 'Main St' });
+      expect(calendar.events[1].uid).toMatch(/^booking-1-/);
+      expect(calendar.events[1].end).toEqual(new Date('2024-01-16T09:30:00Z'));
+    });
+  });
+
+  describe('recurrenceToICalEvent', () => {
+    it('should take the start and timezone from the rule', () => {
+      const event = recurrenceToICalEvent(
+        { frequency: 'weekly', startDate: new Date('2024-03-04T14:00:00Z'), timeZone: 'America/New_York' },
+        45
+      )!;
+
+      expect(event.start).toEqual(new Date('2024-03-04T14:00:00Z'));
+      expect(event.end).toEqual(new Date('2024-03-04T14:45:00Z'));
+      expect(event.timeZone).toBe('America/New_York');
+    });
+
+    it('should return null for a set without a start', () => {
+      expect(recurrenceToICalEvent({ rules: [] }, 30)).toBeNull();
+    });
+  });
+
+  describe('durations', () => {
+    it('should parse DURATION values', () => {
+      expect(parseICalDuration('PT1H30M')?.minutes).toBe(90);
+      expect(parseICalDuration('P2W')?.days).toBe(14);
+      expect(parseICalDuration('P1DT12H')?.hours).toBe(36);
+      expect(parseICalDuration('-PT15M')?.minutes).toBe(-15);
+      expect(parseICalDuration('PT')).toBeNull();
+      expect(parseICalDuration('1 hour')).toBeNull();
+    });
+
+    it('should format DURATION values', () => {
+      expect(formatICalDuration(Duration.fromMinutes(90))).toBe('PT1H30M');
+      expect(formatICalDuration(Duration.fromDays(14))).toBe('P2W');
+      expect(formatICalDuration(Duration.fromHours(36))).toBe('P1DT12H');
+      expect(formatICalDuration(-15 * 60 * 1000)).toBe('-PT15M');
+      expect(formatICalDuration(0)).toBe('PT0S');
+    });
+  });
+});
@@ -5,8 +5,12 @@ import {
   getOccurrencesBetween,
   isRecurrenceDate,
   isValidRecurrenceRule,
-  recurrenceToString
+  recurrenceToString,
+  parseRRule,
+  toRRuleString,
+  isRecurrenceSet
 } from '../src/recurrence';
+import type { RecurrenceRule, RecurrenceSet } from '../src/types';
 
 describe('Recurrence', () => {
   describe('createRecurrence', () => {
@@ -406,4 +410,507 @@ describe('Recurrence', () => {
       expect(all.length).toBeLessThanOrEqual(5);
     });
   });
+
+  describe('RFC 5545 rule parts', () => {
+    const dates = (list: Date[]) => list.map(d =>
+      `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+    );
+    const times = (list: Date[]) => list.map(d =>
+      `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`
+    );
+
+    it('should expand ordinal weekdays within the month', () => {
+      const recurrence = createRecurrence({
+        frequency: 'monthly',
+        startDate: new Date(1997, 8, 5, 9),
+        byWeekday: [{ weekday: 5, nth: 1 }],
+        count: 5
+      });
+
+      expect(dates(recurrence.getAllOccurrences())).toEqual([
+        '1997-09-05', '1997-10-03', '1997-11-07', '1997-12-05', '1998-01-02'
+      ]);
+    });
+
+    it('should support negative ordinal weekdays and month days', () => {
+      const lastFriday: RecurrenceRule = {
+        frequency: 'monthly',
+        startDate: new Date(2024, 0, 1),
+        byWeekday: [{ weekday: 5, nth: -1 }]
+      };
+      const secondToLastDay: RecurrenceRule = {
+        frequency: 'monthly',
+        startDate: new Date(1997, 8, 2),
+        byMonthDay: [-2]
+      };
+
+      expect(dates(getOccurrencesBetween(lastFriday, new Date(2024, 0, 1), new Date(2024, 2, 31)))).toEqual([
+        '2024-01-26', '2024-02-23', '2024-03-29'
+      ]);
+      expect(dates(getOccurrencesBetween(secondToLastDay, new Date(1997, 8, 1), new Date(1997, 11, 31)))).toEqual([
+        '1997-09-29', '1997-10-30', '1997-11-29', '1997-12-30'
+      ]);
+    });
+
+    it('should apply BYSETPOS to each period', () => {
+      const lastWorkday: RecurrenceRule = {
+        frequency: 'monthly',
+        startDate: new Date(1997, 8, 29, 9),
+        byWeekday: [1, 2, 3, 4, 5],
+        bySetPos: [-1],
+        count: 4
+      };
+      const thirdMidweek: RecurrenceRule = {
+        frequency: 'monthly',
+        startDate: new Date(1997, 8, 4, 9),
+        byWeekday: [2, 3, 4],
+        bySetPos: [3],
+        count: 3
+      };
+
+      expect(dates(createRecurrence(lastWorkday).getAllOccurrences())).toEqual([
+        '1997-09-30', '1997-10-31', '1997-11-28', '1997-12-31'
+      ]);
+      expect(dates(createRecurrence(thirdMidweek).getAllOccurrences())).toEqual([
+        '1997-09-04', '1997-10-07', '1997-11-06'
+      ]);
+    });
+
+    it('should expand BYYEARDAY and BYWEEKNO in yearly rules', () => {
+      const yearDays = createRecurrence({
+        frequency: 'yearly',
+        interval: 3,
+        startDate: new Date(1997, 0, 1, 9),
+        byYearDay: [1, 100, 200],
+        count: 6
+      });
+      const weekTwenty = createRecurrence({
+        frequency: 'yearly',
+        startDate: new Date(1997, 4, 12, 9),
+        byWeekNo: [20],
+        byWeekday: [1],
+        count: 3
+      });
+
+      expect(dates(yearDays.getAllOccurrences())).toEqual([
+        '1997-01-01', '1997-04-10', '1997-07-19', '2000-01-01', '2000-04-09', '2000-07-18'
+      ]);
+      expect(dates(weekTwenty.getAllOccurrences())).toEqual(['1997-05-12', '1998-05-11', '1999-05-17']);
+    });
+
+    it('should count ordinal weekdays within the year when no month is given', () => {
+      const recurrence = createRecurrence({
+        frequency: 'yearly',
+        startDate: new Date(1997, 4, 19, 9),
+        byWeekday: [{ weekday: 1, nth: 20 }],
+        count: 3
+      });
+
+      expect(dates(recurrence.getAllOccurrences())).toEqual(['1997-05-19', '1998-05-18', '1999-05-17']);
+    });
+
+    it('should align weekly intervals to the week start', () => {
+      const base = {
+        frequency: 'weekly' as const,
+        interval: 2,
+        startDate: new Date(1997, 7, 5, 9),
+        byWeekday: [2, 0],
+        count: 4
+      };
+
+      expect(dates(createRecurrence({ ...base, weekStart: 1 }).getAllOccurrences())).toEqual([
+        '1997-08-05', '1997-08-10', '1997-08-19', '1997-08-24'
+      ]);
+      expect(dates(createRecurrence({ ...base, weekStart: 0 }).getAllOccurrences())).toEqual([
+        '1997-08-05', '1997-08-17', '1997-08-19', '1997-08-31'
+      ]);
+    });
+
+    it('should support hourly and minutely frequencies', () => {
+      const hourly: RecurrenceRule = {
+        frequency: 'hourly',
+        interval: 3,
+        startDate: new Date(1997, 8, 2, 9),
+        until: new Date(1997, 8, 2, 17)
+      };
+      const minutely: RecurrenceRule = {
+        frequency: 'minutely',
+        interval: 15,
+        startDate: new Date(1997, 8, 2, 9),
+        count: 6
+      };
+
+      expect(times(createRecurrence(hourly).getAllOccurrences())).toEqual(['09:00', '12:00', '15:00']);
+      expect(times(createRecurrence(minutely).getAllOccurrences())).toEqual([
+        '09:00', '09:15', '09:30', '09:45', '10:00', '10:15'
+      ]);
+      expect(getNextOccurrence(minutely, new Date(1997, 8, 2, 9, 20))).toEqual(new Date(1997, 8, 2, 9, 30));
+    });
+
+    it('should expand BYHOUR and BYMINUTE in daily rules', () => {
+      const rule: RecurrenceRule = {
+        frequency: 'daily',
+        startDate: new Date(1997, 8, 2, 9),
+        byHour: [9, 16],
+        byMinute: [0, 40]
+      };
+
+      const occurrences = getOccurrencesBetween(rule, new Date(1997, 8, 2), new Date(1997, 8, 2, 23, 59));
+      expect(times(occurrences)).toEqual(['09:00', '09:40', '16:00', '16:40']);
+    });
+
+    it('should skip periods with no matching day', () => {
+      const fridayThe13th: RecurrenceRule = {
+        frequency: 'monthly',
+        startDate: new Date(1997, 8, 2, 9),
+        byWeekday: [5],
+        byMonthDay: [13]
+      };
+      const leapDay: RecurrenceRule = {
+        frequency: 'yearly',
+        startDate: new Date(2024, 1, 29)
+      };
+
+      expect(dates(getOccurrencesBetween(fridayThe13th, new Date(1997, 8, 1), new Date(1998, 11, 31)))).toEqual([
+        '1998-02-13', '1998-03-13', '1998-11-13'
+      ]);
+      expect(getNextOccurrence(leapDay, new Date(2024, 2, 1))).toEqual(new Date(2028, 1, 29));
+    });
+
+    it('should return null when a rule can never match', () => {
+      const rule: RecurrenceRule = {
+        frequency: 'yearly',
+        startDate: new Date(2024, 0, 1),
+        byMonth: [2],
+        byMonthDay: [30]
+      };
+
+      expect(getNextOccurrence(rule, new Date(2024, 0, 1))).toBeNull();
+    });
+
+    it('should check sub-daily occurrences by exact time', () => {
+      const rule: RecurrenceRule = {
+        frequency: 'hourly',
+        interval: 2,
+        startDate: new Date(2024, 0, 1, 8)
+      };
+
+      expect(isRecurrenceDate(new Date(2024, 0, 1, 10), rule)).toBe(true);
+      expect(isRecurrenceDate(new Date(2024, 0, 1, 11), rule)).toBe(false);
+    });
+
+    it('should validate the extended rule parts', () => {
+      const startDate = new Date(2024, 0, 1);
+
+      expect(isValidRecurrenceRule({ frequency: 'hourly', startDate })).toBe(true);
+      expect(isValidRecurrenceRule({ frequency: 'monthly', startDate, byMonthDay: [-1] })).toBe(true);
+      expect(isValidRecurrenceRule({ frequency: 'monthly', startDate, byWeekday: [{ weekday: 5, nth: -1 }] })).toBe(true);
+      expect(isValidRecurrenceRule({ frequency: 'monthly', startDate, byMonthDay: [0] })).toBe(false);
+      expect(isValidRecurrenceRule({ frequency: 'monthly', startDate, bySetPos: [0] })).toBe(false);
+      expect(isValidRecurrenceRule({ frequency: 'yearly', startDate, byWeekNo: [54] })).toBe(false);
+      expect(isValidRecurrenceRule({ frequency: 'daily', startDate, byHour: [24] })).toBe(false);
+      expect(isValidRecurrenceRule({ frequency: 'weekly', startDate, weekStart: 7 })).toBe(false);
+    });
+
+    it('should describe ordinal weekdays', () => {
+      expect(recurrenceToString({
+        frequency: 'monthly',
+        startDate: new Date(2024, 0, 1),
+        byWeekday: [{ weekday: 2, nth: 2 }, { weekday: 5, nth: -1 }]
+      })).toBe('Every month on the 2nd Tuesday, the last Friday');
+      expect(recurrenceToString({
+        frequency: 'hourly',
+        interval: 4,
+        startDate: new Date(2024, 0, 1)
+      })).toBe('Every 4 hours');
+    });
+  });
+
+  describe('parseRRule', () => {
+    it('should parse an RRULE line with a separate start date', () => {
+      const start = new Date(2024, 0, 1, 9);
+      const rule = parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR,2TU;BYSETPOS=1;COUNT=5', start);
+
+      expect(rule).toEqual({
+        frequency: 'monthly',
+        startDate: start,
+        interval: 2,
+        byWeekday: [{ weekday: 5, nth: -1 }, { weekday: 2, nth: 2 }],
+        bySetPos: [1],
+        count: 5
+      });
+    });
+
+    it('should read DTSTART and UNTIL from the input', () => {
+      const rule = parseRRule('DTSTART:20240101T090000Z\nRRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20240131T235959Z;WKST=SU');
+
+      expect(rule?.startDate).toEqual(new Date('2024-01-01T09:00:00Z'));
+      expect(rule?.until).toEqual(new Date('2024-01-31T23:59:59Z'));
+      expect(rule?.byWeekday).toEqual([1, 3]);
+      expect(rule?.weekStart).toBe(0);
+    });
+
+    it('should accept a bare rule value and all numeric parts', () => {
+      const rule = parseRRule(
+        'FREQ=YEARLY;BYMONTH=1,2;BYWEEKNO=-1;BYYEARDAY=100;BYMONTHDAY=-1;BYHOUR=9;BYMINUTE=30;BYSECOND=15',
+        new Date(2024, 0, 1)
+      );
+
+      expect(rule).toMatchObject({
+        frequency: 'yearly',
+        byMonth: [1, 2],
+        byWeekNo: [-1],
+        byYearDay: [100],
+        byMonthDay: [-1],
+        byHour: [9],
+        byMinute: [30],
+        bySecond: [15]
+      });
+    });
+
+    it('should return null for invalid input', () => {
+      const start = new Date(2024, 0, 1);
+
+      expect(parseRRule('RRULE:FREQ=MONTHLY')).toBeNull(); // no start date
+      expect(parseRRule('RRULE:BYDAY=MO', start)).toBeNull();
+      expect(parseRRule('RRULE:FREQ=FORTNIGHTLY', start)).toBeNull();
+      expect(parseRRule('RRULE:FREQ=WEEKLY;BYDAY=XX', start)).toBeNull();
+      expect(parseRRule('RRULE:FREQ=WEEKLY;BYMONTHDAY=abc', start)).toBeNull();
+      expect(parseRRule('RRULE:FREQ=WEEKLY;FOO=1', start)).toBeNull();
+    });
+
+    it('should ignore experimental X- parts', () => {
+      expect(parseRRule('RRULE:FREQ=DAILY;X-NAME=test', new Date(2024, 0, 1))?.frequency).toBe('daily');
+    });
+  });
+
+  describe('toRRuleString', () => {
+    it('should serialize rule parts in RFC order', () => {
+      expect(toRRuleString({
+        frequency: 'monthly',
+        startDate: new Date(2024, 0, 1),
+        interval: 2,
+        byWeekday: [1, { weekday: 5, nth: -1 }],
+        byMonthDay: [1, -1],
+        bySetPos: [-1],
+        count: 3
+      })).toBe('RRULE:FREQ=MONTHLY;INTERVAL=2;COUNT=3;BYMONTHDAY=1,-1;BYDAY=MO,-1FR;BYSETPOS=-1');
+    });
+
+    it('should include DTSTART and UNTIL in UTC', () => {
+      const text = toRRuleString({
+        frequency: 'daily',
+        startDate: new Date('2024-01-01T09:00:00Z'),
+        until: new Date('2024-02-01T00:00:00Z')
+      }, { includeStartDate: true });
+
+      expect(text).toBe('DTSTART:20240101T090000Z\nRRULE:FREQ=DAILY;UNTIL=20240201T000000Z');
+    });
+
+    it('should round-trip through parseRRule', () => {
+      const rule: RecurrenceRule = {
+        frequency: 'yearly',
+        startDate: new Date('2024-03-01T10:00:00Z'),
+        interval: 2,
+        weekStart: 0,
+        byMonth: [3, 9],
+        byWeekday: [{ weekday: 0, nth: 1 }],
+        byHour: [10, 14],
+        until: new Date('2030-12-31T00:00:00Z')
+      };
+
+      const parsed = parseRRule(toRRuleString(rule, { includeStartDate: true }));
+      expect(parsed).toEqual(rule);
+      expect(getOccurrencesBetween(parsed!, new Date('2024-01-01'), new Date('2027-01-01')))
+        .toEqual(getOccurrencesBetween(rule, new Date('2024-01-01'), new Date('2027-01-01')));
+    });
+  });
+
+  describe('recurrence sets', () => {
+    const weekly: RecurrenceRule = {
+      frequency: 'weekly',
+      startDate: new Date(2024, 0, 1, 9), // Monday
+      count: 6
+    };
+
+    it('should exclude cancelled occurrences', () => {
+      const set: RecurrenceSet = { rules: [weekly], excludeDates: [new Date(2024, 0, 8, 9)] };
+
+      expect(getOccurrencesBetween(set, new Date(2024, 0, 1), new Date(2024, 0, 20))).toEqual([
+        new Date(2024, 0, 1, 9),
+        new Date(2024, 0, 15, 9)
+      ]);
+      expect(getNextOccurrence(set, new Date(2024, 0, 2))).toEqual(new Date(2024, 0, 15, 9));
+      expect(isRecurrenceDate(new Date(2024, 0, 8, 9), set)).toBe(false);
+      expect(isRecurrenceDate(new Date(2024, 0, 15, 9), set)).toBe(true);
+    });
+
+    it('should add one-off dates in chronological order', () => {
+      const set: RecurrenceSet = {
+        rules: [weekly],
+        includeDates: [new Date(2024, 0, 10, 14), new Date(2024, 0, 1, 9)]
+      };
+
+      expect(getOccurrencesBetween(set, new Date(2024, 0, 1), new Date(2024, 0, 15, 9))).toEqual([
+        new Date(2024, 0, 1, 9),
+        new Date(2024, 0, 8, 9),
+        new Date(2024, 0, 10, 14),
+        new Date(2024, 0, 15, 9)
+      ]);
+      expect(isRecurrenceDate(new Date(2024, 0, 10), set)).toBe(true);
+    });
+
+    it('should move overridden occurrences', () => {
+      const set: RecurrenceSet = {
+        rules: [weekly],
+        overrides: [{ originalDate: new Date(2024, 0, 8, 9), date: new Date(2024, 0, 16, 11) }]
+      };
+
+      expect(getOccurrencesBetween(set, new Date(2024, 0, 1), new Date(2024, 0, 20))).toEqual([
+        new Date(2024, 0, 1, 9),
+        new Date(2024, 0, 15, 9),
+        new Date(2024, 0, 16, 11)
+      ]);
+      expect(getNextOccurrence(set, new Date(2024, 0, 2))).toEqual(new Date(2024, 0, 15, 9));
+      expect(isRecurrenceDate(new Date(2024, 0, 8), set)).toBe(false);
+      expect(isRecurrenceDate(new Date(2024, 0, 16), set)).toBe(true);
+    });
+
+    it('should ignore overrides for dates outside the set', () => {
+      const set: RecurrenceSet = {
+        rules: [weekly],
+        excludeDates: [new Date(2024, 0, 8, 9)],
+        overrides: [{ originalDate: new Date(2024, 0, 8, 9), date: new Date(2024, 0, 9, 9) }]
+      };
+
+      expect(isRecurrenceDate(new Date(2024, 0, 9), set)).toBe(false);
+    });
+
+    it('should merge multiple rules without duplicates', () => {
+      const set: RecurrenceSet = {
+        rules: [
+          { frequency: 'weekly', startDate: new Date(2024, 0, 1, 9), byWeekday: [1, 3] },
+          { frequency: 'weekly', startDate: new Date(2024, 0, 1, 9), byWeekday: [3, 5] }
+        ]
+      };
+
+      expect(getOccurrencesBetween(set, new Date(2024, 0, 1), new Date(2024, 0, 7)).map(d => d.getDay()))
+        .toEqual([1, 3, 5]);
+    });
+
+    it('should honor the count of each rule from its start', () => {
+      const recurrence = createRecurrence({ rules: [weekly], includeDates: [new Date(2024, 5, 1, 9)] });
+
+      expect(recurrence.getAllOccurrences()).toHaveLength(7);
+      expect(recurrence.getNextOccurrence(new Date(2024, 1, 6))).toEqual(new Date(2024, 5, 1, 9));
+    });
+
+    it('should distinguish sets from rules', () => {
+      expect(isRecurrenceSet({ rules: [] })).toBe(true);
+      expect(isRecurrenceSet(weekly)).toBe(false);
+    });
+  });
+
+  describe('timezone-aware rules', () => {
+    const weekdayStandup: RecurrenceRule = {
+      frequency: 'weekly',
+      startDate: new Date('2024-03-04T14:00:00Z'), // Monday 09:00 New York (EST)
+      byWeekday: [1, 2, 3, 4, 5],
+      timeZone: 'America/New_York'
+    };
+
+    it('should keep the wall-clock time across a DST change', () => {
+      const occurrences = getOccurrencesBetween(
+        weekdayStandup,
+        new Date('2024-03-08T00:00:00Z'),
+        new Date('2024-03-12T00:00:00Z')
+      );
+
+      expect(occurrences).toEqual([
+        new Date('2024-03-08T14:00:00Z'), // Friday, EST
+        new Date('2024-03-11T13:00:00Z') // Monday, EDT
+      ]);
+    });
+
+    it('should shift times skipped by the spring-forward gap', () => {
+      const rule: RecurrenceRule = {
+        frequency: 'daily',
+        startDate: new Date('2024-03-09T07:30:00Z'), // 02:30 EST
+        timeZone: 'America/New_York',
+        count: 3
+      };
+
+      expect(createRecurrence(rule).getAllOccurrences()).toEqual([
+        new Date('2024-03-09T07:30:00Z'),
+        new Date('2024-03-10T07:30:00Z'), // 02:30 does not exist, becomes 03:30 EDT
+        new Date('2024-03-11T06:30:00Z')
+      ]);
+    });
+
+    it('should use the earlier instance of repeated times', () => {
+      const rule: RecurrenceRule = {
+        frequency: 'daily',
+        startDate: new Date('2024-11-02T05:30:00Z'), // 01:30 EDT
+        timeZone: 'America/New_York',
+        count: 3
+      };
+
+      expect(createRecurrence(rule).getAllOccurrences()).toEqual([
+        new Date('2024-11-02T05:30:00Z'),
+        new Date('2024-11-03T05:30:00Z'), // first 01:30, still EDT
+        new Date('2024-11-04T06:30:00Z')
+      ]);
+    });
+
+    it('should not repeat a moment when the gap shifts onto the next occurrence', () => {
+      const rule: RecurrenceRule = {
+        frequency: 'hourly',
+        startDate: new Date('2024-03-10T06:30:00Z'), // 01:30 EST
+        timeZone: 'America/New_York',
+        count: 3
+      };
+
+      expect(createRecurrence(rule).getAllOccurrences()).toEqual([
+        new Date('2024-03-10T06:30:00Z'),
+        new Date('2024-03-10T07:30:00Z'),
+        new Date('2024-03-10T08:30:00Z')
+      ]);
+    });
+
+    it('should check dates against the day in the rule timezone', () => {
+      // 23:00 Friday in New York is already Saturday in UTC
+      const rule: RecurrenceRule = {
+        frequency: 'weekly',
+        startDate: new Date('2024-03-09T04:00:00Z'),
+        byWeekday: [5],
+        timeZone: 'America/New_York'
+      };
+
+      expect(isRecurrenceDate(new Date('2024-03-15T16:00:00Z'), rule)).toBe(true);
+      expect(isRecurrenceDate(new Date('2024-03-16T16:00:00Z'), rule)).toBe(false);
+    });
+
+    it('should reject unknown timezones', () => {
+      expect(isValidRecurrenceRule({ ...weekdayStandup, timeZone: 'Mars/Olympus' })).toBe(false);
+      expect(getNextOccurrence({ ...weekdayStandup, timeZone: 'Mars/Olympus' }, new Date('2024-03-08'))).toBeNull();
+    });
+
+    it('should round-trip TZID start dates', () => {
+      const text = 'DTSTART;TZID=America/New_York:20240304T090000\nRRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR';
+      const rule = parseRRule(text)!;
+
+      expect(rule.timeZone).toBe('America/New_York');
+      expect(rule.startDate).toEqual(new Date('2024-03-04T14:00:00Z'));
+      expect(toRRuleString(rule, { includeStartDate: true })).toBe(text);
+    });
+
+    it('should read floating UNTIL values in the DTSTART timezone', () => {
+      const rule = parseRRule(
+        'DTSTART;TZID=Europe/Berlin:20240101T100000\nRRULE:FREQ=DAILY;UNTIL=20240105T100000'
+      )!;
+
+      expect(rule.until).toEqual(new Date('2024-01-05T09:00:00Z'));
+      expect(parseRRule('DTSTART;TZID=Mars/Olympus:20240101T100000\nRRULE:FREQ=DAILY')).toBeNull();
+    });
+  });
 });
@@ -4,19 +4,32 @@ import {
   generateSlotsForRange,
   getAvailableSlots,
   findNextAvailable,
+  findMeetingSlots,
   isSlotAvailable,
   findConflicts,
   hasConflict,
   addBuffer,
   removeBuffer,
   expandRecurringAvailability,
+  expandRecurringBookings,
   mergeBookings,
   splitSlot,
   DEFAULT_SCHEDULING_CONFIG,
   type Slot,
   type Booking,
-  type SchedulingConfig
+  type SchedulingConfig,
+  type Attendee
 } from '../src/scheduling.js';
+import { DEFAULT_WORKING_HOURS } from '../src/workingHours.js';
+import type { WorkingHoursConfig } from '../src/types.js';
+
+function zoneHours(timeZone: string, extra: Partial<WorkingHoursConfig> = {}): WorkingHoursConfig {
+  return { ...DEFAULT_WORKING_HOURS, timeZone, ...extra };
+}
+
+function utc(iso: string): Date {
+  return new Date(`${iso}Z`);
+}
 
 describe('scheduling', () => {
   describe('generateSlots', () => {
@@ -164,6 +177,172 @@ describe('scheduling', () => {
       const slot = findNextAvailable(new Date('2024-01-15'), bookings, 60);
       expect(slot).toBeNull();
     });
+
+    it('should wait for attendees to be free', () => {
+      const bookings: Booking[] = [{ start: utc('2024-01-15T09:00'), end: utc('2024-01-15T10:30') }];
+      const slot = findNextAvailable(utc('2024-01-15T00:00'), bookings, 60, {
+        workingHours: zoneHours('UTC'),
+        attendees: [{ id: 'ana', workingHours: zoneHours('Europe/Berlin') }]
+      });
+
+      // Ana works 08:00-11:00 and 12:00-16:00 UTC
+      expect(slot).toEqual({ start: utc('2024-01-15T13:00'), end: utc('2024-01-15T14:00'), available: true });
+    });
+
+    it('should wait for a free room', () => {
+      const slot = findNextAvailable(utc('2024-01-15T00:00'), [], 60, {
+        workingHours: zoneHours('UTC'),
+        rooms: [{ id: 'room-1', bookings: [{ start: utc('2024-01-15T08:00'), end: utc('2024-01-15T10:00') }] }]
+      });
+
+      expect(slot?.start).toEqual(utc('2024-01-15T10:00'));
+    });
+
+    it('should skip holidays on their local calendar day with or without attendees and rooms', () => {
+      const config = { holidays: [new Date(2024, 0, 16)] };
+      const expected = { start: new Date(2024, 0, 17, 9), end: new Date(2024, 0, 17, 10), available: true };
+      expect(findNextAvailable(new Date(2024, 0, 16), [], 60, config)).toEqual(expected);
+      expect(findNextAvailable(new Date(2024, 0, 16), [], 60, { ...config, rooms: [{ id: 'room-1' }] })).toEqual(expected);
+    });
+  });
+
+  describe('findMeetingSlots', () => {
+    // Berlin 08:00-11:00 and 12:00-16:00 UTC, New York 14:00-17:00 and 18:00-22:00 UTC
+    const ana: Attendee = { id: 'ana', workingHours: zoneHours('Europe/Berlin') };
+    const bo: Attendee = { id: 'bo', workingHours: zoneHours('America/New_York') };
+
+    it('finds slots within every attendee\'s working hours', () => {
+      const slots = findMeetingSlots(utc('2024-01-16T00:00'), 60, {
+        attendees: [ana, bo],
+        before: utc('2024-01-17T00:00')
+      });
+
+      expect(slots.map(slot => slot.start)).toEqual([
+        utc('2024-01-16T14:00'),
+        utc('2024-01-16T14:15'),
+        utc('2024-01-16T14:30'),
+        utc('2024-01-16T14:45'),
+        utc('2024-01-16T15:00')
+      ]);
+      expect(slots[0]).toEqual({
+        start: utc('2024-01-16T14:00'),
+        end: utc('2024-01-16T15:00'),
+        attendees: ['ana', 'bo'],
+        unavailable: [],
+        score: 1
+      });
+    });
+
+    it('skips bookings with a buffer', () => {
+      const booked = { ...ana, bookings: [{ start: utc('2024-01-16T14:00'), end: utc('2024-01-16T14:30') }] };
+      const options = { attendees: [booked, bo], before: utc('2024-01-17T00:00') };
+
+      expect(findMeetingSlots(utc('2024-01-16T00:00'), 60, options)[0].start).toEqual(utc('2024-01-16T14:30'));
+      expect(findMeetingSlots(utc('2024-01-16T00:00'), 60, { ...options, bufferMinutes: 15 })[0].start)
+        .toEqual(utc('2024-01-16T14:45'));
+    });
+
+    it('ranks slots by optional attendance', () => {
+      const cy: Attendee = {
+        id: 'cy',
+        optional: true,
+        workingHours: zoneHours('UTC'),
+        bookings: [{ start: utc('2024-01-16T14:00'), end: utc('2024-01-16T15:00') }]
+      };
+      const slots = findMeetingSlots(utc('2024-01-16T00:00'), 60, {
+        attendees: [ana, bo, cy],
+        before: utc('2024-01-17T00:00')
+      });
+
+      expect(slots[0]).toEqual({
+        start: utc('2024-01-16T15:00'),
+        end: utc('2024-01-16T16:00'),
+        attendees: ['ana', 'bo', 'cy'],
+        unavailable: [],
+        score: 1
+      });
+      expect(slots[1].start).toEqual(utc('2024-01-16T14:00'));
+      expect(slots[1].attendees).toEqual(['ana', 'bo']);
+      expect(slots[1].unavailable).toEqual(['cy']);
+      expect(slots[1].score).toBeCloseTo(2 / 3);
+    });
+
+    it('sorts by start time only when asked', () => {
+      const cy: Attendee = {
+        id: 'cy',
+        optional: true,
+        workingHours: zoneHours('UTC'),
+        bookings: [{ start: utc('2024-01-16T14:00'), end: utc('2024-01-16T15:00') }]
+      };
+      const slots = findMeetingSlots(utc('2024-01-16T00:00'), 60, {
+        attendees: [ana, bo, cy],
+        before: utc('2024-01-17T00:00'),
+        sortBy: 'start',
+        limit: 2
+      });
+
+      expect(slots.map(slot => slot.start)).toEqual([utc('2024-01-16T14:00'), utc('2024-01-16T14:15')]);
+    });
+
+    it('books the first free room', () => {
+      const slots = findMeetingSlots(utc('2024-01-16T00:00'), 60, {
+        attendees: [ana, bo],
+        rooms: [
+          { id: 'room-1', bookings: [{ start: utc('2024-01-16T14:00'), end: utc('2024-01-16T15:30') }] },
+          { id: 'room-2', bookings: [{ start: utc('2024-01-16T15:00'), end: utc('2024-01-16T16:00') }] }
+        ],
+        before: utc('2024-01-17T00:00')
+      });
+
+      expect(slots).toHaveLength(1);
+      expect(slots[0].start).toEqual(utc('2024-01-16T14:00'));
+      expect(slots[0].room).toBe('room-2');
+    });
+
+    it('respects room working hours', () => {
+      const slots = findMeetingSlots(utc('2024-01-16T00:00'), 60, {
+        attendees: [ana, bo],
+        rooms: [{ id: 'room-1', workingHours: zoneHours('UTC', { hours: { start: 15, end: 20 } }) }],
+        before: utc('2024-01-17T00:00')
+      });
+
+      expect(slots.map(slot => slot.start)).toEqual([utc('2024-01-16T15:00')]);
+    });
+
+    it('skips attendee holidays and public holidays', () => {
+      const onLeave = { ...ana, holidays: [new Date(2024, 0, 16)] };
+      expect(findMeetingSlots(utc('2024-01-16T00:00'), 60, { attendees: [onLeave, bo], limit: 1 })[0].start)
+        .toEqual(utc('2024-01-17T14:00'));
+
+      // Martin Luther King Jr. Day
+      const usBo = { ...bo, workingHours: zoneHours('America/New_York', { country: 'US' }) };
+      expect(findMeetingSlots(utc('2024-01-15T00:00'), 60, { attendees: [ana, usBo], limit: 1 })[0].start)
+        .toEqual(utc('2024-01-16T14:00'));
+    });
+
+    it('blocks holidays as whole days in the attendee\'s zone', () => {
+      const berliner: Attendee = { id: 'ana', workingHours: zoneHours('Europe/Berlin'), holidays: [new Date(2024, 11, 24)] };
+      // Berlin's working hours fall on the same UTC day
+      const days = findMeetingSlots(utc('2024-12-23T00:00'), 60, {
+        attendees: [berliner],
+        before: utc('2024-12-26T00:00'),
+        limit: 100
+      }).map(slot => slot.start.getUTCDate());
+      expect(days).toContain(23);
+      expect(days).not.toContain(24);
+      expect(days).toContain(25);
+    });
+
+    it('returns no slots when working hours never overlap', () => {
+      const kenji: Attendee = { id: 'kenji', workingHours: zoneHours('Asia/Tokyo') };
+      expect(findMeetingSlots(utc('2024-01-16T00:00'), 60, { attendees: [kenji, bo], before: utc('2024-01-23T00:00') })).toEqual([]);
+    });
+
+    it('returns no slots for an empty duration or window', () => {
+      expect(findMeetingSlots(utc('2024-01-16T00:00'), 0, { attendees: [ana] })).toEqual([]);
+      expect(findMeetingSlots(utc('2024-01-16T00:00'), 60, { attendees: [ana], before: utc('2024-01-15T00:00') }))
+        .toEqual([]);
+    });
   });
 
   describe('isSlotAvailable', () => {
@@ -276,6 +455,59 @@ describe('scheduling', () => {
 
       expect(slots.length).toBeGreaterThan(0);
     });
+
+    it('should drop cancelled days from a recurrence set', () => {
+      const rule = {
+        frequency: 'weekly' as const,
+        startDate: new Date('2024-01-15T00:00:00'),
+        byWeekday: [1],
+        count: 2
+      };
+      const range = { start: new Date('2024-01-01'), end: new Date('2024-02-28') };
+
+      const all = expandRecurringAvailability(rule, range, { slotDuration: 60 });
+      const withCancellation = expandRecurringAvailability(
+        { rules: [rule], excludeDates: [new Date('2024-01-22T00:00:00')] },
+        range,
+        { slotDuration: 60 }
+      );
+
+      expect(withCancellation.length).toBe(all.length / 2);
+    });
+  });
+
+  describe('expandRecurringBookings', () => {
+    const standup = {
+      frequency: 'daily' as const,
+      startDate: new Date('2024-01-15T09:00:00'),
+      byWeekday: [1, 2, 3, 4, 5]
+    };
+    const week = { start: new Date('2024-01-15T00:00:00'), end: new Date('2024-01-19T23:59:59') };
+
+    it('should create a booking per occurrence', () => {
+      const bookings = expandRecurringBookings(standup, 30, week, 'standup');
+
+      expect(bookings).toHaveLength(5);
+      expect(bookings[0]).toEqual({
+        start: new Date('2024-01-15T09:00:00'),
+        end: new Date('2024-01-15T09:30:00'),
+        id: 'standup'
+      });
+    });
+
+    it('should free the slot of a cancelled occurrence', () => {
+      const bookings = expandRecurringBookings(
+        { rules: [standup], excludeDates: [new Date('2024-01-17T09:00:00')] },
+        30,
+        week
+      );
+      const nineAm = (date: string) => getAvailableSlots(new Date(date), bookings)
+        .find(slot => slot.start.getHours() === 9 && slot.start.getMinutes() === 0);
+
+      expect(bookings).toHaveLength(4);
+      expect(nineAm('2024-01-16T00:00:00')?.available).toBe(false);
+      expect(nineAm('2024-01-17T00:00:00')?.available).toBe(true);
+    });
   });
 
   describe('mergeBookings', () => {
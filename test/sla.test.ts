@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { getSlaDueDate, getSlaStatus } from '../src/sla.js';
+import type { WorkingHoursConfig } from '../src/types.js';
+
+const HOUR = 60 * 60 * 1000;
+
+// Helper to create local dates without timezone confusion
+function localDate(year: number, month: number, day: number, hour = 0, minute = 0): Date {
+  return new Date(year, month - 1, day, hour, minute, 0, 0);
+}
+
+// 2024-01-15 is a Monday
+const opened = localDate(2024, 1, 15, 15);
+
+describe('sla', () => {
+  describe('getSlaDueDate', () => {
+    it('counts business hours only', () => {
+      expect(getSlaDueDate(opened, 4)).toEqual(localDate(2024, 1, 16, 11));
+    });
+
+    it('skips breaks and weekends', () => {
+      expect(getSlaDueDate(localDate(2024, 1, 19, 16), 3)).toEqual(localDate(2024, 1, 22, 11));
+      expect(getSlaDueDate(localDate(2024, 1, 16, 11), 2)).toEqual(localDate(2024, 1, 16, 14));
+    });
+
+    it('stops the clock during pauses', () => {
+      const due = getSlaDueDate(opened, 4, {
+        pauses: [{ start: localDate(2024, 1, 15, 16), end: localDate(2024, 1, 16, 10) }]
+      });
+      expect(due).toEqual(localDate(2024, 1, 16, 14));
+    });
+
+    it('merges overlapping pauses and ignores pauses outside the SLA', () => {
+      const due = getSlaDueDate(opened, 4, {
+        pauses: [
+          { start: localDate(2024, 1, 15, 10), end: localDate(2024, 1, 15, 14) },
+          { start: localDate(2024, 1, 16, 9), end: localDate(2024, 1, 16, 10) },
+          { start: localDate(2024, 1, 16, 9, 30), end: localDate(2024, 1, 16, 10, 30) },
+          { start: localDate(2024, 1, 20, 9), end: localDate(2024, 1, 20, 10) }
+        ]
+      });
+      // Mon 15-17 (2h), Tue 10:30-12 (1.5h), 13-13:30 (0.5h)
+      expect(due).toEqual(localDate(2024, 1, 16, 13, 30));
+    });
+
+    it('is not moved by a pause that starts at the due date', () => {
+      const due = getSlaDueDate(opened, 2, {
+        pauses: [{ start: localDate(2024, 1, 15, 17), end: localDate(2024, 1, 17, 9) }]
+      });
+      expect(due).toEqual(localDate(2024, 1, 15, 17));
+    });
+
+    it('resumes open pauses at now', () => {
+      const due = getSlaDueDate(opened, 4, {
+        pauses: [{ start: localDate(2024, 1, 15, 16) }],
+        now: localDate(2024, 1, 17, 9)
+      });
+      // 1h on Monday, 3h from Wednesday 09:00
+      expect(due).toEqual(localDate(2024, 1, 17, 12));
+    });
+
+    it('uses the given working hours calendar', () => {
+      const support: WorkingHoursConfig = {
+        workingDays: [1, 2, 3, 4, 5, 6],
+        hours: { start: 8, end: 20 }
+      };
+      expect(getSlaDueDate(localDate(2024, 1, 19, 18), 4, { workingHours: support }))
+        .toEqual(localDate(2024, 1, 20, 10));
+    });
+
+    it('rejects invalid targets', () => {
+      expect(() => getSlaDueDate(opened, 0)).toThrow('Invalid SLA target "0"');
+      expect(() => getSlaDueDate(opened, -1)).toThrow();
+      expect(() => getSlaDueDate(opened, NaN)).toThrow();
+    });
+  });
+
+  describe('getSlaStatus', () => {
+    it('reports elapsed and remaining business time', () => {
+      const status = getSlaStatus(opened, 4, { now: localDate(2024, 1, 16, 10) });
+      expect(status.startDate).toEqual(opened);
+      expect(status.dueDate).toEqual(localDate(2024, 1, 16, 11));
+      expect(status.target).toBe(4 * HOUR);
+      expect(status.elapsed).toBe(3 * HOUR);
+      expect(status.remaining).toBe(HOUR);
+      expect(status.overdue).toBe(0);
+      expect(status.progress).toBe(75);
+      expect(status.isBreached).toBe(false);
+      expect(status.isPaused).toBe(false);
+    });
+
+    it('excludes paused business time', () => {
+      const status = getSlaStatus(opened, 4, {
+        pauses: [{ start: localDate(2024, 1, 15, 16), end: localDate(2024, 1, 16, 10) }],
+        now: localDate(2024, 1, 16, 11)
+      });
+      expect(status.elapsed).toBe(2 * HOUR);
+      expect(status.remaining).toBe(2 * HOUR);
+      expect(status.progress).toBe(50);
+    });
+
+    it('reports open pauses', () => {
+      const status = getSlaStatus(opened, 4, {
+        pauses: [{ start: localDate(2024, 1, 15, 16) }],
+        now: localDate(2024, 1, 16, 15)
+      });
+      expect(status.isPaused).toBe(true);
+      expect(status.elapsed).toBe(HOUR);
+      expect(status.dueDate).toEqual(localDate(2024, 1, 17, 10));
+    });
+
+    it('reports breaches and overdue time', () => {
+      const status = getSlaStatus(opened, 4, { now: localDate(2024, 1, 16, 14) });
+      expect(status.isBreached).toBe(true);
+      expect(status.remaining).toBe(0);
+      expect(status.overdue).toBe(2 * HOUR);
+      expect(status.progress).toBe(100);
+    });
+
+    it('is breached at the due date', () => {
+      expect(getSlaStatus(opened, 4, { now: localDate(2024, 1, 16, 11) }).isBreached).toBe(true);
+      expect(getSlaStatus(opened, 4, { now: localDate(2024, 1, 16, 10, 59) }).isBreached).toBe(false);
+    });
+
+    it('reports no progress before the SLA starts', () => {
+      const status = getSlaStatus(opened, 4, { now: localDate(2024, 1, 15, 9) });
+      expect(status.elapsed).toBe(0);
+      expect(status.progress).toBe(0);
+    });
+
+    it('computes warnings at configurable percentages', () => {
+      const status = getSlaStatus(opened, 4, {
+        warnings: [90, 50, 75],
+        now: localDate(2024, 1, 16, 9, 30)
+      });
+      expect(status.warnings).toEqual([
+        { percentage: 50, date: localDate(2024, 1, 15, 17), reached: true },
+        { percentage: 75, date: localDate(2024, 1, 16, 10), reached: false },
+        { percentage: 90, date: localDate(2024, 1, 16, 10, 36), reached: false }
+      ]);
+    });
+
+    it('shifts warnings by pauses', () => {
+      const status = getSlaStatus(opened, 4, {
+        warnings: [50],
+        pauses: [{ start: localDate(2024, 1, 15, 16), end: localDate(2024, 1, 16, 10) }],
+        now: localDate(2024, 1, 15, 15)
+      });
+      expect(status.warnings[0].date).toEqual(localDate(2024, 1, 16, 11));
+    });
+
+    it('rejects invalid warning percentages', () => {
+      expect(() => getSlaStatus(opened, 4, { warnings: [0] })).toThrow('Invalid SLA warning percentage "0"');
+      expect(() => getSlaStatus(opened, 4, { warnings: [120] })).toThrow();
+    });
+  });
+});
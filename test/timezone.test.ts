@@ -15,7 +15,11 @@ import {
   getTimezoneAbbreviation,
   convertBetweenZones,
   getTimezoneDifferenceHours,
-  isSameTimezone
+  isSameTimezone,
+  zonedTimeToDate,
+  toFloatingTime,
+  fromFloatingTime,
+  startOfFloatingDay
 } from '../src/timezone';
 
 // Note: Timezone assertions can vary by environment; keep tests resilient
@@ -174,6 +178,36 @@ describe('timezone utilities', () => {
       expect(result).toEqual({ startUTC: 0, endUTC: 3.5 });
     });
 
+    it('uses per-zone working hours', () => {
+      const result = findCommonWorkingHours(
+        [
+          { timeZone: 'America/New_York', start: 8, end: 16 },
+          { timeZone: 'Europe/London', start: 10, end: 18 }
+        ],
+        9,
+        17,
+        new Date('2024-01-15T00:00:00Z')
+      );
+
+      expect(result).toEqual({ startUTC: 13, endUTC: 18 });
+    });
+
+    it('mixes zone names with per-zone working hours', () => {
+      const result = findCommonWorkingHours(
+        ['Europe/Berlin', { timeZone: 'Asia/Tokyo', end: 20 }],
+        9,
+        17,
+        new Date('2024-01-15T00:00:00Z')
+      );
+
+      // Berlin 08-16 UTC, Tokyo 00-11 UTC
+      expect(result).toEqual({ startUTC: 8, endUTC: 11 });
+    });
+
+    it('returns null when a zone has empty working hours', () => {
+      expect(findCommonWorkingHours(['UTC', { timeZone: 'UTC', start: 12, end: 12 }])).toBeNull();
+    });
+
   });
 
   describe('getTimezoneAbbreviation', () => {
@@ -223,4 +257,56 @@ describe('timezone utilities', () => {
       expect(isSameTimezone('Invalid/Zone', 'UTC')).toBeNull();
     });
   });
+
+  describe('convertDateToZone', () => {
+    it('reports midnight as hour 0', () => {
+      const parts = convertDateToZone(new Date('2024-03-10T05:00:00Z'), 'America/New_York');
+      expect(parts).toMatchObject({ year: 2024, month: 3, day: 10, hour: 0, minute: 0 });
+    });
+  });
+
+  describe('zonedTimeToDate', () => {
+    it('converts unambiguous wall-clock times', () => {
+      expect(zonedTimeToDate({ year: 2024, month: 1, day: 15, hour: 9 }, 'America/New_York'))
+        .toEqual(new Date('2024-01-15T14:00:00Z'));
+      expect(zonedTimeToDate({ year: 2024, month: 7, day: 15, hour: 9, minute: 30, millisecond: 5 }, 'Europe/London'))
+        .toEqual(new Date('2024-07-15T08:30:00.005Z'));
+    });
+
+    it('shifts times in a spring-forward gap by the gap length', () => {
+      expect(zonedTimeToDate({ year: 2024, month: 3, day: 10, hour: 2, minute: 30 }, 'America/New_York'))
+        .toEqual(new Date('2024-03-10T07:30:00Z')); // 03:30 EDT
+    });
+
+    it('resolves fall-back overlaps to the preferred instance', () => {
+      const time = { year: 2024, month: 11, day: 3, hour: 1, minute: 30 };
+      expect(zonedTimeToDate(time, 'America/New_York')).toEqual(new Date('2024-11-03T05:30:00Z'));
+      expect(zonedTimeToDate(time, 'America/New_York', 'later')).toEqual(new Date('2024-11-03T06:30:00Z'));
+    });
+
+    it('returns null for invalid timezone', () => {
+      expect(zonedTimeToDate({ year: 2024, month: 1, day: 1 }, 'Invalid/Zone')).toBeNull();
+    });
+  });
+
+  describe('floating time', () => {
+    it('reads and writes wall-clock times in a zone', () => {
+      const date = new Date('2024-07-15T08:30:00.005Z');
+      const floating = toFloatingTime(date, 'Europe/London');
+      expect(floating).toBe(Date.UTC(2024, 6, 15, 9, 30, 0, 5));
+      expect(fromFloatingTime(floating, 'Europe/London')).toEqual(date);
+      expect(startOfFloatingDay(floating)).toBe(Date.UTC(2024, 6, 15));
+    });
+
+    it('uses host local time without a zone', () => {
+      const date = new Date(2024, 0, 15, 9, 30);
+      expect(toFloatingTime(date)).toBe(Date.UTC(2024, 0, 15, 9, 30));
+      expect(fromFloatingTime(Date.UTC(2024, 0, 15, 9, 30))).toEqual(date);
+    });
+
+    it('throws for invalid timezone', () => {
+      expect(() => toFloatingTime(new Date(), 'Invalid/Zone')).toThrow('Invalid time zone');
+      expect(() => fromFloatingTime(0, 'Invalid/Zone')).toThrow('Invalid time zone');
+    });
+  });
 });
@@ -5,6 +5,7 @@ import {
   isWorkingTime,
   nextWorkingTime,
   workingTimeBetween,
+  getWorkingPeriods,
   addWorkingHours,
   addWorkingDays,
   subtractWorkingDays,
@@ -186,4 +187,181 @@ describe('working hours utilities', () => {
       expect(getWorkingHoursPerDay(customConfig)).toBe(8.5);
     });
   });
+
+  describe('timeZone', () => {
+    const london = { workingDays: [1, 2, 3, 4, 5], hours: { start: 9, end: 17 }, timeZone: 'Europe/London' };
+    const sydney = { workingDays: [1, 2, 3, 4, 5], hours: { start: 9, end: 17 }, timeZone: 'Australia/Sydney' };
+    const allDay = { workingDays: [0, 1, 2, 3, 4, 5, 6], hours: { start: 0, end: 24 }, timeZone: 'Europe/London' };
+
+    it('evaluates working time on the office clock', () => {
+      expect(isWorkingTime(new Date('2025-01-06T09:30:00Z'), london)).toBe(true);
+      // 08:30 UTC is 09:30 BST in July
+      expect(isWorkingTime(new Date('2025-07-07T08:30:00Z'), london)).toBe(true);
+      expect(isWorkingTime(new Date('2025-07-07T16:30:00Z'), london)).toBe(false);
+      // Sunday 22:30 UTC is Monday 09:30 in Sydney
+      expect(isWorkingDay(new Date('2025-01-05T22:30:00Z'), sydney)).toBe(true);
+      expect(isWorkingTime(new Date('2025-01-05T22:30:00Z'), sydney)).toBe(true);
+      expect(isWorkingTime(new Date('2025-01-06T06:30:00Z'), sydney)).toBe(false);
+    });
+
+    it('adds working hours and measures working time in the zone', () => {
+      // Friday 16:00 GMT plus 2 hours is Monday 10:00 GMT
+      expect(addWorkingHours(new Date('2025-01-10T16:00:00Z'), 2, london).toISOString()).toBe('2025-01-13T10:00:00.000Z');
+      expect(nextWorkingTime(new Date('2025-01-10T18:00:00Z'), sydney).toISOString()).toBe('2025-01-12T22:00:00.000Z');
+      expect(workingTimeBetween(new Date('2025-01-06T00:00:00Z'), new Date('2025-01-13T00:00:00Z'), london)).toBe(40 * 60 * 60 * 1000);
+    });
+
+    it('lists working periods in the zone, clipped to the range', () => {
+      const periods = getWorkingPeriods(new Date('2025-07-04T12:00:00Z'), new Date('2025-07-08T00:00:00Z'), {
+        ...london,
+        breaks: [{ start: 12, end: 13 }]
+      });
+      expect(periods.map(p => [p.start.toISOString(), p.end.toISOString()])).toEqual([
+        ['2025-07-04T12:00:00.000Z', '2025-07-04T16:00:00.000Z'],
+        ['2025-07-07T08:00:00.000Z', '2025-07-07T11:00:00.000Z'],
+        ['2025-07-07T12:00:00.000Z', '2025-07-07T16:00:00.000Z']
+      ]);
+      expect(getWorkingPeriods(new Date('2025-07-07T12:00:00Z'), new Date('2025-07-07T12:00:00Z'), london)).toEqual([]);
+    });
+
+    it('keeps wall-clock times when adding working days across DST changes', () => {
+      // 09:00 GMT on Friday becomes 09:00 BST on Monday
+      expect(addWorkingDays(new Date('2025-03-28T09:00:00Z'), 1, london).toISOString()).toBe('2025-03-31T08:00:00.000Z');
+      expect(getPreviousWorkingDay(new Date('2025-03-31T08:00:00Z'), london).toISOString()).toBe('2025-03-28T09:00:00.000Z');
+      expect(getWorkDayStart(new Date('2025-07-07T12:00:00Z'), london).toISOString()).toBe('2025-07-07T08:00:00.000Z');
+      expect(getWorkDayEnd(new Date('2025-07-07T12:00:00Z'), sydney).toISOString()).toBe('2025-07-07T07:00:00.000Z');
+    });
+
+    it('gives DST days their real length', () => {
+      expect(getWorkingHoursPerDay(allDay, new Date('2025-03-30T12:00:00Z'))).toBe(23);
+      expect(getWorkingHoursPerDay(allDay, new Date('2025-10-26T12:00:00Z'))).toBe(25);
+      expect(getWorkingHoursPerDay(allDay, new Date('2025-06-01T12:00:00Z'))).toBe(24);
+      expect(getWorkingHoursPerDay(london, new Date('2025-06-01T12:00:00Z'))).toBe(0);
+      expect(workingTimeBetween(getWorkDayStart(new Date('2025-10-26T12:00:00Z'), allDay), getWorkDayEnd(new Date('2025-10-26T12:00:00Z'), allDay), allDay))
+        .toBe(25 * 60 * 60 * 1000);
+      expect(addWorkingHours(new Date('2025-03-29T12:00:00Z'), 24, allDay).toISOString()).toBe('2025-03-30T12:00:00.000Z');
+    });
+
+    it('lists and counts working days on the office calendar', () => {
+      const days = getWorkingDaysInMonthArray(2025, 0, sydney);
+      expect(days[0].toISOString()).toBe('2024-12-31T13:00:00.000Z');
+      expect(getWorkingDaysInMonth(2025, 0, sydney)).toBe(23);
+      // Friday 23:00 UTC is Saturday in Sydney
+      expect(workingDaysBetween(new Date('2025-01-06T00:00:00Z'), new Date('2025-01-10T23:00:00Z'), sydney)).toBe(5);
+    });
+
+    it('throws for invalid zones', () => {
+      expect(() => isWorkingDay(new Date(), { ...london, timeZone: 'Not/AZone' })).toThrow('Invalid time zone');
+    });
+  });
+
+  describe('schedules and exceptions', () => {
+    const office = {
+      workingDays: [1, 2, 3, 4, 5],
+      hours: { start: 9, end: 17 },
+      breaks: [{ start: 12, end: 13 }],
+      timeZone: 'Europe/London',
+      schedule: {
+        5: [{ start: 9, end: '14:30' }],
+        6: [{ start: '09:30', end: '12:00' }]
+      },
+      exceptions: {
+        '2025-12-24': [{ start: 9, end: 12 }],
+        '2025-12-25': []
+      }
+    };
+    const retail = {
+      workingDays: [1, 2, 3, 4, 5],
+      hours: { start: 9, end: 17 },
+      timeZone: 'UTC',
+      schedule: { 2: [{ start: '08:00', end: '12:00' }, { start: '16:00', end: '20:00' }] }
+    };
+
+    it('uses per-weekday schedules', () => {
+      // Friday closes at 14:30, Saturday opens 09:30-12:00
+      expect(isWorkingTime(new Date('2025-01-10T14:00:00Z'), office)).toBe(true);
+      expect(isWorkingTime(new Date('2025-01-10T14:45:00Z'), office)).toBe(false);
+      expect(isWorkingDay(new Date('2025-01-11T10:00:00Z'), office)).toBe(true);
+      expect(isWorkingDay(new Date('2025-01-12T10:00:00Z'), office)).toBe(false);
+      expect(getWorkDayEnd(new Date('2025-01-10T10:00:00Z'), office).toISOString()).toBe('2025-01-10T14:30:00.000Z');
+      expect(getWorkDayStart(new Date('2025-01-11T10:00:00Z'), office).toISOString()).toBe('2025-01-11T09:30:00.000Z');
+      expect(getWorkingHoursPerDay(office, new Date('2025-01-10T10:00:00Z'))).toBe(4.5);
+      expect(getWorkingHoursPerDay(office, new Date('2025-01-11T10:00:00Z'))).toBe(2.5);
+      expect(getWorkingHoursPerDay(office, new Date('2025-01-13T10:00:00Z'))).toBe(7);
+    });
+
+    it('adds working hours across scheduled days', () => {
+      // Half an hour left on Friday, the rest on Saturday morning
+      expect(addWorkingHours(new Date('2025-01-10T14:00:00Z'), 1, office).toISOString()).toBe('2025-01-11T10:00:00.000Z');
+      expect(workingTimeBetween(new Date('2025-01-06T00:00:00Z'), new Date('2025-01-13T00:00:00Z'), office))
+        .toBe((4 * 7 + 4.5 + 2.5) * 60 * 60 * 1000);
+    });
+
+    it('supports split shifts', () => {
+      const tuesday = new Date('2025-01-07T00:00:00Z');
+      expect(isWorkingTime(new Date('2025-01-07T17:00:00Z'), retail)).toBe(true);
+      expect(isBreakTime(new Date('2025-01-07T14:00:00Z'), retail)).toBe(true);
+      expect(isBreakTime(new Date('2025-01-07T21:00:00Z'), retail)).toBe(false);
+      expect(workingTimeBetween(tuesday, new Date('2025-01-08T00:00:00Z'), retail)).toBe(8 * 60 * 60 * 1000);
+      expect(addWorkingHours(new Date('2025-01-07T11:00:00Z'), 2, retail).toISOString()).toBe('2025-01-07T17:00:00.000Z');
+      expect(getWorkDayEnd(tuesday, retail).toISOString()).toBe('2025-01-07T20:00:00.000Z');
+    });
+
+    it('applies date exceptions', () => {
+      expect(isWorkingDay(new Date('2025-12-25T10:00:00Z'), office)).toBe(false);
+      expect(getWorkDayEnd(new Date('2025-12-24T10:00:00Z'), office).toISOString()).toBe('2025-12-24T12:00:00.000Z');
+      expect(getWorkingHoursPerDay(office, new Date('2025-12-24T10:00:00Z'))).toBe(3);
+      expect(addWorkingDays(new Date('2025-12-24T09:00:00Z'), 1, office).toISOString()).toBe('2025-12-26T09:00:00.000Z');
+      expect(workingDaysBetween(new Date('2025-12-22T00:00:00Z'), new Date('2025-12-28T00:00:00Z'), office)).toBe(5);
+      expect(addWorkingHours(new Date('2025-12-24T11:00:00Z'), 2, office).toISOString()).toBe('2025-12-26T10:00:00.000Z');
+    });
+
+    it('keeps minute precision', () => {
+      const config = { workingDays: [1], hours: { start: 9, end: 17 }, timeZone: 'UTC', schedule: { 1: [{ start: '08:45', end: '17:20' }] } };
+      const monday = new Date('2025-01-06T00:00:00Z');
+      expect(getWorkDayStart(monday, config).toISOString()).toBe('2025-01-06T08:45:00.000Z');
+      expect(getWorkDayEnd(monday, config).toISOString()).toBe('2025-01-06T17:20:00.000Z');
+      expect(workingTimeBetween(monday, new Date('2025-01-07T00:00:00Z'), config)).toBe((8 * 60 + 35) * 60 * 1000);
+      expect(getWorkDayEnd(monday, { ...config, schedule: undefined, hours: { start: 9, end: 17 + 20 / 60 } }).toISOString())
+        .toBe('2025-01-06T17:20:00.000Z');
+    });
+
+    it('throws for invalid times', () => {
+      expect(() => isWorkingTime(new Date('2025-01-07T12:00:00Z'), { ...retail, schedule: { 2: [{ start: 'noon', end: '13:00' }] } }))
+        .toThrow('Invalid time "noon"');
+    });
+  });
+
+  describe('holiday calendars', () => {
+    const berlin = { workingDays: [1, 2, 3, 4, 5], hours: { start: 9, end: 17 }, timeZone: 'Europe/Berlin', country: 'DE' };
+
+    it('skips public holidays across year boundaries', () => {
+      expect(isWorkingDay(new Date('2024-12-25T10:00:00Z'), berlin)).toBe(false);
+      expect(isWorkingDay(new Date('2024-12-27T10:00:00Z'), berlin)).toBe(true);
+      // Tuesday 09:00 plus three working days skips Christmas and Boxing Day
+      expect(addWorkingDays(new Date('2024-12-24T08:00:00Z'), 3, berlin).toISOString()).toBe('2024-12-31T08:00:00.000Z');
+      expect(addWorkingDays(new Date('2024-12-31T08:00:00Z'), 1, berlin).toISOString()).toBe('2025-01-02T08:00:00.000Z');
+      expect(getPreviousWorkingDay(new Date('2025-01-02T08:00:00Z'), berlin).toISOString()).toBe('2024-12-31T08:00:00.000Z');
+      expect(workingDaysBetween(new Date('2024-12-23T12:00:00Z'), new Date('2025-01-03T12:00:00Z'), berlin)).toBe(7);
+    });
+
+    it('skips holidays when adding working hours', () => {
+      // 16:00 on Christmas Eve plus 2 hours is 10:00 on December 27 in Berlin
+      expect(addWorkingHours(new Date('2024-12-24T15:00:00Z'), 2, berlin).toISOString()).toBe('2024-12-27T09:00:00.000Z');
+      expect(workingTimeBetween(new Date('2024-12-23T00:00:00Z'), new Date('2024-12-28T00:00:00Z'), berlin)).toBe(3 * 8 * 60 * 60 * 1000);
+    });
+
+    it('honours subdivisions, combined calendars and exceptions', () => {
+      // Epiphany is a holiday in Bavaria
+      expect(isWorkingDay(new Date('2025-01-06T10:00:00Z'), berlin)).toBe(true);
+      expect(isWorkingDay(new Date('2025-01-06T10:00:00Z'), { ...berlin, subdivision: 'DE-BY' })).toBe(false);
+      // A Berlin team with colleagues in the US takes Memorial Day off too
+      expect(isWorkingDay(new Date('2025-05-26T10:00:00Z'), berlin)).toBe(true);
+      expect(isWorkingDay(new Date('2025-05-26T10:00:00Z'), { ...berlin, holidayCalendars: [{ country: 'US' }] })).toBe(false);
+      // Exceptions override holidays
+      const onCall = { ...berlin, exceptions: { '2024-12-25': [{ start: 10, end: 14 }] } };
+      expect(isWorkingTime(new Date('2024-12-25T10:00:00Z'), onCall)).toBe(true);
+      expect(getWorkingHoursPerDay(onCall, new Date('2024-12-25T10:00:00Z'))).toBe(4);
+    });
+  });
 });